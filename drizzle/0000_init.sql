@@ -0,0 +1,212 @@
+CREATE TABLE IF NOT EXISTS "analysis_cache" (
+	"content_hash" text NOT NULL,
+	"feature_fingerprint" text NOT NULL,
+	"response" jsonb NOT NULL,
+	"analysis" jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "analysis_cache_content_hash_feature_fingerprint_pk" PRIMARY KEY("content_hash","feature_fingerprint")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "feedback_events" (
+	"user_id" text NOT NULL,
+	"run_id" text NOT NULL,
+	"photo_id" text NOT NULL,
+	"action" text NOT NULL,
+	"scores" jsonb NOT NULL,
+	"interest" jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "feedback_events_user_id_run_id_photo_id_pk" PRIMARY KEY("user_id","run_id","photo_id")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "highlight_runs" (
+	"id" text PRIMARY KEY NOT NULL,
+	"feature_fingerprint" text NOT NULL,
+	"range_start" timestamp with time zone NOT NULL,
+	"range_end" timestamp with time zone NOT NULL,
+	"options" jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "highlight_selections" (
+	"run_id" text NOT NULL,
+	"position" integer NOT NULL,
+	"photo_id" text NOT NULL,
+	CONSTRAINT "highlight_selections_run_id_position_pk" PRIMARY KEY("run_id","position")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "learned_weights" (
+	"user_id" text PRIMARY KEY NOT NULL,
+	"weights" jsonb NOT NULL,
+	"interest" jsonb NOT NULL,
+	"sample_count" integer NOT NULL,
+	"trained_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "photo_analyses" (
+	"photo_id" text PRIMARY KEY NOT NULL,
+	"feature_fingerprint" text NOT NULL,
+	"content_hash" text NOT NULL,
+	"dimensions" jsonb NOT NULL,
+	"d_hash" text,
+	"p_hash" text,
+	"quality" jsonb NOT NULL,
+	"brightness" double precision NOT NULL,
+	"contrast" double precision NOT NULL,
+	"sharpness" double precision NOT NULL,
+	"web_detection" jsonb NOT NULL,
+	"safe_search" jsonb NOT NULL,
+	"analyzed_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "photo_colors" (
+	"photo_id" text NOT NULL,
+	"position" integer NOT NULL,
+	"red" double precision NOT NULL,
+	"green" double precision NOT NULL,
+	"blue" double precision NOT NULL,
+	"score" double precision NOT NULL,
+	"pixel_fraction" double precision NOT NULL,
+	CONSTRAINT "photo_colors_photo_id_position_pk" PRIMARY KEY("photo_id","position")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "photo_faces" (
+	"photo_id" text NOT NULL,
+	"position" integer NOT NULL,
+	"left" double precision NOT NULL,
+	"top" double precision NOT NULL,
+	"width" double precision NOT NULL,
+	"height" double precision NOT NULL,
+	"confidence" double precision NOT NULL,
+	"joy" double precision NOT NULL,
+	"sorrow" double precision NOT NULL,
+	"anger" double precision NOT NULL,
+	"surprise" double precision NOT NULL,
+	"blurred" boolean NOT NULL,
+	"headwear" boolean NOT NULL,
+	"landmarks" jsonb NOT NULL,
+	CONSTRAINT "photo_faces_photo_id_position_pk" PRIMARY KEY("photo_id","position")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "photo_labels" (
+	"photo_id" text NOT NULL,
+	"position" integer NOT NULL,
+	"description" text NOT NULL,
+	"score" double precision NOT NULL,
+	"topicality" double precision NOT NULL,
+	CONSTRAINT "photo_labels_photo_id_position_pk" PRIMARY KEY("photo_id","position")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "photo_landmarks" (
+	"photo_id" text NOT NULL,
+	"position" integer NOT NULL,
+	"name" text NOT NULL,
+	"score" double precision NOT NULL,
+	"left" double precision NOT NULL,
+	"top" double precision NOT NULL,
+	"width" double precision NOT NULL,
+	"height" double precision NOT NULL,
+	"locations" jsonb,
+	CONSTRAINT "photo_landmarks_photo_id_position_pk" PRIMARY KEY("photo_id","position")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "photo_scores" (
+	"run_id" text NOT NULL,
+	"photo_id" text NOT NULL,
+	"quality" double precision NOT NULL,
+	"interest" double precision NOT NULL,
+	"emotion" double precision NOT NULL,
+	"uniqueness" double precision NOT NULL,
+	"relevance" double precision NOT NULL,
+	"temporal" double precision NOT NULL,
+	"engagement" double precision DEFAULT 0 NOT NULL,
+	"final" double precision NOT NULL,
+	CONSTRAINT "photo_scores_run_id_photo_id_pk" PRIMARY KEY("run_id","photo_id")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "photos" (
+	"id" text PRIMARY KEY NOT NULL,
+	"content_hash" text NOT NULL,
+	"url" text NOT NULL,
+	"date_time" timestamp with time zone NOT NULL,
+	"title" text,
+	"description" text,
+	"latitude" double precision,
+	"longitude" double precision,
+	"tags" text[],
+	"camera" jsonb,
+	"burst_id" text,
+	"view_count" integer DEFAULT 0 NOT NULL,
+	"share_count" integer DEFAULT 0 NOT NULL,
+	"is_edited" boolean DEFAULT false NOT NULL,
+	"is_favorite" boolean DEFAULT false NOT NULL,
+	"last_viewed" timestamp with time zone,
+	"width" integer,
+	"height" integer,
+	"orientation" integer,
+	"source_name" text,
+	"source_ref" text,
+	"source_metadata" jsonb,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "highlight_selections" ADD CONSTRAINT "highlight_selections_run_id_highlight_runs_id_fk" FOREIGN KEY ("run_id") REFERENCES "public"."highlight_runs"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "highlight_selections" ADD CONSTRAINT "highlight_selections_photo_id_photos_id_fk" FOREIGN KEY ("photo_id") REFERENCES "public"."photos"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "photo_analyses" ADD CONSTRAINT "photo_analyses_photo_id_photos_id_fk" FOREIGN KEY ("photo_id") REFERENCES "public"."photos"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "photo_colors" ADD CONSTRAINT "photo_colors_photo_id_photo_analyses_photo_id_fk" FOREIGN KEY ("photo_id") REFERENCES "public"."photo_analyses"("photo_id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "photo_faces" ADD CONSTRAINT "photo_faces_photo_id_photo_analyses_photo_id_fk" FOREIGN KEY ("photo_id") REFERENCES "public"."photo_analyses"("photo_id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "photo_labels" ADD CONSTRAINT "photo_labels_photo_id_photo_analyses_photo_id_fk" FOREIGN KEY ("photo_id") REFERENCES "public"."photo_analyses"("photo_id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "photo_landmarks" ADD CONSTRAINT "photo_landmarks_photo_id_photo_analyses_photo_id_fk" FOREIGN KEY ("photo_id") REFERENCES "public"."photo_analyses"("photo_id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "photo_scores" ADD CONSTRAINT "photo_scores_run_id_highlight_runs_id_fk" FOREIGN KEY ("run_id") REFERENCES "public"."highlight_runs"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "photo_scores" ADD CONSTRAINT "photo_scores_photo_id_photos_id_fk" FOREIGN KEY ("photo_id") REFERENCES "public"."photos"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "highlight_runs_created_at_idx" ON "highlight_runs" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "photo_analyses_feature_fingerprint_idx" ON "photo_analyses" USING btree ("feature_fingerprint");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "photo_labels_description_idx" ON "photo_labels" USING btree ("description");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "photo_scores_photo_id_idx" ON "photo_scores" USING btree ("photo_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "photos_content_hash_idx" ON "photos" USING btree ("content_hash");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "photos_date_time_idx" ON "photos" USING btree ("date_time");
\ No newline at end of file
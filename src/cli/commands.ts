@@ -0,0 +1,578 @@
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
+import { type SelectionFlags, UsageError, parseDateFlag, parseNumberFlag, resolveHighlightOptions } from '@/cli/options'
+import {
+  type HighlightPersistence,
+  type PhotoSourceName,
+  createAnalysisCache,
+  createFeedbackStore,
+  createPhotoSource,
+  createVisionProvider
+} from '@/environment'
+import { loadSourcePhoto } from '@/images/source'
+import { trainWeights } from '@/lib/feedback/weight-trainer'
+import { GoogleVisionHighlightSelector } from '@/lib/highlighter/highlighter'
+import { formatLocalDate } from '@/lib/highlighter/on-this-day'
+import { applyExifMetadata } from '@/lib/image/photo-metadata'
+import type { LibraryChange, LibraryPhoto, PhotoLibrary } from '@/lib/library/photo-library'
+import { MemoriesJob } from '@/lib/memories/memories-job'
+import { FileSystemMemoryStore } from '@/lib/memories/memory-store'
+import { FileSystemPeopleStore } from '@/lib/people/people-store'
+import type {
+  AnnotationPipelineOptions,
+  EnhancedPhoto,
+  LearnedWeights,
+  Person,
+  PhotoExplanation,
+  PhotoSource,
+  QualityEngine,
+  StoredMemories,
+  VisionProvider
+} from '@/lib/types'
+
+export const EXIT_CODES = {
+  success: 0,
+  error: 1,
+  usage: 2,
+  // The command finished, but some photos failed
+  partialFailure: 3
+} as const
+
+export interface CommandContext {
+  library: PhotoLibrary
+  qualityEngine: QualityEngine
+  // Where analyzed photos and highlight runs are saved, e.g. Postgres; not saved without one
+  persistence?: HighlightPersistence
+}
+
+export interface CommandResult {
+  exitCode: number
+  // Printed with --json
+  data: unknown
+  // Printed otherwise
+  text: string
+}
+
+// Photos are loaded and analyzed in chunks to bound memory use
+const CHUNK_SIZE = 25
+
+// Manifest saves during ingestion, so an interrupted run keeps most of its progress
+const SAVE_INTERVAL = 100
+
+/**
+ * Stands in for the Vision provider in commands that only read cached analyses.
+ */
+const cacheOnlyProvider: VisionProvider = {
+  name: 'cache-only',
+  annotateImage: async () => {
+    throw new Error('Photo is not analyzed yet; run the analyze command first')
+  },
+  batchAnnotateImages: async () => {
+    throw new Error('Photos are not analyzed yet; run the analyze command first')
+  }
+}
+
+const createSelector = (context: CommandContext, visionProvider = cacheOnlyProvider, people: Person[] = []) =>
+  new GoogleVisionHighlightSelector(visionProvider, {
+    analysisCache: createAnalysisCache(path.join(context.library.directory, 'cache')),
+    qualityEngine: context.qualityEngine,
+    people
+  })
+
+// People with the names and merges made with the people command
+const createPeopleStore = (context: CommandContext) => new FileSystemPeopleStore(path.join(context.library.directory, 'people.json'))
+
+/**
+ * Opens the store of feedback and learned weights, `<library>/feedback` unless the environment configures another one.
+ */
+const createLibraryFeedbackStore = (context: CommandContext) => createFeedbackStore(path.join(context.library.directory, 'feedback'))
+
+/**
+ * Fills a selector with every analyzed photo in the library.
+ */
+const loadAnalyzedPhotos = async (context: CommandContext) => {
+  const selector = createSelector(context, cacheOnlyProvider, await createPeopleStore(context).load())
+  const restoreResult = await selector.restorePhotos(context.library.list())
+
+  if (restoreResult.missing.length > 0) {
+    console.warn(`${restoreResult.missing.length} photo(s) aren't analyzed yet and were left out; run the analyze command`)
+  }
+  if (restoreResult.restored.length === 0) {
+    throw new Error('No analyzed photos in the library; run the ingest and analyze commands first')
+  }
+
+  return { selector, photos: restoreResult.restored }
+}
+
+const formatScore = (score: number | undefined) => (score === undefined ? '-' : score.toFixed(3))
+
+/**
+ * Summarizes a highlight for output.
+ */
+const describeHighlight = (photo: EnhancedPhoto, record: LibraryPhoto | undefined, rank: number) => ({
+  rank,
+  id: photo.id,
+  title: photo.metadata.title,
+  dateTime: photo.dateTime.toISOString(),
+  file: record?.file,
+  scores: photo.scores,
+  place: photo.place,
+  burstMemberIds: photo.burst?.memberIds
+})
+
+const formatHighlights = (highlights: ReturnType<typeof describeHighlight>[]): string =>
+  highlights.length === 0
+    ? 'No photos matched the selection options'
+    : highlights
+        .map(
+          highlight =>
+            `${String(highlight.rank).padStart(3)}. ${highlight.dateTime}  score ${formatScore(highlight.scores?.final)}  ${highlight.id}${highlight.place ? `  (${highlight.place})` : ''}`
+        )
+        .join('\n')
+
+/**
+ * Copies photos from a source into the library. Nothing is sent to the Vision provider.
+ */
+export const ingestCommand = async (
+  context: CommandContext,
+  sourceName: PhotoSourceName,
+  sourceOptions: Parameters<typeof createPhotoSource>[1]
+): Promise<CommandResult> => {
+  const source: PhotoSource = createPhotoSource(sourceName, sourceOptions)
+  const counts: Record<LibraryChange, number> = { added: 0, updated: 0, unchanged: 0 }
+  const failed: Array<{ id: string; error: string }> = []
+
+  try {
+    let processed = 0
+    for await (const sourcePhoto of source.photos()) {
+      try {
+        const photo = applyExifMetadata(await loadSourcePhoto(sourcePhoto))
+        counts[await context.library.add(photo)]++
+      } catch (error) {
+        console.warn(`Failed to ingest ${sourcePhoto.id}:`, error.message)
+        failed.push({ id: sourcePhoto.id, error: error.message })
+      }
+
+      if (++processed % SAVE_INTERVAL === 0) await context.library.save()
+    }
+
+    await context.library.save()
+    // Incremental sources only move past photos once they're all safely stored
+    if (failed.length === 0) await source.commit?.()
+  } finally {
+    source.close?.()
+  }
+
+  return {
+    exitCode: failed.length > 0 ? EXIT_CODES.partialFailure : EXIT_CODES.success,
+    data: { source: sourceName, ...counts, failed },
+    text: [
+      `Ingested from ${sourceName}: ${counts.added} added, ${counts.updated} updated, ${counts.unchanged} unchanged`,
+      ...failed.map(failure => `  failed ${failure.id}: ${failure.error}`)
+    ].join('\n')
+  }
+}
+
+/**
+ * Analyzes library photos that have no cached analysis for the current feature set and quality engine.
+ */
+export const analyzeCommand = async (
+  context: CommandContext,
+  annotationOptions: Partial<AnnotationPipelineOptions>
+): Promise<CommandResult> => {
+  const selector = createSelector(context, createVisionProvider())
+  const restoreResult = await selector.restorePhotos(context.library.list())
+
+  let analyzed = 0
+  let duplicates = restoreResult.duplicates.length
+  const failed: Array<{ id: string; error: string; code?: string; attempts: number }> = []
+
+  const pending = restoreResult.missing as LibraryPhoto[]
+  for (let start = 0; start < pending.length; start += CHUNK_SIZE) {
+    const photos = await Promise.all(pending.slice(start, start + CHUNK_SIZE).map(record => context.library.loadPhoto(record)))
+    const result = await selector.addPhotos(photos, annotationOptions)
+    await context.persistence?.photos.saveAnalyzedPhotos(result.success, selector.featureFingerprint)
+
+    analyzed += result.success.length
+    duplicates += result.duplicates.length
+    failed.push(
+      ...result.failed.map(failure => ({
+        id: failure.photo.id,
+        error: failure.error.message,
+        code: failure.code,
+        attempts: failure.attempts
+      }))
+    )
+  }
+
+  return {
+    exitCode: failed.length > 0 ? EXIT_CODES.partialFailure : EXIT_CODES.success,
+    data: { analyzed, cached: restoreResult.restored.length, duplicates, failed },
+    text: [
+      `Analyzed ${analyzed} photo(s), ${restoreResult.restored.length} already analyzed, ${duplicates} duplicate(s) skipped`,
+      ...failed.map(failure => `  failed ${failure.id}: ${failure.code || failure.error} after ${failure.attempts} attempt(s)`)
+    ].join('\n')
+  }
+}
+
+/**
+ * Selects highlights among the analyzed photos in the library, and saves the run when persistence is configured.
+ */
+export const selectCommand = async (context: CommandContext, flags: SelectionFlags): Promise<CommandResult> => {
+  const { selector, photos } = await loadAnalyzedPhotos(context)
+  const options = await resolveHighlightOptions(flags, photos, createLibraryFeedbackStore(context))
+  // Explaining runs the same selection and also yields the scores of every photo, which runs keep
+  const explanation = await selector.explainSelection(options)
+  const highlights = explanation.highlights.map((photo, index) => describeHighlight(photo, context.library.get(photo.id), index + 1))
+
+  let runId: string | undefined
+  if (context.persistence) {
+    // Runs reference their photos, which may have been analyzed before the database was configured
+    await context.persistence.photos.saveAnalyzedPhotos(photos, selector.featureFingerprint)
+    const run = await context.persistence.runs.saveRun({
+      featureFingerprint: selector.featureFingerprint,
+      options,
+      scoredPhotos: explanation.photos,
+      highlights: explanation.highlights
+    })
+    runId = run.id
+  }
+
+  return {
+    exitCode: EXIT_CODES.success,
+    data: { options, highlights, ...(runId && { runId }) },
+    text: [formatHighlights(highlights), ...(runId ? [`Saved as run ${runId}`] : [])].join('\n')
+  }
+}
+
+const describeOutcome = (explanation: PhotoExplanation): string =>
+  explanation.selected
+    ? `selected as highlight #${explanation.rank}`
+    : `not selected: ${explanation.reason}${explanation.beatenBy ? ` (beaten by ${explanation.beatenBy})` : ''}`
+
+/**
+ * Explains the selection outcome of every analyzed photo, or of one photo with its analysis and sub-scores.
+ */
+export const explainCommand = async (
+  context: CommandContext,
+  photoId: string | undefined,
+  flags: SelectionFlags
+): Promise<CommandResult> => {
+  const { selector, photos } = await loadAnalyzedPhotos(context)
+  const options = await resolveHighlightOptions(flags, photos, createLibraryFeedbackStore(context))
+  const { photos: explanations, events } = await selector.explainSelection(options)
+
+  if (photoId === undefined) {
+    return {
+      exitCode: EXIT_CODES.success,
+      data: { options, events, photos: explanations },
+      text: explanations
+        .map(explanation => `${formatScore(explanation.scores.final)}  ${explanation.id}  ${describeOutcome(explanation)}`)
+        .join('\n')
+    }
+  }
+
+  const explanation = explanations.find(candidate => candidate.id === photoId)
+  const photo = selector.getPhoto(photoId)
+  if (!explanation || !photo) {
+    throw new Error(
+      context.library.get(photoId) ? `Photo ${photoId} isn't analyzed yet; run the analyze command` : `Photo ${photoId} not found`
+    )
+  }
+
+  const burst = selector.getBursts().find(candidate => candidate.memberIds.includes(photoId))
+  // Missing for burst members and photos left out before events were formed
+  const event = events.find(candidate => candidate.photoIds.includes(photoId))
+  const { analysis } = photo
+
+  const details = {
+    ...explanation,
+    title: photo.metadata.title,
+    dateTime: photo.dateTime.toISOString(),
+    quality: analysis.quality,
+    labels: analysis.labels.map(label => ({ description: label.description, score: label.score })),
+    faces: analysis.faces.length,
+    landmarks: analysis.landmarks.map(landmark => landmark.name),
+    burst: burst && { id: burst.id, memberIds: burst.memberIds, representative: burst.memberIds[0] === photoId },
+    event
+  }
+
+  const formatComponents = (components: Record<string, number>) =>
+    Object.entries(components)
+      .map(([name, score]) => `${name} ${formatScore(score)}`)
+      .join(', ')
+
+  return {
+    exitCode: EXIT_CODES.success,
+    data: details,
+    text: [
+      `${photo.id} (${details.title || 'untitled'}, ${details.dateTime})`,
+      describeOutcome(explanation).replace(/^./, letter => letter.toUpperCase()),
+      'Scores:',
+      ...Object.entries(explanation.scores).map(([name, score]) => `  ${name.padEnd(10)} ${formatScore(score)}`),
+      `  quality:    ${formatComponents(explanation.components.quality)}`,
+      `  interest:   ${formatComponents(explanation.components.interest)}`,
+      `  uniqueness: ${formatComponents(explanation.components.uniqueness)}`,
+      `  engagement: ${formatComponents(explanation.components.engagement)}`,
+      ...(explanation.components.viewRecencyPenalty > 0
+        ? [`  Viewed recently: final score reduced by ${formatScore(explanation.components.viewRecencyPenalty)}`]
+        : []),
+      ...(explanation.components.homeWeight < 1
+        ? [`  Taken at home: final score multiplied by ${formatScore(explanation.components.homeWeight)}`]
+        : []),
+      `Labels: ${details.labels.map(label => label.description).join(', ') || 'none'}`,
+      `Faces: ${details.faces}, landmarks: ${details.landmarks.join(', ') || 'none'}`,
+      ...(event
+        ? [
+            `Event: ${event.start.toISOString()} to ${event.end.toISOString()}, ${event.photoIds.length} photo(s), ${event.slots} slot(s); ${event.dominantLabels.join(', ') || 'no labels'}`
+          ]
+        : []),
+      ...(burst
+        ? [
+            details.burst?.representative
+              ? `Best frame of a ${burst.memberIds.length}-frame burst`
+              : `Frame of a burst represented by ${burst.memberIds[0]}`
+          ]
+        : [])
+    ].join('\n')
+  }
+}
+
+/**
+ * Selects highlights and copies their images, ranked, into a directory along with a highlights.json manifest.
+ */
+export const exportCommand = async (context: CommandContext, outputDir: string, flags: SelectionFlags): Promise<CommandResult> => {
+  const { selector, photos } = await loadAnalyzedPhotos(context)
+  const options = await resolveHighlightOptions(flags, photos, createLibraryFeedbackStore(context))
+  const highlights = await selector.selectHighlights(options)
+
+  await fs.mkdir(outputDir, { recursive: true })
+  const exported = await Promise.all(
+    highlights.map(async (photo, index) => {
+      const record = context.library.get(photo.id)
+      if (!record) throw new Error(`Photo ${photo.id} is missing from the library`)
+
+      const extension = path.extname(record.file)
+      const baseName = path.basename(photo.metadata.title || photo.id, path.extname(photo.metadata.title || ''))
+      // Rank prefixes keep the files in highlight order; unsafe characters are replaced
+      const fileName = `${String(index + 1).padStart(2, '0')}-${baseName.replace(/[^\w.-]+/g, '_')}${extension}`
+
+      await fs.copyFile(context.library.getImagePath(record), path.join(outputDir, fileName))
+      return { ...describeHighlight(photo, record, index + 1), file: fileName }
+    })
+  )
+
+  await fs.writeFile(path.join(outputDir, 'highlights.json'), JSON.stringify({ options, highlights: exported }, null, 2))
+
+  return {
+    exitCode: EXIT_CODES.success,
+    data: { outputDir, options, highlights: exported },
+    text: [`Exported ${exported.length} highlight(s) to ${outputDir}`, formatHighlights(exported)].join('\n')
+  }
+}
+
+/**
+ * Lists the homes inferred from the analyzed photos, and the trips away from them with their highlights.
+ * The limit applies per trip, and only trips overlapping the time range are listed.
+ */
+export const tripsCommand = async (context: CommandContext, flags: SelectionFlags): Promise<CommandResult> => {
+  const { selector, photos } = await loadAnalyzedPhotos(context)
+  const options = await resolveHighlightOptions(flags, photos, createLibraryFeedbackStore(context))
+  const homes = selector.getTrips().listHomes()
+  const trips = (await selector.selectTripHighlights(options)).map(({ trip, highlights }) => ({
+    ...trip,
+    highlights: highlights.map((photo, index) => describeHighlight(photo, context.library.get(photo.id), index + 1))
+  }))
+
+  return {
+    exitCode: EXIT_CODES.success,
+    data: { options, homes, trips },
+    text:
+      homes.length === 0
+        ? 'No home found; trips are detected once photos were taken in one place over a longer period'
+        : [
+            ...homes.map(
+              home =>
+                `Home: ${home.name || `${home.center.latitude.toFixed(3)}, ${home.center.longitude.toFixed(3)}`} (${home.activeDays} days, ${formatLocalDate(home.firstSeen)} to ${formatLocalDate(home.lastSeen)})`
+            ),
+            ...(trips.length === 0 ? ['No trips away from home'] : []),
+            ...trips.flatMap(trip => [
+              '',
+              `Trip ${formatLocalDate(trip.start)} to ${formatLocalDate(trip.end)}: ${trip.destinations.join('; ') || 'unnamed places'} (${trip.photoIds.length} photos, up to ${Math.round(trip.maxDistanceKm)} km from home)`,
+              formatHighlights(trip.highlights)
+            ])
+          ].join('\n')
+  }
+}
+
+export interface MemoriesFlags extends Omit<SelectionFlags, 'start' | 'end' | 'people-coverage' | 'home-weight'> {
+  date?: string
+  'window-days'?: string
+  schedule?: string
+  timezone?: string
+}
+
+const formatMemories = (memories: StoredMemories): string =>
+  memories.highlights.length === 0
+    ? `No memories for ${memories.date}`
+    : [
+        `Memories for ${memories.date} (±${memories.windowDays} days):`,
+        ...memories.highlights.map(
+          (highlight, index) =>
+            `${String(index + 1).padStart(3)}. ${highlight.year}  ${highlight.dateTime.toISOString()}  score ${formatScore(highlight.scores?.final)}  ${highlight.photoId}`
+        )
+      ].join('\n')
+
+/**
+ * Generates "on this day" memories into `<library>/memories`, once for a day or on a cron schedule until interrupted.
+ */
+export const memoriesCommand = async (context: CommandContext, flags: MemoriesFlags): Promise<CommandResult> => {
+  const date = parseDateFlag('date', flags.date)
+  if (date && flags.schedule) throw new UsageError('--date can only be used without --schedule')
+
+  const windowDays = parseNumberFlag('window-days', flags['window-days'])
+  if (windowDays !== undefined && (!Number.isInteger(windowDays) || windowDays < 0)) {
+    throw new UsageError(`--window-days must be a whole number of days, got "${flags['window-days']}"`)
+  }
+
+  const loaded = await loadAnalyzedPhotos(context)
+  const { timeRange, ...selection } = await resolveHighlightOptions(flags, loaded.photos, createLibraryFeedbackStore(context))
+
+  // The first run uses the photos loaded above; later scheduled runs reload the library to pick up new photos
+  let preloaded: GoogleVisionHighlightSelector | undefined = loaded.selector
+  const loadSelector = async () => {
+    const selector = preloaded
+    preloaded = undefined
+    if (selector) return selector
+
+    await context.library.load()
+    return (await loadAnalyzedPhotos(context)).selector
+  }
+
+  let job: MemoriesJob
+  try {
+    job = new MemoriesJob(loadSelector, new FileSystemMemoryStore(path.join(context.library.directory, 'memories')), {
+      schedule: flags.schedule,
+      timezone: flags.timezone,
+      selection: { ...selection, ...(windowDays !== undefined && { windowDays }) }
+    })
+  } catch (error) {
+    throw new UsageError(error.message)
+  }
+
+  if (!flags.schedule) {
+    // An explicit --date already names the calendar day, so it is not converted to --timezone
+    const memories = await job.run(date)
+    return { exitCode: EXIT_CODES.success, data: memories, text: formatMemories(memories) }
+  }
+
+  console.log(`Generating memories on schedule "${flags.schedule}"; press Ctrl+C to stop`)
+  job.start()
+  await new Promise(resolve => {
+    process.once('SIGINT', resolve)
+    process.once('SIGTERM', resolve)
+  })
+  job.stop()
+
+  return { exitCode: EXIT_CODES.success, data: { schedule: flags.schedule }, text: 'Stopped' }
+}
+
+const formatWeights = (weights: Record<string, number>) =>
+  Object.entries(weights)
+    .sort(([, a], [, b]) => b - a)
+    .map(([name, weight]) => `${name} ${formatScore(weight)}`)
+    .join(', ')
+
+/**
+ * Trains score weights on the feedback of one user, or of every user with feedback, and stores them.
+ * Users whose feedback doesn't contain both kept and hidden photos are skipped.
+ */
+export const trainCommand = async (context: CommandContext, userId: string | undefined): Promise<CommandResult> => {
+  const store = createLibraryFeedbackStore(context)
+  const userIds = userId === undefined ? await store.listUserIds() : [userId]
+
+  const trained: LearnedWeights[] = []
+  const skipped: Array<{ userId: string; error: string }> = []
+  for (const id of userIds) {
+    const events = await store.list(id)
+    let weights: LearnedWeights
+    try {
+      weights = trainWeights(id, events)
+    } catch (error) {
+      skipped.push({ userId: id, error: error.message })
+      continue
+    }
+
+    await store.saveWeights(weights)
+    trained.push(weights)
+  }
+
+  return {
+    exitCode: skipped.length > 0 ? EXIT_CODES.partialFailure : EXIT_CODES.success,
+    data: { trained, skipped },
+    text: [
+      `Trained weights for ${trained.length} user(s)`,
+      ...trained.flatMap(weights => [
+        `${weights.userId} (${weights.sampleCount} events)`,
+        `  weights:  ${formatWeights(weights.weights)}`,
+        `  interest: ${formatWeights(weights.interest)}`
+      ]),
+      ...skipped.map(({ userId: id, error }) => `Skipped ${id}: ${error}`)
+    ].join('\n')
+  }
+}
+
+const describePerson = (person: Person) => ({
+  id: person.id,
+  name: person.name,
+  faces: person.faces.length,
+  photos: new Set(person.faces.map(face => face.photoId)).size
+})
+
+/**
+ * Lists the people found across the analyzed photos, or names or merges them. Changes are kept in `<library>/people.json`.
+ * @param context - Library and quality engine
+ * @param args - Nothing to list people, `name <personId> <name>` or `merge <personId> <otherId>...`
+ */
+export const peopleCommand = async (context: CommandContext, args: string[]): Promise<CommandResult> => {
+  const [action, personId, ...rest] = args
+  if (action !== undefined && action !== 'name' && action !== 'merge') {
+    throw new UsageError(`Unknown people action: ${action}; use name or merge`)
+  }
+  if (action && (!personId || rest.length === 0)) {
+    throw new UsageError(action === 'name' ? 'people name expects <personId> <name>' : 'people merge expects <personId> <otherId>...')
+  }
+
+  const store = createPeopleStore(context)
+  const { selector } = await loadAnalyzedPhotos(context)
+  let changed: Person | undefined
+  try {
+    if (action === 'name') changed = selector.people.name(personId, rest.join(' '))
+    if (action === 'merge') changed = selector.people.merge(personId, rest)
+  } catch (error) {
+    throw new UsageError(error.message)
+  }
+  // Saved on every run, so people found in newly analyzed photos keep their IDs
+  await store.save(selector.people.toJSON())
+
+  const people = selector.people.list().map(describePerson)
+  if (changed) {
+    const person = describePerson(changed)
+    return {
+      exitCode: EXIT_CODES.success,
+      data: person,
+      text: `${action === 'name' ? 'Named' : 'Merged into'} ${person.id}${person.name ? ` (${person.name})` : ''}: ${person.photos} photo(s)`
+    }
+  }
+
+  return {
+    exitCode: EXIT_CODES.success,
+    data: { people },
+    text:
+      people.length === 0
+        ? 'No people found'
+        : people
+            .map(person => `${person.id}  ${(person.name || '-').padEnd(20)}  ${person.photos} photo(s), ${person.faces} face(s)`)
+            .join('\n')
+  }
+}
@@ -0,0 +1,256 @@
+import * as path from 'node:path'
+import { parseArgs } from 'node:util'
+import {
+  type CommandContext,
+  type CommandResult,
+  EXIT_CODES,
+  analyzeCommand,
+  explainCommand,
+  exportCommand,
+  ingestCommand,
+  memoriesCommand,
+  peopleCommand,
+  selectCommand,
+  trainCommand,
+  tripsCommand
+} from '@/cli/commands'
+import {
+  COMMON_OPTIONS,
+  MEMORIES_OPTIONS,
+  SELECTION_OPTIONS,
+  UsageError,
+  parseChoiceFlag,
+  parseGooglePhotosFilters,
+  parseNumberFlag,
+  parseQualityEngine
+} from '@/cli/options'
+import { closeDatabases } from '@/db'
+import { PHOTO_SOURCE_NAMES, createHighlightPersistence } from '@/environment'
+import { PhotoLibrary } from '@/lib/library/photo-library'
+
+const USAGE = `Usage: nostalgia <command> [options]
+
+Commands:
+  ingest --source <google|dropbox|local|takeout>   Copy photos from a source into the library
+      [--path <dir or zip>]...                     Directory for local; directories or zip files for takeout
+      [--folder <path>] [--cursor-file <file>]     Dropbox folder and incremental sync cursor
+      [--album <id>]                               Google Photos album
+      [--start <date>] [--end <date>]              Google Photos taken between these days, inclusive
+      [--category <name>]...                       Google Photos in any of these content categories, e.g. LANDSCAPES
+      [--exclude-category <name>]...               Google Photos in none of these content categories
+  analyze                                          Analyze library photos that aren't analyzed yet
+      [--batch-size <n>] [--concurrency <n>] [--requests-per-minute <n>] [--max-attempts <n>]
+  select                                           Select highlights among analyzed photos
+  explain [photoId]                                Show why each photo, or one photo, is or isn't selected
+  export --out <dir>                               Copy the selected highlights into a directory
+  trips                                            List homes, and trips away from them with their highlights
+  memories                                         Select photos from around today's date in earlier years
+      [--date <YYYY-MM-DD>] [--window-days <n>]    Day to remember (default today) and days around it (default 3)
+      [--schedule <cron>] [--timezone <zone>]      Keep running on a cron schedule; both use the zone's date
+  train [--user <id>]                              Train score weights on feedback, for one user or all of them
+  people                                           List the people recognized across analyzed photos
+  people name <personId> <name>                    Name a person
+  people merge <personId> <otherId>...             Merge people that are the same person
+
+Selection options (select, explain, export, trips; memories takes all but --start, --end, --people-coverage and --home-weight):
+  -c, --config <file>          JSON file with any highlight options; flags take precedence
+  -n, --limit <n>              Number of highlights (default 10)
+      --start <YYYY-MM-DD>     First day of the time range (default: oldest photo)
+      --end <YYYY-MM-DD>       Last day of the time range, inclusive (default: newest photo)
+      --min-quality <0-1>      Minimum quality score (default 0.6)
+      --preferred-types <a,b>  Labels to prefer, comma-separated
+      --weight <name=value>    Score weight (quality, interest, emotion, uniqueness, relevance, temporal, engagement); repeatable
+  -p, --profile <name|file>    Scoring profile: default, family, travel, events, or a JSON file with any subset of one
+  -u, --user <id>              Blend in the weights trained on this user's feedback
+      --people-coverage <n>    Show everyone appearing in at least n photos at least once
+      --with <person>          Only photos of this person, or of any of several; by ID or name, repeatable
+      --with-all <person>      Only photos showing every person given this way; repeatable
+      --without <person>       No photos of this person; repeatable
+      --home-weight <0-1>      Multiply the final scores of photos taken at home, e.g. 0.7 to favor trips and outings
+
+Feedback and learned weights are kept in <library>/feedback, or where FEEDBACK_DIR or DATABASE_URL point.
+
+Common options:
+  -l, --library <dir>          Library directory (default: $NOSTALGIA_LIBRARY or ./library)
+      --quality-engine <name>  pixel or vision (default pixel); must match the one used by analyze
+      --json                   Print machine-readable JSON to stdout; logs go to stderr
+  -h, --help                   Show this help
+
+Exit codes: 0 success, 1 error, 2 invalid usage, 3 finished but some photos failed`
+
+const COMMAND_OPTIONS = {
+  ingest: {
+    source: { type: 'string', short: 's' },
+    path: { type: 'string', multiple: true },
+    folder: { type: 'string' },
+    'cursor-file': { type: 'string' },
+    album: { type: 'string' },
+    start: { type: 'string' },
+    end: { type: 'string' },
+    category: { type: 'string', multiple: true },
+    'exclude-category': { type: 'string', multiple: true }
+  },
+  analyze: {
+    'batch-size': { type: 'string' },
+    concurrency: { type: 'string' },
+    'requests-per-minute': { type: 'string' },
+    'max-attempts': { type: 'string' }
+  },
+  select: SELECTION_OPTIONS,
+  explain: SELECTION_OPTIONS,
+  export: { ...SELECTION_OPTIONS, out: { type: 'string', short: 'o' } },
+  trips: SELECTION_OPTIONS,
+  memories: MEMORIES_OPTIONS,
+  train: { user: SELECTION_OPTIONS.user },
+  people: {}
+} as const
+
+type CommandName = keyof typeof COMMAND_OPTIONS
+
+// Flags of every command
+type CommandLineOptions = typeof COMMON_OPTIONS &
+  typeof COMMAND_OPTIONS.ingest &
+  typeof COMMAND_OPTIONS.analyze &
+  typeof COMMAND_OPTIONS.export &
+  typeof MEMORIES_OPTIONS
+type ParsedCommandLine = ReturnType<typeof parseArgs<{ options: CommandLineOptions; allowPositionals: true; strict: true }>>
+
+/**
+ * Runs a command that parsed successfully.
+ */
+const runCommand = async (
+  command: CommandName,
+  context: CommandContext,
+  values: ParsedCommandLine['values'],
+  positionals: string[]
+): Promise<CommandResult> => {
+  const expectPositionals = (count: number) => {
+    if (positionals.length !== count) {
+      throw new UsageError(`${command} expects ${count === 0 ? 'no' : count} positional argument(s)`)
+    }
+  }
+
+  switch (command) {
+    case 'ingest': {
+      expectPositionals(0)
+      const source = parseChoiceFlag('source', values.source, PHOTO_SOURCE_NAMES)
+      if (!source) throw new UsageError('ingest needs --source')
+      const googleFilters = parseGooglePhotosFilters(values)
+      if ((googleFilters || values.album) && source !== 'google') {
+        throw new UsageError('--album, --start, --end, --category and --exclude-category only apply to --source google')
+      }
+      if (values.album && (values.category || values['exclude-category'])) {
+        throw new UsageError('Google Photos albums cannot be filtered by content category')
+      }
+
+      return ingestCommand(context, source, {
+        paths: values.path,
+        folder: values.folder,
+        cursorFile: values['cursor-file'],
+        albumId: values.album,
+        googleFilters
+      })
+    }
+    case 'analyze':
+      expectPositionals(0)
+      return analyzeCommand(
+        context,
+        // Unset flags must not override the pipeline defaults with undefined
+        Object.fromEntries(
+          Object.entries({
+            batchSize: parseNumberFlag('batch-size', values['batch-size']),
+            concurrency: parseNumberFlag('concurrency', values.concurrency),
+            requestsPerMinute: parseNumberFlag('requests-per-minute', values['requests-per-minute']),
+            maxAttempts: parseNumberFlag('max-attempts', values['max-attempts'])
+          }).filter(([, value]) => value !== undefined)
+        )
+      )
+    case 'select':
+      expectPositionals(0)
+      return selectCommand(context, values)
+    case 'explain':
+      if (positionals.length > 1) throw new UsageError('explain expects at most one photo ID')
+      return explainCommand(context, positionals[0], values)
+    case 'export':
+      expectPositionals(0)
+      if (!values.out) throw new UsageError('export needs --out')
+      return exportCommand(context, values.out, values)
+    case 'trips':
+      expectPositionals(0)
+      return tripsCommand(context, values)
+    case 'memories':
+      expectPositionals(0)
+      return memoriesCommand(context, values)
+    case 'train':
+      expectPositionals(0)
+      return trainCommand(context, values.user)
+    case 'people':
+      return peopleCommand(context, positionals)
+  }
+}
+
+/**
+ * Runs the command line interface.
+ * @param argv - Arguments after the executable and script, e.g. `['select', '--limit', '5']`
+ * @returns Process exit code
+ */
+export const runCli = async (argv: string[]): Promise<number> => {
+  const [command, ...args] = argv
+  const json = args.includes('--json')
+  const log = console.log
+  // Progress logs go to stderr so stdout stays parseable
+  if (json) console.log = console.error
+
+  try {
+    if (!command || command === '--help' || command === '-h' || command === 'help') {
+      log(USAGE)
+      return command ? EXIT_CODES.success : EXIT_CODES.usage
+    }
+    if (!(command in COMMAND_OPTIONS)) {
+      throw new UsageError(`Unknown command: ${command}`)
+    }
+
+    const commandName = command as CommandName
+    let parsed: ParsedCommandLine
+    try {
+      parsed = parseArgs({
+        args,
+        // Typed as every command's flags, so values read for other commands are unset rather than untyped
+        options: { ...COMMON_OPTIONS, ...COMMAND_OPTIONS[commandName] } as CommandLineOptions,
+        allowPositionals: true,
+        strict: true
+      })
+    } catch (error) {
+      // parseArgs reports unknown or malformed flags as TypeErrors
+      throw new UsageError(error.message)
+    }
+
+    if (parsed.values.help) {
+      log(USAGE)
+      return EXIT_CODES.success
+    }
+
+    const library = new PhotoLibrary(path.resolve(parsed.values.library || process.env.NOSTALGIA_LIBRARY || './library'))
+    await library.load()
+
+    const result = await runCommand(
+      commandName,
+      { library, qualityEngine: parseQualityEngine(parsed.values['quality-engine']), persistence: createHighlightPersistence() },
+      parsed.values,
+      parsed.positionals
+    )
+    log(json ? JSON.stringify(result.data, null, 2) : result.text)
+    return result.exitCode
+  } catch (error) {
+    const usage = error instanceof UsageError
+    if (json) {
+      log(JSON.stringify({ error: error.message }, null, 2))
+    } else {
+      console.error(`Error: ${error.message}${usage ? '\nRun with --help for usage' : ''}`)
+    }
+    return usage ? EXIT_CODES.usage : EXIT_CODES.error
+  } finally {
+    console.log = log
+    await closeDatabases()
+  }
+}
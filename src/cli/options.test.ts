@@ -0,0 +1,105 @@
+import * as fs from 'node:fs/promises'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { UsageError, parseGooglePhotosFilters, resolveHighlightOptions } from '@/cli/options'
+import { createAnalyzedPhoto } from '@/test/fixtures'
+
+describe('parseGooglePhotosFilters', () => {
+  it('returns nothing without filter flags', () => {
+    expect(parseGooglePhotosFilters({})).toBeUndefined()
+  })
+
+  it('parses a date range of local days and content categories in any case', () => {
+    expect(
+      parseGooglePhotosFilters({
+        start: '2024-06-01',
+        end: '2024-06-30',
+        category: ['landscapes'],
+        'exclude-category': ['SCREENSHOTS']
+      })
+    ).toEqual({
+      dateRanges: [{ start: new Date(2024, 5, 1), end: new Date(2024, 5, 30) }],
+      includedContentCategories: ['LANDSCAPES'],
+      excludedContentCategories: ['SCREENSHOTS']
+    })
+  })
+
+  it('rejects incomplete or reversed ranges and unknown categories', () => {
+    expect(() => parseGooglePhotosFilters({ start: '2024-06-01' })).toThrow(UsageError)
+    expect(() => parseGooglePhotosFilters({ start: '2024-06-30', end: '2024-06-01' })).toThrow(UsageError)
+    expect(() => parseGooglePhotosFilters({ category: ['sunsets'] })).toThrow('--category must be one of')
+  })
+})
+
+describe('resolveHighlightOptions', () => {
+  const photos = [
+    createAnalyzedPhoto('first', { dateTime: new Date(2024, 0, 5, 9) }),
+    createAnalyzedPhoto('last', { dateTime: new Date(2024, 11, 31, 18) })
+  ]
+
+  it('defaults the time range to the span of the photos', async () => {
+    const options = await resolveHighlightOptions({}, photos)
+
+    expect(options.timeRange).toEqual({ start: new Date(2024, 0, 5, 9), end: new Date(2024, 11, 31, 18) })
+  })
+
+  it('reads range flags as local days, including the whole last day', async () => {
+    const options = await resolveHighlightOptions({ start: '2024-12-01', end: '2024-12-31' }, photos)
+
+    expect(options.timeRange).toEqual({ start: new Date(2024, 11, 1), end: new Date(2024, 11, 31, 23, 59, 59, 999) })
+  })
+
+  it('reads calendar days in the config file the same way', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'highlight-options-'))
+    const config = path.join(directory, 'config.json')
+    await fs.writeFile(config, JSON.stringify({ timeRange: { start: '2024-12-01', end: '2024-12-31' } }))
+
+    try {
+      const options = await resolveHighlightOptions({ config, end: '2024-12-15' }, photos)
+
+      expect(options.timeRange).toEqual({ start: new Date(2024, 11, 1), end: new Date(2024, 11, 15, 23, 59, 59, 999) })
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true })
+    }
+  })
+
+  it('rejects malformed dates and reversed ranges as usage errors', async () => {
+    await expect(resolveHighlightOptions({ start: '2024-13-01' }, photos)).rejects.toThrow('--start must be a date')
+    await expect(resolveHighlightOptions({ start: '2024-12-31', end: '2024-12-01' }, photos)).rejects.toThrow(UsageError)
+  })
+
+  it('takes a scoring profile by preset name or from a JSON file', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'highlight-options-'))
+    const profile = path.join(directory, 'profile.json')
+    await fs.writeFile(profile, JSON.stringify({ extends: 'family', weights: { temporal: 0 } }))
+
+    try {
+      expect((await resolveHighlightOptions({ profile: 'travel' }, photos)).profile?.name).toBe('travel')
+      expect((await resolveHighlightOptions({ profile }, photos)).profile).toMatchObject({
+        name: 'family (customized)',
+        weights: { emotion: 0.3, temporal: 0 }
+      })
+      await expect(resolveHighlightOptions({ profile: path.join(directory, 'missing.json') }, photos)).rejects.toThrow(UsageError)
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true })
+    }
+  })
+
+  it('replaces each person constraint of the config file given as a flag', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'highlight-options-'))
+    const config = path.join(directory, 'config.json')
+    await fs.writeFile(config, JSON.stringify({ people: { anyOf: ['Ada'], exclude: ['Grace'] } }))
+
+    try {
+      expect((await resolveHighlightOptions({ config, with: ['Alan'], 'with-all': ['Ada', 'Alan'] }, photos)).people).toEqual({
+        anyOf: ['Alan'],
+        allOf: ['Ada', 'Alan'],
+        exclude: ['Grace']
+      })
+      expect((await resolveHighlightOptions({ config }, photos)).people).toEqual({ anyOf: ['Ada'], exclude: ['Grace'] })
+      await expect(resolveHighlightOptions({ without: [' '] }, photos)).rejects.toThrow(UsageError)
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,274 @@
+import * as fs from 'node:fs/promises'
+import { CONTENT_CATEGORIES, type GooglePhotosFilters } from '@/images/getFromGoogle'
+import {
+  DEFAULT_HIGHLIGHT_OPTIONS,
+  getPhotoTimeRange,
+  highlightWeightsSchema,
+  parseHighlightOptions
+} from '@/lib/highlighter/highlight-options'
+import { SCORING_PRESETS } from '@/lib/highlighter/scoring-profile'
+import type { EnhancedPhoto, FeedbackStore, HighlightOptions, QualityEngine } from '@/lib/types'
+
+/**
+ * Raised for invalid command lines, which exit with a different code than runtime failures.
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UsageError'
+  }
+}
+
+export const COMMON_OPTIONS = {
+  library: { type: 'string', short: 'l' },
+  json: { type: 'boolean' },
+  'quality-engine': { type: 'string' },
+  help: { type: 'boolean', short: 'h' }
+} as const
+
+export const SELECTION_OPTIONS = {
+  config: { type: 'string', short: 'c' },
+  limit: { type: 'string', short: 'n' },
+  start: { type: 'string' },
+  end: { type: 'string' },
+  'min-quality': { type: 'string' },
+  'preferred-types': { type: 'string' },
+  weight: { type: 'string', multiple: true },
+  profile: { type: 'string', short: 'p' },
+  user: { type: 'string', short: 'u' },
+  'people-coverage': { type: 'string' },
+  with: { type: 'string', multiple: true },
+  'with-all': { type: 'string', multiple: true },
+  without: { type: 'string', multiple: true },
+  'home-weight': { type: 'string' }
+} as const
+
+// Selection options of the memories command; its time ranges come from the day instead
+export const MEMORIES_OPTIONS = {
+  config: SELECTION_OPTIONS.config,
+  limit: SELECTION_OPTIONS.limit,
+  'min-quality': SELECTION_OPTIONS['min-quality'],
+  'preferred-types': SELECTION_OPTIONS['preferred-types'],
+  weight: SELECTION_OPTIONS.weight,
+  profile: SELECTION_OPTIONS.profile,
+  user: SELECTION_OPTIONS.user,
+  with: SELECTION_OPTIONS.with,
+  'with-all': SELECTION_OPTIONS['with-all'],
+  without: SELECTION_OPTIONS.without,
+  date: { type: 'string' },
+  'window-days': { type: 'string' },
+  schedule: { type: 'string' },
+  timezone: { type: 'string' }
+} as const
+
+export interface SelectionFlags {
+  config?: string
+  limit?: string
+  start?: string
+  end?: string
+  'min-quality'?: string
+  'preferred-types'?: string
+  weight?: string[]
+  profile?: string
+  user?: string
+  'people-coverage'?: string
+  with?: string[]
+  'with-all'?: string[]
+  without?: string[]
+  'home-weight'?: string
+}
+
+/**
+ * Parses a numeric flag, rejecting anything that isn't a finite number.
+ */
+export const parseNumberFlag = (name: string, value: string | undefined): number | undefined => {
+  if (value === undefined) return undefined
+
+  const parsed = Number(value)
+  if (value.trim() === '' || !Number.isFinite(parsed)) {
+    throw new UsageError(`--${name} must be a number, got "${value}"`)
+  }
+  return parsed
+}
+
+/**
+ * Parses a calendar date flag like 2024-07-14 as local midnight.
+ */
+export const parseDateFlag = (name: string, value: string | undefined): Date | undefined => {
+  if (value === undefined) return undefined
+
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value)
+  const date = match && new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+  if (!match || !date || date.getMonth() !== Number(match[2]) - 1 || date.getDate() !== Number(match[3])) {
+    throw new UsageError(`--${name} must be a date like 2024-07-14, got "${value}"`)
+  }
+  return date
+}
+
+/**
+ * Moves a date to the last millisecond of its local day, so a range ending on it includes the whole day.
+ */
+const endOfDay = (date: Date | undefined): Date | undefined =>
+  date && new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999)
+
+/**
+ * Parses a flag that accepts one of a fixed set of values.
+ */
+export const parseChoiceFlag = <T extends string>(name: string, value: string | undefined, choices: readonly T[]): T | undefined => {
+  if (value === undefined) return undefined
+
+  if (!choices.includes(value as T)) {
+    throw new UsageError(`--${name} must be one of ${choices.join(', ')}, got "${value}"`)
+  }
+  return value as T
+}
+
+/**
+ * Parses the Google Photos filter flags of the ingest command: a date range and content categories to include or exclude.
+ * @returns Filters, or undefined when no filter flag is set
+ */
+export const parseGooglePhotosFilters = (flags: {
+  start?: string
+  end?: string
+  category?: string[]
+  'exclude-category'?: string[]
+}): GooglePhotosFilters | undefined => {
+  const start = parseDateFlag('start', flags.start)
+  const end = parseDateFlag('end', flags.end)
+  // The API only accepts ranges with both ends
+  if ((start === undefined) !== (end === undefined)) throw new UsageError('--start and --end must be given together')
+  if (start && end && start > end) throw new UsageError('--start must not be after --end')
+
+  const parseCategories = (name: string, values: string[] | undefined) =>
+    values?.map(value => parseChoiceFlag(name, value.toUpperCase(), CONTENT_CATEGORIES) as string)
+  const includedContentCategories = parseCategories('category', flags.category)
+  const excludedContentCategories = parseCategories('exclude-category', flags['exclude-category'])
+
+  if (!start && !includedContentCategories && !excludedContentCategories) return undefined
+  return {
+    ...(start && end && { dateRanges: [{ start, end }] }),
+    ...(includedContentCategories && { includedContentCategories }),
+    ...(excludedContentCategories && { excludedContentCategories })
+  }
+}
+
+export const parseQualityEngine = (value: string | undefined): QualityEngine =>
+  parseChoiceFlag('quality-engine', value, ['pixel', 'vision'] as const) || 'pixel'
+
+/**
+ * Parses `--weight name=value` flags into highlight weights.
+ */
+const parseWeightFlags = (flags: string[] | undefined): HighlightOptions['weights'] => {
+  if (!flags?.length) return undefined
+
+  const weights = Object.fromEntries(
+    flags.map(flag => {
+      const [name, value, ...rest] = flag.split('=')
+      if (!name || value === undefined || rest.length > 0) {
+        throw new UsageError(`--weight must look like name=value, got "${flag}"`)
+      }
+      return [name, parseNumberFlag(`weight ${name}`, value)]
+    })
+  )
+
+  const result = highlightWeightsSchema.safeParse(weights)
+  if (!result.success) {
+    throw new UsageError(`Invalid --weight: ${result.error.issues.map(issue => issue.message).join('; ')}`)
+  }
+  return result.data
+}
+
+/**
+ * Reads a JSON object from a file, e.g. highlight options or a scoring profile.
+ */
+const readJsonObject = async (kind: string, filePath: string): Promise<Record<string, unknown>> => {
+  let contents: string
+  try {
+    contents = await fs.readFile(filePath, 'utf8')
+  } catch (error) {
+    throw new UsageError(`Cannot read ${kind} ${filePath}: ${error.message}`)
+  }
+
+  try {
+    const json = JSON.parse(contents)
+    if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+      throw new Error('expected an object')
+    }
+    return json
+  } catch (error) {
+    throw new UsageError(`Invalid ${kind} ${filePath}: ${error.message}`)
+  }
+}
+
+/**
+ * Combines defaults, the config file and flags (in increasing precedence) into validated highlight options.
+ * Without an explicit time range, the range spanned by the photos is used. With `--user`, the weights trained on the
+ * user's feedback are blended in.
+ * @param flags - Selection flags from the command line
+ * @param photos - Photos that will be selected from
+ * @param feedbackStore - Store of learned weights, needed for `--user`
+ * @returns Validated highlight options
+ */
+export const resolveHighlightOptions = async (
+  flags: SelectionFlags,
+  photos: EnhancedPhoto[],
+  feedbackStore?: FeedbackStore
+): Promise<HighlightOptions> => {
+  const config = flags.config ? await readJsonObject('config file', flags.config) : {}
+  const configTimeRange = (config.timeRange || {}) as Partial<Record<'start' | 'end', unknown>>
+  const photoTimeRange = getPhotoTimeRange(photos)
+
+  const candidate = {
+    ...DEFAULT_HIGHLIGHT_OPTIONS,
+    ...config,
+    // Flags name local days, and the range ends with the whole last day
+    timeRange: {
+      start: parseDateFlag('start', flags.start) ?? configTimeRange.start ?? photoTimeRange.start,
+      end: endOfDay(parseDateFlag('end', flags.end)) ?? configTimeRange.end ?? photoTimeRange.end
+    },
+    ...(flags.limit !== undefined && { limit: parseNumberFlag('limit', flags.limit) }),
+    ...(flags['min-quality'] !== undefined && { minQuality: parseNumberFlag('min-quality', flags['min-quality']) }),
+    ...(flags['preferred-types'] !== undefined && {
+      preferredTypes: flags['preferred-types']
+        .split(',')
+        .map(type => type.trim())
+        .filter(Boolean)
+    }),
+    ...(flags['people-coverage'] !== undefined && {
+      peopleCoverage: { minPhotos: parseNumberFlag('people-coverage', flags['people-coverage']) }
+    }),
+    // Each flag replaces the same constraint of the config file
+    ...((flags.with || flags['with-all'] || flags.without) && {
+      people: {
+        ...(config.people as object),
+        ...(flags.with && { anyOf: flags.with }),
+        ...(flags['with-all'] && { allOf: flags['with-all'] }),
+        ...(flags.without && { exclude: flags.without })
+      }
+    }),
+    ...(flags['home-weight'] !== undefined && { homePhotoWeight: parseNumberFlag('home-weight', flags['home-weight']) }),
+    ...(flags.weight && { weights: { ...(config.weights as object), ...parseWeightFlags(flags.weight) } }),
+    // A preset name, or a JSON file with any subset of a profile
+    ...(flags.profile !== undefined && {
+      profile: Object.keys(SCORING_PRESETS).includes(flags.profile)
+        ? flags.profile
+        : await readJsonObject('scoring profile', flags.profile)
+    })
+  }
+
+  let options: HighlightOptions
+  try {
+    options = parseHighlightOptions(candidate)
+  } catch (error) {
+    throw new UsageError(error.message)
+  }
+
+  if (flags.user === undefined) return options
+
+  const learnedWeights = await feedbackStore?.getWeights(flags.user)
+  if (!learnedWeights) {
+    console.warn(`No weights trained for user ${flags.user} yet; run the train command`)
+    return options
+  }
+  return { ...options, learnedWeights }
+}
@@ -0,0 +1,27 @@
+import { FeedbackRepository } from '@/db/feedback-repository'
+import { createTestDatabase } from '@/test/database'
+import { createFeedbackEvent, describeFeedbackStore } from '@/test/feedback-store'
+
+describe('FeedbackRepository', () => {
+  let database: Awaited<ReturnType<typeof createTestDatabase>>
+
+  // Starting Postgres in WebAssembly and migrating takes a few seconds
+  beforeAll(async () => {
+    database = await createTestDatabase()
+  }, 30_000)
+  afterAll(() => database.close())
+  beforeEach(() => database.truncate())
+
+  describeFeedbackStore(async () => new FeedbackRepository(database.db))
+
+  it('writes only the latest of several events for a photo in one batch', async () => {
+    const repository = new FeedbackRepository(database.db)
+
+    await repository.record([
+      createFeedbackEvent('ada', 'beach', 'keep', new Date(2024, 5, 1)),
+      createFeedbackEvent('ada', 'beach', 'hide', new Date(2024, 5, 2))
+    ])
+
+    expect((await repository.list('ada')).map(event => event.action)).toEqual(['hide'])
+  })
+})
@@ -0,0 +1,61 @@
+import type { Database } from '@/db'
+import { feedbackEvents, learnedWeights } from '@/db/schema'
+import type { FeedbackEvent, FeedbackStore, LearnedWeights } from '@/lib/types'
+import { asc, eq, sql } from 'drizzle-orm'
+
+// Rows written per statement, keeping the number of bind parameters well below Postgres' limit of 65535
+const WRITE_CHUNK_SIZE = 1000
+
+/**
+ * Stores feedback events and the weights trained from them in Postgres.
+ */
+export class FeedbackRepository implements FeedbackStore {
+  constructor(private readonly db: Database) {}
+
+  public async record(events: FeedbackEvent[]): Promise<void> {
+    // One upsert can't touch a row twice, so only the latest event per user, run and photo is written
+    const latest = [...new Map(events.map(event => [JSON.stringify([event.userId, event.runId, event.photoId]), event])).values()]
+
+    for (let start = 0; start < latest.length; start += WRITE_CHUNK_SIZE) {
+      await this.db
+        .insert(feedbackEvents)
+        .values(latest.slice(start, start + WRITE_CHUNK_SIZE))
+        .onConflictDoUpdate({
+          target: [feedbackEvents.userId, feedbackEvents.runId, feedbackEvents.photoId],
+          set: {
+            action: sql.raw('excluded."action"'),
+            scores: sql.raw('excluded."scores"'),
+            interest: sql.raw('excluded."interest"'),
+            createdAt: sql.raw('excluded."created_at"')
+          }
+        })
+    }
+  }
+
+  public async list(userId: string): Promise<FeedbackEvent[]> {
+    return this.db.select().from(feedbackEvents).where(eq(feedbackEvents.userId, userId)).orderBy(asc(feedbackEvents.createdAt))
+  }
+
+  public async listUserIds(): Promise<string[]> {
+    const rows = await this.db
+      .selectDistinct({ userId: feedbackEvents.userId })
+      .from(feedbackEvents)
+      .orderBy(asc(feedbackEvents.userId))
+    return rows.map(row => row.userId)
+  }
+
+  public async saveWeights(weights: LearnedWeights): Promise<void> {
+    await this.db
+      .insert(learnedWeights)
+      .values(weights)
+      .onConflictDoUpdate({
+        target: learnedWeights.userId,
+        set: { weights: weights.weights, interest: weights.interest, sampleCount: weights.sampleCount, trainedAt: weights.trainedAt }
+      })
+  }
+
+  public async getWeights(userId: string): Promise<LearnedWeights | undefined> {
+    const [row] = await this.db.select().from(learnedWeights).where(eq(learnedWeights.userId, userId)).limit(1)
+    return row
+  }
+}
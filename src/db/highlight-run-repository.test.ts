@@ -0,0 +1,85 @@
+import { HighlightRunRepository } from '@/db/highlight-run-repository'
+import { PhotoRepository } from '@/db/photo-repository'
+import type { HighlightOptions, PhotoScores } from '@/lib/types'
+import { createTestDatabase } from '@/test/database'
+import { createAnalyzedPhoto } from '@/test/fixtures'
+
+const scores = (final: number): PhotoScores => ({
+  quality: 0.8,
+  interest: 0.5,
+  emotion: 0.4,
+  uniqueness: 0.6,
+  relevance: 0.3,
+  temporal: 0.9,
+  engagement: 0.1,
+  final
+})
+
+const OPTIONS: HighlightOptions = {
+  limit: 2,
+  minQuality: 0.5,
+  preferredTypes: ['Beach'],
+  timeRange: { start: new Date('2024-01-01T00:00:00Z'), end: new Date('2024-12-31T23:59:59Z') }
+}
+
+describe('HighlightRunRepository', () => {
+  let database: Awaited<ReturnType<typeof createTestDatabase>>
+  let runs: HighlightRunRepository
+
+  // Starting Postgres in WebAssembly and migrating takes a few seconds
+  beforeAll(async () => {
+    database = await createTestDatabase()
+    runs = new HighlightRunRepository(database.db)
+  }, 30_000)
+  afterAll(() => database.close())
+
+  beforeEach(async () => {
+    await database.truncate()
+    const photos = ['a', 'b', 'c'].map(id => createAnalyzedPhoto(id))
+    await new PhotoRepository(database.db).saveAnalyzedPhotos(photos, 'features-v1')
+  })
+
+  const saveRun = (id?: string) =>
+    runs.saveRun({
+      id,
+      featureFingerprint: 'features-v1',
+      options: OPTIONS,
+      scoredPhotos: [
+        { id: 'a', scores: scores(0.9) },
+        { id: 'b', scores: scores(0.7) },
+        { id: 'c', scores: scores(0.2) }
+      ],
+      highlights: [
+        { id: 'a', scores: scores(0.9) },
+        { id: 'b', scores: scores(0.7) }
+      ]
+    })
+
+  it('stores the options, the scores of every photo and the highlights in rank order', async () => {
+    const saved = await saveRun()
+
+    expect(await runs.getRun(saved.id)).toEqual(saved)
+    expect(saved.highlights).toEqual([
+      { photoId: 'a', scores: scores(0.9) },
+      { photoId: 'b', scores: scores(0.7) }
+    ])
+    expect((await runs.getScores(saved.id)).get('c')).toEqual(scores(0.2))
+  })
+
+  it('keeps the ID a run is already known by', async () => {
+    await saveRun('api-run-1')
+
+    expect((await runs.getRun('api-run-1'))?.options).toEqual(OPTIONS)
+  })
+
+  it('lists recent runs and deletes them with their scores', async () => {
+    const first = await saveRun()
+    const second = await saveRun()
+
+    expect((await runs.listRuns()).map(run => run.id).sort()).toEqual([first.id, second.id].sort())
+    expect(await runs.deleteRun(first.id)).toBe(true)
+    expect(await runs.deleteRun(first.id)).toBe(false)
+    expect((await runs.getScores(first.id)).size).toBe(0)
+    expect(await runs.getRun(first.id)).toBeUndefined()
+  })
+})
@@ -0,0 +1,162 @@
+import type { Database } from '@/db'
+import { highlightRuns, highlightSelections, photoScores } from '@/db/schema'
+import type { EnhancedPhoto, HighlightOptions, PhotoScores } from '@/lib/types'
+import { and, asc, desc, eq } from 'drizzle-orm'
+import { nanoid } from 'nanoid'
+
+// Rows written per statement, keeping the number of bind parameters well below Postgres' limit of 65535
+const WRITE_CHUNK_SIZE = 1000
+
+/**
+ * A stored highlight selection.
+ */
+export interface HighlightRun {
+  id: string
+  createdAt: Date
+  featureFingerprint: string
+  options: HighlightOptions
+  // Selected photos in rank order, with the scores they were selected with
+  highlights: Array<{ photoId: string; scores?: PhotoScores }>
+}
+
+type HighlightRunRow = typeof highlightRuns.$inferSelect
+
+// Picks the score columns, dropping run and photo IDs from stored rows
+const toScores = (scores: PhotoScores): PhotoScores => ({
+  quality: scores.quality,
+  interest: scores.interest,
+  emotion: scores.emotion,
+  uniqueness: scores.uniqueness,
+  relevance: scores.relevance,
+  temporal: scores.temporal,
+  engagement: scores.engagement,
+  final: scores.final
+})
+
+const toOptions = (row: HighlightRunRow): HighlightOptions => ({
+  ...row.options,
+  timeRange: { start: row.rangeStart, end: row.rangeEnd }
+})
+
+/**
+ * Stores highlight runs: the options of each selection, the scores of every photo it considered and the ordered
+ * highlights. Photos must be saved through `PhotoRepository` before runs that reference them.
+ */
+export class HighlightRunRepository {
+  constructor(private readonly db: Database) {}
+
+  /**
+   * Saves a highlight run in one transaction.
+   * @param run - Options and feature fingerprint of the selection, the scored pool and the selected photos in rank order,
+   * and optionally the ID the run is already known by, e.g. to the API's feedback endpoint
+   * @returns The stored run
+   */
+  public async saveRun(run: {
+    id?: string
+    featureFingerprint: string
+    options: HighlightOptions
+    scoredPhotos: Array<Pick<EnhancedPhoto, 'id' | 'scores'>>
+    highlights: Array<Pick<EnhancedPhoto, 'id' | 'scores'>>
+  }): Promise<HighlightRun> {
+    const { timeRange, ...options } = run.options
+    const id = run.id || nanoid()
+    const createdAt = new Date()
+
+    const scoreRows = run.scoredPhotos.flatMap(photo =>
+      photo.scores ? [{ runId: id, photoId: photo.id, ...toScores(photo.scores) }] : []
+    )
+    const selectionRows = run.highlights.map((photo, position) => ({ runId: id, position, photoId: photo.id }))
+
+    await this.db.transaction(async tx => {
+      await tx.insert(highlightRuns).values({
+        id,
+        featureFingerprint: run.featureFingerprint,
+        rangeStart: timeRange.start,
+        rangeEnd: timeRange.end,
+        options,
+        createdAt
+      })
+      for (let start = 0; start < scoreRows.length; start += WRITE_CHUNK_SIZE) {
+        await tx.insert(photoScores).values(scoreRows.slice(start, start + WRITE_CHUNK_SIZE))
+      }
+      if (selectionRows.length > 0) {
+        await tx.insert(highlightSelections).values(selectionRows)
+      }
+    })
+
+    return {
+      id,
+      createdAt,
+      featureFingerprint: run.featureFingerprint,
+      options: run.options,
+      highlights: run.highlights.map(photo => ({ photoId: photo.id, scores: photo.scores && toScores(photo.scores) }))
+    }
+  }
+
+  /**
+   * Looks up a run with its highlights.
+   * @param id - Run ID
+   * @returns The run, or undefined if it doesn't exist
+   */
+  public async getRun(id: string): Promise<HighlightRun | undefined> {
+    const [row] = await this.db.select().from(highlightRuns).where(eq(highlightRuns.id, id)).limit(1)
+    if (!row) return undefined
+
+    const selections = await this.db
+      .select({ photoId: highlightSelections.photoId, scores: photoScores })
+      .from(highlightSelections)
+      .leftJoin(
+        photoScores,
+        and(eq(photoScores.runId, highlightSelections.runId), eq(photoScores.photoId, highlightSelections.photoId))
+      )
+      .where(eq(highlightSelections.runId, id))
+      .orderBy(asc(highlightSelections.position))
+
+    return {
+      id: row.id,
+      createdAt: row.createdAt,
+      featureFingerprint: row.featureFingerprint,
+      options: toOptions(row),
+      highlights: selections.map(selection => ({
+        photoId: selection.photoId,
+        scores: selection.scores ? toScores(selection.scores) : undefined
+      }))
+    }
+  }
+
+  /**
+   * Lists the most recent runs without their highlights.
+   * @param limit - Maximum number of runs
+   * @returns Runs, newest first
+   */
+  public async listRuns(limit = 20): Promise<Array<Omit<HighlightRun, 'highlights'>>> {
+    const rows = await this.db.select().from(highlightRuns).orderBy(desc(highlightRuns.createdAt)).limit(limit)
+
+    return rows.map(row => ({
+      id: row.id,
+      createdAt: row.createdAt,
+      featureFingerprint: row.featureFingerprint,
+      options: toOptions(row)
+    }))
+  }
+
+  /**
+   * Reads the scores of every photo a run considered.
+   * @param id - Run ID
+   * @returns Scores by photo ID
+   */
+  public async getScores(id: string): Promise<Map<string, PhotoScores>> {
+    const rows = await this.db.select().from(photoScores).where(eq(photoScores.runId, id))
+    return new Map(rows.map(row => [row.photoId, toScores(row)]))
+  }
+
+  /**
+   * Deletes a run with its scores and highlights.
+   * @param id - Run ID
+   * @returns Whether the run existed
+   */
+  public async deleteRun(id: string): Promise<boolean> {
+    const removed = await this.db.delete(highlightRuns).where(eq(highlightRuns.id, id)).returning({ id: highlightRuns.id })
+    return removed.length > 0
+  }
+}
@@ -0,0 +1,32 @@
+import * as schema from '@/db/schema'
+import { type NodePgDatabase, drizzle } from 'drizzle-orm/node-postgres'
+import { Pool } from 'pg'
+
+export type Database = NodePgDatabase<typeof schema>
+
+/** One pool per connection string, shared by every store in the process. */
+const pools = new Map<string, Pool>()
+
+/**
+ * Creates a drizzle database backed by the process-wide pg connection pool for the connection string. Idle
+ * connections do not keep the process alive.
+ * @param connectionString - Postgres connection string
+ * @returns Database instance with the Nostalgia schema
+ */
+export const createDatabase = (connectionString: string): Database => {
+  let pool = pools.get(connectionString)
+  if (!pool) {
+    pool = new Pool({ connectionString, allowExitOnIdle: true })
+    pools.set(connectionString, pool)
+  }
+  return drizzle(pool, { schema })
+}
+
+/**
+ * Closes every connection pool opened by createDatabase.
+ */
+export const closeDatabases = async (): Promise<void> => {
+  const open = [...pools.values()]
+  pools.clear()
+  await Promise.all(open.map(pool => pool.end()))
+}
@@ -0,0 +1,99 @@
+import { PhotoRepository } from '@/db/photo-repository'
+import { GoogleVisionHighlightSelector } from '@/lib/highlighter/highlighter'
+import { createTestDatabase } from '@/test/database'
+import { createAnalyzedPhoto, createFace, createStubVisionProvider } from '@/test/fixtures'
+
+describe('PhotoRepository', () => {
+  let database: Awaited<ReturnType<typeof createTestDatabase>>
+  let repository: PhotoRepository
+
+  // Starting Postgres in WebAssembly and migrating takes a few seconds
+  beforeAll(async () => {
+    database = await createTestDatabase()
+    repository = new PhotoRepository(database.db)
+  }, 30_000)
+  afterAll(() => database.close())
+  beforeEach(() => database.truncate())
+
+  const beach = createAnalyzedPhoto('beach', {
+    dateTime: new Date('2024-07-14T10:00:00Z'),
+    metadata: { title: 'Beach', location: { latitude: 43.7, longitude: 7.26 }, tags: ['summer'] },
+    interactions: { viewCount: 4, shareCount: 1, isEdited: true, isFavorite: true },
+    dimensions: { width: 400, height: 300 },
+    source: { name: 'local', ref: 'beach.jpg', metadata: { size: 1200 } },
+    analysis: {
+      hashes: { content: 'beach-hash', dHash: '00ff00ff00ff00ff', pHash: 'ff00ff00ff00ff00' },
+      faces: [createFace(), createFace({ blurred: true })],
+      labels: [
+        { description: 'Beach', score: 0.95, topicality: 0.9 },
+        { description: 'Sea', score: 0.8, topicality: 0.7 }
+      ],
+      landmarks: [
+        {
+          name: 'Promenade',
+          score: 0.7,
+          boundingBox: { left: 0, top: 0, width: 0.5, height: 0.5 },
+          locations: [{ latitude: 43.69, longitude: 7.25 }]
+        }
+      ]
+    }
+  })
+  const city = createAnalyzedPhoto('city', { dateTime: new Date('2024-09-01T10:00:00Z') })
+
+  it('stores analyzed photos and lists them as they were saved', async () => {
+    await repository.saveAnalyzedPhotos([city, beach], 'features-v1')
+
+    const [first, second] = await repository.listAnalyzedPhotos('features-v1')
+
+    expect(first).toEqual({ ...beach, buffer: Buffer.alloc(0) })
+    expect(second.id).toBe('city')
+  })
+
+  it('only lists photos analyzed with the given features and within the time range', async () => {
+    await repository.saveAnalyzedPhotos([beach], 'features-v1')
+    await repository.saveAnalyzedPhotos([city], 'features-v2')
+
+    expect((await repository.listAnalyzedPhotos('features-v1')).map(photo => photo.id)).toEqual(['beach'])
+    expect(
+      await repository.listAnalyzedPhotos('features-v1', {
+        start: new Date('2024-08-01T00:00:00Z'),
+        end: new Date('2024-12-31T00:00:00Z')
+      })
+    ).toEqual([])
+  })
+
+  it('replaces the faces, labels and landmarks of an earlier analysis', async () => {
+    await repository.saveAnalyzedPhotos([beach], 'features-v1')
+    await repository.saveAnalyzedPhotos([{ ...beach, analysis: { ...beach.analysis, faces: [], landmarks: [] } }], 'features-v1')
+
+    const [stored] = await repository.listAnalyzedPhotos('features-v1')
+
+    expect(stored.analysis.faces).toEqual([])
+    expect(stored.analysis.landmarks).toEqual([])
+    expect(stored.analysis.labels).toHaveLength(2)
+  })
+
+  it('updates photo metadata without losing the analysis, and deletes photos with it', async () => {
+    await repository.saveAnalyzedPhotos([beach], 'features-v1')
+    const { buffer, analysis, ...photo } = beach
+    await repository.savePhotos([{ ...photo, metadata: { title: 'Renamed' }, contentHash: 'beach-hash' }])
+
+    expect((await repository.getPhoto('beach'))?.metadata).toEqual({ title: 'Renamed' })
+    expect(await repository.listAnalyzedPhotos('features-v1')).toHaveLength(1)
+
+    expect(await repository.deletePhotos(['beach', 'missing'])).toBe(1)
+    expect(await repository.getPhoto('beach')).toBeUndefined()
+    expect(await repository.listAnalyzedPhotos('features-v1')).toEqual([])
+  })
+
+  it('rebuilds a selection pool without analyzing again', async () => {
+    const provider = createStubVisionProvider()
+    const selector = new GoogleVisionHighlightSelector(provider)
+    await repository.saveAnalyzedPhotos([beach, city], selector.featureFingerprint)
+
+    const { restored } = await selector.rehydrate(repository)
+
+    expect(restored.map(photo => photo.id)).toEqual(['beach', 'city'])
+    expect(provider.annotated).toBe(0)
+  })
+})
@@ -0,0 +1,326 @@
+import type { Database } from '@/db'
+import { photoAnalyses, photoColors, photoFaces, photoLabels, photoLandmarks, photos } from '@/db/schema'
+import type { AnalyzedPhotoStore, EnhancedPhoto, PhotoRecord } from '@/lib/types'
+import { type SQL, and, asc, eq, getTableColumns, inArray, sql } from 'drizzle-orm'
+import type { PgTable } from 'drizzle-orm/pg-core'
+
+type PhotoRow = typeof photos.$inferSelect
+
+// Rows written per statement, keeping the number of bind parameters well below Postgres' limit of 65535
+const WRITE_CHUNK_SIZE = 500
+
+const chunk = <T>(items: T[], size = WRITE_CHUNK_SIZE): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, index) => items.slice(index * size, (index + 1) * size))
+
+const toPhotoRow = (photo: PhotoRecord): typeof photos.$inferInsert => ({
+  id: photo.id,
+  contentHash: photo.contentHash,
+  url: photo.url,
+  dateTime: photo.dateTime,
+  title: photo.metadata.title ?? null,
+  description: photo.metadata.description ?? null,
+  latitude: photo.metadata.location?.latitude ?? null,
+  longitude: photo.metadata.location?.longitude ?? null,
+  tags: photo.metadata.tags ?? null,
+  camera: photo.metadata.camera ?? null,
+  burstId: photo.metadata.burstId ?? null,
+  viewCount: photo.interactions.viewCount,
+  shareCount: photo.interactions.shareCount,
+  isEdited: photo.interactions.isEdited,
+  isFavorite: photo.interactions.isFavorite ?? false,
+  lastViewed: photo.interactions.lastViewed ?? null,
+  width: photo.dimensions?.width ?? null,
+  height: photo.dimensions?.height ?? null,
+  orientation: photo.dimensions?.orientation ?? null,
+  sourceName: photo.source?.name ?? null,
+  sourceRef: photo.source?.ref ?? null,
+  sourceMetadata: photo.source?.metadata ?? null,
+  updatedAt: new Date()
+})
+
+const toPhotoRecord = (row: PhotoRow): PhotoRecord => ({
+  id: row.id,
+  contentHash: row.contentHash,
+  url: row.url,
+  dateTime: row.dateTime,
+  metadata: {
+    ...(row.title !== null && { title: row.title }),
+    ...(row.description !== null && { description: row.description }),
+    ...(row.latitude !== null && row.longitude !== null && { location: { latitude: row.latitude, longitude: row.longitude } }),
+    ...(row.tags !== null && { tags: row.tags }),
+    ...(row.camera !== null && { camera: row.camera }),
+    ...(row.burstId !== null && { burstId: row.burstId })
+  },
+  interactions: {
+    viewCount: row.viewCount,
+    shareCount: row.shareCount,
+    isEdited: row.isEdited,
+    isFavorite: row.isFavorite,
+    ...(row.lastViewed !== null && { lastViewed: row.lastViewed })
+  },
+  ...(row.width !== null &&
+    row.height !== null && {
+      dimensions: { width: row.width, height: row.height, ...(row.orientation !== null && { orientation: row.orientation }) }
+    }),
+  ...(row.sourceName !== null &&
+    row.sourceRef !== null && {
+      source: { name: row.sourceName, ref: row.sourceRef, ...(row.sourceMetadata !== null && { metadata: row.sourceMetadata }) }
+    })
+})
+
+/**
+ * Builds the `set` clause of an upsert that overwrites the given columns with the values that were inserted.
+ */
+const excludedColumns = <T extends PgTable>(table: T, row: Record<string, unknown>): Record<string, SQL> => {
+  const columns: Record<string, { name: string }> = getTableColumns(table)
+  return Object.fromEntries(Object.keys(row).map(key => [key, sql.raw(`excluded."${columns[key].name}"`)]))
+}
+
+/**
+ * Groups child rows by the photo they belong to. Rows must already be ordered by position.
+ */
+const groupByPhoto = <T extends { photoId: string }>(rows: T[]): Map<string, T[]> => {
+  const groups = new Map<string, T[]>()
+  rows.forEach(row => {
+    const group = groups.get(row.photoId)
+    if (group) group.push(row)
+    else groups.set(row.photoId, [row])
+  })
+  return groups
+}
+
+/**
+ * Stores photos and their analyses in Postgres. Faces, labels, landmarks and dominant colors are kept in their own
+ * tables so they can be queried, e.g. to find every photo with a given label.
+ */
+export class PhotoRepository implements AnalyzedPhotoStore {
+  constructor(private readonly db: Database) {}
+
+  /**
+   * Inserts photos or updates their metadata, keeping any stored analysis.
+   * @param records - Photos with the content hash of their bytes
+   */
+  public async savePhotos(records: PhotoRecord[]): Promise<void> {
+    for (const rows of chunk(records.map(toPhotoRow))) {
+      await this.db
+        .insert(photos)
+        .values(rows)
+        .onConflictDoUpdate({ target: photos.id, set: excludedColumns(photos, rows[0]) })
+    }
+  }
+
+  /**
+   * Saves analyzed photos with their analyses in one transaction, replacing earlier analyses of the same photos.
+   * Clustering isn't stored since it's recomputed from the photo's metadata.
+   * @param analyzedPhotos - Photos from the selection pool
+   * @param featureFingerprint - Fingerprint of the features the photos were analyzed with
+   */
+  public async saveAnalyzedPhotos(analyzedPhotos: EnhancedPhoto[], featureFingerprint: string): Promise<void> {
+    await this.db.transaction(async tx => {
+      for (const batch of chunk(analyzedPhotos)) {
+        const photoRows = batch.map(({ buffer, analysis, scores, burst, ...photo }) =>
+          toPhotoRow({ ...photo, contentHash: analysis.hashes.content })
+        )
+        await tx
+          .insert(photos)
+          .values(photoRows)
+          .onConflictDoUpdate({ target: photos.id, set: excludedColumns(photos, photoRows[0]) })
+
+        const analysisRows = batch.map(({ id, analysis }) => ({
+          photoId: id,
+          featureFingerprint,
+          contentHash: analysis.hashes.content,
+          dimensions: analysis.dimensions,
+          dHash: analysis.hashes.dHash ?? null,
+          pHash: analysis.hashes.pHash ?? null,
+          quality: analysis.quality,
+          brightness: analysis.imageProperties.brightness,
+          contrast: analysis.imageProperties.contrast,
+          sharpness: analysis.imageProperties.sharpness,
+          webDetection: analysis.webDetection,
+          safeSearch: analysis.safeSearch,
+          analyzedAt: new Date()
+        }))
+        await tx
+          .insert(photoAnalyses)
+          .values(analysisRows)
+          .onConflictDoUpdate({ target: photoAnalyses.photoId, set: excludedColumns(photoAnalyses, analysisRows[0]) })
+
+        // Child rows are replaced wholesale, as a new analysis may find fewer faces or labels
+        const ids = batch.map(photo => photo.id)
+        await tx.delete(photoFaces).where(inArray(photoFaces.photoId, ids))
+        await tx.delete(photoLabels).where(inArray(photoLabels.photoId, ids))
+        await tx.delete(photoLandmarks).where(inArray(photoLandmarks.photoId, ids))
+        await tx.delete(photoColors).where(inArray(photoColors.photoId, ids))
+
+        const faceRows = batch.flatMap(({ id, analysis }) =>
+          analysis.faces.map((face, position) => ({
+            photoId: id,
+            position,
+            ...face.boundingBox,
+            confidence: face.confidence,
+            ...face.emotions,
+            blurred: face.blurred,
+            headwear: face.headwear,
+            landmarks: face.landmarks
+          }))
+        )
+        const labelRows = batch.flatMap(({ id, analysis }) =>
+          analysis.labels.map((label, position) => ({ photoId: id, position, ...label }))
+        )
+        const landmarkRows = batch.flatMap(({ id, analysis }) =>
+          analysis.landmarks.map((landmark, position) => ({
+            photoId: id,
+            position,
+            name: landmark.name,
+            score: landmark.score,
+            ...landmark.boundingBox,
+            locations: landmark.locations ?? null
+          }))
+        )
+        const colorRows = batch.flatMap(({ id, analysis }) =>
+          analysis.imageProperties.dominantColors.map((color, position) => ({
+            photoId: id,
+            position,
+            ...color.color,
+            score: color.score,
+            pixelFraction: color.pixelFraction
+          }))
+        )
+
+        for (const rows of chunk(faceRows)) await tx.insert(photoFaces).values(rows)
+        for (const rows of chunk(labelRows)) await tx.insert(photoLabels).values(rows)
+        for (const rows of chunk(landmarkRows)) await tx.insert(photoLandmarks).values(rows)
+        for (const rows of chunk(colorRows)) await tx.insert(photoColors).values(rows)
+      }
+    })
+  }
+
+  /**
+   * Lists photos analyzed with a feature fingerprint, oldest first, ready to be added to a selection pool.
+   * Photos carry an empty buffer and placeholder clustering, which the selector recomputes.
+   * @param featureFingerprint - Fingerprint of the current feature set
+   * @param timeRange - Only return photos taken within this range
+   * @returns Analyzed photos
+   */
+  public async listAnalyzedPhotos(featureFingerprint: string, timeRange?: { start: Date; end: Date }): Promise<EnhancedPhoto[]> {
+    const conditions: SQL[] = [eq(photoAnalyses.featureFingerprint, featureFingerprint)]
+    if (timeRange) {
+      conditions.push(sql`${photos.dateTime} between ${timeRange.start} and ${timeRange.end}`)
+    }
+    const where = and(...conditions)
+
+    const rows = await this.db
+      .select({ photo: photos, analysis: photoAnalyses })
+      .from(photos)
+      .innerJoin(photoAnalyses, eq(photoAnalyses.photoId, photos.id))
+      .where(where)
+      .orderBy(asc(photos.dateTime), asc(photos.id))
+
+    // Child rows are fetched with the same filter rather than by ID, so large libraries don't exceed the parameter limit
+    const [faces, labels, landmarks, colors] = await Promise.all([
+      this.db
+        .select(getTableColumns(photoFaces))
+        .from(photoFaces)
+        .innerJoin(photoAnalyses, eq(photoAnalyses.photoId, photoFaces.photoId))
+        .innerJoin(photos, eq(photos.id, photoFaces.photoId))
+        .where(where)
+        .orderBy(asc(photoFaces.photoId), asc(photoFaces.position))
+        .then(groupByPhoto),
+      this.db
+        .select(getTableColumns(photoLabels))
+        .from(photoLabels)
+        .innerJoin(photoAnalyses, eq(photoAnalyses.photoId, photoLabels.photoId))
+        .innerJoin(photos, eq(photos.id, photoLabels.photoId))
+        .where(where)
+        .orderBy(asc(photoLabels.photoId), asc(photoLabels.position))
+        .then(groupByPhoto),
+      this.db
+        .select(getTableColumns(photoLandmarks))
+        .from(photoLandmarks)
+        .innerJoin(photoAnalyses, eq(photoAnalyses.photoId, photoLandmarks.photoId))
+        .innerJoin(photos, eq(photos.id, photoLandmarks.photoId))
+        .where(where)
+        .orderBy(asc(photoLandmarks.photoId), asc(photoLandmarks.position))
+        .then(groupByPhoto),
+      this.db
+        .select(getTableColumns(photoColors))
+        .from(photoColors)
+        .innerJoin(photoAnalyses, eq(photoAnalyses.photoId, photoColors.photoId))
+        .innerJoin(photos, eq(photos.id, photoColors.photoId))
+        .where(where)
+        .orderBy(asc(photoColors.photoId), asc(photoColors.position))
+        .then(groupByPhoto)
+    ])
+
+    return rows.map(({ photo, analysis }) => {
+      const { contentHash, ...record } = toPhotoRecord(photo)
+
+      return {
+        ...record,
+        buffer: Buffer.alloc(0),
+        analysis: {
+          dimensions: analysis.dimensions,
+          hashes: {
+            content: analysis.contentHash,
+            ...(analysis.dHash !== null && { dHash: analysis.dHash }),
+            ...(analysis.pHash !== null && { pHash: analysis.pHash })
+          },
+          faces: (faces.get(photo.id) || []).map(face => ({
+            boundingBox: { left: face.left, top: face.top, width: face.width, height: face.height },
+            landmarks: face.landmarks,
+            emotions: { joy: face.joy, sorrow: face.sorrow, anger: face.anger, surprise: face.surprise },
+            confidence: face.confidence,
+            blurred: face.blurred,
+            headwear: face.headwear
+          })),
+          labels: (labels.get(photo.id) || []).map(({ description, score, topicality }) => ({ description, score, topicality })),
+          landmarks: (landmarks.get(photo.id) || []).map(landmark => ({
+            name: landmark.name,
+            score: landmark.score,
+            boundingBox: { left: landmark.left, top: landmark.top, width: landmark.width, height: landmark.height },
+            ...(landmark.locations !== null && { locations: landmark.locations })
+          })),
+          imageProperties: {
+            dominantColors: (colors.get(photo.id) || []).map(color => ({
+              color: { red: color.red, green: color.green, blue: color.blue },
+              score: color.score,
+              pixelFraction: color.pixelFraction
+            })),
+            brightness: analysis.brightness,
+            contrast: analysis.contrast,
+            sharpness: analysis.sharpness
+          },
+          webDetection: analysis.webDetection,
+          safeSearch: analysis.safeSearch,
+          quality: analysis.quality,
+          clustering: { timeGroup: '' }
+        }
+      }
+    })
+  }
+
+  /**
+   * Looks up a stored photo without its analysis.
+   * @param id - Photo ID
+   * @returns The photo, or undefined if it isn't stored
+   */
+  public async getPhoto(id: string): Promise<PhotoRecord | undefined> {
+    const [row] = await this.db.select().from(photos).where(eq(photos.id, id)).limit(1)
+    return row && toPhotoRecord(row)
+  }
+
+  /**
+   * Deletes photos along with their analyses and scores.
+   * @param ids - Photo IDs
+   * @returns Number of deleted photos
+   */
+  public async deletePhotos(ids: string[]): Promise<number> {
+    let deleted = 0
+    for (const batch of chunk(ids)) {
+      const removed = await this.db.delete(photos).where(inArray(photos.id, batch)).returning({ id: photos.id })
+      deleted += removed.length
+    }
+    return deleted
+  }
+}
@@ -0,0 +1,263 @@
+import type {
+  CameraInfo,
+  FaceLandmark,
+  GoogleAnnotateImageResponse,
+  GoogleSafeSearchAnnotation,
+  GoogleWebDetection,
+  HighlightOptions,
+  ImageDimensions,
+  LearnedWeights,
+  PhotoAnalysis,
+  PhotoScores,
+  QualityMetrics,
+  ScoreComponents
+} from '@/lib/types'
+import { boolean, doublePrecision, index, integer, jsonb, pgTable, primaryKey, text, timestamp } from 'drizzle-orm/pg-core'
+
+export const analysisCache = pgTable(
+  'analysis_cache',
+  {
+    contentHash: text('content_hash').notNull(),
+    featureFingerprint: text('feature_fingerprint').notNull(),
+    response: jsonb('response').$type<GoogleAnnotateImageResponse>().notNull(),
+    analysis: jsonb('analysis').$type<PhotoAnalysis>().notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow()
+  },
+  table => ({
+    pk: primaryKey({ columns: [table.contentHash, table.featureFingerprint] })
+  })
+)
+
+/**
+ * Photos with their metadata, interactions and origin. Image bytes stay with the source or photo library.
+ */
+export const photos = pgTable(
+  'photos',
+  {
+    id: text('id').primaryKey(),
+    contentHash: text('content_hash').notNull(),
+    url: text('url').notNull(),
+    dateTime: timestamp('date_time', { withTimezone: true }).notNull(),
+    title: text('title'),
+    description: text('description'),
+    latitude: doublePrecision('latitude'),
+    longitude: doublePrecision('longitude'),
+    tags: text('tags').array(),
+    camera: jsonb('camera').$type<CameraInfo>(),
+    burstId: text('burst_id'),
+    viewCount: integer('view_count').notNull().default(0),
+    shareCount: integer('share_count').notNull().default(0),
+    isEdited: boolean('is_edited').notNull().default(false),
+    isFavorite: boolean('is_favorite').notNull().default(false),
+    lastViewed: timestamp('last_viewed', { withTimezone: true }),
+    width: integer('width'),
+    height: integer('height'),
+    orientation: integer('orientation'),
+    sourceName: text('source_name'),
+    sourceRef: text('source_ref'),
+    sourceMetadata: jsonb('source_metadata').$type<Record<string, unknown>>(),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow()
+  },
+  table => ({
+    contentHashIdx: index('photos_content_hash_idx').on(table.contentHash),
+    dateTimeIdx: index('photos_date_time_idx').on(table.dateTime)
+  })
+)
+
+/**
+ * Analysis of a photo for one feature fingerprint. Faces, labels, landmarks and colors live in child tables.
+ */
+export const photoAnalyses = pgTable(
+  'photo_analyses',
+  {
+    photoId: text('photo_id')
+      .primaryKey()
+      .references(() => photos.id, { onDelete: 'cascade' }),
+    featureFingerprint: text('feature_fingerprint').notNull(),
+    contentHash: text('content_hash').notNull(),
+    dimensions: jsonb('dimensions').$type<ImageDimensions>().notNull(),
+    dHash: text('d_hash'),
+    pHash: text('p_hash'),
+    quality: jsonb('quality').$type<QualityMetrics>().notNull(),
+    brightness: doublePrecision('brightness').notNull(),
+    contrast: doublePrecision('contrast').notNull(),
+    sharpness: doublePrecision('sharpness').notNull(),
+    webDetection: jsonb('web_detection').$type<GoogleWebDetection>().notNull(),
+    safeSearch: jsonb('safe_search').$type<GoogleSafeSearchAnnotation>().notNull(),
+    analyzedAt: timestamp('analyzed_at', { withTimezone: true }).notNull().defaultNow()
+  },
+  table => ({
+    featureFingerprintIdx: index('photo_analyses_feature_fingerprint_idx').on(table.featureFingerprint)
+  })
+)
+
+export const photoFaces = pgTable(
+  'photo_faces',
+  {
+    photoId: text('photo_id')
+      .notNull()
+      .references(() => photoAnalyses.photoId, { onDelete: 'cascade' }),
+    position: integer('position').notNull(),
+    left: doublePrecision('left').notNull(),
+    top: doublePrecision('top').notNull(),
+    width: doublePrecision('width').notNull(),
+    height: doublePrecision('height').notNull(),
+    confidence: doublePrecision('confidence').notNull(),
+    joy: doublePrecision('joy').notNull(),
+    sorrow: doublePrecision('sorrow').notNull(),
+    anger: doublePrecision('anger').notNull(),
+    surprise: doublePrecision('surprise').notNull(),
+    blurred: boolean('blurred').notNull(),
+    headwear: boolean('headwear').notNull(),
+    landmarks: jsonb('landmarks').$type<FaceLandmark[]>().notNull()
+  },
+  table => ({
+    pk: primaryKey({ columns: [table.photoId, table.position] })
+  })
+)
+
+export const photoLabels = pgTable(
+  'photo_labels',
+  {
+    photoId: text('photo_id')
+      .notNull()
+      .references(() => photoAnalyses.photoId, { onDelete: 'cascade' }),
+    position: integer('position').notNull(),
+    description: text('description').notNull(),
+    score: doublePrecision('score').notNull(),
+    topicality: doublePrecision('topicality').notNull()
+  },
+  table => ({
+    pk: primaryKey({ columns: [table.photoId, table.position] }),
+    descriptionIdx: index('photo_labels_description_idx').on(table.description)
+  })
+)
+
+export const photoLandmarks = pgTable(
+  'photo_landmarks',
+  {
+    photoId: text('photo_id')
+      .notNull()
+      .references(() => photoAnalyses.photoId, { onDelete: 'cascade' }),
+    position: integer('position').notNull(),
+    name: text('name').notNull(),
+    score: doublePrecision('score').notNull(),
+    left: doublePrecision('left').notNull(),
+    top: doublePrecision('top').notNull(),
+    width: doublePrecision('width').notNull(),
+    height: doublePrecision('height').notNull(),
+    locations: jsonb('locations').$type<Array<{ latitude: number; longitude: number }>>()
+  },
+  table => ({
+    pk: primaryKey({ columns: [table.photoId, table.position] })
+  })
+)
+
+// Dominant colors, in the order Vision ranked them
+export const photoColors = pgTable(
+  'photo_colors',
+  {
+    photoId: text('photo_id')
+      .notNull()
+      .references(() => photoAnalyses.photoId, { onDelete: 'cascade' }),
+    position: integer('position').notNull(),
+    red: doublePrecision('red').notNull(),
+    green: doublePrecision('green').notNull(),
+    blue: doublePrecision('blue').notNull(),
+    score: doublePrecision('score').notNull(),
+    pixelFraction: doublePrecision('pixel_fraction').notNull()
+  },
+  table => ({
+    pk: primaryKey({ columns: [table.photoId, table.position] })
+  })
+)
+
+/**
+ * One highlight selection, with the options it was made with.
+ */
+export const highlightRuns = pgTable(
+  'highlight_runs',
+  {
+    id: text('id').primaryKey(),
+    featureFingerprint: text('feature_fingerprint').notNull(),
+    rangeStart: timestamp('range_start', { withTimezone: true }).notNull(),
+    rangeEnd: timestamp('range_end', { withTimezone: true }).notNull(),
+    options: jsonb('options').$type<Omit<HighlightOptions, 'timeRange'>>().notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow()
+  },
+  table => ({
+    createdAtIdx: index('highlight_runs_created_at_idx').on(table.createdAt)
+  })
+)
+
+// Scores of every photo considered in a run, selected or not
+export const photoScores = pgTable(
+  'photo_scores',
+  {
+    runId: text('run_id')
+      .notNull()
+      .references(() => highlightRuns.id, { onDelete: 'cascade' }),
+    photoId: text('photo_id')
+      .notNull()
+      .references(() => photos.id, { onDelete: 'cascade' }),
+    quality: doublePrecision('quality').notNull(),
+    interest: doublePrecision('interest').notNull(),
+    emotion: doublePrecision('emotion').notNull(),
+    uniqueness: doublePrecision('uniqueness').notNull(),
+    relevance: doublePrecision('relevance').notNull(),
+    temporal: doublePrecision('temporal').notNull(),
+    // Runs saved before engagement was scored have none
+    engagement: doublePrecision('engagement').notNull().default(0),
+    final: doublePrecision('final').notNull()
+  },
+  table => ({
+    pk: primaryKey({ columns: [table.runId, table.photoId] }),
+    photoIdx: index('photo_scores_photo_id_idx').on(table.photoId)
+  })
+)
+
+export const highlightSelections = pgTable(
+  'highlight_selections',
+  {
+    runId: text('run_id')
+      .notNull()
+      .references(() => highlightRuns.id, { onDelete: 'cascade' }),
+    // Rank of the photo among the run's highlights, starting at 0
+    position: integer('position').notNull(),
+    photoId: text('photo_id')
+      .notNull()
+      .references(() => photos.id, { onDelete: 'cascade' })
+  },
+  table => ({
+    pk: primaryKey({ columns: [table.runId, table.position] })
+  })
+)
+
+/**
+ * Users keeping or hiding highlights they were shown. Runs may come from the API, which doesn't store them here, so
+ * events keep the photo's scores instead of referencing `photo_scores`.
+ */
+export const feedbackEvents = pgTable(
+  'feedback_events',
+  {
+    userId: text('user_id').notNull(),
+    runId: text('run_id').notNull(),
+    photoId: text('photo_id').notNull(),
+    action: text('action', { enum: ['keep', 'hide'] }).notNull(),
+    scores: jsonb('scores').$type<PhotoScores>().notNull(),
+    interest: jsonb('interest').$type<ScoreComponents['interest']>().notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow()
+  },
+  table => ({
+    pk: primaryKey({ columns: [table.userId, table.runId, table.photoId] })
+  })
+)
+
+export const learnedWeights = pgTable('learned_weights', {
+  userId: text('user_id').primaryKey(),
+  weights: jsonb('weights').$type<LearnedWeights['weights']>().notNull(),
+  interest: jsonb('interest').$type<LearnedWeights['interest']>().notNull(),
+  sampleCount: integer('sample_count').notNull(),
+  trainedAt: timestamp('trained_at', { withTimezone: true }).notNull()
+})
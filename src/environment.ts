@@ -0,0 +1,133 @@
+import * as path from 'node:path'
+import { createDatabase } from '@/db'
+import { FeedbackRepository } from '@/db/feedback-repository'
+import { HighlightRunRepository } from '@/db/highlight-run-repository'
+import { PhotoRepository } from '@/db/photo-repository'
+import { getFromDropbox } from '@/images/getFromDropbox'
+import { type GooglePhotosFilters, GooglePhotosSource } from '@/images/getFromGoogle'
+import { LocalDirectorySource } from '@/images/getFromLocal'
+import { TakeoutSource } from '@/images/getFromTakeout'
+import { FileSystemAnalysisCache } from '@/lib/cache/fs-analysis-cache'
+import { PostgresAnalysisCache } from '@/lib/cache/pg-analysis-cache'
+import { FileSystemFeedbackStore, InMemoryFeedbackStore } from '@/lib/feedback/feedback-store'
+import type { AnalysisCache, FeedbackStore, PhotoSource, VisionProvider } from '@/lib/types'
+import { GoogleVisionProvider } from '@/lib/vision/google-provider'
+import { ReplayVisionProvider } from '@/lib/vision/replay-provider'
+
+export const PHOTO_SOURCE_NAMES = ['google', 'dropbox', 'local', 'takeout'] as const
+
+export type PhotoSourceName = (typeof PHOTO_SOURCE_NAMES)[number]
+
+export interface PhotoSourceOptions {
+  // Local directory, or Takeout directories and zip files
+  paths?: string[]
+  // Dropbox folder to list
+  folder?: string
+  // File keeping the Dropbox cursor between runs
+  cursorFile?: string
+  // Google Photos album to list
+  albumId?: string
+  // Google Photos date range and content categories
+  googleFilters?: Pick<GooglePhotosFilters, 'dateRanges' | 'includedContentCategories' | 'excludedContentCategories'>
+}
+
+/**
+ * Creates the Vision provider configured by the environment: recorded responses from VISION_REPLAY_DIR,
+ * or the Vision API with GOOGLE_SERVICE_ACCOUNT_CREDENTIALS.
+ */
+export const createVisionProvider = (): VisionProvider => {
+  // Serve recorded responses instead of calling the Vision API when a replay directory is configured
+  if (process.env.VISION_REPLAY_DIR) {
+    return new ReplayVisionProvider(process.env.VISION_REPLAY_DIR)
+  }
+
+  if (!process.env.GOOGLE_SERVICE_ACCOUNT_CREDENTIALS) {
+    throw new Error('GOOGLE_SERVICE_ACCOUNT_CREDENTIALS not found in environment variables')
+  }
+
+  return new GoogleVisionProvider(JSON.parse(process.env.GOOGLE_SERVICE_ACCOUNT_CREDENTIALS))
+}
+
+/**
+ * Creates the analysis cache configured by the environment: Postgres with DATABASE_URL, or the filesystem with
+ * ANALYSIS_CACHE_DIR.
+ * @param defaultDirectory - Filesystem cache to use when neither is set
+ * @returns Analysis cache, or undefined when none is configured
+ */
+export const createAnalysisCache = (defaultDirectory?: string): AnalysisCache | undefined => {
+  if (process.env.DATABASE_URL) {
+    return new PostgresAnalysisCache(createDatabase(process.env.DATABASE_URL))
+  }
+
+  const directory = process.env.ANALYSIS_CACHE_DIR || defaultDirectory
+  if (directory) {
+    return new FileSystemAnalysisCache(directory)
+  }
+
+  return undefined
+}
+
+/**
+ * Creates the feedback store configured by the environment: Postgres with DATABASE_URL, or the filesystem with
+ * FEEDBACK_DIR. Training weights offline needs one of them, so the trainer sees the feedback the API recorded.
+ * @param defaultDirectory - Filesystem store to use when neither is set
+ * @returns Feedback store, kept in memory when none is configured
+ */
+export const createFeedbackStore = (defaultDirectory?: string): FeedbackStore => {
+  if (process.env.DATABASE_URL) {
+    return new FeedbackRepository(createDatabase(process.env.DATABASE_URL))
+  }
+
+  const directory = process.env.FEEDBACK_DIR || defaultDirectory
+  if (directory) {
+    return new FileSystemFeedbackStore(directory)
+  }
+
+  return new InMemoryFeedbackStore()
+}
+
+/**
+ * Stores of analyzed photos and of the highlight runs selected from them.
+ */
+export interface HighlightPersistence {
+  photos: PhotoRepository
+  runs: HighlightRunRepository
+}
+
+/**
+ * Creates the stores of analyzed photos and highlight runs, which need Postgres.
+ * @returns Repositories on one connection pool, or undefined without DATABASE_URL
+ */
+export const createHighlightPersistence = (): HighlightPersistence | undefined => {
+  if (!process.env.DATABASE_URL) return undefined
+
+  const db = createDatabase(process.env.DATABASE_URL)
+  return { photos: new PhotoRepository(db), runs: new HighlightRunRepository(db) }
+}
+
+/**
+ * Creates a photo source by name. Credentials come from the environment.
+ * @param name - Source to create
+ * @param options - Source-specific paths and filters
+ * @returns Photo source
+ */
+export const createPhotoSource = (name: PhotoSourceName, options: PhotoSourceOptions = {}): PhotoSource => {
+  switch (name) {
+    case 'google':
+      return new GooglePhotosSource({ filters: { ...options.googleFilters, albumId: options.albumId } })
+    case 'dropbox':
+      return getFromDropbox(options.folder, { cursorFile: options.cursorFile })
+    case 'local':
+      if (options.paths?.length !== 1) {
+        throw new Error('The local source needs exactly one directory')
+      }
+      return new LocalDirectorySource(path.resolve(options.paths[0]))
+    case 'takeout':
+      if (!options.paths?.length) {
+        throw new Error('The takeout source needs at least one directory or zip file')
+      }
+      return new TakeoutSource(options.paths)
+    default:
+      throw new Error(`Unknown photo source: ${name}`)
+  }
+}
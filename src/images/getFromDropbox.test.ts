@@ -0,0 +1,164 @@
+import * as fs from 'node:fs/promises'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { DropboxSource } from '@/images/getFromDropbox'
+import { loadSourcePhoto } from '@/images/source'
+import type { SourcePhoto } from '@/lib/types'
+
+interface FakeResponse {
+  status: number
+  body: unknown
+  // Metadata of downloads, which the API returns in a header
+  apiResult?: unknown
+}
+
+const file = (id: string, name: string) => ({
+  '.tag': 'file',
+  id,
+  name,
+  path_lower: `/camera uploads/${name.toLowerCase()}`,
+  client_modified: '2024-06-01T10:00:00Z',
+  rev: `rev-${id}`
+})
+
+/**
+ * Answers Dropbox API calls from a table of routes, recording the endpoint and arguments of each call.
+ */
+const createFakeFetch = (routes: Record<string, (args: any) => FakeResponse>) => {
+  const calls: Array<{ endpoint: string; args: any }> = []
+
+  const fakeFetch = async (url: string, init: { body?: string; headers: Record<string, string> }) => {
+    const endpoint = new URL(url).pathname.replace('/2/', '')
+    const args = JSON.parse(init.body || init.headers['Dropbox-API-Arg'] || 'null')
+    calls.push({ endpoint, args })
+
+    const route = routes[endpoint]
+    const { status, body, apiResult } = route ? route(args) : { status: 404, body: 'not found' }
+    const text = typeof body === 'string' ? body : JSON.stringify(body)
+    return {
+      ok: status < 400,
+      status,
+      headers: { get: (name: string) => (name === 'dropbox-api-result' ? JSON.stringify(apiResult) : null) },
+      text: async () => text,
+      buffer: async () => Buffer.from(text)
+    }
+  }
+
+  return { calls, fetch: fakeFetch as any }
+}
+
+const list = async (source: DropboxSource) => {
+  const photos: SourcePhoto[] = []
+  for await (const photo of source.photos()) photos.push(photo)
+  return photos
+}
+
+describe('DropboxSource', () => {
+  let cursorFile: string
+
+  beforeEach(async () => {
+    cursorFile = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'dropbox-source-')), 'cursor.json')
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await fs.rm(path.dirname(cursorFile), { recursive: true, force: true })
+  })
+
+  const routes = {
+    'files/list_folder': () => ({
+      status: 200,
+      body: {
+        entries: [file('id:a', 'A.jpg'), { '.tag': 'folder', name: 'trip' }, file('id:notes', 'notes.txt')],
+        cursor: 'cursor-1',
+        has_more: true
+      }
+    }),
+    'files/list_folder/continue': ({ cursor }: { cursor: string }) =>
+      cursor === 'cursor-1'
+        ? { status: 200, body: { entries: [file('id:b', 'B.png')], cursor: 'cursor-2', has_more: false } }
+        : { status: 200, body: { entries: [file('id:c', 'C.jpg')], cursor: 'cursor-3', has_more: false } },
+    'files/get_metadata': ({ path }: { path: string }) =>
+      path === 'id:a'
+        ? {
+            status: 200,
+            body: {
+              ...file('id:a', 'A.jpg'),
+              media_info: {
+                '.tag': 'metadata',
+                metadata: {
+                  '.tag': 'photo',
+                  time_taken: '2024-05-01T08:00:00Z',
+                  location: { latitude: 48.85, longitude: 2.35 },
+                  dimensions: { width: 4000, height: 3000 }
+                }
+              }
+            }
+          }
+        : { status: 409, body: { error_summary: 'path/not_found/' } },
+    'files/download': ({ path }: { path: string }) => ({ status: 200, body: `bytes of ${path}`, apiResult: file('id:a', 'A.jpg') })
+  }
+
+  it('pages through the folder, keeping image files and reading Dropbox media info', async () => {
+    const { fetch, calls } = createFakeFetch(routes)
+    const photos = await list(new DropboxSource('token', '/Camera Uploads', { fetch }))
+
+    expect(photos.map(photo => photo.id)).toEqual(['dropbox:id:a', 'dropbox:id:b'])
+    expect(photos[0]).toMatchObject({
+      dateTime: new Date('2024-05-01T08:00:00Z'),
+      metadata: { title: 'A.jpg', location: { latitude: 48.85, longitude: 2.35 } },
+      dimensions: { width: 4000, height: 3000 }
+    })
+    // Without media info the upload time is used
+    expect(photos[1].dateTime).toEqual(new Date('2024-06-01T10:00:00Z'))
+    expect(calls[0]).toEqual({ endpoint: 'files/list_folder', args: { path: '/Camera Uploads', recursive: true } })
+  })
+
+  it('downloads file contents and gives every photo its own interactions', async () => {
+    const [first, second] = await list(new DropboxSource('token', '/Camera Uploads', createFakeFetch(routes)))
+    first.interactions.viewCount++
+
+    expect((await loadSourcePhoto(first)).buffer.toString()).toBe('bytes of /camera uploads/a.jpg')
+    expect(second.interactions.viewCount).toBe(0)
+  })
+
+  it('continues from the committed cursor on the next run', async () => {
+    const { fetch, calls } = createFakeFetch(routes)
+    const source = new DropboxSource('token', '/Camera Uploads', { fetch, cursorFile })
+    await list(source)
+    await source.commit()
+
+    const photos = await list(new DropboxSource('token', '/Camera Uploads', { fetch, cursorFile }))
+
+    expect(JSON.parse(await fs.readFile(cursorFile, 'utf8'))).toMatchObject({ folderPath: '/Camera Uploads', cursor: 'cursor-2' })
+    expect(photos.map(photo => photo.id)).toEqual(['dropbox:id:c'])
+    expect(calls.filter(call => call.endpoint === 'files/list_folder')).toHaveLength(1)
+  })
+
+  it('lists the whole folder again when the saved cursor expired', async () => {
+    await fs.writeFile(cursorFile, JSON.stringify({ folderPath: '/Camera Uploads', cursor: 'expired' }))
+    const { fetch } = createFakeFetch({
+      ...routes,
+      'files/list_folder/continue': ({ cursor }: { cursor: string }) =>
+        cursor === 'expired'
+          ? { status: 409, body: { error_summary: 'reset/..', error: { '.tag': 'reset' } } }
+          : routes['files/list_folder/continue']({ cursor })
+    })
+
+    const photos = await list(new DropboxSource('token', '/Camera Uploads', { fetch, cursorFile }))
+
+    expect(photos.map(photo => photo.id)).toEqual(['dropbox:id:a', 'dropbox:id:b'])
+  })
+
+  it('fails on other listing errors', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+    await fs.writeFile(cursorFile, JSON.stringify({ folderPath: '/Camera Uploads', cursor: 'bad' }))
+    const { fetch } = createFakeFetch({
+      ...routes,
+      'files/list_folder/continue': () => ({ status: 409, body: { error_summary: 'path/malformed/' } })
+    })
+
+    await expect(list(new DropboxSource('token', '/Camera Uploads', { fetch, cursorFile }))).rejects.toMatchObject({ status: 409 })
+  })
+})
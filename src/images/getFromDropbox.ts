@@ -1,23 +1,55 @@
 import * as fs from 'node:fs/promises'
 import * as path from 'node:path'
+import { EMPTY_INTERACTIONS, IMAGE_EXTENSIONS, createSourcePhotoId } from '@/images/source'
+import type { PhotoSource, SourcePhoto } from '@/lib/types'
 import dotenv from 'dotenv'
-import { Dropbox } from 'dropbox'
+import { Dropbox, DropboxResponseError, type files } from 'dropbox'
 import fetch from 'node-fetch'
 
 // Load environment variables
 dotenv.config()
 
 interface DropboxImage {
+  id: string
   path_lower: string
+  path_display?: string
   name: string
+  client_modified: string
+  rev: string
+}
+
+interface DropboxImagePage {
+  images: DropboxImage[]
+  // Cursor pointing past this page; saving it lets the next run continue from here
+  cursor: string
+}
+
+interface DropboxSyncState {
+  folderPath: string
+  cursor: string
+  updatedAt: string
+}
+
+// Media info needs one request per file, so a few are issued at a time
+const MEDIA_INFO_CONCURRENCY = 8
+
+/**
+ * Checks whether Dropbox rejected a cursor because it expired and listing must start over.
+ */
+const isCursorResetError = (error: unknown): boolean => {
+  if (!(error instanceof DropboxResponseError) || error.status !== 409) return false
+
+  // The SDK puts the parsed response body in `error`, e.g. { error_summary: 'reset/...', error: { '.tag': 'reset' } }
+  const body: unknown = error.error
+  return typeof body === 'object' && body !== null && 'error_summary' in body && String(body.error_summary).startsWith('reset')
 }
 
 class DropboxImageFetcher {
   private dbx: Dropbox
   private outputDir: string
 
-  constructor(accessToken: string, outputDir = './downloaded_images') {
-    this.dbx = new Dropbox({ accessToken, fetch })
+  constructor(accessToken: string, outputDir = './downloaded_images', fetchImplementation: typeof fetch = fetch) {
+    this.dbx = new Dropbox({ accessToken, fetch: fetchImplementation })
     this.outputDir = outputDir
   }
 
@@ -31,26 +63,75 @@ class DropboxImageFetcher {
     }
   }
 
-  async listImages(folderPath = ''): Promise<DropboxImage[]> {
+  /**
+   * Lists image files page by page, following `has_more` until the folder is exhausted.
+   * With a cursor from an earlier run, only files added or changed since then are listed.
+   * @param folderPath - Folder to list, recursively
+   * @param cursor - Cursor saved by an earlier listing of the same folder
+   * @returns Pages of image files with the cursor following each page
+   */
+  async *listImagePages(folderPath = '', cursor?: string): AsyncIterable<DropboxImagePage> {
     try {
-      const response = await this.dbx.filesListFolder({
-        path: folderPath,
-        recursive: true
-      })
-
-      return response.result.entries.filter(
-        entry => entry['.tag'] === 'file' && /\.(jpg|jpeg|png|gif|bmp|webp)$/i.test(entry.path_lower)
-      ) as DropboxImage[]
+      let response: files.ListFolderResult
+
+      if (cursor) {
+        try {
+          response = (await this.dbx.filesListFolderContinue({ cursor })).result
+        } catch (error) {
+          if (!isCursorResetError(error)) throw error
+          console.warn(`Dropbox cursor for ${folderPath} expired, listing the whole folder again`)
+          response = (await this.dbx.filesListFolder({ path: folderPath, recursive: true })).result
+        }
+      } else {
+        response = (await this.dbx.filesListFolder({ path: folderPath, recursive: true })).result
+      }
+
+      for (;;) {
+        yield {
+          images: response.entries.filter(
+            entry => entry['.tag'] === 'file' && IMAGE_EXTENSIONS.test(entry.path_lower || '')
+          ) as DropboxImage[],
+          cursor: response.cursor
+        }
+
+        if (!response.has_more) return
+        response = (await this.dbx.filesListFolderContinue({ cursor: response.cursor })).result
+      }
     } catch (error) {
       console.error('Error listing images:', error)
       throw error
     }
   }
 
+  async listImages(folderPath = ''): Promise<DropboxImage[]> {
+    const images: DropboxImage[] = []
+    for await (const page of this.listImagePages(folderPath)) {
+      images.push(...page.images)
+    }
+    return images
+  }
+
+  /**
+   * Fetches the time taken, location and dimensions Dropbox extracted from a photo.
+   * `list_folder` no longer returns media info, so it's requested per file.
+   * @param imagePath - Path or ID of the file
+   * @returns Media metadata, or undefined while Dropbox is still processing the file
+   */
+  async getMediaInfo(imagePath: string): Promise<files.MediaMetadata | undefined> {
+    const response = await this.dbx.filesGetMetadata({ path: imagePath, include_media_info: true })
+    const metadata = response.result as files.FileMetadata
+    return metadata.media_info?.['.tag'] === 'metadata' ? metadata.media_info.metadata : undefined
+  }
+
+  async downloadImageBuffer(imagePath: string): Promise<Buffer> {
+    const response = await this.dbx.filesDownload({ path: imagePath })
+    // In Node the SDK adds the file contents to the metadata as `fileBinary`
+    return (response.result as files.FileMetadata & { fileBinary: Buffer }).fileBinary
+  }
+
   async downloadImage(imagePath: string): Promise<void> {
     try {
-      const response = await this.dbx.filesDownload({ path: imagePath })
-      const buffer = (response.result as any).fileBinary
+      const buffer = await this.downloadImageBuffer(imagePath)
       const fileName = path.basename(imagePath)
       const outputPath = path.join(this.outputDir, fileName)
 
@@ -91,17 +172,127 @@ class DropboxImageFetcher {
   }
 }
 
-// Usage example
-export const getFromDropbox = async () => {
+export interface DropboxSourceOptions {
+  // File storing the list_folder cursor between runs; without it every run lists the whole folder
+  cursorFile?: string
+  // Overrides the HTTP client, e.g. to answer requests locally in tests
+  fetch?: typeof fetch
+}
+
+/**
+ * Photo source listing image files in a Dropbox folder.
+ * With a cursor file, each run only lists photos added or changed since the last committed run.
+ */
+export class DropboxSource implements PhotoSource {
+  public readonly name = 'dropbox'
+  private readonly fetcher: DropboxImageFetcher
+  private readonly cursorFile?: string
+  private pendingCursor?: string
+
+  constructor(
+    accessToken: string,
+    private readonly folderPath = '/Camera Uploads',
+    options: DropboxSourceOptions = {}
+  ) {
+    this.fetcher = new DropboxImageFetcher(accessToken, undefined, options.fetch)
+    this.cursorFile = options.cursorFile
+  }
+
+  async *photos(): AsyncIterable<SourcePhoto> {
+    const syncState = await this.readSyncState()
+    // A cursor only applies to the folder it was created for
+    const cursor = syncState?.folderPath === this.folderPath ? syncState.cursor : undefined
+    this.pendingCursor = undefined
+
+    for await (const page of this.fetcher.listImagePages(this.folderPath, cursor)) {
+      for (let start = 0; start < page.images.length; start += MEDIA_INFO_CONCURRENCY) {
+        const images = page.images.slice(start, start + MEDIA_INFO_CONCURRENCY)
+        const mediaInfo = await Promise.all(images.map(image => this.getMediaInfo(image)))
+
+        for (const [index, image] of images.entries()) {
+          yield this.toSourcePhoto(image, mediaInfo[index])
+        }
+      }
+
+      this.pendingCursor = page.cursor
+    }
+  }
+
+  /**
+   * Saves the cursor reached by the last listing, so the next run starts after it.
+   */
+  async commit(): Promise<void> {
+    if (!this.cursorFile || !this.pendingCursor) return
+
+    const syncState: DropboxSyncState = {
+      folderPath: this.folderPath,
+      cursor: this.pendingCursor,
+      updatedAt: new Date().toISOString()
+    }
+
+    await fs.mkdir(path.dirname(this.cursorFile), { recursive: true })
+    // Write to a temporary file first so an interrupted run never leaves a truncated cursor behind
+    const temporaryPath = `${this.cursorFile}.${process.pid}.tmp`
+    await fs.writeFile(temporaryPath, JSON.stringify(syncState, null, 2))
+    await fs.rename(temporaryPath, this.cursorFile)
+  }
+
+  private async readSyncState(): Promise<DropboxSyncState | undefined> {
+    if (!this.cursorFile) return undefined
+
+    try {
+      return JSON.parse(await fs.readFile(this.cursorFile, 'utf8'))
+    } catch (error) {
+      if (error.code === 'ENOENT') return undefined
+      throw error
+    }
+  }
+
+  private async getMediaInfo(image: DropboxImage): Promise<files.MediaMetadata | undefined> {
+    try {
+      return await this.fetcher.getMediaInfo(image.id)
+    } catch (error) {
+      // Media info is a bonus; EXIF in the file usually carries the same details
+      console.warn(`Could not fetch media info for ${image.path_lower}:`, error)
+      return undefined
+    }
+  }
+
+  private toSourcePhoto(image: DropboxImage, mediaInfo?: files.MediaMetadata): SourcePhoto {
+    return {
+      // Dropbox file IDs survive renames and moves, unlike paths
+      id: createSourcePhotoId(this.name, image.id),
+      url: `dropbox://${image.path_lower}`,
+      // Falls back to the upload time; EXIF capture time replaces either once the file is loaded
+      dateTime: new Date(mediaInfo?.time_taken || image.client_modified),
+      metadata: {
+        title: image.name,
+        location: mediaInfo?.location ? { latitude: mediaInfo.location.latitude, longitude: mediaInfo.location.longitude } : undefined
+      },
+      dimensions: mediaInfo?.dimensions ? { width: mediaInfo.dimensions.width, height: mediaInfo.dimensions.height } : undefined,
+      interactions: { ...EMPTY_INTERACTIONS },
+      source: {
+        name: this.name,
+        ref: image.id,
+        metadata: { path: image.path_display || image.path_lower, rev: image.rev }
+      },
+      loadBuffer: () => this.fetcher.downloadImageBuffer(image.path_lower)
+    }
+  }
+}
+
+/**
+ * Creates a Dropbox source from the DROPBOX_ACCESS_TOKEN environment variable.
+ * @param folderPath - Folder to list, recursively
+ * @param options - Where to keep the cursor for incremental syncs
+ * @returns Dropbox photo source
+ */
+export const getFromDropbox = (folderPath?: string, options?: DropboxSourceOptions): DropboxSource => {
   const accessToken = process.env.DROPBOX_ACCESS_TOKEN
 
   if (!accessToken) {
     throw new Error('DROPBOX_ACCESS_TOKEN not found in environment variables')
   }
 
-  const fetcher = new DropboxImageFetcher(accessToken)
-  const images = await fetcher.listImages('/Camera Uploads')
-  await Promise.all(images.map(image => fetcher.getImageProperties(image.path_lower).then(console.log)))
+  return new DropboxSource(accessToken, folderPath, options)
 }
-
-getFromDropbox()
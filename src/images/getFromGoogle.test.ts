@@ -0,0 +1,154 @@
+import * as http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { GooglePhotosSource } from '@/images/getFromGoogle'
+import { loadSourcePhoto } from '@/images/source'
+import type { SourcePhoto } from '@/lib/types'
+
+interface RecordedRequest {
+  method?: string
+  url?: string
+  authorization?: string
+  body?: any
+}
+
+const mediaItem = (id: string, creationTime: string, mimeType = 'image/jpeg') => ({
+  id,
+  baseUrl: '',
+  filename: `${id}.jpg`,
+  mimeType,
+  mediaMetadata: { creationTime, width: '4000', height: '3000', photo: { cameraMake: 'Pixel', exposureTime: '0.01s' } }
+})
+
+/**
+ * Serves a small Library API: two search pages, media item lookups that hand out a fresh base URL, and renditions that
+ * are rejected for expired base URLs.
+ */
+const createMockServer = () => {
+  const requests: RecordedRequest[] = []
+  let baseUrl = ''
+  let refreshes = 0
+  const items = () => [
+    { ...mediaItem('one', '2024-06-01T10:00:00Z'), baseUrl: `${baseUrl}/content/one-expired` },
+    { ...mediaItem('video', '2024-06-02T10:00:00Z', 'video/mp4'), baseUrl: `${baseUrl}/content/video` },
+    { ...mediaItem('two', '2024-08-01T10:00:00Z'), baseUrl: `${baseUrl}/content/two` }
+  ]
+
+  const server = http.createServer((request, response) => {
+    let body = ''
+    request.on('data', chunk => {
+      body += chunk
+    })
+    request.on('end', () => {
+      requests.push({
+        method: request.method,
+        url: request.url,
+        authorization: request.headers.authorization,
+        body: body ? JSON.parse(body) : undefined
+      })
+      const json = (value: unknown) => {
+        response.setHeader('Content-Type', 'application/json')
+        response.end(JSON.stringify(value))
+      }
+
+      if (request.url === '/v1/mediaItems:search') {
+        const [one, video, two] = items()
+        return JSON.parse(body).pageToken ? json({ mediaItems: [two] }) : json({ mediaItems: [one, video], nextPageToken: 'page-2' })
+      }
+      if (request.url?.startsWith('/v1/mediaItems/')) {
+        refreshes++
+        return json({ ...items()[0], baseUrl: `${baseUrl}/content/one-fresh` })
+      }
+      if (request.url?.includes('expired')) {
+        response.statusCode = 403
+        return response.end()
+      }
+      response.end(`bytes of ${request.url}`)
+    })
+  })
+
+  return {
+    requests,
+    refreshes: () => refreshes,
+    start: () =>
+      new Promise<void>(resolve =>
+        server.listen(0, '127.0.0.1', () => {
+          baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+          resolve()
+        })
+      ),
+    stop: () => new Promise(resolve => server.close(resolve)),
+    apiBaseUrl: () => `${baseUrl}/v1`
+  }
+}
+
+describe('GooglePhotosSource', () => {
+  const mock = createMockServer()
+
+  beforeAll(() => mock.start())
+  afterAll(() => mock.stop())
+  beforeEach(() => {
+    mock.requests.length = 0
+  })
+
+  const list = async (source: GooglePhotosSource) => {
+    const photos: SourcePhoto[] = []
+    for await (const photo of source.photos()) photos.push(photo)
+    return photos
+  }
+
+  const createSource = (filters = {}) =>
+    new GooglePhotosSource({ apiBaseUrl: mock.apiBaseUrl(), getAccessToken: async () => 'token', filters, maxDimension: 1024 })
+
+  it('pages through the library, keeping photos only', async () => {
+    const photos = await list(createSource())
+
+    expect(photos.map(photo => photo.id)).toEqual(['google:one', 'google:two'])
+    expect(photos[0]).toMatchObject({
+      dateTime: new Date('2024-06-01T10:00:00Z'),
+      metadata: { title: 'one.jpg', camera: { make: 'Pixel', exposureTime: 0.01 } },
+      source: { name: 'google', ref: 'one', metadata: { width: 4000, height: 3000 } }
+    })
+    expect(mock.requests.map(request => request.body.pageToken)).toEqual([undefined, 'page-2'])
+    expect(mock.requests[0].authorization).toBe('Bearer token')
+  })
+
+  it('sends date and content category filters to the API', async () => {
+    await list(
+      createSource({
+        dateRanges: [{ start: new Date(2024, 5, 1), end: new Date(2024, 5, 30) }],
+        includedContentCategories: ['LANDSCAPES'],
+        excludedContentCategories: ['SCREENSHOTS']
+      })
+    )
+
+    expect(mock.requests[0].body.filters).toEqual({
+      mediaTypeFilter: { mediaTypes: ['PHOTO'] },
+      dateFilter: { ranges: [{ startDate: { year: 2024, month: 6, day: 1 }, endDate: { year: 2024, month: 6, day: 30 } }] },
+      contentFilter: { includedContentCategories: ['LANDSCAPES'], excludedContentCategories: ['SCREENSHOTS'] }
+    })
+  })
+
+  it('filters album photos by date locally, since albums ignore other filters', async () => {
+    const photos = await list(
+      createSource({ albumId: 'album', dateRanges: [{ start: new Date(2024, 6, 1), end: new Date(2024, 7, 31) }] })
+    )
+
+    expect(mock.requests[0].body).toEqual({ pageSize: 100, albumId: 'album' })
+    expect(photos.map(photo => photo.id)).toEqual(['google:two'])
+  })
+
+  it('rejects content categories combined with an album instead of ignoring them', async () => {
+    await expect(list(createSource({ albumId: 'album', excludedContentCategories: ['SCREENSHOTS'] }))).rejects.toThrow(
+      'Google Photos albums cannot be filtered by content category'
+    )
+    expect(mock.requests).toEqual([])
+  })
+
+  it('downloads sized renditions, refreshing a rejected base URL once', async () => {
+    const [one, two] = await list(createSource())
+
+    expect((await loadSourcePhoto(two)).buffer.toString()).toBe('bytes of /content/two=w1024-h1024')
+    expect((await loadSourcePhoto(one)).buffer.toString()).toBe('bytes of /content/one-fresh=w1024-h1024')
+    expect(mock.refreshes()).toBe(1)
+  })
+})
@@ -1,5 +1,7 @@
 import * as fs from 'node:fs'
 import * as path from 'node:path'
+import { EMPTY_INTERACTIONS, createSourcePhotoId } from '@/images/source'
+import type { PhotoSource, SourcePhoto } from '@/lib/types'
 import dotenv from 'dotenv'
 import { OAuth2Client } from 'google-auth-library'
 import fetch from 'node-fetch'
@@ -11,63 +13,188 @@ interface PhotoItem {
   baseUrl: string
   filename: string
   mimeType: string
+  description?: string
   mediaMetadata: {
     creationTime: string
     width: string
     height: string
-    photo: {
-      cameraMake: string
-      cameraModel: string
-      focalLength: number
-      apertureFNumber: number
-      isoEquivalent: number
-      exposureTime: string
+    photo?: {
+      cameraMake?: string
+      cameraModel?: string
+      focalLength?: number
+      apertureFNumber?: number
+      isoEquivalent?: number
+      exposureTime?: string
     }
   }
 }
 
-class GooglePhotosAPI {
-  private oauth2Client: OAuth2Client
+interface SearchResponse {
+  mediaItems?: PhotoItem[]
+  nextPageToken?: string
+}
 
-  constructor() {
-    this.oauth2Client = new OAuth2Client(
-      process.env.GOOGLE_CLIENT_ID,
-      process.env.GOOGLE_CLIENT_SECRET,
-      process.env.GOOGLE_REDIRECT_URI
-    )
+export interface GooglePhotosFilters {
+  // Inclusive date ranges the photos were taken in
+  dateRanges?: Array<{ start: Date; end: Date }>
+  // Only list photos in this album. The API can't combine albums with other filters: date ranges are then checked
+  // locally, and content categories can't be checked at all, so combining them with an album is an error
+  albumId?: string
+  // Content categories such as LANDSCAPES, PEOPLE or TRAVEL
+  includedContentCategories?: string[]
+  excludedContentCategories?: string[]
+  // Accepted MIME types
+  mimeTypes?: string[]
+}
 
-    this.oauth2Client.setCredentials({
-      refresh_token: process.env.GOOGLE_REFRESH_TOKEN
-    })
-  }
+export interface GooglePhotosAPIOptions {
+  // Overrides the API endpoint, e.g. to point at a local mock server
+  apiBaseUrl?: string
+  // Supplies OAuth access tokens; defaults to a refresh-token OAuth2 client configured from the environment
+  getAccessToken?: () => Promise<string>
+  fetch?: typeof fetch
+}
 
-  async fetchPhotos(pageSize = 50): Promise<PhotoItem[]> {
-    try {
-      const accessToken = (await this.oauth2Client.getAccessToken()).token
-      if (!accessToken) throw new Error('Failed to get access token')
+export const DEFAULT_MIME_TYPES = ['image/jpeg', 'image/png', 'image/heic', 'image/heif']
 
-      const response = await fetch(`https://photoslibrary.googleapis.com/v1/mediaItems?pageSize=${pageSize}`, {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          'Content-Type': 'application/json'
-        }
+/**
+ * Content categories the Library API can filter on.
+ */
+export const CONTENT_CATEGORIES = [
+  'ANIMALS',
+  'ARTS',
+  'BIRTHDAYS',
+  'CITYSCAPES',
+  'CRAFTS',
+  'DOCUMENTS',
+  'FASHION',
+  'FLOWERS',
+  'FOOD',
+  'GARDENS',
+  'HOLIDAYS',
+  'HOUSES',
+  'LANDMARKS',
+  'LANDSCAPES',
+  'NIGHT',
+  'PEOPLE',
+  'PERFORMANCES',
+  'PETS',
+  'RECEIPTS',
+  'SCREENSHOTS',
+  'SELFIES',
+  'SPORT',
+  'TRAVEL',
+  'UTILITY',
+  'WEDDINGS',
+  'WHITEBOARDS'
+] as const
+
+// Base URLs are valid for about 60 minutes; refresh a little earlier to leave room for slow downloads
+const BASE_URL_LIFETIME_MS = 50 * 60 * 1000
+
+/**
+ * Converts a Date into the calendar date object used by the Library API.
+ */
+const toApiDate = (date: Date) => ({ year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() })
+
+/**
+ * Checks whether a media item matches the date ranges, using whole days like the API does.
+ */
+const isWithinDateRanges = (item: PhotoItem, dateRanges: GooglePhotosFilters['dateRanges']): boolean => {
+  if (!dateRanges?.length) return true
+
+  const created = new Date(item.mediaMetadata.creationTime)
+  return dateRanges.some(range => {
+    const start = new Date(range.start.getFullYear(), range.start.getMonth(), range.start.getDate())
+    const end = new Date(range.end.getFullYear(), range.end.getMonth(), range.end.getDate() + 1)
+    return created >= start && created < end
+  })
+}
+
+export class GooglePhotosAPI {
+  private readonly apiBaseUrl: string
+  private readonly getAccessToken: () => Promise<string>
+  private readonly fetch: typeof fetch
+
+  constructor(options: GooglePhotosAPIOptions = {}) {
+    this.apiBaseUrl = options.apiBaseUrl || 'https://photoslibrary.googleapis.com/v1'
+    this.fetch = options.fetch || fetch
+
+    if (options.getAccessToken) {
+      this.getAccessToken = options.getAccessToken
+    } else {
+      const oauth2Client = new OAuth2Client(
+        process.env.GOOGLE_CLIENT_ID,
+        process.env.GOOGLE_CLIENT_SECRET,
+        process.env.GOOGLE_REDIRECT_URI
+      )
+      oauth2Client.setCredentials({
+        refresh_token: process.env.GOOGLE_REFRESH_TOKEN
       })
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
+      // The client refreshes expired access tokens itself
+      this.getAccessToken = async () => {
+        const accessToken = (await oauth2Client.getAccessToken()).token
+        if (!accessToken) throw new Error('Failed to get access token')
+        return accessToken
       }
+    }
+  }
 
-      const data = await response.json()
-      return data.mediaItems
-    } catch (error) {
-      console.error('Error fetching photos:', error)
-      throw error
+  /**
+   * Lists every photo matching the filters, following `nextPageToken` until the library is exhausted.
+   * @param filters - Date, album, content category and MIME type filters
+   * @param pageSize - Items requested per page (the API allows up to 100)
+   * @returns Matching media items
+   * @throws When content categories are combined with an album
+   */
+  async *searchMediaItems(filters: GooglePhotosFilters = {}, pageSize = 100): AsyncIterable<PhotoItem> {
+    if (filters.albumId && (filters.includedContentCategories?.length || filters.excludedContentCategories?.length)) {
+      throw new Error('Google Photos albums cannot be filtered by content category')
     }
+
+    const mimeTypes = filters.mimeTypes || DEFAULT_MIME_TYPES
+    let pageToken: string | undefined
+
+    do {
+      const page = await this.request<SearchResponse>('/mediaItems:search', {
+        method: 'POST',
+        body: JSON.stringify({ pageSize, pageToken, ...this.buildSearchFilters(filters) })
+      })
+
+      for (const item of page.mediaItems || []) {
+        if (!mimeTypes.includes(item.mimeType)) continue
+        // Album searches ignore filters server-side, so dates are checked here
+        if (filters.albumId && !isWithinDateRanges(item, filters.dateRanges)) continue
+        yield item
+      }
+
+      pageToken = page.nextPageToken
+    } while (pageToken)
+  }
+
+  /**
+   * Fetches a single media item, which also returns a fresh base URL.
+   * @param id - Media item ID
+   * @returns Media item
+   */
+  async getMediaItem(id: string): Promise<PhotoItem> {
+    return this.request<PhotoItem>(`/mediaItems/${encodeURIComponent(id)}`, { method: 'GET' })
+  }
+
+  /**
+   * Downloads an image rendition bounded to the given size. Renditions are always JPEG, including for HEIC originals.
+   * @param baseUrl - Base URL of the media item
+   * @param maxDimension - Maximum width and height of the rendition
+   * @returns Response from the content server
+   */
+  async fetchRendition(baseUrl: string, maxDimension: number) {
+    return this.fetch(`${baseUrl}=w${maxDimension}-h${maxDimension}`)
   }
 
   async downloadPhoto(photoItem: PhotoItem, downloadDir: string): Promise<void> {
     try {
-      const response = await fetch(`${photoItem.baseUrl}=d`)
+      const response = await this.fetch(`${photoItem.baseUrl}=d`)
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`)
       }
@@ -81,16 +208,132 @@ class GooglePhotosAPI {
       console.error(`Error downloading ${photoItem.filename}:`, error)
     }
   }
+
+  private buildSearchFilters(filters: GooglePhotosFilters) {
+    if (filters.albumId) return { albumId: filters.albumId }
+
+    return {
+      filters: {
+        mediaTypeFilter: { mediaTypes: ['PHOTO'] },
+        dateFilter: filters.dateRanges?.length
+          ? { ranges: filters.dateRanges.map(range => ({ startDate: toApiDate(range.start), endDate: toApiDate(range.end) })) }
+          : undefined,
+        contentFilter:
+          filters.includedContentCategories?.length || filters.excludedContentCategories?.length
+            ? {
+                includedContentCategories: filters.includedContentCategories,
+                excludedContentCategories: filters.excludedContentCategories
+              }
+            : undefined
+      }
+    }
+  }
+
+  private async request<T>(endpoint: string, init: { method: string; body?: string }): Promise<T> {
+    try {
+      const response = await this.fetch(`${this.apiBaseUrl}${endpoint}`, {
+        ...init,
+        headers: {
+          Authorization: `Bearer ${await this.getAccessToken()}`,
+          'Content-Type': 'application/json'
+        }
+      })
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`)
+      }
+
+      return (await response.json()) as T
+    } catch (error) {
+      console.error(`Error calling Google Photos ${endpoint}:`, error)
+      throw error
+    }
+  }
 }
 
-export const getImages = async () => {
-  const api = new GooglePhotosAPI()
+export interface GooglePhotosSourceOptions extends GooglePhotosAPIOptions {
+  filters?: GooglePhotosFilters
+  // Longest side of the downloaded rendition; analysis doesn't benefit from full-resolution originals
+  maxDimension?: number
+}
 
-  try {
-    const photos = await api.fetchPhotos(3) // Fetch 10 photos
-    return photos.filter(_ => _.mimeType === 'image/jpeg')
-  } catch (e) {
-    console.error('Error in getImages:', { e })
-    throw e
+/**
+ * Photo source listing the user's Google Photos library.
+ * Base URLs expire after about an hour, so long runs refresh them before downloading.
+ */
+export class GooglePhotosSource implements PhotoSource {
+  public readonly name = 'google'
+  private readonly api: GooglePhotosAPI
+  private readonly filters: GooglePhotosFilters
+  private readonly maxDimension: number
+
+  constructor(options: GooglePhotosSourceOptions = {}) {
+    this.api = new GooglePhotosAPI(options)
+    this.filters = options.filters || {}
+    this.maxDimension = options.maxDimension || 2048
+  }
+
+  async *photos(): AsyncIterable<SourcePhoto> {
+    for await (const item of this.api.searchMediaItems(this.filters)) {
+      yield this.toSourcePhoto(item, Date.now())
+    }
+  }
+
+  /**
+   * Downloads a sized rendition, refreshing the base URL first if it's close to expiring
+   * and once more if the content server rejects it anyway.
+   */
+  private async loadRendition(item: PhotoItem, state: { baseUrl: string; fetchedAt: number }): Promise<Buffer> {
+    const refresh = async () => {
+      const refreshed = await this.api.getMediaItem(item.id)
+      state.baseUrl = refreshed.baseUrl
+      state.fetchedAt = Date.now()
+    }
+
+    if (Date.now() - state.fetchedAt > BASE_URL_LIFETIME_MS) await refresh()
+
+    let response = await this.api.fetchRendition(state.baseUrl, this.maxDimension)
+    if (response.status === 403 || response.status === 404) {
+      await refresh()
+      response = await this.api.fetchRendition(state.baseUrl, this.maxDimension)
+    }
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`)
+    }
+
+    return Buffer.from(await response.arrayBuffer())
+  }
+
+  private toSourcePhoto(item: PhotoItem, fetchedAt: number): SourcePhoto {
+    const { photo, width, height, creationTime } = item.mediaMetadata
+    const state = { baseUrl: item.baseUrl, fetchedAt }
+
+    return {
+      id: createSourcePhotoId(this.name, item.id),
+      url: item.baseUrl,
+      dateTime: new Date(creationTime),
+      // Dimensions are read from the downloaded rendition, which is smaller than the original
+      metadata: {
+        title: item.filename,
+        description: item.description,
+        camera: photo
+          ? {
+              make: photo.cameraMake,
+              model: photo.cameraModel,
+              focalLength: photo.focalLength,
+              iso: photo.isoEquivalent,
+              exposureTime: photo.exposureTime ? Number.parseFloat(photo.exposureTime) : undefined
+            }
+          : undefined
+      },
+      interactions: { ...EMPTY_INTERACTIONS },
+      source: {
+        name: this.name,
+        ref: item.id,
+        metadata: { filename: item.filename, mimeType: item.mimeType, width: Number(width), height: Number(height) }
+      },
+      loadBuffer: () => this.loadRendition(item, state)
+    }
   }
 }
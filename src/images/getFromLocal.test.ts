@@ -0,0 +1,52 @@
+import * as fs from 'node:fs/promises'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { LocalDirectorySource } from '@/images/getFromLocal'
+import { loadSourcePhoto } from '@/images/source'
+
+describe('LocalDirectorySource', () => {
+  let rootDir: string
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'local-source-'))
+    await fs.mkdir(path.join(rootDir, 'trip'))
+    await fs.mkdir(path.join(rootDir, '.thumbnails'))
+    await Promise.all([
+      fs.writeFile(path.join(rootDir, 'b.jpg'), 'b'),
+      fs.writeFile(path.join(rootDir, 'A.PNG'), 'a'),
+      fs.writeFile(path.join(rootDir, 'notes.txt'), 'not a photo'),
+      fs.writeFile(path.join(rootDir, '.hidden.jpg'), 'hidden'),
+      fs.writeFile(path.join(rootDir, '.thumbnails', 'thumb.jpg'), 'thumb'),
+      fs.writeFile(path.join(rootDir, 'trip', 'beach.webp'), 'beach')
+    ])
+  })
+
+  afterEach(() => fs.rm(rootDir, { recursive: true, force: true }))
+
+  const list = async (source: LocalDirectorySource) => {
+    const photos = []
+    for await (const photo of source.photos()) photos.push(photo)
+    return photos
+  }
+
+  it('lists images recursively in a stable order, skipping hidden files and other formats', async () => {
+    const photos = await list(new LocalDirectorySource(rootDir))
+
+    expect(photos.map(photo => photo.id)).toEqual(['local:A.PNG', 'local:b.jpg', 'local:trip/beach.webp'])
+    expect(photos[2].metadata.title).toBe('beach.webp')
+    expect(photos[2].source).toMatchObject({ name: 'local', ref: 'trip/beach.webp', metadata: { size: 5 } })
+  })
+
+  it('loads the bytes of a photo on demand', async () => {
+    const [photo] = await list(new LocalDirectorySource(rootDir))
+
+    expect((await loadSourcePhoto(photo)).buffer.toString()).toBe('a')
+  })
+
+  it('gives every photo its own interactions', async () => {
+    const [first, second] = await list(new LocalDirectorySource(rootDir))
+    first.interactions.viewCount++
+
+    expect(second.interactions.viewCount).toBe(0)
+  })
+})
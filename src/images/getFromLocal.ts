@@ -0,0 +1,56 @@
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { EMPTY_INTERACTIONS, IMAGE_EXTENSIONS, createSourcePhotoId } from '@/images/source'
+import type { PhotoSource, SourcePhoto } from '@/lib/types'
+
+/**
+ * Photo source listing image files in a local directory and its subdirectories.
+ */
+export class LocalDirectorySource implements PhotoSource {
+  public readonly name = 'local'
+
+  constructor(private readonly rootDir: string) {}
+
+  async *photos(): AsyncIterable<SourcePhoto> {
+    for await (const filePath of this.walk(this.rootDir)) {
+      const stats = await fs.stat(filePath)
+      // Relative paths with forward slashes keep IDs stable across machines and platforms
+      const ref = path.relative(this.rootDir, filePath).split(path.sep).join('/')
+
+      yield {
+        id: createSourcePhotoId(this.name, ref),
+        url: pathToFileURL(filePath).href,
+        // Modification time only; EXIF capture time replaces it once the file is loaded
+        dateTime: stats.mtime,
+        metadata: {
+          title: path.basename(filePath)
+        },
+        interactions: { ...EMPTY_INTERACTIONS },
+        source: {
+          name: this.name,
+          ref,
+          metadata: { path: filePath, size: stats.size }
+        },
+        loadBuffer: () => fs.readFile(filePath)
+      }
+    }
+  }
+
+  private async *walk(directory: string): AsyncIterable<string> {
+    const entries = await fs.readdir(directory, { withFileTypes: true })
+    entries.sort((a, b) => a.name.localeCompare(b.name))
+
+    for (const entry of entries) {
+      // Skip hidden files and folders such as .DS_Store or .thumbnails
+      if (entry.name.startsWith('.')) continue
+
+      const entryPath = path.join(directory, entry.name)
+      if (entry.isDirectory()) {
+        yield* this.walk(entryPath)
+      } else if (entry.isFile() && IMAGE_EXTENSIONS.test(entry.name)) {
+        yield entryPath
+      }
+    }
+  }
+}
@@ -0,0 +1,147 @@
+import * as fs from 'node:fs/promises'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { TakeoutSource } from '@/images/getFromTakeout'
+import { loadSourcePhoto } from '@/images/source'
+import type { SourcePhoto } from '@/lib/types'
+import { createZipArchive } from '@/test/fixtures'
+
+const LONG_NAME = `${'a'.repeat(50)}.jpg`
+
+const sidecar = (title: string, fields: Record<string, unknown> = {}) =>
+  JSON.stringify({ title, photoTakenTime: { timestamp: '1717236000' }, ...fields })
+
+// A Takeout album with the naming quirks of real exports
+const EXPORT_FILES: Record<string, string> = {
+  'Takeout/Google Photos/Trip/metadata.json': JSON.stringify({ title: 'Trip' }),
+  'Takeout/Google Photos/Trip/IMG_1.jpg': 'first',
+  'Takeout/Google Photos/Trip/IMG_1.jpg.json': sidecar('IMG_1.jpg', {
+    imageViews: '12',
+    favorited: true,
+    geoData: { latitude: 0, longitude: 0 },
+    geoDataExif: { latitude: 48.85, longitude: 2.35 },
+    people: [{ name: 'Alice' }]
+  }),
+  'Takeout/Google Photos/Trip/IMG_1-edited.jpg': 'first, edited',
+  'Takeout/Google Photos/Trip/IMG_1(1).jpg': 'second',
+  'Takeout/Google Photos/Trip/IMG_1.jpg(1).json': sidecar('IMG_1.jpg', { photoTakenTime: { timestamp: '1717239600' } }),
+  [`Takeout/Google Photos/Trip/${LONG_NAME}`]: 'long',
+  [`Takeout/Google Photos/Trip/${`${LONG_NAME}.supplemental-metadata`.slice(0, 46)}.json`]: sidecar(LONG_NAME, { imageViews: '3' }),
+  'Takeout/Google Photos/Trip/beach.png': 'beach',
+  'Takeout/Google Photos/Trip/mangled-sidecar.json': sidecar('beach.png', { description: 'At the beach' }),
+  'Takeout/Google Photos/Trip/lonely.png': 'lonely'
+}
+
+const list = async (source: TakeoutSource) => {
+  const photos: SourcePhoto[] = []
+  for await (const photo of source.photos()) photos.push(photo)
+  return new Map(photos.map(photo => [photo.source.ref, photo]))
+}
+
+describe('TakeoutSource', () => {
+  let tempDir: string
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'takeout-source-'))
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await fs.rm(tempDir, { recursive: true, force: true })
+  })
+
+  const extract = async () => {
+    for (const [filePath, contents] of Object.entries(EXPORT_FILES)) {
+      await fs.mkdir(path.dirname(path.join(tempDir, filePath)), { recursive: true })
+      await fs.writeFile(path.join(tempDir, filePath), contents)
+    }
+    return path.join(tempDir, 'Takeout')
+  }
+
+  describe('sidecar matching', () => {
+    let photos: Map<string, SourcePhoto>
+
+    beforeEach(async () => {
+      photos = await list(new TakeoutSource(await extract()))
+    })
+
+    it('lists every image, skipping JSON files', () => {
+      expect([...photos.keys()].sort()).toEqual(
+        ['IMG_1(1).jpg', 'IMG_1-edited.jpg', 'IMG_1.jpg', LONG_NAME, 'beach.png', 'lonely.png']
+          .map(name => `Google Photos/Trip/${name}`)
+          .sort()
+      )
+    })
+
+    it('reads the time, location, views and favorite from the sidecar of the same name', () => {
+      const photo = photos.get('Google Photos/Trip/IMG_1.jpg')
+
+      expect(photo).toMatchObject({
+        id: 'takeout:Google Photos/Trip/IMG_1.jpg',
+        dateTime: new Date(1717236000 * 1000),
+        metadata: { title: 'IMG_1.jpg', location: { latitude: 48.85, longitude: 2.35 } },
+        interactions: { viewCount: 12, isFavorite: true, isEdited: false },
+        source: { metadata: { people: ['Alice'] } }
+      })
+    })
+
+    it('pairs repeated names through the counter behind the extension', () => {
+      expect(photos.get('Google Photos/Trip/IMG_1(1).jpg')?.dateTime).toEqual(new Date(1717239600 * 1000))
+    })
+
+    it('gives edited copies the sidecar of their original', () => {
+      expect(photos.get('Google Photos/Trip/IMG_1-edited.jpg')?.interactions).toMatchObject({ viewCount: 12, isEdited: true })
+    })
+
+    it('finds truncated supplemental metadata sidecars of long names', () => {
+      expect(photos.get(`Google Photos/Trip/${LONG_NAME}`)?.interactions.viewCount).toBe(3)
+    })
+
+    it('falls back to the title recorded in the sidecar', () => {
+      expect(photos.get('Google Photos/Trip/beach.png')?.metadata.description).toBe('At the beach')
+    })
+
+    it('falls back to the file name and modification time without a sidecar', () => {
+      const photo = photos.get('Google Photos/Trip/lonely.png')
+
+      expect(photo?.metadata).toEqual({ title: 'lonely.png', description: undefined, location: undefined })
+      expect(photo?.interactions).toEqual({ viewCount: 0, shareCount: 0, isEdited: false, isFavorite: false })
+      expect(console.warn).toHaveBeenCalledWith('No Takeout sidecar found for Google Photos/Trip/lonely.png')
+    })
+  })
+
+  describe('zip files', () => {
+    it('lists the same photos as the extracted export and loads them until closed', async () => {
+      const zipPath = path.join(tempDir, 'takeout-001.zip')
+      await fs.writeFile(zipPath, createZipArchive(EXPORT_FILES))
+      const fromDirectory = await list(new TakeoutSource(await extract()))
+      const source = new TakeoutSource([zipPath])
+
+      const fromZip = await list(source)
+      const photo = fromZip.get('Google Photos/Trip/IMG_1.jpg') as SourcePhoto
+
+      const summarize = (photos: Map<string, SourcePhoto>) =>
+        [...photos.values()]
+          .map(({ id, metadata, interactions }) => ({ id, metadata, interactions }))
+          .sort((a, b) => a.id.localeCompare(b.id))
+      expect(summarize(fromZip)).toEqual(summarize(fromDirectory))
+      expect((await loadSourcePhoto(photo)).buffer.toString()).toBe('first')
+
+      source.close()
+      await expect(loadSourcePhoto(photo)).rejects.toThrow()
+    })
+
+    it('finds sidecars stored in another part of a multi-part export', async () => {
+      const [imagePath, sidecarPath] = ['IMG_1.jpg', 'IMG_1.jpg.json'].map(name => `Takeout/Google Photos/Trip/${name}`)
+      await fs.writeFile(path.join(tempDir, 'part-1.zip'), createZipArchive({ [imagePath]: EXPORT_FILES[imagePath] }))
+      await fs.writeFile(path.join(tempDir, 'part-2.zip'), createZipArchive({ [sidecarPath]: EXPORT_FILES[sidecarPath] }))
+      const source = new TakeoutSource(['part-1.zip', 'part-2.zip'].map(name => path.join(tempDir, name)))
+
+      const photos = await list(source)
+      source.close()
+
+      expect(photos.get('Google Photos/Trip/IMG_1.jpg')?.interactions.viewCount).toBe(12)
+    })
+  })
+})
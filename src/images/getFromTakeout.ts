@@ -0,0 +1,277 @@
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
+import { EMPTY_INTERACTIONS, IMAGE_EXTENSIONS, createSourcePhotoId } from '@/images/source'
+import type { PhotoMetadata, PhotoSource, SourcePhoto } from '@/lib/types'
+import * as yauzl from 'yauzl'
+
+/**
+ * A file inside a Takeout export, either extracted on disk or still inside a zip.
+ */
+interface TakeoutEntry {
+  // Path within the export with forward slashes and without the leading "Takeout/", e.g. "Google Photos/Trip/IMG_1.jpg"
+  path: string
+  modifiedAt: Date
+  read(): Promise<Buffer>
+}
+
+interface TakeoutArchive {
+  entries: TakeoutEntry[]
+  close(): void
+}
+
+/**
+ * The JSON sidecar Takeout writes next to every photo.
+ */
+interface TakeoutSidecar {
+  title?: string
+  description?: string
+  // Seconds since the epoch, as strings
+  photoTakenTime?: { timestamp: string }
+  creationTime?: { timestamp: string }
+  // Location edited or confirmed in Google Photos; 0,0 when unknown
+  geoData?: { latitude: number; longitude: number; altitude?: number }
+  // Location from the original file's EXIF; 0,0 when unknown
+  geoDataExif?: { latitude: number; longitude: number; altitude?: number }
+  people?: Array<{ name: string }>
+  url?: string
+  // View count as a string, e.g. "12"
+  imageViews?: string
+  favorited?: boolean
+}
+
+// Takeout truncates sidecar names to 51 characters, i.e. 46 before ".json"
+const MAX_SIDECAR_STEM_LENGTH = 46
+
+// Edited copies share the original's sidecar; the suffix is localized
+const EDITED_SUFFIXES = ['-edited', '-bearbeitet', '-modifié', '-editado', '-modificato', '-bewerkt']
+
+/**
+ * Normalizes a path within an export, so the same photo gets the same path from a zip or an extracted directory.
+ */
+const normalizeEntryPath = (entryPath: string): string =>
+  entryPath
+    .split(path.sep)
+    .join('/')
+    .replace(/^Takeout\//, '')
+
+/**
+ * Lists the files of an extracted Takeout directory.
+ */
+const openDirectory = async (rootDir: string): Promise<TakeoutArchive> => {
+  const entries: TakeoutEntry[] = []
+
+  const walk = async (directory: string): Promise<void> => {
+    const dirents = await fs.readdir(directory, { withFileTypes: true })
+    dirents.sort((a, b) => a.name.localeCompare(b.name))
+
+    for (const dirent of dirents) {
+      if (dirent.name.startsWith('.')) continue
+
+      const entryPath = path.join(directory, dirent.name)
+      if (dirent.isDirectory()) {
+        await walk(entryPath)
+      } else if (dirent.isFile()) {
+        entries.push({
+          path: normalizeEntryPath(path.relative(rootDir, entryPath)),
+          modifiedAt: (await fs.stat(entryPath)).mtime,
+          read: () => fs.readFile(entryPath)
+        })
+      }
+    }
+  }
+
+  await walk(rootDir)
+  return { entries, close: () => undefined }
+}
+
+/**
+ * Lists the files of a Takeout zip without extracting it. The zip stays open so files can be read later.
+ */
+const openZip = async (zipPath: string): Promise<TakeoutArchive> => {
+  const zipFile = await yauzl.openPromise(zipPath, { lazyEntries: true, autoClose: false })
+  const zipEntries: yauzl.Entry[] = await new Promise((resolve, reject) => {
+    const collected: yauzl.Entry[] = []
+    zipFile.on('entry', (entry: yauzl.Entry) => {
+      // Directory entries end with a slash
+      if (!entry.fileName.endsWith('/')) collected.push(entry)
+      zipFile.readEntry()
+    })
+    zipFile.on('end', () => resolve(collected))
+    zipFile.on('error', reject)
+    zipFile.readEntry()
+  })
+
+  const entries = zipEntries.map(entry => ({
+    path: normalizeEntryPath(entry.fileName),
+    modifiedAt: entry.getLastModDate(),
+    read: async () => {
+      const chunks: Buffer[] = []
+      for await (const chunk of await zipFile.openReadStreamPromise(entry)) {
+        chunks.push(chunk)
+      }
+      return Buffer.concat(chunks)
+    }
+  }))
+
+  return { entries, close: () => zipFile.close() }
+}
+
+/**
+ * Parses a JSON file if it's a photo sidecar; album metadata and other JSON files in the export are ignored.
+ */
+const readSidecar = async (entry: TakeoutEntry): Promise<TakeoutSidecar | undefined> => {
+  try {
+    const sidecar = JSON.parse((await entry.read()).toString('utf8'))
+    return sidecar.photoTakenTime || sidecar.creationTime ? sidecar : undefined
+  } catch (error) {
+    console.warn(`Skipping unreadable Takeout JSON ${entry.path}:`, error)
+    return undefined
+  }
+}
+
+/**
+ * Splits an image file name into the name of the original upload, the "(n)" counter Takeout adds to repeated names,
+ * and whether it's an edited copy.
+ * For example "IMG_1(1)-edited.jpg" is an edited copy of the second "IMG_1.jpg" in its folder.
+ */
+const parseImageName = (fileName: string): { originalName: string; counter: string; isEdited: boolean } => {
+  const extension = path.extname(fileName)
+  let stem = fileName.slice(0, fileName.length - extension.length)
+
+  const editedSuffix = EDITED_SUFFIXES.find(suffix => stem.toLowerCase().endsWith(suffix))
+  if (editedSuffix) stem = stem.slice(0, stem.length - editedSuffix.length)
+
+  const counterMatch = stem.match(/^(.*)(\(\d+\))$/)
+  return {
+    originalName: `${counterMatch ? counterMatch[1] : stem}${extension}`,
+    counter: counterMatch ? counterMatch[2] : '',
+    isEdited: editedSuffix !== undefined
+  }
+}
+
+/**
+ * Lists the sidecar names Takeout may have used for an image, most likely first.
+ * The "(n)" counter moves behind the extension ("IMG_1(1).jpg" pairs with "IMG_1.jpg(1).json"), newer exports insert
+ * ".supplemental-metadata", and long names are cut off before the counter and ".json" are appended.
+ */
+const getSidecarNameCandidates = (fileName: string): string[] => {
+  const { originalName, counter } = parseImageName(fileName)
+  const stems = [
+    `${originalName}.supplemental-metadata`,
+    originalName,
+    // Some exports drop the image extension when the name is too long to fit
+    originalName.slice(0, originalName.length - path.extname(originalName).length)
+  ]
+
+  return stems.map(stem => `${stem.slice(0, MAX_SIDECAR_STEM_LENGTH)}${counter}.json`)
+}
+
+/**
+ * Picks the first usable coordinates, skipping the 0,0 Takeout writes for photos without a location.
+ */
+const toLocation = (...candidates: Array<TakeoutSidecar['geoData']>): PhotoMetadata['location'] => {
+  const geoData = candidates.find(candidate => candidate && (candidate.latitude !== 0 || candidate.longitude !== 0))
+  return geoData ? { latitude: geoData.latitude, longitude: geoData.longitude } : undefined
+}
+
+/**
+ * Photo source importing a Google Takeout export of Google Photos without any network access.
+ * Accepts extracted directories and zip files; multi-part exports should be passed together, since a photo's
+ * sidecar may have ended up in a different part than the photo.
+ */
+export class TakeoutSource implements PhotoSource {
+  public readonly name = 'takeout'
+  private readonly archivePaths: string[]
+  private archives: TakeoutArchive[] = []
+
+  constructor(archivePaths: string | string[]) {
+    this.archivePaths = Array.isArray(archivePaths) ? archivePaths : [archivePaths]
+  }
+
+  async *photos(): AsyncIterable<SourcePhoto> {
+    this.close()
+    for (const archivePath of this.archivePaths) {
+      const stats = await fs.stat(archivePath)
+      this.archives.push(stats.isDirectory() ? await openDirectory(archivePath) : await openZip(archivePath))
+    }
+
+    const entries = this.archives.flatMap(archive => archive.entries)
+    const sidecarsByPath = new Map<string, TakeoutSidecar>()
+    for (const entry of entries) {
+      if (!entry.path.toLowerCase().endsWith('.json')) continue
+      const sidecar = await readSidecar(entry)
+      if (sidecar) sidecarsByPath.set(entry.path, sidecar)
+    }
+
+    // Sidecars record the original file name, which finds them when their own name was mangled beyond recognition
+    const sidecarsByTitle = new Map<string, TakeoutSidecar[]>()
+    sidecarsByPath.forEach((sidecar, sidecarPath) => {
+      if (!sidecar.title) return
+      const key = `${path.posix.dirname(sidecarPath)}/${sidecar.title}`
+      sidecarsByTitle.set(key, [...(sidecarsByTitle.get(key) || []), sidecar])
+    })
+
+    // Multi-part exports can contain the same file more than once
+    const seen = new Set<string>()
+    for (const entry of entries) {
+      if (!IMAGE_EXTENSIONS.test(entry.path) || seen.has(entry.path)) continue
+      seen.add(entry.path)
+
+      const directory = path.posix.dirname(entry.path)
+      const fileName = path.posix.basename(entry.path)
+      const sidecarPath = getSidecarNameCandidates(fileName)
+        .map(candidate => `${directory}/${candidate}`)
+        .find(candidate => sidecarsByPath.has(candidate))
+
+      let sidecar = sidecarPath ? sidecarsByPath.get(sidecarPath) : undefined
+      if (!sidecar) {
+        // Only trust a title match when it's unambiguous; repeated names are told apart by the "(n)" counter instead
+        const byTitle = sidecarsByTitle.get(`${directory}/${parseImageName(fileName).originalName}`)
+        if (byTitle?.length === 1) sidecar = byTitle[0]
+      }
+      if (!sidecar) console.warn(`No Takeout sidecar found for ${entry.path}`)
+
+      yield this.toSourcePhoto(entry, sidecar)
+    }
+  }
+
+  /**
+   * Closes the zip files opened by the last listing. Photos listed from them can't be loaded afterwards.
+   */
+  close(): void {
+    this.archives.forEach(archive => archive.close())
+    this.archives = []
+  }
+
+  private toSourcePhoto(entry: TakeoutEntry, sidecar?: TakeoutSidecar): SourcePhoto {
+    const fileName = path.posix.basename(entry.path)
+    const takenAt = sidecar?.photoTakenTime?.timestamp || sidecar?.creationTime?.timestamp
+
+    return {
+      id: createSourcePhotoId(this.name, entry.path),
+      url: `takeout://${entry.path}`,
+      // Falls back to the file's modification time, which is usually the export time
+      dateTime: takenAt ? new Date(Number(takenAt) * 1000) : entry.modifiedAt,
+      metadata: {
+        title: sidecar?.title || fileName,
+        description: sidecar?.description || undefined,
+        location: toLocation(sidecar?.geoData, sidecar?.geoDataExif)
+      },
+      interactions: {
+        ...EMPTY_INTERACTIONS,
+        viewCount: Number(sidecar?.imageViews) || 0,
+        isEdited: parseImageName(fileName).isEdited,
+        isFavorite: sidecar?.favorited === true
+      },
+      source: {
+        name: this.name,
+        ref: entry.path,
+        metadata: {
+          url: sidecar?.url,
+          people: sidecar?.people?.map(person => person.name)
+        }
+      },
+      loadBuffer: () => entry.read()
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import type { Photo, SourcePhoto } from '@/lib/types'
+
+/**
+ * File extensions of the image formats sources list.
+ */
+export const IMAGE_EXTENSIONS = /\.(jpg|jpeg|png|gif|bmp|webp)$/i
+
+/**
+ * Builds a source-qualified photo ID that stays stable across runs.
+ * @param sourceName - Name of the photo source
+ * @param ref - The source's own identifier for the photo
+ * @returns ID of the form "<source>:<ref>"
+ */
+export const createSourcePhotoId = (sourceName: string, ref: string): string => `${sourceName}:${ref}`
+
+/**
+ * Downloads a source photo's bytes, turning it into a regular photo.
+ * @param sourcePhoto - Photo listed by a source
+ * @returns Photo with its buffer loaded
+ */
+export const loadSourcePhoto = async (sourcePhoto: SourcePhoto): Promise<Photo> => {
+  const { loadBuffer, ...photo } = sourcePhoto
+  return { ...photo, buffer: await loadBuffer() }
+}
+
+/**
+ * Default interactions for sources that don't track views or shares.
+ */
+export const EMPTY_INTERACTIONS: Photo['interactions'] = {
+  viewCount: 0,
+  shareCount: 0,
+  isEdited: false
+}
@@ -0,0 +1,24 @@
+import { sha256 } from '@/lib/hash'
+import type { GoogleFeature } from '@/lib/types'
+
+/**
+ * Version of the derived `PhotoAnalysis` format.
+ * Bump whenever the way responses are turned into analyses changes, so cached analyses are recomputed.
+ */
+export const ANALYSIS_VERSION = 5
+
+/**
+ * Computes a stable fingerprint for a set of requested Vision features and the analysis version.
+ * Entries cached under a different fingerprint are treated as misses and can be pruned.
+ * @param features - Vision features requested for each photo
+ * @param variants - Other settings that change the derived analysis, e.g. the quality engine
+ * @returns Hex-encoded fingerprint
+ */
+export const getFeatureFingerprint = (features: GoogleFeature[], variants: string[] = []): string => {
+  const normalized = features
+    .map(feature => `${feature.type}:${feature.maxResults ?? ''}:${feature.model ?? ''}`)
+    .sort()
+    .join('|')
+
+  return sha256(`v${ANALYSIS_VERSION}|${normalized}|${variants.join(',')}`).slice(0, 16)
+}
@@ -0,0 +1,61 @@
+import * as fs from 'node:fs/promises'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { getFeatureFingerprint } from '@/lib/cache/analysis-cache'
+import { FileSystemAnalysisCache } from '@/lib/cache/fs-analysis-cache'
+import type { AnalysisCacheEntry } from '@/lib/types'
+
+const createEntry = (contentHash: string, featureFingerprint: string): AnalysisCacheEntry =>
+  ({ contentHash, featureFingerprint, response: {}, analysis: {}, createdAt: new Date('2024-06-01T12:00:00Z') }) as AnalysisCacheEntry
+
+describe('FileSystemAnalysisCache', () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'analysis-cache-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  it('reads back what it stored', async () => {
+    const cache = new FileSystemAnalysisCache(directory)
+    await cache.set(createEntry('abc', 'v1'))
+
+    expect(await cache.get('abc', 'v1')).toEqual(createEntry('abc', 'v1'))
+  })
+
+  it('misses entries of another fingerprint', async () => {
+    const cache = new FileSystemAnalysisCache(directory)
+    await cache.set(createEntry('abc', 'v1'))
+
+    expect(await cache.get('abc', 'v2')).toBeUndefined()
+  })
+
+  it('prunes entries of other fingerprints', async () => {
+    const cache = new FileSystemAnalysisCache(directory)
+    await cache.set(createEntry('abc', 'v1'))
+    await cache.set(createEntry('def', 'v1'))
+    await cache.set(createEntry('abc', 'v2'))
+
+    expect(await cache.prune('v2')).toBe(2)
+    expect(await cache.get('abc', 'v1')).toBeUndefined()
+    expect(await cache.get('abc', 'v2')).toBeDefined()
+  })
+})
+
+describe('getFeatureFingerprint', () => {
+  it('ignores the order of features', () => {
+    expect(getFeatureFingerprint([{ type: 'LABEL_DETECTION' }, { type: 'FACE_DETECTION' }])).toBe(
+      getFeatureFingerprint([{ type: 'FACE_DETECTION' }, { type: 'LABEL_DETECTION' }])
+    )
+  })
+
+  it('changes with the features and variants', () => {
+    const fingerprint = getFeatureFingerprint([{ type: 'LABEL_DETECTION' }])
+
+    expect(getFeatureFingerprint([{ type: 'LABEL_DETECTION', maxResults: 5 }])).not.toBe(fingerprint)
+    expect(getFeatureFingerprint([{ type: 'LABEL_DETECTION' }], ['vision'])).not.toBe(fingerprint)
+  })
+})
@@ -0,0 +1,64 @@
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
+import type { AnalysisCache, AnalysisCacheEntry } from '@/lib/types'
+
+/**
+ * Analysis cache stored on the local filesystem.
+ * Entries live at `<directory>/<featureFingerprint>/<contentHash>.json`.
+ */
+export class FileSystemAnalysisCache implements AnalysisCache {
+  constructor(private readonly directory: string) {}
+
+  public async get(contentHash: string, featureFingerprint: string): Promise<AnalysisCacheEntry | undefined> {
+    try {
+      const contents = await fs.readFile(this.getEntryPath(contentHash, featureFingerprint), 'utf8')
+      const entry = JSON.parse(contents)
+      return { ...entry, createdAt: new Date(entry.createdAt) }
+    } catch (error) {
+      if (error.code === 'ENOENT') return undefined
+      throw error
+    }
+  }
+
+  public async set(entry: AnalysisCacheEntry): Promise<void> {
+    const entryPath = this.getEntryPath(entry.contentHash, entry.featureFingerprint)
+    await fs.mkdir(path.dirname(entryPath), { recursive: true })
+
+    // Write to a temporary file first so concurrent readers never see a partial entry
+    const temporaryPath = `${entryPath}.${process.pid}.tmp`
+    await fs.writeFile(temporaryPath, JSON.stringify(entry))
+    await fs.rename(temporaryPath, entryPath)
+  }
+
+  public async prune(currentFingerprint: string): Promise<number> {
+    let removed = 0
+
+    for (const fingerprint of await this.listFingerprints()) {
+      if (fingerprint === currentFingerprint) continue
+
+      const fingerprintDir = path.join(this.directory, fingerprint)
+      removed += (await fs.readdir(fingerprintDir)).length
+      await fs.rm(fingerprintDir, { recursive: true, force: true })
+    }
+
+    return removed
+  }
+
+  public async clear(): Promise<void> {
+    await fs.rm(this.directory, { recursive: true, force: true })
+  }
+
+  private getEntryPath(contentHash: string, featureFingerprint: string): string {
+    return path.join(this.directory, featureFingerprint, `${contentHash}.json`)
+  }
+
+  private async listFingerprints(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.directory, { withFileTypes: true })
+      return entries.filter(entry => entry.isDirectory()).map(entry => entry.name)
+    } catch (error) {
+      if (error.code === 'ENOENT') return []
+      throw error
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import type { Database } from '@/db'
+import { analysisCache } from '@/db/schema'
+import type { AnalysisCache, AnalysisCacheEntry } from '@/lib/types'
+import { and, eq, ne } from 'drizzle-orm'
+
+/**
+ * Analysis cache stored in the `analysis_cache` Postgres table.
+ */
+export class PostgresAnalysisCache implements AnalysisCache {
+  constructor(private readonly db: Database) {}
+
+  public async get(contentHash: string, featureFingerprint: string): Promise<AnalysisCacheEntry | undefined> {
+    const [entry] = await this.db
+      .select()
+      .from(analysisCache)
+      .where(and(eq(analysisCache.contentHash, contentHash), eq(analysisCache.featureFingerprint, featureFingerprint)))
+      .limit(1)
+
+    return entry
+  }
+
+  public async set(entry: AnalysisCacheEntry): Promise<void> {
+    await this.db
+      .insert(analysisCache)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: [analysisCache.contentHash, analysisCache.featureFingerprint],
+        set: { response: entry.response, analysis: entry.analysis, createdAt: entry.createdAt }
+      })
+  }
+
+  public async prune(currentFingerprint: string): Promise<number> {
+    const removed = await this.db
+      .delete(analysisCache)
+      .where(ne(analysisCache.featureFingerprint, currentFingerprint))
+      .returning({ contentHash: analysisCache.contentHash })
+
+    return removed.length
+  }
+
+  public async clear(): Promise<void> {
+    await this.db.delete(analysisCache)
+  }
+}
@@ -0,0 +1,32 @@
+import * as fs from 'node:fs/promises'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { FileSystemFeedbackStore, InMemoryFeedbackStore } from '@/lib/feedback/feedback-store'
+import { createFeedbackEvent, describeFeedbackStore } from '@/test/feedback-store'
+
+describe('InMemoryFeedbackStore', () => {
+  describeFeedbackStore(async () => new InMemoryFeedbackStore())
+})
+
+describe('FileSystemFeedbackStore', () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'feedback-store-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  describeFeedbackStore(async () => new FileSystemFeedbackStore(directory))
+
+  it('keeps user IDs inside its directory', async () => {
+    const store = new FileSystemFeedbackStore(directory)
+
+    await store.record([createFeedbackEvent('../..', 'beach', 'keep', new Date(2024, 5, 1))])
+
+    expect(await fs.readdir(directory)).toEqual(['%2E%2E%2F%2E%2E'])
+    expect(await store.listUserIds()).toEqual(['../..'])
+  })
+})
@@ -0,0 +1,132 @@
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
+import type { FeedbackEvent, FeedbackStore, LearnedWeights } from '@/lib/types'
+
+/**
+ * Identifies the photo of a run an event is about; later events for it replace earlier ones.
+ */
+const getEventKey = (event: Pick<FeedbackEvent, 'userId' | 'runId' | 'photoId'>) =>
+  JSON.stringify([event.userId, event.runId, event.photoId])
+
+/**
+ * Adds events to a user's feedback, replacing earlier events for the same run and photo.
+ */
+const mergeEvents = (existing: FeedbackEvent[], events: FeedbackEvent[]): FeedbackEvent[] => {
+  const merged = new Map(existing.map(event => [getEventKey(event), event]))
+  events.forEach(event => {
+    const key = getEventKey(event)
+    // Re-add so the list stays in the order the latest actions were taken
+    merged.delete(key)
+    merged.set(key, event)
+  })
+  return [...merged.values()]
+}
+
+const groupByUser = (events: FeedbackEvent[]): Map<string, FeedbackEvent[]> => {
+  const groups = new Map<string, FeedbackEvent[]>()
+  events.forEach(event => groups.set(event.userId, [...(groups.get(event.userId) || []), event]))
+  return groups
+}
+
+/**
+ * Feedback stored on the local filesystem, in `<directory>/<user ID>/events.json` and `weights.json` per user.
+ */
+export class FileSystemFeedbackStore implements FeedbackStore {
+  // Serializes writes, since recording events reads and rewrites the user's file
+  private writes = Promise.resolve()
+
+  constructor(private readonly directory: string) {}
+
+  public async record(events: FeedbackEvent[]): Promise<void> {
+    const write = this.writes.then(async () => {
+      for (const [userId, userEvents] of groupByUser(events)) {
+        await this.writeJson(userId, 'events.json', mergeEvents(await this.list(userId), userEvents))
+      }
+    })
+    // Keep later writes going even if this one fails
+    this.writes = write.catch(() => undefined)
+    await write
+  }
+
+  public async list(userId: string): Promise<FeedbackEvent[]> {
+    const events = await this.readJson<FeedbackEvent[]>(userId, 'events.json')
+    return (events || []).map(event => ({ ...event, createdAt: new Date(event.createdAt) }))
+  }
+
+  public async listUserIds(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.directory, { withFileTypes: true })
+      return entries
+        .filter(entry => entry.isDirectory())
+        .map(entry => decodeURIComponent(entry.name))
+        .sort()
+    } catch (error) {
+      if (error.code === 'ENOENT') return []
+      throw error
+    }
+  }
+
+  public async saveWeights(weights: LearnedWeights): Promise<void> {
+    await this.writeJson(weights.userId, 'weights.json', weights)
+  }
+
+  public async getWeights(userId: string): Promise<LearnedWeights | undefined> {
+    const weights = await this.readJson<LearnedWeights>(userId, 'weights.json')
+    return weights && { ...weights, trainedAt: new Date(weights.trainedAt) }
+  }
+
+  private async readJson<T>(userId: string, fileName: string): Promise<T | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.getUserDirectory(userId), fileName), 'utf8'))
+    } catch (error) {
+      if (error.code === 'ENOENT') return undefined
+      throw error
+    }
+  }
+
+  private async writeJson(userId: string, fileName: string, value: unknown): Promise<void> {
+    const directory = this.getUserDirectory(userId)
+    const filePath = path.join(directory, fileName)
+    await fs.mkdir(directory, { recursive: true })
+
+    // Write to a temporary file first so readers never see a partial file
+    const temporaryPath = `${filePath}.${process.pid}.tmp`
+    await fs.writeFile(temporaryPath, JSON.stringify(value, null, 2))
+    await fs.rename(temporaryPath, filePath)
+  }
+
+  // User IDs are encoded, dots included, so they can't escape the directory
+  private getUserDirectory(userId: string): string {
+    return path.join(this.directory, encodeURIComponent(userId).replace(/\./g, '%2E'))
+  }
+}
+
+/**
+ * Feedback kept in memory, e.g. for tests or short-lived processes.
+ */
+export class InMemoryFeedbackStore implements FeedbackStore {
+  private readonly events = new Map<string, FeedbackEvent[]>()
+  private readonly weights = new Map<string, LearnedWeights>()
+
+  public async record(events: FeedbackEvent[]): Promise<void> {
+    groupByUser(events).forEach((userEvents, userId) =>
+      this.events.set(userId, mergeEvents(this.events.get(userId) || [], userEvents))
+    )
+  }
+
+  public async list(userId: string): Promise<FeedbackEvent[]> {
+    return this.events.get(userId) || []
+  }
+
+  public async listUserIds(): Promise<string[]> {
+    return [...this.events.keys()].sort()
+  }
+
+  public async saveWeights(weights: LearnedWeights): Promise<void> {
+    this.weights.set(weights.userId, weights)
+  }
+
+  public async getWeights(userId: string): Promise<LearnedWeights | undefined> {
+    return this.weights.get(userId)
+  }
+}
@@ -0,0 +1,92 @@
+import { FEEDBACK_PRIOR_SAMPLES, blendLearnedWeights, trainWeights } from '@/lib/feedback/weight-trainer'
+import { DEFAULT_SCORING_PROFILE } from '@/lib/highlighter/scoring-profile'
+import type { FeedbackAction, FeedbackEvent, LearnedWeights } from '@/lib/types'
+
+const sum = (weights: Record<string, number>) => Object.values(weights).reduce((total, weight) => total + weight, 0)
+
+/**
+ * Builds feedback on a photo whose scores are all middling except the ones given.
+ */
+const createEvent = (
+  photoId: string,
+  action: FeedbackAction,
+  scores: Partial<FeedbackEvent['scores']>,
+  interest: Partial<FeedbackEvent['interest']> = {}
+): FeedbackEvent => ({
+  userId: 'ada',
+  runId: 'run-1',
+  photoId,
+  action,
+  scores: {
+    quality: 0.5,
+    interest: 0.5,
+    emotion: 0.5,
+    uniqueness: 0.5,
+    relevance: 0.5,
+    temporal: 0.5,
+    engagement: 0.5,
+    final: 0.5,
+    ...scores
+  },
+  interest: { faces: 0.5, landmarks: 0.5, labels: 0.5, web: 0.5, ...interest },
+  createdAt: new Date(2024, 5, 1)
+})
+
+describe('trainWeights', () => {
+  // Someone who keeps the happy photos with people in them and hides the technically best scenery
+  const events = [
+    createEvent('party', 'keep', { emotion: 0.9, quality: 0.4 }, { faces: 0.9, landmarks: 0.1 }),
+    createEvent('picnic', 'keep', { emotion: 0.8, quality: 0.5 }, { faces: 0.8, landmarks: 0.2 }),
+    createEvent('hug', 'keep', { emotion: 1, quality: 0.3 }, { faces: 1, landmarks: 0 }),
+    createEvent('bridge', 'hide', { emotion: 0.1, quality: 0.9 }, { faces: 0, landmarks: 0.9 }),
+    createEvent('tower', 'hide', { emotion: 0.2, quality: 0.8 }, { faces: 0.1, landmarks: 0.8 }),
+    createEvent('lake', 'hide', { emotion: 0, quality: 1 }, { faces: 0, landmarks: 1 })
+  ]
+
+  it('weighs the scores that tell kept photos from hidden ones', () => {
+    const learned = trainWeights('ada', events)
+
+    expect(learned).toMatchObject({ userId: 'ada', sampleCount: 6 })
+    expect(sum(learned.weights)).toBeCloseTo(1)
+    expect(sum(learned.interest)).toBeCloseTo(1)
+    expect(learned.weights.emotion).toBeGreaterThan(0.5)
+    // Quality made photos less likely to be kept, so it's left out rather than weighed negatively
+    expect(learned.weights.quality).toBe(0)
+    expect(learned.interest.faces).toBeGreaterThan(learned.interest.landmarks)
+  })
+
+  it('spreads weights evenly when no score tells kept photos apart', () => {
+    const learned = trainWeights('ada', [createEvent('a', 'keep', {}), createEvent('b', 'hide', {})])
+
+    expect(Object.values(learned.weights)).toEqual(new Array(7).fill(1 / 7))
+  })
+
+  it('needs both kept and hidden photos', () => {
+    expect(() => trainWeights('ada', events.slice(0, 3))).toThrow('Feedback of user ada needs both kept and hidden photos to train on')
+  })
+})
+
+describe('blendLearnedWeights', () => {
+  const learned = (sampleCount: number): LearnedWeights => ({
+    userId: 'ada',
+    weights: { quality: 0, interest: 0, emotion: 1, uniqueness: 0, relevance: 0, temporal: 0, engagement: 0 },
+    interest: { faces: 1, landmarks: 0, labels: 0, web: 0 },
+    sampleCount,
+    trainedAt: new Date(2024, 5, 1)
+  })
+
+  it('trusts learned weights more as feedback grows, keeping the total of the profile', () => {
+    const profile = DEFAULT_SCORING_PROFILE
+    const total = sum(profile.weights)
+
+    expect(blendLearnedWeights(profile, learned(0)).weights).toEqual(profile.weights)
+
+    const halfway = blendLearnedWeights(profile, learned(FEEDBACK_PRIOR_SAMPLES))
+    expect(halfway.weights.emotion).toBeCloseTo((profile.weights.emotion + total) / 2)
+    expect(halfway.weights.quality).toBeCloseTo(profile.weights.quality / 2)
+    expect(sum(halfway.weights)).toBeCloseTo(total)
+    expect(halfway.interest.faces).toBeCloseTo((profile.interest.faces + sum(profile.interest)) / 2)
+
+    expect(blendLearnedWeights(profile, learned(10_000)).weights.emotion).toBeGreaterThan(0.99 * total)
+  })
+})
@@ -0,0 +1,131 @@
+import type { FeedbackEvent, LearnedWeights, ScoringProfile } from '@/lib/types'
+
+// Feedback events at which learned weights count as much as the profile's own
+export const FEEDBACK_PRIOR_SAMPLES = 50
+
+export interface TrainingOptions {
+  iterations: number
+  learningRate: number
+  // L2 penalty that keeps coefficients small while feedback is scarce
+  regularization: number
+}
+
+export const DEFAULT_TRAINING_OPTIONS: TrainingOptions = {
+  iterations: 1000,
+  learningRate: 0.5,
+  regularization: 0.01
+}
+
+const SCORE_DIMENSIONS = ['quality', 'interest', 'emotion', 'uniqueness', 'relevance', 'temporal', 'engagement'] as const
+const INTEREST_DIMENSIONS = ['faces', 'landmarks', 'labels', 'web'] as const
+
+/**
+ * Fits a logistic regression with batch gradient descent.
+ * @param features - One row of features per example
+ * @param labels - 1 for positive examples, 0 for negative ones
+ * @param options - Iterations, learning rate and regularization
+ * @returns Coefficient of each feature, without the intercept
+ */
+const fitLogisticRegression = (features: number[][], labels: number[], options: TrainingOptions): number[] => {
+  const coefficients: number[] = new Array(features[0].length).fill(0)
+  let intercept = 0
+
+  for (let iteration = 0; iteration < options.iterations; iteration++) {
+    const gradient: number[] = new Array(coefficients.length).fill(0)
+    let interceptGradient = 0
+
+    features.forEach((row, index) => {
+      const logit = row.reduce((sum, value, feature) => sum + value * coefficients[feature], intercept)
+      const error = 1 / (1 + Math.exp(-logit)) - labels[index]
+      row.forEach((value, feature) => {
+        gradient[feature] += error * value
+      })
+      interceptGradient += error
+    })
+
+    coefficients.forEach((coefficient, feature) => {
+      coefficients[feature] -= options.learningRate * (gradient[feature] / features.length + options.regularization * coefficient)
+    })
+    intercept -= (options.learningRate * interceptGradient) / features.length
+  }
+
+  return coefficients
+}
+
+/**
+ * Turns coefficients into weights summing to 1. Dimensions that made a photo less likely to be kept get no weight.
+ */
+const toWeights = <K extends string>(dimensions: readonly K[], coefficients: number[]): Record<K, number> => {
+  const positive = coefficients.map(coefficient => Math.max(coefficient, 0))
+  const total = positive.reduce((sum, coefficient) => sum + coefficient, 0)
+
+  // When no dimension predicts keeps, none is preferred over the others
+  return Object.fromEntries(
+    dimensions.map((dimension, index) => [dimension, total > 0 ? positive[index] / total : 1 / dimensions.length])
+  ) as Record<K, number>
+}
+
+/**
+ * Fits a user's score weights and interest sub-weights to their feedback.
+ * Kept photos are positive and hidden ones negative examples of a logistic regression over the scores each photo had
+ * when shown. Scores are already between 0 and 1, so the coefficients rank photos the way weights in the final score do.
+ * @param userId - User the feedback is from
+ * @param events - The user's feedback events
+ * @param options - Overrides for the gradient descent
+ * @returns Weights summing to 1, for both the final score and the interest score
+ * @throws Error when the feedback doesn't contain both kept and hidden photos
+ */
+export const trainWeights = (userId: string, events: FeedbackEvent[], options: Partial<TrainingOptions> = {}): LearnedWeights => {
+  if (!events.some(event => event.action === 'keep') || !events.some(event => event.action === 'hide')) {
+    throw new Error(`Feedback of user ${userId} needs both kept and hidden photos to train on`)
+  }
+
+  const trainingOptions = { ...DEFAULT_TRAINING_OPTIONS, ...options }
+  const labels = events.map(event => (event.action === 'keep' ? 1 : 0))
+  const scores = fitLogisticRegression(
+    events.map(event => SCORE_DIMENSIONS.map(dimension => event.scores[dimension] || 0)),
+    labels,
+    trainingOptions
+  )
+  const interest = fitLogisticRegression(
+    events.map(event => INTEREST_DIMENSIONS.map(dimension => event.interest[dimension] || 0)),
+    labels,
+    trainingOptions
+  )
+
+  return {
+    userId,
+    weights: toWeights(SCORE_DIMENSIONS, scores),
+    interest: toWeights(INTEREST_DIMENSIONS, interest),
+    sampleCount: events.length,
+    trainedAt: new Date()
+  }
+}
+
+/**
+ * Blends learned weights into a profile. The more feedback they're based on, the more they count: with
+ * `FEEDBACK_PRIOR_SAMPLES` events learned and profile weights count equally.
+ * @param profile - Profile whose weights are used while feedback is sparse
+ * @param learned - Weights trained on a user's feedback
+ * @returns Profile with blended score and interest weights
+ */
+export const blendLearnedWeights = (profile: ScoringProfile, learned: LearnedWeights): ScoringProfile => {
+  const confidence = learned.sampleCount / (learned.sampleCount + FEEDBACK_PRIOR_SAMPLES)
+
+  const blend = <T extends Record<string, number>>(base: T, fitted: Partial<T>): T => {
+    // Learned weights sum to 1; scaling them to the profile's total keeps final scores comparable
+    const total = Object.values(base).reduce((sum, weight) => sum + weight, 0)
+    return Object.fromEntries(
+      Object.entries(base).map(([key, weight]) => [
+        key,
+        weight * (1 - confidence) + (fitted[key] ?? weight / total) * total * confidence
+      ])
+    ) as T
+  }
+
+  return {
+    ...profile,
+    weights: blend(profile.weights, learned.weights),
+    interest: blend(profile.interest, learned.interest)
+  }
+}
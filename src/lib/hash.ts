@@ -0,0 +1,10 @@
+import { createHash } from 'node:crypto'
+
+/**
+ * Computes a SHA-256 digest of the given content.
+ * @param content - Bytes or string to hash
+ * @returns Hex-encoded digest
+ */
+export const sha256 = (content: Buffer | string): string => {
+  return createHash('sha256').update(content).digest('hex')
+}
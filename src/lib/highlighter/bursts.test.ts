@@ -0,0 +1,71 @@
+import { collapseBursts, detectBursts, rankBurstFrames } from '@/lib/highlighter/bursts'
+import { createAnalyzedPhoto, createFace } from '@/test/fixtures'
+
+const START = new Date(2024, 5, 1, 12).getTime()
+
+const frame = (id: string, offsetMs: number, pHash?: string) =>
+  createAnalyzedPhoto(id, {
+    dateTime: new Date(START + offsetMs),
+    analysis: { hashes: { content: id, ...(pHash && { pHash, dHash: pHash }) } }
+  })
+
+describe('detectBursts', () => {
+  it('groups frames taken in quick succession that look alike', () => {
+    const bursts = detectBursts([frame('a', 0, '0000000000000000'), frame('b', 400, '0000000000000001'), frame('c', 10_000)])
+
+    expect(bursts).toHaveLength(1)
+    expect(bursts[0].memberIds.sort()).toEqual(['a', 'b'])
+    expect(bursts[0].start).toEqual(new Date(START))
+  })
+
+  it('splits frames that look different even when taken quickly', () => {
+    expect(detectBursts([frame('a', 0, '0000000000000000'), frame('b', 400, 'ffffffffffffffff')])).toEqual([])
+  })
+
+  it('only groups frames without hashes when they are very close in time', () => {
+    expect(detectBursts([frame('a', 0), frame('b', 500)])).toHaveLength(1)
+    expect(detectBursts([frame('a', 0), frame('b', 1000)])).toEqual([])
+  })
+
+  it('groups frames sharing a camera burst ID regardless of timing', () => {
+    const withId = (id: string, offsetMs: number) =>
+      createAnalyzedPhoto(id, { dateTime: new Date(START + offsetMs), metadata: { burstId: 'apple-burst' } })
+
+    const [burst] = detectBursts([withId('a', 0), withId('b', 60_000)])
+
+    expect(burst.id).toBe('apple-burst')
+    expect(burst.memberIds.sort()).toEqual(['a', 'b'])
+  })
+})
+
+describe('rankBurstFrames', () => {
+  it('prefers frames without blurred faces, then more joy, then sharpness', () => {
+    const blurred = createAnalyzedPhoto('blurred', { analysis: { faces: [createFace({ blurred: true })] } })
+    const neutral = createAnalyzedPhoto('neutral', {
+      analysis: { faces: [createFace({ emotions: { joy: 0.25, sorrow: 0, anger: 0, surprise: 0 } })] }
+    })
+    const smiling = createAnalyzedPhoto('smiling', { analysis: { faces: [createFace()] } })
+    const sharper = createAnalyzedPhoto('sharper', {
+      analysis: { faces: [createFace()], quality: { blurScore: 0.95, exposureScore: 0.8, noiseScore: 0.8, compositionScore: 0.8 } }
+    })
+
+    expect(rankBurstFrames([blurred, neutral, smiling, sharper]).map(photo => photo.id)).toEqual([
+      'sharper',
+      'smiling',
+      'neutral',
+      'blurred'
+    ])
+  })
+})
+
+describe('collapseBursts', () => {
+  it('keeps the best frame of each burst, tagged with its burst', () => {
+    const photos = [frame('a', 0), frame('b', 300), frame('c', 10_000)]
+    const bursts = [{ id: 'burst-a', memberIds: ['b', 'a'], start: new Date(START), end: new Date(START + 300) }]
+
+    const collapsed = collapseBursts(photos, bursts)
+
+    expect(collapsed.map(photo => photo.id)).toEqual(['b', 'c'])
+    expect(collapsed[0].burst?.id).toBe('burst-a')
+  })
+})
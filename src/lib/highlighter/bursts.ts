@@ -0,0 +1,126 @@
+import { hammingDistance } from '@/lib/image/perceptual-hash'
+import type { BurstInfo, EnhancedPhoto } from '@/lib/types'
+
+export interface BurstDetectionOptions {
+  // Longest gap between consecutive frames of a burst
+  maxFrameGapMs: number
+  // Largest pHash distance between consecutive frames; subjects move between frames, so this is looser than duplicates
+  maxPerceptualDistance: number
+  // Gap under which frames without perceptual hashes are still grouped
+  maxUnhashedFrameGapMs: number
+}
+
+export const DEFAULT_BURST_OPTIONS: BurstDetectionOptions = {
+  maxFrameGapMs: 1500,
+  maxPerceptualDistance: 16,
+  maxUnhashedFrameGapMs: 700
+}
+
+/**
+ * Checks whether two consecutive frames belong to the same burst based on timing and appearance.
+ */
+const areConsecutiveFrames = (previous: EnhancedPhoto, current: EnhancedPhoto, options: BurstDetectionOptions): boolean => {
+  const gap = current.dateTime.getTime() - previous.dateTime.getTime()
+  if (gap > options.maxFrameGapMs) return false
+
+  const hash1 = previous.analysis.hashes.pHash
+  const hash2 = current.analysis.hashes.pHash
+  if (hash1 && hash2) return hammingDistance(hash1, hash2) <= options.maxPerceptualDistance
+
+  return gap <= options.maxUnhashedFrameGapMs
+}
+
+/**
+ * Ranks the frames of a burst, best first.
+ * Frames with a blurred face lose to frames without one; then the highest average joy wins,
+ * with sharpness breaking near-ties in joy.
+ * @param frames - Frames of one burst
+ * @returns Frames ordered from best to worst
+ */
+export const rankBurstFrames = (frames: EnhancedPhoto[]): EnhancedPhoto[] => {
+  const describe = (frame: EnhancedPhoto) => {
+    const faces = frame.analysis.faces
+    return {
+      frame,
+      hasBlurredFace: faces.some(face => face.blurred),
+      joy: faces.length > 0 ? faces.reduce((sum, face) => sum + face.emotions.joy, 0) / faces.length : 0,
+      sharpness: frame.analysis.quality.blurScore
+    }
+  }
+
+  return frames
+    .map(describe)
+    .sort((a, b) => {
+      if (a.hasBlurredFace !== b.hasBlurredFace) return a.hasBlurredFace ? 1 : -1
+      // Joy is derived from coarse likelihood buckets, so small differences aren't meaningful
+      if (Math.abs(a.joy - b.joy) > 0.05) return b.joy - a.joy
+      return b.sharpness - a.sharpness
+    })
+    .map(({ frame }) => frame)
+}
+
+/**
+ * Detects bursts: frames sharing a camera burst ID, or consecutive frames taken within a fraction of a second
+ * of each other that look alike.
+ * @param photos - Photos to search
+ * @param options - Timing and similarity thresholds
+ * @returns Bursts of two or more frames, with members ranked best first
+ */
+export const detectBursts = (photos: EnhancedPhoto[], options: Partial<BurstDetectionOptions> = {}): BurstInfo[] => {
+  const settings = { ...DEFAULT_BURST_OPTIONS, ...options }
+  const sequences: EnhancedPhoto[][] = []
+
+  // Camera burst IDs are authoritative regardless of timing
+  const byBurstId = new Map<string, EnhancedPhoto[]>()
+  const unidentified: EnhancedPhoto[] = []
+  photos.forEach(photo => {
+    const burstId = photo.metadata.burstId
+    if (!burstId) {
+      unidentified.push(photo)
+      return
+    }
+    byBurstId.set(burstId, [...(byBurstId.get(burstId) || []), photo])
+  })
+  sequences.push(...byBurstId.values())
+
+  const sorted = [...unidentified].sort((a, b) => a.dateTime.getTime() - b.dateTime.getTime())
+  let current: EnhancedPhoto[] = []
+  sorted.forEach(photo => {
+    if (current.length > 0 && !areConsecutiveFrames(current[current.length - 1], photo, settings)) {
+      sequences.push(current)
+      current = []
+    }
+    current.push(photo)
+  })
+  if (current.length > 0) sequences.push(current)
+
+  return sequences
+    .filter(frames => frames.length > 1)
+    .map(frames => {
+      const times = frames.map(frame => frame.dateTime.getTime())
+      return {
+        id: frames[0].metadata.burstId || `burst-${frames[0].id}`,
+        memberIds: rankBurstFrames(frames).map(frame => frame.id),
+        start: new Date(Math.min(...times)),
+        end: new Date(Math.max(...times))
+      }
+    })
+}
+
+/**
+ * Replaces every burst with its best frame, tagged with the burst it represents.
+ * @param photos - Photos to collapse
+ * @param bursts - Bursts detected among the photos
+ * @returns Photos with only one frame per burst
+ */
+export const collapseBursts = (photos: EnhancedPhoto[], bursts: BurstInfo[]): EnhancedPhoto[] => {
+  const burstByMember = new Map<string, BurstInfo>()
+  bursts.forEach(burst => burst.memberIds.forEach(id => burstByMember.set(id, burst)))
+
+  return photos.flatMap(photo => {
+    const burst = burstByMember.get(photo.id)
+    if (!burst) return [photo]
+
+    return burst.memberIds[0] === photo.id ? [{ ...photo, burst }] : []
+  })
+}
@@ -0,0 +1,100 @@
+import { allocateEventSlots, segmentEvents } from '@/lib/highlighter/events'
+import { DEFAULT_SCORING_PROFILE } from '@/lib/highlighter/scoring-profile'
+import type { EnhancedPhoto } from '@/lib/types'
+import { createAnalyzedPhoto } from '@/test/fixtures'
+
+const OPTIONS = DEFAULT_SCORING_PROFILE.events
+const START = new Date(2024, 6, 14, 9).getTime()
+const MINUTE = 60_000
+
+/**
+ * Builds a photo taken a number of minutes after 09:00 on July 14, 2024.
+ */
+const photoAt = (
+  id: string,
+  minutes: number,
+  overrides: { labels?: string[]; location?: { latitude: number; longitude: number } } = {}
+) =>
+  createAnalyzedPhoto(id, {
+    dateTime: new Date(START + minutes * MINUTE),
+    metadata: { ...(overrides.location && { location: overrides.location }) },
+    analysis: { labels: (overrides.labels || []).map(description => ({ description, score: 0.9, topicality: 0.9 })) }
+  })
+
+const segment = (photos: EnhancedPhoto[]) => segmentEvents(photos, OPTIONS).map(event => event.photoIds)
+
+describe('segmentEvents', () => {
+  it('splits at gaps that are long for the pace of shooting around them', () => {
+    const morning = [0, 5, 10, 15, 20].map(minutes => photoAt(`morning-${minutes}`, minutes))
+    const afternoon = [200, 205, 210].map(minutes => photoAt(`afternoon-${minutes}`, minutes))
+
+    expect(segment([...afternoon, ...morning])).toEqual([morning.map(photo => photo.id), afternoon.map(photo => photo.id)])
+  })
+
+  it('keeps short pauses together and always splits days apart', () => {
+    expect(segment([photoAt('a', 0), photoAt('b', 1), photoAt('c', 40), photoAt('d', 41)])).toEqual([['a', 'b', 'c', 'd']])
+    expect(segment([photoAt('monday', 0), photoAt('wednesday', 2 * 24 * 60), photoAt('friday', 4 * 24 * 60)])).toEqual([
+      ['monday'],
+      ['wednesday'],
+      ['friday']
+    ])
+  })
+
+  it('splits when the location jumps, however short the gap', () => {
+    const paris = { latitude: 48.8566, longitude: 2.3522 }
+    const reims = { latitude: 49.2583, longitude: 4.0317 }
+
+    expect(segment([photoAt('paris', 0, { location: paris }), photoAt('reims', 1, { location: reims })])).toEqual([
+      ['paris'],
+      ['reims']
+    ])
+  })
+
+  it('splits a pause after which the photos show different things', () => {
+    const beach = ['beach', 'sea', 'sand']
+    const before = [0, 20, 40].map(minutes => photoAt(`beach-${minutes}`, minutes, { labels: beach }))
+    const sameScene = [130, 150].map(minutes => photoAt(`more-beach-${minutes}`, minutes, { labels: beach }))
+    const newScene = [130, 150].map(minutes => photoAt(`museum-${minutes}`, minutes, { labels: ['museum', 'painting'] }))
+
+    expect(segment([...before, ...sameScene])).toHaveLength(1)
+    expect(segment([...before, ...newScene])).toEqual([before.map(photo => photo.id), newScene.map(photo => photo.id)])
+  })
+
+  it('describes each event', () => {
+    const [event] = segmentEvents(
+      [
+        photoAt('first', 0, { labels: ['Beach', 'sea'], location: { latitude: 43.69, longitude: 7.25 } }),
+        photoAt('second', 10, { labels: ['beach'], location: { latitude: 43.71, longitude: 7.27 } }),
+        photoAt('third', 20)
+      ],
+      OPTIONS
+    )
+
+    expect(event).toEqual({
+      id: 'event:first',
+      start: new Date(START),
+      end: new Date(START + 20 * MINUTE),
+      centroid: { latitude: expect.closeTo(43.7), longitude: expect.closeTo(7.26) },
+      dominantLabels: ['beach', 'sea'],
+      photoIds: ['first', 'second', 'third']
+    })
+    expect(segmentEvents([], OPTIONS)).toEqual([])
+  })
+})
+
+describe('allocateEventSlots', () => {
+  it('shares slots in proportion to the weights', () => {
+    expect(allocateEventSlots([2, 1, 1], [10, 10, 10], 8)).toEqual([4, 2, 2])
+  })
+
+  it("gives slots an event can't use to the others", () => {
+    expect(allocateEventSlots([3, 1], [1, 10], 4)).toEqual([1, 3])
+    expect(allocateEventSlots([1, 1], [1, 2], 10)).toEqual([1, 2])
+  })
+
+  it('gives leftover slots to the largest fractions and none to events without weight', () => {
+    expect(allocateEventSlots([1, 2, 0], [5, 5, 5], 2)).toEqual([1, 1, 0])
+    expect(allocateEventSlots([1, 1, 1], [5, 5, 5], 2)).toEqual([1, 1, 0])
+    expect(allocateEventSlots([0, 0], [5, 5], 3)).toEqual([0, 0])
+  })
+})
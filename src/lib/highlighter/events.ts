@@ -0,0 +1,146 @@
+import { calculateDistance } from '@/lib/distance'
+import type { EnhancedPhoto, PhotoEvent, ScoringProfile } from '@/lib/types'
+
+export type EventSegmentationOptions = ScoringProfile['events']
+
+// Gaps on each side of a gap that set the local pace of shooting
+const GAP_WINDOW = 10
+// Photos on each side of a gap whose labels are compared
+const LABEL_WINDOW = 3
+const DOMINANT_LABEL_COUNT = 5
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+const getLabelSet = (photos: EnhancedPhoto[]): Set<string> =>
+  new Set(photos.flatMap(photo => photo.analysis.labels.map(label => label.description.toLowerCase())))
+
+/**
+ * Checks whether the gap after `photos[index]` starts a new event.
+ * @param photos - Photos sorted by time
+ * @param gaps - Milliseconds between each photo and the next
+ * @param index - Index of the gap
+ * @param options - Segmentation thresholds
+ */
+const isEventBoundary = (photos: EnhancedPhoto[], gaps: number[], index: number, options: EventSegmentationOptions): boolean => {
+  const previous = photos[index].metadata.location
+  const next = photos[index + 1].metadata.location
+  if (previous && next && calculateDistance(previous, next) > options.locationJumpKm * 1000) return true
+
+  const gap = gaps[index]
+  if (gap < options.minGapMinutes * 60_000) return false
+  if (gap > options.maxGapHours * 3_600_000) return true
+
+  // Compared to the pace around it, so a pause in a busy afternoon splits as well as a week in a quiet month
+  const nearby = [...gaps.slice(Math.max(0, index - GAP_WINDOW), index), ...gaps.slice(index + 1, index + 1 + GAP_WINDOW)]
+  if (nearby.length > 0 && gap > options.gapFactor * median(nearby)) return true
+
+  const before = getLabelSet(photos.slice(Math.max(0, index + 1 - LABEL_WINDOW), index + 1))
+  const after = getLabelSet(photos.slice(index + 1, index + 1 + LABEL_WINDOW))
+  if (before.size === 0 || after.size === 0) return false
+
+  const shared = [...before].filter(label => after.has(label)).length
+  return shared / (before.size + after.size - shared) < options.labelShiftSimilarity
+}
+
+/**
+ * Describes the photos of one event.
+ * @param photos - Photos of the event, sorted by time
+ */
+const describeEvent = (photos: EnhancedPhoto[]): PhotoEvent => {
+  const located = photos.flatMap(photo => (photo.metadata.location ? [photo.metadata.location] : []))
+  // Events span a few kilometers, so averaging coordinates is accurate enough away from the antimeridian
+  const centroid =
+    located.length > 0
+      ? {
+          latitude: located.reduce((sum, location) => sum + location.latitude, 0) / located.length,
+          longitude: located.reduce((sum, location) => sum + location.longitude, 0) / located.length
+        }
+      : undefined
+
+  const labelCounts = new Map<string, number>()
+  photos.forEach(photo => getLabelSet([photo]).forEach(label => labelCounts.set(label, (labelCounts.get(label) || 0) + 1)))
+  const dominantLabels = [...labelCounts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, DOMINANT_LABEL_COUNT)
+    .map(([label]) => label)
+
+  return {
+    id: `event:${photos[0].id}`,
+    start: photos[0].dateTime,
+    end: photos[photos.length - 1].dateTime,
+    ...(centroid && { centroid }),
+    dominantLabels,
+    photoIds: photos.map(photo => photo.id)
+  }
+}
+
+/**
+ * Splits photos into events. A new event starts at a gap that is long for the pace of shooting around it, at a jump in
+ * location, or at a pause after which the photos show different things.
+ * @param photos - Photos to split, in any order
+ * @param options - Segmentation thresholds
+ * @returns Events in chronological order
+ */
+export const segmentEvents = (photos: EnhancedPhoto[], options: EventSegmentationOptions): PhotoEvent[] => {
+  const sorted = [...photos].sort((a, b) => a.dateTime.getTime() - b.dateTime.getTime())
+  if (sorted.length === 0) return []
+
+  const gaps = sorted.slice(1).map((photo, index) => photo.dateTime.getTime() - sorted[index].dateTime.getTime())
+  const events: EnhancedPhoto[][] = [[sorted[0]]]
+  gaps.forEach((_gap, index) => {
+    if (isEventBoundary(sorted, gaps, index, options)) events.push([])
+    events[events.length - 1].push(sorted[index + 1])
+  })
+
+  return events.map(describeEvent)
+}
+
+/**
+ * Shares slots among events in proportion to their weights. No event gets more slots than it can use; what it can't
+ * use goes to the others. Slots left over after whole shares go to the events with the largest fractions.
+ * @param weights - Weight of each event; events weighing 0 get no slots
+ * @param capacities - Most slots each event can use
+ * @param limit - Slots to share
+ * @returns Slots per event
+ */
+export const allocateEventSlots = (weights: number[], capacities: number[], limit: number): number[] => {
+  const slots: number[] = weights.map(() => 0)
+  let remaining = limit
+
+  while (remaining > 0) {
+    const open = weights.map((_weight, index) => index).filter(index => weights[index] > 0 && slots[index] < capacities[index])
+    if (open.length === 0) break
+
+    const totalWeight = open.reduce((sum, index) => sum + weights[index], 0)
+    const quotas = open.map(index => ({ index, quota: (remaining * weights[index]) / totalWeight }))
+
+    // Events that can't use their whole share are filled up, and what's left is shared again among the others
+    const filled = quotas.filter(({ index, quota }) => quota >= capacities[index] - slots[index])
+    if (filled.length > 0) {
+      filled.forEach(({ index }) => {
+        remaining -= capacities[index] - slots[index]
+        slots[index] = capacities[index]
+      })
+      continue
+    }
+
+    // Every share is below its event's capacity, so each event can take one leftover slot on top of its whole slots
+    quotas.forEach(({ index, quota }) => {
+      slots[index] += Math.floor(quota)
+      remaining -= Math.floor(quota)
+    })
+    quotas
+      .sort((a, b) => (b.quota % 1) - (a.quota % 1))
+      .slice(0, remaining)
+      .forEach(({ index }) => {
+        slots[index]++
+      })
+    break
+  }
+
+  return slots
+}
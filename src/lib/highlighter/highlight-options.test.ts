@@ -0,0 +1,25 @@
+import { getPhotoTimeRange, parseHighlightOptions } from '@/lib/highlighter/highlight-options'
+
+describe('getPhotoTimeRange', () => {
+  it('spans libraries too large to spread into function arguments', () => {
+    const start = new Date(2020, 0, 1).getTime()
+    const photos = Array.from({ length: 200_000 }, (_, index) => ({ dateTime: new Date(start + ((index * 7919) % 200_000) * 60_000) }))
+
+    expect(getPhotoTimeRange(photos)).toEqual({ start: new Date(start), end: new Date(start + 199_999 * 60_000) })
+  })
+})
+
+describe('parseHighlightOptions', () => {
+  const options = { limit: 5, minQuality: 0.5, preferredTypes: [], timeRange: { start: '2024-01-01', end: '2024-12-31' } }
+
+  it('accepts engagement weights', () => {
+    expect(parseHighlightOptions({ ...options, weights: { engagement: 0.4 } }).weights).toEqual({ engagement: 0.4 })
+  })
+
+  it('bounds the home photo weight to 0 to 1', () => {
+    expect(parseHighlightOptions({ ...options, homePhotoWeight: 0 }).homePhotoWeight).toBe(0)
+    expect(parseHighlightOptions({ ...options, homePhotoWeight: 1 }).homePhotoWeight).toBe(1)
+    expect(() => parseHighlightOptions({ ...options, homePhotoWeight: 1.5 })).toThrow('homePhotoWeight')
+    expect(() => parseHighlightOptions({ ...options, homePhotoWeight: -0.1 })).toThrow('homePhotoWeight')
+  })
+})
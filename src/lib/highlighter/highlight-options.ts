@@ -0,0 +1,112 @@
+import { parseScoringProfile } from '@/lib/highlighter/scoring-profile'
+import type { HighlightOptions } from '@/lib/types'
+import { z } from 'zod'
+
+const weightSchema = z.number().min(0)
+
+export const highlightWeightsSchema = z
+  .object({
+    quality: weightSchema,
+    interest: weightSchema,
+    emotion: weightSchema,
+    uniqueness: weightSchema,
+    relevance: weightSchema,
+    temporal: weightSchema,
+    engagement: weightSchema
+  })
+  .partial()
+  .strict()
+
+const personReferencesSchema = z.array(z.string().trim().min(1))
+
+export const personConstraintsSchema = z
+  .object({
+    anyOf: personReferencesSchema,
+    allOf: personReferencesSchema,
+    exclude: personReferencesSchema
+  })
+  .partial()
+  .strict()
+
+/**
+ * Parses one end of a time range. Calendar dates like 2024-12-31 name local days, and a range includes its whole last
+ * day; ISO timestamps and dates are taken as they are.
+ */
+const rangeEdgeSchema = (edge: 'start' | 'end') =>
+  z.preprocess(input => {
+    const match = typeof input === 'string' ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(input) : null
+    if (!match) return input
+
+    const [year, month, day] = match.slice(1).map(Number)
+    return edge === 'start' ? new Date(year, month - 1, day) : new Date(year, month - 1, day, 23, 59, 59, 999)
+  }, z.coerce.date())
+
+export const highlightOptionsSchema = z
+  .object({
+    limit: z.number().int().positive(),
+    // Accepts ISO strings as well as dates, so options can come from JSON
+    timeRange: z.object({
+      start: rangeEdgeSchema('start'),
+      end: rangeEdgeSchema('end')
+    }),
+    minQuality: z.number().min(0).max(1),
+    preferredTypes: z.array(z.string()),
+    weights: highlightWeightsSchema.optional(),
+    // A preset name or any subset of a profile, completed from the preset it extends
+    profile: z
+      .union([z.string(), z.record(z.unknown())])
+      .transform((input, context) => {
+        try {
+          return parseScoringProfile(input)
+        } catch (error) {
+          context.addIssue({ code: z.ZodIssueCode.custom, message: error.message })
+          return z.NEVER
+        }
+      })
+      .optional(),
+    peopleCoverage: z.object({ minPhotos: z.number().int().positive() }).strict().optional(),
+    // People by ID or name
+    people: personConstraintsSchema.optional(),
+    homePhotoWeight: z.number().min(0).max(1).optional()
+  })
+  .strict()
+  .refine(options => options.timeRange.start <= options.timeRange.end, {
+    message: 'timeRange.start must not be after timeRange.end',
+    path: ['timeRange']
+  })
+
+export const DEFAULT_HIGHLIGHT_OPTIONS: Omit<HighlightOptions, 'timeRange'> = {
+  limit: 10,
+  minQuality: 0.6,
+  preferredTypes: []
+}
+
+/**
+ * Computes the time range spanned by photos, the default range to select from.
+ * @param photos - Photos to span; must not be empty
+ * @returns Range from the oldest to the newest photo
+ */
+export const getPhotoTimeRange = (photos: Array<{ dateTime: Date }>): HighlightOptions['timeRange'] => {
+  // One pass, since spreading a whole library into Math.min overflows the call stack
+  const { start, end } = photos.reduce(
+    (range, photo) => ({ start: Math.min(range.start, photo.dateTime.getTime()), end: Math.max(range.end, photo.dateTime.getTime()) }),
+    { start: Number.POSITIVE_INFINITY, end: Number.NEGATIVE_INFINITY }
+  )
+  return { start: new Date(start), end: new Date(end) }
+}
+
+/**
+ * Validates highlight options, e.g. from a config file or request body.
+ * @param input - Untrusted options
+ * @returns Validated options
+ * @throws Error listing every invalid field
+ */
+export const parseHighlightOptions = (input: unknown): HighlightOptions => {
+  const result = highlightOptionsSchema.safeParse(input)
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || 'options'}: ${issue.message}`)
+    throw new Error(`Invalid highlight options: ${issues.join('; ')}`)
+  }
+
+  return result.data
+}
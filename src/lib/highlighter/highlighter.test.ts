@@ -0,0 +1,477 @@
+import { GoogleVisionHighlightSelector } from '@/lib/highlighter/highlighter'
+import { DEFAULT_SCORING_PROFILE, parseScoringProfile } from '@/lib/highlighter/scoring-profile'
+import { hammingDistance } from '@/lib/image/perceptual-hash'
+import type {
+  AnalysisCache,
+  AnalysisCacheEntry,
+  EnhancedPhoto,
+  HighlightOptions,
+  Photo,
+  ScoringProfile,
+  SourcePhoto
+} from '@/lib/types'
+import {
+  createAnalyzedPhoto,
+  createFace,
+  createJpegImage,
+  createPersonFace,
+  createPhoto,
+  createPngImage,
+  createStubVisionProvider
+} from '@/test/fixtures'
+
+const createMemoryCache = (): AnalysisCache & { entries: Map<string, AnalysisCacheEntry> } => {
+  const entries = new Map<string, AnalysisCacheEntry>()
+  return {
+    entries,
+    get: async (contentHash, featureFingerprint) => entries.get(`${featureFingerprint}/${contentHash}`),
+    set: async entry => {
+      entries.set(`${entry.featureFingerprint}/${entry.contentHash}`, entry)
+    },
+    prune: async () => 0,
+    clear: async () => entries.clear()
+  }
+}
+
+const createPhotos = () => [
+  createPhoto(
+    'red',
+    createPngImage(8, 8, () => [200, 40, 40])
+  ),
+  createPhoto(
+    'blue',
+    createPngImage(8, 8, () => [40, 40, 200])
+  )
+]
+
+/**
+ * Creates a selector whose pool holds already analyzed photos.
+ */
+const createSelector = async (
+  photos: EnhancedPhoto[],
+  options: ConstructorParameters<typeof GoogleVisionHighlightSelector>[1] = {}
+) => {
+  const selector = new GoogleVisionHighlightSelector(createStubVisionProvider(), options)
+  await selector.rehydrate({ saveAnalyzedPhotos: async () => undefined, listAnalyzedPhotos: async () => photos })
+  return selector
+}
+
+const SELECTION: HighlightOptions = {
+  limit: 10,
+  minQuality: 0.5,
+  preferredTypes: [],
+  timeRange: { start: new Date(2024, 0, 1), end: new Date(2024, 11, 31) }
+}
+
+const NO_WEIGHTS: ScoringProfile['weights'] = {
+  quality: 0,
+  interest: 0,
+  emotion: 0,
+  uniqueness: 0,
+  relevance: 0,
+  temporal: 0,
+  engagement: 0
+}
+
+const LOW_QUALITY = { blurScore: 0.1, exposureScore: 0.1, noiseScore: 0.1, compositionScore: 0.1 }
+
+describe('GoogleVisionHighlightSelector', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('analysis cache', () => {
+    it('serves photos analyzed before from the cache', async () => {
+      const analysisCache = createMemoryCache()
+      await new GoogleVisionHighlightSelector(createStubVisionProvider(), { analysisCache }).addPhotos(createPhotos())
+
+      const provider = createStubVisionProvider()
+      const result = await new GoogleVisionHighlightSelector(provider, { analysisCache }).addPhotos(createPhotos())
+
+      expect(provider.annotated).toBe(0)
+      expect(result.success.map(photo => photo.id)).toEqual(['red', 'blue'])
+    })
+
+    it('keeps analyzed photos when writing to the cache fails', async () => {
+      const analysisCache = { ...createMemoryCache(), set: vi.fn().mockRejectedValue(new Error('disk full')) }
+      const selector = new GoogleVisionHighlightSelector(createStubVisionProvider(), { analysisCache })
+
+      const result = await selector.addPhotos(createPhotos())
+
+      expect(result.success.map(photo => photo.id)).toEqual(['red', 'blue'])
+      expect(result.failed).toEqual([])
+      expect(selector.getPhotos()).toHaveLength(2)
+    })
+
+    it('analyzes photos again when reading from the cache fails', async () => {
+      const analysisCache = { ...createMemoryCache(), get: vi.fn().mockRejectedValue(new Error('corrupt entry')) }
+      const provider = createStubVisionProvider()
+
+      const result = await new GoogleVisionHighlightSelector(provider, { analysisCache }).addPhotos(createPhotos())
+
+      expect(provider.annotated).toBe(2)
+      expect(result.success).toHaveLength(2)
+    })
+  })
+
+  describe('ingest', () => {
+    const createSource = (photos: Photo[], failAfter?: number) => ({
+      name: 'test',
+      commit: vi.fn(async () => undefined),
+      close: vi.fn(),
+      async *photos(): AsyncIterable<SourcePhoto> {
+        for (const [index, { buffer, ...photo }] of photos.entries()) {
+          if (index === failAfter) throw new Error('listing failed')
+          yield { ...photo, source: { name: 'test', ref: photo.id }, loadBuffer: async () => buffer }
+        }
+      }
+    })
+
+    it('analyzes every listed photo, then saves sync progress and closes the source', async () => {
+      const source = createSource(createPhotos())
+
+      const result = await new GoogleVisionHighlightSelector(createStubVisionProvider()).ingest(source, { chunkSize: 1 })
+
+      expect(result.success.map(photo => photo.id)).toEqual(['red', 'blue'])
+      expect(source.commit).toHaveBeenCalledOnce()
+      expect(source.close).toHaveBeenCalledOnce()
+    })
+
+    it('closes the source when listing fails', async () => {
+      const source = createSource(createPhotos(), 1)
+
+      await expect(new GoogleVisionHighlightSelector(createStubVisionProvider()).ingest(source)).rejects.toThrow('listing failed')
+      expect(source.commit).not.toHaveBeenCalled()
+      expect(source.close).toHaveBeenCalledOnce()
+    })
+  })
+
+  describe('image retention', () => {
+    it('keeps image bytes in the pool unless told not to', async () => {
+      const retaining = new GoogleVisionHighlightSelector(createStubVisionProvider())
+      const dropping = new GoogleVisionHighlightSelector(createStubVisionProvider(), { retainImages: false })
+      await retaining.addPhotos(createPhotos())
+      await dropping.addPhotos(createPhotos())
+
+      expect(retaining.getPhotos().map(photo => photo.buffer.length > 0)).toEqual([true, true])
+      expect(dropping.getPhotos().map(photo => photo.buffer.length)).toEqual([0, 0])
+      expect(dropping.getPhotos().map(photo => photo.analysis.hashes.content)).toEqual(
+        retaining.getPhotos().map(photo => photo.analysis.hashes.content)
+      )
+    })
+  })
+
+  describe('scoring', () => {
+    it('weighs scores by the profile given', async () => {
+      const selector = await createSelector([
+        createAnalyzedPhoto('sharp'),
+        createAnalyzedPhoto('smiling', { dateTime: new Date(2024, 6, 1), analysis: { faces: [createFace()], quality: LOW_QUALITY } })
+      ])
+      const rank = (weights: Partial<ScoringProfile['weights']>) =>
+        selector
+          .scorePhotos({ ...SELECTION, minQuality: 0, profile: parseScoringProfile({ weights: { ...NO_WEIGHTS, ...weights } }) })
+          .sort((a, b) => (b.scores?.final || 0) - (a.scores?.final || 0))
+          .map(photo => photo.id)
+
+      expect(rank({ quality: 1 })).toEqual(['sharp', 'smiling'])
+      expect(rank({ emotion: 1 })).toEqual(['smiling', 'sharp'])
+    })
+
+    it('scores photos of a range without duration as timely', async () => {
+      const selector = new GoogleVisionHighlightSelector(createStubVisionProvider())
+      await selector.addPhotos([createPhotos()[0]])
+      const { dateTime } = selector.getPhotos()[0]
+
+      const [photo] = selector.scorePhotos({
+        limit: 1,
+        minQuality: 0,
+        preferredTypes: [],
+        timeRange: { start: dateTime, end: dateTime }
+      })
+
+      expect(photo.scores?.temporal).toBe(1)
+      expect(Number.isFinite(photo.scores?.final)).toBe(true)
+    })
+  })
+
+  describe('perceptual hashes', () => {
+    it('hashes photos as displayed, so rotated copies match', async () => {
+      const scene = (x: number, y: number): [number, number, number] => {
+        const value = x < 20 && y < 12 ? 240 : 40 + ((x * 2 + y) % 100)
+        return [value, value, value]
+      }
+      const upright = createJpegImage(64, 40, scene)
+      // Stored rotated counterclockwise, with EXIF orientation 6 to display it turned back
+      const sideways = createJpegImage(40, 64, (x, y) => scene(63 - y, x), { ifd0: { 274: 6 } })
+      const selector = new GoogleVisionHighlightSelector(createStubVisionProvider())
+
+      const { success } = await selector.addPhotos([createPhoto('upright', upright), createPhoto('sideways', sideways)])
+
+      const [first, second] = success.map(photo => photo.analysis.hashes)
+      expect(hammingDistance(first.pHash as string, second.pHash as string)).toBeLessThanOrEqual(4)
+      expect(hammingDistance(first.dHash as string, second.dHash as string)).toBeLessThanOrEqual(4)
+    })
+  })
+
+  describe('explanations', () => {
+    it('reports person constraints before the quality threshold', async () => {
+      const selector = await createSelector([
+        createAnalyzedPhoto('alice', { analysis: { faces: [createPersonFace(0)] } }),
+        createAnalyzedPhoto('blurry-alice', {
+          dateTime: new Date(2024, 6, 1),
+          analysis: { faces: [createPersonFace(0)], quality: LOW_QUALITY }
+        }),
+        createAnalyzedPhoto('blurry-bob', {
+          dateTime: new Date(2024, 8, 1),
+          analysis: { faces: [createPersonFace(1)], quality: LOW_QUALITY }
+        })
+      ])
+      const [bob] = selector.people.getPeopleInPhoto('blurry-bob')
+
+      const { photos } = await selector.explainSelection({ ...SELECTION, people: { exclude: [bob] } })
+      const reasons = Object.fromEntries(photos.map(photo => [photo.id, photo.reason]))
+
+      expect(reasons).toEqual({ alice: 'selected', 'blurry-alice': 'below_min_quality', 'blurry-bob': 'person_constraint' })
+    })
+
+    it('names the photo that took the place of each photo left out', async () => {
+      const selector = await createSelector([
+        createAnalyzedPhoto('smile', { dateTime: new Date(2024, 5, 1, 12, 0, 0), analysis: { faces: [createPersonFace(0)] } }),
+        createAnalyzedPhoto('blink', {
+          dateTime: new Date(2024, 5, 1, 12, 0, 0, 500),
+          analysis: { faces: [createPersonFace(0, { blurred: true })] }
+        }),
+        createAnalyzedPhoto('sunset', { dateTime: new Date(2024, 8, 1) })
+      ])
+
+      const { highlights, photos } = await selector.explainSelection({ ...SELECTION, limit: 1 })
+      const outcomes = Object.fromEntries(photos.map(photo => [photo.id, { reason: photo.reason, beatenBy: photo.beatenBy }]))
+
+      expect(highlights.map(photo => photo.id)).toEqual(['smile'])
+      expect(outcomes).toEqual({
+        smile: { reason: 'selected', beatenBy: undefined },
+        blink: { reason: 'burst_member', beatenBy: 'smile' },
+        sunset: { reason: 'limit_reached', beatenBy: 'smile' }
+      })
+    })
+  })
+
+  describe('engagement', () => {
+    const NOW = new Date(2024, 11, 1)
+    const DAY_MS = 86_400_000
+    const interactions = (viewCount: number, overrides: Partial<EnhancedPhoto['interactions']> = {}) => ({
+      viewCount,
+      shareCount: 0,
+      isEdited: false,
+      isFavorite: false,
+      ...overrides
+    })
+
+    it('compares views and shares to the most engaged photo on a log scale', async () => {
+      const selector = await createSelector([
+        createAnalyzedPhoto('popular', { interactions: interactions(99, { shareCount: 3 }) }),
+        createAnalyzedPhoto('seen', {
+          dateTime: new Date(2024, 6, 1),
+          interactions: interactions(9, { isFavorite: true, isEdited: true })
+        }),
+        createAnalyzedPhoto('unseen', { dateTime: new Date(2024, 8, 1), interactions: interactions(0) })
+      ])
+
+      const { photos } = await selector.explainSelection({ ...SELECTION, minQuality: 0 })
+      const engagement = Object.fromEntries(photos.map(photo => [photo.id, photo.components.engagement]))
+
+      expect(engagement.popular).toEqual({ views: 1, shares: 1, edited: 0, favorite: 0 })
+      expect(engagement.seen).toEqual({ views: 0.5, shares: 0, edited: 1, favorite: 1 })
+      expect(engagement.unseen).toEqual({ views: 0, shares: 0, edited: 0, favorite: 0 })
+    })
+
+    it('resurfaces recently viewed photos less, fading with the half-life', async () => {
+      const photo = (id: string, lastViewed?: Date) => createAnalyzedPhoto(id, { interactions: interactions(1, { lastViewed }) })
+      const selector = await createSelector(
+        [photo('never'), photo('today', NOW), photo('last-month', new Date(NOW.getTime() - 30 * DAY_MS))],
+        { clock: () => NOW }
+      )
+
+      const { photos } = await selector.explainSelection({ ...SELECTION, minQuality: 0 })
+      const penalties = Object.fromEntries(photos.map(photo => [photo.id, photo.components.viewRecencyPenalty]))
+      const finals = Object.fromEntries(photos.map(photo => [photo.id, photo.scores.final]))
+
+      expect(penalties.never).toBe(0)
+      expect(penalties.today).toBeCloseTo(DEFAULT_SCORING_PROFILE.viewRecency.maxPenalty)
+      expect(penalties['last-month']).toBeCloseTo(DEFAULT_SCORING_PROFILE.viewRecency.maxPenalty / 2)
+      expect(finals.never).toBeGreaterThan(finals['last-month'])
+      expect(finals['last-month']).toBeGreaterThan(finals.today)
+    })
+  })
+
+  describe('people coverage', () => {
+    it('makes room for a frequently photographed person left out of the highlights', async () => {
+      const selector = await createSelector([
+        ...['lake', 'forest', 'dunes'].map((id, index) => createAnalyzedPhoto(id, { dateTime: new Date(2024, index * 3, 10) })),
+        ...[1, 2].map(day =>
+          createAnalyzedPhoto(`grace-${day}`, {
+            dateTime: new Date(2024, 10, day * 10),
+            analysis: {
+              faces: [createPersonFace(1, { emotions: { joy: 0, sorrow: 1, anger: 0, surprise: 0 } })],
+              quality: LOW_QUALITY
+            }
+          })
+        )
+      ])
+      const options = { ...SELECTION, limit: 3, minQuality: 0 }
+
+      const highlights = await selector.selectHighlights(options)
+      const covered = await selector.selectHighlights({ ...options, peopleCoverage: { minPhotos: 2 } })
+
+      expect(highlights.map(photo => photo.id).sort()).toEqual(['dunes', 'forest', 'lake'])
+      expect(covered).toHaveLength(3)
+      expect(covered.filter(photo => photo.id.startsWith('grace'))).toHaveLength(1)
+    })
+  })
+
+  describe('person constraints', () => {
+    const createPeopleSelector = async () => {
+      const selector = await createSelector([
+        createAnalyzedPhoto('ada', { dateTime: new Date(2024, 1, 1), analysis: { faces: [createPersonFace(0)] } }),
+        createAnalyzedPhoto('grace', { dateTime: new Date(2024, 3, 1), analysis: { faces: [createPersonFace(1)] } }),
+        createAnalyzedPhoto('ada-and-grace', {
+          dateTime: new Date(2024, 5, 1),
+          analysis: { faces: [createPersonFace(0), createPersonFace(1)] }
+        }),
+        createAnalyzedPhoto('landscape', { dateTime: new Date(2024, 7, 1) })
+      ])
+      const [ada] = selector.people.getPeopleInPhoto('ada')
+      const [grace] = selector.people.getPeopleInPhoto('grace')
+      selector.people.name(ada, 'Ada')
+      selector.people.name(grace, 'Grace')
+      return selector
+    }
+    const select = async (people: HighlightOptions['people']) =>
+      (await (await createPeopleSelector()).selectHighlights({ ...SELECTION, minQuality: 0, people })).map(photo => photo.id).sort()
+
+    it('selects only photos of the people asked for', async () => {
+      expect(await select({ anyOf: ['ada'] })).toEqual(['ada', 'ada-and-grace'])
+      expect(await select({ allOf: ['Ada', 'Grace'] })).toEqual(['ada-and-grace'])
+      expect(await select({ exclude: ['Grace'] })).toEqual(['ada', 'landscape'])
+      expect(await select({ anyOf: ['Ada', 'Grace'], exclude: ['Ada'] })).toEqual(['grace'])
+    })
+
+    it('weighs how well the people asked for are shown over the other faces', async () => {
+      const sad = { emotions: { joy: 0, sorrow: 0, anger: 0, surprise: 0 } }
+      const selector = await createSelector([
+        createAnalyzedPhoto('ada-smiles', { analysis: { faces: [createPersonFace(0), createPersonFace(1, sad)] } }),
+        createAnalyzedPhoto('grace-smiles', {
+          dateTime: new Date(2024, 8, 1),
+          analysis: { faces: [createPersonFace(0, sad), createPersonFace(1)] }
+        })
+      ])
+      const [ada] = selector.people.getPeopleInPhoto('ada-smiles')
+      const faceInterest = async (people?: HighlightOptions['people']) => {
+        const { photos } = await selector.explainSelection({ ...SELECTION, minQuality: 0, people })
+        return Object.fromEntries(photos.map(photo => [photo.id, photo.components.interest.faces]))
+      }
+
+      const unfocused = await faceInterest()
+      const focused = await faceInterest({ anyOf: [ada] })
+
+      expect(unfocused['ada-smiles']).toBeCloseTo(unfocused['grace-smiles'])
+      expect(focused['ada-smiles']).toBeGreaterThan(focused['grace-smiles'])
+    })
+
+    it('rejects people that were not found', async () => {
+      await expect((await createPeopleSelector()).selectHighlights({ ...SELECTION, people: { anyOf: ['Bob'] } })).rejects.toThrow(
+        'People not found: Bob'
+      )
+    })
+  })
+
+  describe('events', () => {
+    it('shares highlight slots among events instead of filling them from the busiest one', async () => {
+      const party = [0, 10, 20, 30, 40, 50].map(minutes =>
+        createAnalyzedPhoto(`party-${minutes}`, { dateTime: new Date(2024, 4, 4, 20, minutes) })
+      )
+      const hike = [0, 30].map(minutes => createAnalyzedPhoto(`hike-${minutes}`, { dateTime: new Date(2024, 4, 11, 10, minutes) }))
+      const selector = await createSelector([...party, ...hike])
+
+      const { highlights, events } = await selector.explainSelection({ ...SELECTION, limit: 4, minQuality: 0 })
+
+      expect(events.map(event => [event.id, event.photoIds.length])).toEqual([
+        ['event:party-0', 6],
+        ['event:hike-0', 2]
+      ])
+      expect(events.reduce((sum, event) => sum + event.slots, 0)).toBe(4)
+      expect(highlights).toHaveLength(4)
+      expect(highlights.some(photo => photo.id.startsWith('hike'))).toBe(true)
+    })
+  })
+
+  describe('places', () => {
+    it('names the place of each scored photo and clusters again after photos are added', async () => {
+      const kyoto = { latitude: 35.0116, longitude: 135.7681 }
+      const selector = await createSelector([
+        createAnalyzedPhoto('temple', { metadata: { location: kyoto } }),
+        createAnalyzedPhoto('home')
+      ])
+
+      expect(selector.getPlaces().list()).toEqual([])
+      expect(selector.scorePhotos({ ...SELECTION, minQuality: 0 }).map(photo => [photo.id, photo.place])).toEqual([
+        ['temple', 'Kyoto, Japan'],
+        ['home', undefined]
+      ])
+
+      await selector.rehydrate({
+        saveAnalyzedPhotos: async () => undefined,
+        listAnalyzedPhotos: async () => ['shrine', 'garden'].map(id => createAnalyzedPhoto(id, { metadata: { location: kyoto } }))
+      })
+      expect(
+        selector
+          .getPlaces()
+          .list('spot')
+          .map(cluster => cluster.photoIds)
+      ).toEqual([['temple', 'shrine', 'garden']])
+    })
+  })
+
+  describe('trips', () => {
+    const lisbon = { latitude: 38.7223, longitude: -9.1393 }
+    const porto = { latitude: 41.1579, longitude: -8.6291 }
+    const createTravelSelector = () =>
+      createSelector([
+        ...Array.from({ length: 12 }, (_, index) =>
+          createAnalyzedPhoto(`home-${index}`, { dateTime: new Date(2024, 0, 1 + index * 8, 18), metadata: { location: lisbon } })
+        ),
+        ...[10, 11, 12].map(day =>
+          createAnalyzedPhoto(`porto-${day}`, { dateTime: new Date(2024, 4, day, 12), metadata: { location: porto } })
+        )
+      ])
+
+    it('scores photos taken at home lower by the home photo weight', async () => {
+      const selector = await createTravelSelector()
+      const options = { ...SELECTION, minQuality: 0 }
+      const finals = (photos: Array<{ id: string; scores?: { final: number } }>) =>
+        Object.fromEntries(photos.map(photo => [photo.id, photo.scores?.final || 0]))
+
+      const plain = finals(selector.scorePhotos(options))
+      const weighted = finals(selector.scorePhotos({ ...options, homePhotoWeight: 0.5 }))
+
+      expect(weighted['home-3']).toBeCloseTo(plain['home-3'] * 0.5)
+      expect(weighted['porto-11']).toBeCloseTo(plain['porto-11'])
+    })
+
+    it('selects highlights of each trip from its own photos', async () => {
+      const selector = await createTravelSelector()
+
+      const trips = await selector.selectTripHighlights({ ...SELECTION, limit: 2, minQuality: 0 })
+
+      expect(trips).toHaveLength(1)
+      expect(trips[0].trip.destinations).toEqual(['Porto, Portugal'])
+      expect(trips[0].highlights).toHaveLength(2)
+      expect(trips[0].highlights.every(photo => photo.id.startsWith('porto'))).toBe(true)
+    })
+  })
+})
@@ -1,17 +1,54 @@
+import { loadSourcePhoto } from '@/images/source'
+import { getFeatureFingerprint } from '@/lib/cache/analysis-cache'
 import { calculateDistance } from '@/lib/distance'
+import { blendLearnedWeights } from '@/lib/feedback/weight-trainer'
+import { sha256 } from '@/lib/hash'
+import { collapseBursts, detectBursts } from '@/lib/highlighter/bursts'
 import { areColorsSimilar } from '@/lib/highlighter/colors'
+import { allocateEventSlots, segmentEvents } from '@/lib/highlighter/events'
+import { getOnThisDayWindows } from '@/lib/highlighter/on-this-day'
 import { calculateBrightness, calculateContrast, calculateSharpness } from '@/lib/highlighter/photo'
 import {
   calculateLayoutSimilarity,
   calculateVisualFeatureSimilarity,
-  calculateWebEntitySimilarity
+  calculateWebEntitySimilarity,
+  createLayoutFingerprint
 } from '@/lib/highlighter/photo-meta-similarity'
-import { evaluateBlur, evaluateComposition, evaluateExposure, evaluateNoise } from '@/lib/highlighter/photo-quality'
-import { convertBoundingPoly, convertLikelihood } from '@/lib/highlighter/vision-api'
+import { evaluateQuality, scorePixelBlur } from '@/lib/highlighter/photo-quality'
+import { DEFAULT_SCORING_PROFILE } from '@/lib/highlighter/scoring-profile'
+import {
+  ANALYSIS_FEATURES,
+  convertBoundingPoly,
+  convertLikelihood,
+  estimateDimensionsFromResponse
+} from '@/lib/highlighter/vision-api'
+import { decodeImage, orientLuminance, toLuminance } from '@/lib/image/decode'
+import { readImageDimensions } from '@/lib/image/dimensions'
+import { readExifOrientation } from '@/lib/image/exif'
+import { computeDHash, computePHash, hammingDistance } from '@/lib/image/perceptual-hash'
+import { applyExifMetadata } from '@/lib/image/photo-metadata'
+import { PeopleIndex } from '@/lib/people/people-index'
+import {
+  FOCUS_FACE_WEIGHT,
+  type ResolvedPersonConstraints,
+  matchesPersonConstraints,
+  resolvePersonConstraints,
+  scoreFocusFace
+} from '@/lib/people/person-constraints'
+import { PlaceIndex } from '@/lib/places/place-index'
+import { TripIndex } from '@/lib/places/trip-index'
 import type {
+  AnalysisCache,
+  AnalysisCacheEntry,
+  AnalyzedPhotoStore,
+  AnnotationPipelineOptions,
   BatchProcessingResult,
+  BurstInfo,
+  Clock,
   EnhancedPhoto,
   FaceAnalysis,
+  FaceClusteringOptions,
+  GoogleAnnotateImageResponse,
   GoogleImageProperties,
   GoogleWebDetection,
   HighlightOptions,
@@ -19,103 +56,493 @@ import type {
   Label,
   LabelFrequencies,
   Landmark,
+  OnThisDayMemories,
+  OnThisDayOptions,
+  Person,
   Photo,
   PhotoAnalysis,
-  QualityMetrics
+  PhotoEvent,
+  PhotoInteractions,
+  PhotoRecord,
+  PhotoScores,
+  PhotoSource,
+  PlaceClusteringOptions,
+  QualityEngine,
+  QualityMetrics,
+  RestoreResult,
+  ScoreComponents,
+  ScoringProfile,
+  SelectionExplanation,
+  SelectionReason,
+  SourcePhoto,
+  TripDetectionOptions,
+  TripHighlights,
+  VisionProvider
 } from '@/lib/types'
-import { ImageAnnotatorClient } from '@google-cloud/vision'
-import type { JWTInput } from 'google-auth-library/build/src/auth/credentials'
+import { annotateImages } from '@/lib/vision/annotation-pipeline'
+
+// Best scores of an event averaged into its share of the highlight slots
+const EVENT_BEST_SCORE_COUNT = 3
+
+/**
+ * Why photos lost during selection, by photo ID.
+ */
+type SelectionTrace = Map<string, { reason: SelectionReason; beatenBy?: string }>
+
+/**
+ * Records why a photo lost. The first reason is kept, since later selection steps only see what earlier ones left over.
+ */
+const recordOutcome = (trace: SelectionTrace | undefined, photoId: string, reason: SelectionReason, beatenBy?: string) => {
+  if (trace && !trace.has(photoId)) trace.set(photoId, { reason, beatenBy })
+}
 
 /**
  * Main class for analyzing and selecting highlight photos using Google Cloud Vision API.
  * Provides comprehensive photo analysis including quality assessment, similarity detection,
  * and intelligent selection of the best and most diverse photos from a collection.
+ * Annotation goes through a `VisionProvider`, so the Vision API can be swapped for recorded responses.
  */
 export class GoogleVisionHighlightSelector {
-  private readonly visionClient: ImageAnnotatorClient
-  private oauth2Client: OAuth2Client
+  private readonly visionProvider: VisionProvider
+  private readonly analysisCache?: AnalysisCache
+  // Identifies the analysis features and version, so stored analyses are only reused when they match
+  public readonly featureFingerprint: string
+  private readonly annotationOptions: Partial<AnnotationPipelineOptions>
+  private readonly qualityEngine: QualityEngine
 
   private photos: EnhancedPhoto[]
   private labelFrequencies: LabelFrequencies
-  private readonly defaultWeights: Required<NonNullable<HighlightOptions['weights']>>
-
-  constructor(credentials: JWTInput) {
-    this.visionClient = new ImageAnnotatorClient({ credentials })
+  // Profile used when highlight options don't carry one
+  private readonly profile: ScoringProfile
+  private readonly clock: Clock
+  // Recurring people, updated as photos are added
+  public readonly people: PeopleIndex
+  private readonly placeClustering: Partial<PlaceClusteringOptions>
+  // Built on first use after photos were added, since every location affects the clusters
+  private places?: PlaceIndex
+  private readonly tripDetection: Partial<TripDetectionOptions>
+  // Built on first use after photos were added, like the place clusters it's based on
+  private trips?: TripIndex
+  private readonly retainImages: boolean
+
+  constructor(
+    visionProvider: VisionProvider,
+    options: {
+      analysisCache?: AnalysisCache
+      annotation?: Partial<AnnotationPipelineOptions>
+      // 'pixel' measures quality from the decoded image, falling back to Vision heuristics when it can't be decoded
+      qualityEngine?: QualityEngine
+      profile?: ScoringProfile
+      // Reference time for how recently photos were viewed
+      clock?: Clock
+      // People found before, e.g. from a `PeopleStore`, so their IDs, names and merges are kept
+      people?: Person[]
+      faceClustering?: Partial<FaceClusteringOptions>
+      placeClustering?: Partial<PlaceClusteringOptions>
+      tripDetection?: Partial<TripDetectionOptions>
+      // Keep the image bytes of analyzed photos in the pool (default true); selection only needs their analyses
+      retainImages?: boolean
+    } = {}
+  ) {
+    this.visionProvider = visionProvider
+    this.analysisCache = options.analysisCache
+    this.annotationOptions = options.annotation || {}
+    this.qualityEngine = options.qualityEngine || 'pixel'
+    this.featureFingerprint = getFeatureFingerprint(ANALYSIS_FEATURES, [this.qualityEngine])
     this.photos = []
     this.labelFrequencies = {
       individual: new Map(),
       combinations: new Map()
     }
-    this.defaultWeights = {
-      quality: 0.25,
-      interest: 0.2,
-      emotion: 0.15,
-      uniqueness: 0.15,
-      relevance: 0.15,
-      temporal: 0.1
-    }
+    this.profile = options.profile || DEFAULT_SCORING_PROFILE
+    this.clock = options.clock || (() => new Date())
+    this.people = new PeopleIndex(options.people, options.faceClustering)
+    this.placeClustering = options.placeClustering || {}
+    this.tripDetection = options.tripDetection || {}
+    this.retainImages = options.retainImages ?? true
   }
 
   /**
    * Processes and adds new photos to the selection pool.
-   * Analyzes each photo using Google Vision API and updates label frequencies.
+   * Capture time, location and camera details are filled from each photo's EXIF data first.
+   * Byte-identical copies of photos already in the pool (or earlier in the batch) are skipped, so re-imported
+   * photos never compete for highlight slots. Photos analyzed before are served from the analysis cache; the rest are annotated in concurrent,
+   * rate-limited batches with retries for transient Vision errors. Label frequencies are updated for each photo.
    * @param photos - Array of photos to analyze and add to the selection pool
-   * @returns Object containing successfully processed photos and any failures
+   * @param options - Overrides for batching, concurrency, rate limiting and retries
+   * @returns Object containing successfully processed photos, failures and skipped duplicates
+   */
+  public async addPhotos(sourcePhotos: Photo[], options: Partial<AnnotationPipelineOptions> = {}): Promise<BatchProcessingResult> {
+    const results: BatchProcessingResult = {
+      success: [],
+      failed: [],
+      duplicates: []
+    }
+
+    const photos: Photo[] = []
+    const contentHashes: string[] = []
+    // Photos already in the pool under an incoming ID are being replaced, e.g. files changed since the last sync
+    const incomingIds = new Set(sourcePhotos.map(photo => photo.id))
+    const knownHashes = new Map(
+      this.photos.filter(photo => !incomingIds.has(photo.id)).map(photo => [photo.analysis.hashes.content, photo.id])
+    )
+
+    sourcePhotos.map(applyExifMetadata).forEach(photo => {
+      const contentHash = sha256(photo.buffer)
+      const duplicateOf = knownHashes.get(contentHash)
+
+      if (duplicateOf) {
+        results.duplicates.push({ photo, duplicateOf })
+        return
+      }
+
+      knownHashes.set(contentHash, photo.id)
+      photos.push(photo)
+      contentHashes.push(contentHash)
+    })
+
+    const analyzed: Array<EnhancedPhoto | undefined> = await Promise.all(
+      photos.map(async (photo, index) => this.restoreFromCache(photo, contentHashes[index]))
+    )
+
+    const uncached = photos.map((_, index) => index).filter(index => !analyzed[index])
+    console.log(`Analyzing ${uncached.length} photo(s), ${photos.length - uncached.length} served from cache`)
+
+    const outcomes = await annotateImages(
+      uncached.map(index => photos[index].buffer),
+      this.visionProvider,
+      ANALYSIS_FEATURES,
+      { ...this.annotationOptions, ...options }
+    )
+
+    await Promise.all(
+      uncached.map(async (photoIndex, position) => {
+        const photo = photos[photoIndex]
+        const outcome = outcomes[position]
+
+        if (!outcome.response) {
+          results.failed.push({
+            photo,
+            error: outcome.error || new Error('Failed to analyze photo: No result returned'),
+            attempts: outcome.attempts,
+            code: outcome.code,
+            retryable: outcome.retryable
+          })
+          return
+        }
+
+        const analysis = this.buildPhotoAnalysis(photo, contentHashes[photoIndex], outcome.response)
+        analyzed[photoIndex] = { ...photo, dimensions: analysis.dimensions, analysis }
+
+        // The annotation is paid for either way, so a failed cache write only costs a new analysis next time
+        try {
+          await this.analysisCache?.set({
+            contentHash: contentHashes[photoIndex],
+            featureFingerprint: this.featureFingerprint,
+            response: outcome.response,
+            analysis,
+            createdAt: new Date()
+          })
+        } catch (error) {
+          console.warn(`Failed to cache the analysis of ${photo.id}:`, error.message)
+        }
+      })
+    )
+
+    // Keep the input order so repeated runs produce the same pool
+    analyzed.forEach(enhancedPhoto => {
+      if (!enhancedPhoto) return
+
+      this.addToPool(enhancedPhoto)
+      results.success.push(enhancedPhoto)
+    })
+
+    return results
+  }
+
+  /**
+   * Adds photos analyzed in an earlier run to the selection pool from the analysis cache, without loading
+   * their images or calling the Vision provider. Restored photos carry an empty buffer.
+   * @param records - Photos with the content hash of their bytes
+   * @returns Restored photos, photos without a cached analysis, and skipped duplicates
    */
-  public async addPhotos(photos: Photo[]): Promise<BatchProcessingResult> {
+  public async restorePhotos(records: PhotoRecord[]): Promise<RestoreResult> {
+    const results: RestoreResult = {
+      restored: [],
+      missing: [],
+      duplicates: []
+    }
+
+    const restored = await Promise.all(
+      records.map(({ contentHash, ...photo }) => this.restoreFromCache({ ...photo, buffer: Buffer.alloc(0) }, contentHash))
+    )
+    records.forEach((record, index) => {
+      if (!restored[index]) results.missing.push(record)
+    })
+
+    const added = this.addAnalyzedPhotos(restored.filter((photo): photo is EnhancedPhoto => photo !== undefined))
+    results.restored.push(...added.restored)
+    results.duplicates.push(...added.duplicates)
+
+    return results
+  }
+
+  /**
+   * Rebuilds the selection pool from photos stored by an earlier run, without loading their images or analyzing them
+   * again. Only analyses made with the current feature fingerprint are used; rehydrated photos carry an empty buffer.
+   * @param store - Store the photos were saved to, e.g. a `PhotoRepository`
+   * @returns Rehydrated photos and skipped duplicates
+   */
+  public async rehydrate(store: AnalyzedPhotoStore): Promise<Omit<RestoreResult, 'missing'>> {
+    const photos = await store.listAnalyzedPhotos(this.featureFingerprint)
+    return this.addAnalyzedPhotos(photos)
+  }
+
+  /**
+   * Ingests every photo from a source. Photos are downloaded and analyzed in chunks to bound memory use.
+   * Photos that fail to download are reported in `failed` with zero annotation attempts.
+   * Sources that sync incrementally are told to save their progress once every listed photo was ingested, and the source
+   * is closed when ingestion ends, even if it fails.
+   * @param source - Source to list photos from
+   * @param options - Chunk size plus overrides for batching, concurrency, rate limiting and retries
+   * @returns Combined processing results for all chunks
+   */
+  public async ingest(
+    source: PhotoSource,
+    options: Partial<AnnotationPipelineOptions> & { chunkSize?: number } = {}
+  ): Promise<BatchProcessingResult> {
+    const { chunkSize = 25, ...annotationOptions } = options
     const results: BatchProcessingResult = {
       success: [],
-      failed: []
-    }
-
-    for (const photo of photos) {
-      console.log('Processing photo:', photo.url)
-      try {
-        const enhancedPhoto = await this.analyzePhoto(photo)
-        this.photos.push(enhancedPhoto)
-        results.success.push(enhancedPhoto)
-        this.updateLabelFrequencies(enhancedPhoto.analysis.labels)
-      } catch (error) {
-        results.failed.push({
-          photo,
-          error: error instanceof Error ? error : new Error(String(error))
+      failed: [],
+      duplicates: []
+    }
+
+    let chunk: SourcePhoto[] = []
+    const processChunk = async () => {
+      const loaded = await Promise.all(
+        chunk.map(async sourcePhoto => {
+          try {
+            return await loadSourcePhoto(sourcePhoto)
+          } catch (error) {
+            const { loadBuffer, ...photo } = sourcePhoto
+            results.failed.push({
+              photo: { ...photo, buffer: Buffer.alloc(0) },
+              error: error instanceof Error ? error : new Error(String(error)),
+              attempts: 0,
+              retryable: false
+            })
+            return undefined
+          }
         })
+      )
+      chunk = []
+
+      const chunkResults = await this.addPhotos(
+        loaded.filter((photo): photo is Photo => photo !== undefined),
+        annotationOptions
+      )
+      results.success.push(...chunkResults.success)
+      results.failed.push(...chunkResults.failed)
+      results.duplicates.push(...chunkResults.duplicates)
+    }
+
+    console.log(`Ingesting photos from ${source.name}`)
+    try {
+      for await (const sourcePhoto of source.photos()) {
+        chunk.push(sourcePhoto)
+        if (chunk.length >= chunkSize) await processChunk()
+      }
+      if (chunk.length > 0) await processChunk()
+
+      // Photos that may succeed on a later run must be listed again, so sync progress is only saved without them
+      if (results.failed.some(failure => failure.retryable || failure.attempts === 0)) {
+        console.warn(`Not saving ${source.name} sync progress; failed photos will be listed again on the next run`)
+      } else {
+        await source.commit?.()
       }
+    } finally {
+      // Every photo is loaded by now, so files the source keeps open, like Takeout zips, can go
+      source.close?.()
     }
 
     return results
   }
 
   /**
-   * Performs comprehensive analysis of a single photo using Google Vision API.
-   * Includes face detection, label detection, landmark detection, and image property analysis.
-   * @param photo - Photo to analyze
-   * @returns Enhanced photo object with analysis results
+   * Clusters the locations of the photos in the pool into spots, neighborhoods and cities, named after the nearest city.
+   * @returns Place clusters, rebuilt after photos were added
    */
-  private async analyzePhoto(photo: Photo): Promise<EnhancedPhoto> {
-    const [result] = await this.visionClient.annotateImage({
-      image: { content: photo.buffer },
-      features: [
-        { type: 'FACE_DETECTION', maxResults: 50 },
-        { type: 'LABEL_DETECTION', maxResults: 50 },
-        { type: 'LANDMARK_DETECTION', maxResults: 20 },
-        { type: 'IMAGE_PROPERTIES' },
-        { type: 'WEB_DETECTION' },
-        { type: 'SAFE_SEARCH_DETECTION' }
-      ]
+  public getPlaces(): PlaceIndex {
+    this.places = this.places || new PlaceIndex(this.photos, this.placeClustering)
+    return this.places
+  }
+
+  /**
+   * Infers the user's homes from where photos were taken over long periods, and detects trips away from them.
+   * @returns Homes and trips, rebuilt after photos were added
+   */
+  public getTrips(): TripIndex {
+    this.trips = this.trips || new TripIndex(this.photos, this.getPlaces(), this.tripDetection)
+    return this.trips
+  }
+
+  /**
+   * Lists the analyzed photos in the selection pool.
+   * @returns Analyzed photos, in the order they were added
+   */
+  public getPhotos(): EnhancedPhoto[] {
+    return [...this.photos]
+  }
+
+  /**
+   * Looks up an analyzed photo in the selection pool, e.g. to show the other frames of a burst.
+   * @param id - Photo ID
+   * @returns The analyzed photo, or undefined if it isn't in the pool
+   */
+  public getPhoto(id: string): EnhancedPhoto | undefined {
+    return this.photos.find(photo => photo.id === id)
+  }
+
+  /**
+   * Detects bursts among the analyzed photos, with each burst's frames ranked best first.
+   * @returns Detected bursts
+   */
+  public getBursts(): BurstInfo[] {
+    return detectBursts(this.photos)
+  }
+
+  /**
+   * Removes cached analyses computed with a different feature set or analysis version.
+   * @returns Number of removed cache entries
+   */
+  public async pruneAnalysisCache(): Promise<number> {
+    if (!this.analysisCache) return 0
+
+    return this.analysisCache.prune(this.featureFingerprint)
+  }
+
+  /**
+   * Builds an analyzed photo from the analysis cache, or returns undefined when the photo wasn't analyzed before or its
+   * cached analysis can't be read.
+   */
+  private async restoreFromCache(photo: Photo, contentHash: string): Promise<EnhancedPhoto | undefined> {
+    let cached: AnalysisCacheEntry | undefined
+    try {
+      cached = await this.analysisCache?.get(contentHash, this.featureFingerprint)
+    } catch (error) {
+      // A corrupt entry or an unreachable cache is a miss, so the photo is analyzed again instead of failing the batch
+      console.warn(`Failed to read the cached analysis of ${photo.id}:`, error.message)
+      return undefined
+    }
+    if (!cached) return undefined
+
+    // Clustering depends on photo metadata rather than image content, so it's always recomputed
+    return {
+      ...photo,
+      dimensions: photo.dimensions || cached.analysis.dimensions,
+      analysis: {
+        ...cached.analysis,
+        hashes: { ...cached.analysis.hashes, content: contentHash },
+        clustering: this.assignPhotoClusters(photo)
+      }
+    }
+  }
+
+  private getPersonConstraints(options: Pick<HighlightOptions, 'people'>): ResolvedPersonConstraints | undefined {
+    return options.people && resolvePersonConstraints(this.people, options.people)
+  }
+
+  private getProfile(options: Pick<HighlightOptions, 'profile' | 'learnedWeights'>): ScoringProfile {
+    const profile = options.profile || this.profile
+    return options.learnedWeights ? blendLearnedWeights(profile, options.learnedWeights) : profile
+  }
+
+  /**
+   * Adds photos analyzed earlier to the pool, skipping byte-identical copies of photos already in it.
+   * Clustering is recomputed since it depends on the photo's metadata.
+   */
+  private addAnalyzedPhotos(photos: EnhancedPhoto[]): Omit<RestoreResult, 'missing'> {
+    const results: Omit<RestoreResult, 'missing'> = {
+      restored: [],
+      duplicates: []
+    }
+
+    const incomingIds = new Set(photos.map(photo => photo.id))
+    const knownHashes = new Map(
+      this.photos.filter(photo => !incomingIds.has(photo.id)).map(photo => [photo.analysis.hashes.content, photo.id])
+    )
+
+    photos.forEach(photo => {
+      const contentHash = photo.analysis.hashes.content
+      const duplicateOf = knownHashes.get(contentHash)
+      if (duplicateOf) {
+        results.duplicates.push({ photo, duplicateOf })
+        return
+      }
+
+      const enhancedPhoto: EnhancedPhoto = {
+        ...photo,
+        analysis: { ...photo.analysis, clustering: this.assignPhotoClusters(photo) }
+      }
+      knownHashes.set(contentHash, photo.id)
+      this.addToPool(enhancedPhoto)
+      results.restored.push(enhancedPhoto)
     })
 
-    console.log('Photo analysis result:', result)
+    return results
+  }
 
-    if (!result) {
-      throw new Error('Failed to analyze photo: No result returned')
+  /**
+   * Adds an analyzed photo to the pool, replacing an earlier version with the same ID. Without `retainImages` its image
+   * bytes are left out.
+   */
+  private addToPool(analyzedPhoto: EnhancedPhoto): void {
+    const enhancedPhoto = this.retainImages ? analyzedPhoto : { ...analyzedPhoto, buffer: Buffer.alloc(0) }
+    const existingIndex = this.photos.findIndex(photo => photo.id === enhancedPhoto.id)
+    if (existingIndex >= 0) {
+      this.updateLabelFrequencies(this.photos[existingIndex].analysis.labels, -1)
+      this.photos[existingIndex] = enhancedPhoto
+    } else {
+      this.photos.push(enhancedPhoto)
     }
+    this.updateLabelFrequencies(enhancedPhoto.analysis.labels)
+    this.people.addPhoto(enhancedPhoto)
+    this.places = undefined
+    this.trips = undefined
+  }
+
+  /**
+   * Converts a Vision annotation response into the standardized photo analysis.
+   * Includes face detection, label detection, landmark detection, and image property analysis.
+   * The image is decoded once locally for pixel quality metrics and perceptual hashes.
+   * @param photo - Photo the response belongs to
+   * @param contentHash - SHA-256 of the photo's bytes
+   * @param result - Annotation response from the Vision provider
+   * @returns Photo analysis
+   */
+  private buildPhotoAnalysis(photo: Photo, contentHash: string, result: GoogleAnnotateImageResponse): PhotoAnalysis {
+    const decoded = decodeImage(photo.buffer)
+    const luminance = decoded ? toLuminance(decoded) : null
+    // Hashed as displayed, so a rotated copy of a photo is still recognized as one
+    const displayed = luminance && orientLuminance(luminance, readExifOrientation(photo.buffer))
 
-    const analysis: PhotoAnalysis = {
+    // Calculates comprehensive quality metrics for a photo.
+    // Includes blur, exposure, noise, and composition analysis.
+    const dimensions = photo.dimensions || readImageDimensions(photo.buffer) || estimateDimensionsFromResponse(result)
+    const quality = evaluateQuality(result, luminance, this.qualityEngine, dimensions)
+
+    return {
+      dimensions,
+      hashes: {
+        content: contentHash,
+        dHash: displayed ? computeDHash(displayed) : undefined,
+        pHash: displayed ? computePHash(displayed) : undefined
+      },
       // Processes face annotations from Google Vision API into standardized format.
       // Includes emotion detection, blur detection, and face landmark information.
       faces: (result.faceAnnotations || []).map(face => ({
-        boundingBox: convertBoundingPoly(face.boundingPoly),
+        boundingBox: convertBoundingPoly(face.boundingPoly, dimensions),
         landmarks: (face.landmarks || []).map(landmark => ({
           type: landmark.type?.toString() || '',
           position: {
@@ -142,45 +569,37 @@ export class GoogleVisionHighlightSelector {
       landmarks: (result.landmarkAnnotations || []).map(landmark => ({
         name: landmark.description || '',
         score: landmark.score || 0,
-        boundingBox: convertBoundingPoly(landmark.boundingPoly),
+        boundingBox: convertBoundingPoly(landmark.boundingPoly, dimensions),
         locations: landmark.locations?.map(location => ({
           latitude: location.latLng?.latitude || 0,
           longitude: location.latLng?.longitude || 0
         }))
       })),
-      imageProperties: this.processImageProperties(result.imagePropertiesAnnotation),
+      imageProperties: this.processImageProperties(result.imagePropertiesAnnotation, quality),
       webDetection: result.webDetection || {},
       safeSearch: result.safeSearchAnnotation || {},
-      // Calculates comprehensive quality metrics for a photo.
-      // Includes blur, exposure, noise, and composition analysis.
-      quality: {
-        blurScore: evaluateBlur(result),
-        exposureScore: evaluateExposure(result),
-        noiseScore: evaluateNoise(result),
-        compositionScore: evaluateComposition(result)
-      },
+      quality,
       clustering: this.assignPhotoClusters(photo)
     }
-
-    return {
-      ...photo,
-      analysis
-    }
   }
 
   /**
    * Processes image property information from Google Vision API.
    * Includes color analysis and various quality metrics.
+   * Sharpness is taken from pixel measurements when available instead of being estimated from colors.
    * @param properties - Image properties from Google Vision API
+   * @param quality - Quality metrics already computed for the photo
    * @returns Processed image properties
    */
-  private processImageProperties(properties: GoogleImageProperties | null | undefined): ImageProperties {
+  private processImageProperties(properties: GoogleImageProperties | null | undefined, quality: QualityMetrics): ImageProperties {
+    const pixelSharpness = quality.pixel ? scorePixelBlur(quality.pixel) : undefined
+
     if (!properties?.dominantColors?.colors) {
       return {
         dominantColors: [],
         brightness: 0,
         contrast: 0,
-        sharpness: 0
+        sharpness: pixelSharpness ?? 0
       }
     }
 
@@ -196,28 +615,262 @@ export class GoogleVisionHighlightSelector {
       })),
       brightness: calculateBrightness(properties),
       contrast: calculateContrast(properties),
-      sharpness: calculateSharpness(properties)
+      sharpness: pixelSharpness ?? calculateSharpness(properties)
     }
   }
 
   /**
    * Selects the best photos from the processed pool based on provided options.
    * Ensures temporal diversity and quality while avoiding similar photos.
+   * With `options.people`, only photos of those people are considered, and their faces weigh more in the face interest score.
+   * With `options.homePhotoWeight`, photos taken at home (see `getTrips`) score lower, so trips and outings stand out.
    * @param options - Configuration for highlight selection including limits and preferences
    * @returns Array of selected highlight photos
+   * @throws Error when `options.people` names people that weren't found
    */
   public async selectHighlights(options: HighlightOptions): Promise<EnhancedPhoto[]> {
+    return this.selectFromScored(this.scorePhotos(options), options)
+  }
+
+  /**
+   * Selects highlights like `selectHighlights` and explains the outcome for every photo in the pool: its scores, the
+   * sub-scores behind them, and for photos that weren't selected, the reason and the photo that took their place.
+   * @param options - Configuration for highlight selection including limits and preferences
+   * @returns Selected highlights and an explanation per photo, best final score first
+   */
+  public async explainSelection(options: HighlightOptions): Promise<SelectionExplanation> {
+    const scored = this.scorePool(options)
+    const trace: SelectionTrace = new Map()
+    const events: SelectionExplanation['events'] = []
+    const highlights = this.selectFromScored(
+      scored.map(({ photo }) => photo),
+      options,
+      trace,
+      events
+    )
+    const ranks = new Map(highlights.map((photo, index) => [photo.id, index + 1]))
+    const weakestHighlight = highlights[highlights.length - 1]
+
+    const photos = scored.map(({ photo, components }) => {
+      const scores = photo.scores as PhotoScores
+      const rank = ranks.get(photo.id)
+      const excluded = trace.get(photo.id)
+      // Photos of the wrong people are out whatever their quality, so person constraints are reported first
+      const outcome = rank
+        ? { reason: 'selected' as const }
+        : excluded?.reason === 'person_constraint'
+          ? excluded
+          : scores.quality < options.minQuality
+            ? { reason: 'below_min_quality' as const }
+            : excluded || { reason: 'limit_reached' as const, beatenBy: weakestHighlight?.id }
+
+      return { id: photo.id, dateTime: photo.dateTime, scores, components, selected: rank !== undefined, rank, ...outcome }
+    })
+
+    return { highlights, photos: photos.sort((a, b) => b.scores.final - a.scores.final), events }
+  }
+
+  /**
+   * Runs selection over scored photos, optionally recording why photos lost and how slots were shared among events.
+   */
+  private selectFromScored(
+    scoredPhotos: EnhancedPhoto[],
+    options: HighlightOptions,
+    trace?: SelectionTrace,
+    eventLog?: SelectionExplanation['events']
+  ): EnhancedPhoto[] {
+    const constrained = this.filterByPeople(scoredPhotos, options, trace)
+
+    // Keep only the best frame of each burst; the others stay reachable through its burst members
+    const bursts = detectBursts(constrained)
+    bursts.forEach(burst => burst.memberIds.slice(1).forEach(id => recordOutcome(trace, id, 'burst_member', burst.memberIds[0])))
+    const candidates = collapseBursts(constrained, bursts)
+
+    // Group similar photos
+    const groups = this.groupSimilarPhotos(candidates, this.getProfile(options))
+
+    // Select best photos while spreading them across events
+    const highlights = this.selectDiverseHighlights(groups, options, trace, eventLog)
+    return options.peopleCoverage ? this.ensurePeopleCoverage(highlights, candidates, options, trace) : highlights
+  }
+
+  /**
+   * Keeps the photos matching the person constraints of the options, if any.
+   * @throws Error when the constraints name people that weren't found
+   */
+  private filterByPeople(photos: EnhancedPhoto[], options: Pick<HighlightOptions, 'people'>, trace?: SelectionTrace): EnhancedPhoto[] {
+    const constraints = this.getPersonConstraints(options)
+    if (!constraints) return photos
+
+    return photos.filter(photo => {
+      const matches = matchesPersonConstraints(this.people.getPeopleInPhoto(photo.id), constraints)
+      if (!matches) recordOutcome(trace, photo.id, 'person_constraint')
+      return matches
+    })
+  }
+
+  /**
+   * Makes sure every frequently photographed person appears in the highlights. For each missing person, their best
+   * photo that isn't too similar to the other highlights takes a free slot, or replaces the weakest highlight whose
+   * people are all shown elsewhere. People are handled from the most photographed down, as long as slots can be freed.
+   */
+  private ensurePeopleCoverage(
+    highlights: EnhancedPhoto[],
+    candidates: EnhancedPhoto[],
+    options: HighlightOptions,
+    trace?: SelectionTrace
+  ): EnhancedPhoto[] {
+    const minPhotos = options.peopleCoverage?.minPhotos || 1
+    const profile = this.getProfile(options)
+    const byScore = (a: EnhancedPhoto, b: EnhancedPhoto) => (b.scores?.final || 0) - (a.scores?.final || 0)
+
+    const photosByPerson = new Map<string, EnhancedPhoto[]>()
+    candidates
+      .filter(
+        photo =>
+          photo.dateTime >= options.timeRange.start &&
+          photo.dateTime <= options.timeRange.end &&
+          (photo.scores?.quality || 0) >= options.minQuality
+      )
+      .forEach(photo =>
+        this.people.getPeopleInPhoto(photo.id).forEach(personId => {
+          photosByPerson.set(personId, [...(photosByPerson.get(personId) || []), photo])
+        })
+      )
+    const frequentPeople = [...photosByPerson.entries()]
+      .filter(([, photos]) => photos.length >= minPhotos)
+      .sort((a, b) => b[1].length - a[1].length)
+    const frequentIds = new Set(frequentPeople.map(([personId]) => personId))
+
+    const selected = [...highlights]
+    const countShown = (personId: string) => selected.filter(photo => this.people.getPeopleInPhoto(photo.id).includes(personId)).length
+
+    for (const [personId, photos] of frequentPeople) {
+      if (countShown(personId) > 0) continue
+
+      const replaced =
+        selected.length < options.limit
+          ? undefined
+          : selected
+              .filter(photo => this.people.getPeopleInPhoto(photo.id).every(id => !frequentIds.has(id) || countShown(id) > 1))
+              .sort(byScore)
+              .pop()
+      if (selected.length >= options.limit && !replaced) break
+
+      const remaining = selected.filter(photo => photo !== replaced)
+      const best = photos
+        .filter(photo => !selected.includes(photo))
+        .sort(byScore)
+        .find(photo => this.isPhotoDiverse(photo, remaining, profile))
+      if (!best) continue
+
+      if (replaced) {
+        selected[selected.indexOf(replaced)] = best
+        recordOutcome(trace, replaced.id, 'people_coverage', best.id)
+      } else {
+        selected.push(best)
+      }
+    }
+
+    return selected
+  }
+
+  /**
+   * Selects "on this day" memories: photos taken within a window around the same calendar day in every earlier year.
+   * Each year is scored with its own window as the time range, and years take turns contributing their best remaining
+   * photo, so the set stays balanced across years instead of favoring the one with the most photos.
+   * @param options - Day to remember, window size and the usual selection options
+   * @returns Memories grouped by year, plus the balanced highlights in rank order
+   */
+  public async selectOnThisDay(options: OnThisDayOptions): Promise<OnThisDayMemories> {
+    const { date, windowDays, ...highlightOptions } = options
+    const profile = this.getProfile(options)
+    if (this.photos.length === 0) return { date, windowDays, years: [], highlights: [] }
+
+    const earliestYear = this.photos.reduce((earliest, photo) => Math.min(earliest, photo.dateTime.getFullYear()), date.getFullYear())
+    const years = getOnThisDayWindows(date, windowDays, earliestYear)
+      .map(window => {
+        const inWindow = this.filterByPeople(this.scorePhotos({ ...highlightOptions, timeRange: window }), options).filter(
+          photo => photo.dateTime >= window.start && photo.dateTime <= window.end && (photo.scores?.quality || 0) >= options.minQuality
+        )
+
+        // Best photo of each burst and of each group of similar photos, best first
+        const groups = this.groupSimilarPhotos(collapseBursts(inWindow, detectBursts(inWindow)), profile)
+        const ranked = Array.from(groups.values())
+          .map(group => group.reduce((best, current) => ((current.scores?.final || 0) > (best.scores?.final || 0) ? current : best)))
+          .sort((a, b) => (b.scores?.final || 0) - (a.scores?.final || 0))
+
+        return { ...window, candidates: inWindow.length, ranked }
+      })
+      .filter(year => year.ranked.length > 0)
+
+    const highlights: EnhancedPhoto[] = []
+    const highlightIds = new Map(years.map(year => [year.year, [] as string[]]))
+    // Years with the strongest photos pick first in each round
+    const turnOrder = [...years].sort((a, b) => (b.ranked[0].scores?.final || 0) - (a.ranked[0].scores?.final || 0))
+
+    let picked = true
+    while (highlights.length < options.limit && picked) {
+      picked = false
+      for (const year of turnOrder) {
+        if (highlights.length >= options.limit) break
+
+        const index = year.ranked.findIndex(photo => this.isPhotoDiverse(photo, highlights, profile))
+        if (index < 0) continue
+
+        const [photo] = year.ranked.splice(0, index + 1).slice(-1)
+        highlights.push(photo)
+        highlightIds.get(year.year)?.push(photo.id)
+        picked = true
+      }
+    }
+
+    return {
+      date,
+      windowDays,
+      years: years.map(({ ranked, ...year }) => ({ ...year, highlightIds: highlightIds.get(year.year) || [] })),
+      highlights
+    }
+  }
+
+  /**
+   * Selects highlights of each trip away from home, from the photos of the trip only.
+   * @param options - Selection options; the limit applies per trip, and only trips overlapping the time range are included
+   * @returns Trips with their highlights, in chronological order
+   * @throws Error when `options.people` names people that weren't found
+   */
+  public async selectTripHighlights(options: HighlightOptions): Promise<TripHighlights[]> {
+    return this.getTrips()
+      .listTrips(options.timeRange)
+      .map(trip => {
+        const tripOptions = { ...options, timeRange: { start: trip.start, end: trip.end } }
+        const photoIds = new Set(trip.photoIds)
+        const scored = this.scorePhotos(tripOptions).filter(photo => photoIds.has(photo.id))
+        return { trip, highlights: this.selectFromScored(scored, tripOptions) }
+      })
+  }
+
+  /**
+   * Scores every photo in the pool without selecting any, e.g. to explain why a photo was or wasn't picked.
+   * @param options - Highlight options the scores depend on (preferred types, time range and weights)
+   * @returns Photos in the pool with their scores
+   */
+  public scorePhotos(options: HighlightOptions): EnhancedPhoto[] {
+    return this.scorePool(options).map(({ photo }) => photo)
+  }
+
+  /**
+   * Scores every photo in the pool, keeping the sub-scores behind each composite score.
+   */
+  private scorePool(options: HighlightOptions): Array<{ photo: EnhancedPhoto; components: ScoreComponents }> {
+    const profile = this.getProfile(options)
+
     /**
      * Calculates comprehensive quality metrics for a photo.
      * Includes blur, exposure, noise, and composition analysis.
      */
     const calculateQualityScore = (quality: QualityMetrics): number => {
-      const weights = {
-        blur: 0.35,
-        exposure: 0.25,
-        noise: 0.2,
-        composition: 0.2
-      }
+      const weights = profile.quality
 
       return (
         quality.blurScore * weights.blur +
@@ -227,7 +880,9 @@ export class GoogleVisionHighlightSelector {
       )
     }
 
-    const calculateInterestScore = (analysis: PhotoAnalysis): number => {
+    const focus = this.getPersonConstraints(options)?.focus
+
+    const calculateInterestComponents = (photoId: string, analysis: PhotoAnalysis): ScoreComponents['interest'] => {
       const calculateFaceInterestScore = (faces: FaceAnalysis[]): number => {
         if (faces.length === 0) return 0
 
@@ -247,8 +902,16 @@ export class GoogleVisionHighlightSelector {
         // Favor photos with multiple faces but don't overweight them
         const multipleFaceFactor = Math.min(faces.length / 3, 1)
         const averageScore = faceScores.reduce((sum, score) => sum + score, 0) / faceScores.length
+        const photoScore = averageScore * (1 + multipleFaceFactor * 0.2)
 
-        return averageScore * (1 + multipleFaceFactor * 0.2)
+        // With person constraints, how well the people asked for are shown matters more than the photo's other faces
+        const focusScores = faces
+          .filter((_face, faceIndex) => focus?.has(this.people.getPersonOfFace(photoId, faceIndex) || ''))
+          .map(scoreFocusFace)
+        if (focusScores.length === 0) return photoScore
+
+        const focusScore = focusScores.reduce((sum, score) => sum + score, 0) / focusScores.length
+        return focusScore * FOCUS_FACE_WEIGHT + photoScore * (1 - FOCUS_FACE_WEIGHT)
       }
 
       const calculateLandmarkInterestScore = (landmarks: Landmark[]): number => {
@@ -276,31 +939,22 @@ export class GoogleVisionHighlightSelector {
         return Math.min(averageScore / 0.8, 1)
       }
 
-      const scores = {
+      return {
         faces: calculateFaceInterestScore(analysis.faces),
         landmarks: calculateLandmarkInterestScore(analysis.landmarks),
         labels: calculateLabelInterestScore(analysis.labels),
         web: calculateWebInterestScore(analysis.webDetection)
       }
+    }
 
-      const weights = {
-        faces: 0.35,
-        landmarks: 0.25,
-        labels: 0.25,
-        web: 0.15
-      }
+    const combineInterestComponents = (components: ScoreComponents['interest']): number => {
+      const weights = profile.interest
 
-      return Object.entries(weights).reduce((total, [key, weight]) => total + scores[key as keyof typeof scores] * weight, 0)
+      return Object.entries(weights).reduce((total, [key, weight]) => total + components[key as keyof typeof components] * weight, 0)
     }
 
     const calculateLabelInterestScore = (labels: Label[]): number => {
-      const interestingCategories = {
-        events: ['wedding', 'party', 'celebration', 'ceremony', 'festival'],
-        activities: ['sport', 'dance', 'performance', 'game', 'adventure'],
-        nature: ['sunset', 'beach', 'mountain', 'landscape', 'wildlife'],
-        emotions: ['smile', 'happy', 'joy', 'laugh', 'excited'],
-        landmarks: ['monument', 'building', 'architecture', 'statue', 'tower']
-      }
+      const interestingCategories = profile.interestingCategories
 
       const categoryScores = new Map<string, number>()
 
@@ -353,17 +1007,28 @@ export class GoogleVisionHighlightSelector {
       return Math.min(normalizedPositive * 0.8 + (1 - normalizedNegative) * 0.2, 1)
     }
 
-    const calculateUniquenessScore = (photo: EnhancedPhoto): number => {
-      const labelUniqueness = this.calculateLabelUniqueness(photo.analysis.labels)
-      const visualUniqueness = this.calculateVisualUniqueness(photo.analysis.webDetection)
-      const compositionUniqueness = this.calculateCompositionUniqueness(photo)
+    const calculateUniquenessComponents = (photo: EnhancedPhoto): ScoreComponents['uniqueness'] => {
+      const color = this.calculateColorUniqueness(photo.analysis.imageProperties)
+      const layout = this.calculateLayoutUniqueness(photo.analysis.faces, photo.analysis.landmarks)
 
-      return labelUniqueness * 0.4 + visualUniqueness * 0.4 + compositionUniqueness * 0.2
+      return {
+        labels: this.calculateLabelUniqueness(photo.analysis.labels),
+        visual: this.calculateVisualUniqueness(photo.analysis.webDetection),
+        composition: color * 0.5 + layout * 0.5,
+        color,
+        layout
+      }
     }
 
+    const places = this.getPlaces()
+
     const calculateRelevanceScore = (photo: EnhancedPhoto, preferredTypes: string[]): number => {
       if (preferredTypes.length === 0) return 1
 
+      // Photos taken in a preferred place, e.g. "Lisbon", are fully relevant
+      const placeName = places.getPlaceName(photo.id)?.toLowerCase()
+      if (placeName && preferredTypes.some(type => placeName.includes(type.toLowerCase()))) return 1
+
       const relevantLabels = photo.analysis.labels.filter(label =>
         preferredTypes.some(type => label.description.toLowerCase().includes(type.toLowerCase()))
       )
@@ -377,6 +1042,8 @@ export class GoogleVisionHighlightSelector {
       const { start, end } = timeRange
       const totalRange = end.getTime() - start.getTime()
       const position = dateTime.getTime() - start.getTime()
+      // A single moment, e.g. one photo or a burst, has no middle to favor
+      if (totalRange <= 0) return 1
 
       // Favor photos from the middle of the time range
       const normalizedPosition = position / totalRange
@@ -384,31 +1051,73 @@ export class GoogleVisionHighlightSelector {
 
       return 1 - distanceFromMiddle
     }
-    // Calculate scores for all photos
-    const scoredPhotos = await Promise.all(
-      this.photos.map(async photo => {
-        const scores = {
-          quality: calculateQualityScore(photo.analysis.quality),
-          interest: calculateInterestScore(photo.analysis),
-          emotion: calculateEmotionScore(photo.analysis.faces),
-          uniqueness: calculateUniquenessScore(photo),
-          relevance: calculateRelevanceScore(photo, options.preferredTypes),
-          temporal: calculateTemporalScore(photo.dateTime, options.timeRange),
-          final: 0
-        }
 
-        // Calculate final weighted score
-        const weights = { ...this.defaultWeights, ...options.weights }
-        scores.final = Object.entries(weights).reduce((total, [key, weight]) => total + scores[key as keyof typeof scores] * weight, 0)
-        return { ...photo, scores }
-      })
-    )
+    // View and share counts are compared on a log scale to the most engaged photos, so a few very popular photos don't flatten the rest
+    // Reduced rather than spread into Math.max, which runs out of stack on large libraries
+    const maxViews = this.photos.reduce((max, photo) => Math.max(max, photo.interactions.viewCount), 0)
+    const maxShares = this.photos.reduce((max, photo) => Math.max(max, photo.interactions.shareCount), 0)
+    const normalizeCount = (count: number, max: number): number => (max > 0 ? Math.log1p(count) / Math.log1p(max) : 0)
+
+    const calculateEngagementComponents = (interactions: PhotoInteractions): ScoreComponents['engagement'] => ({
+      views: normalizeCount(interactions.viewCount, maxViews),
+      shares: normalizeCount(interactions.shareCount, maxShares),
+      edited: interactions.isEdited ? 1 : 0,
+      favorite: interactions.isFavorite ? 1 : 0
+    })
 
-    // Group similar photos
-    const groups = this.groupSimilarPhotos(scoredPhotos)
+    const now = this.clock().getTime()
+    const calculateViewRecencyPenalty = (lastViewed: Date | undefined): number => {
+      if (!lastViewed) return 0
+
+      const { maxPenalty, halfLifeDays } = profile.viewRecency
+      const daysSinceViewed = Math.max(0, (now - lastViewed.getTime()) / 86_400_000)
+      return maxPenalty * 0.5 ** (daysSinceViewed / halfLifeDays)
+    }
+
+    const homePhotoWeight = options.homePhotoWeight
+    const trips = homePhotoWeight !== undefined ? this.getTrips() : undefined
+
+    // Calculate scores for all photos
+    return this.photos.map(photo => {
+      const { quality } = photo.analysis
+      const components: ScoreComponents = {
+        quality: {
+          blur: quality.blurScore,
+          exposure: quality.exposureScore,
+          noise: quality.noiseScore,
+          composition: quality.compositionScore
+        },
+        interest: calculateInterestComponents(photo.id, photo.analysis),
+        uniqueness: calculateUniquenessComponents(photo),
+        engagement: calculateEngagementComponents(photo.interactions),
+        viewRecencyPenalty: calculateViewRecencyPenalty(photo.interactions.lastViewed),
+        homeWeight: homePhotoWeight !== undefined && trips?.isAtHome(photo.id) ? homePhotoWeight : 1
+      }
 
-    // Select best photos while maintaining temporal diversity
-    return this.selectDiverseHighlights(groups, options)
+      const scores = {
+        quality: calculateQualityScore(quality),
+        interest: combineInterestComponents(components.interest),
+        emotion: calculateEmotionScore(photo.analysis.faces),
+        uniqueness:
+          components.uniqueness.labels * profile.uniqueness.labels +
+          components.uniqueness.visual * profile.uniqueness.visual +
+          components.uniqueness.composition * profile.uniqueness.composition,
+        relevance: calculateRelevanceScore(photo, options.preferredTypes),
+        temporal: calculateTemporalScore(photo.dateTime, options.timeRange),
+        engagement: Object.entries(profile.engagement).reduce(
+          (total, [key, weight]) => total + components.engagement[key as keyof ScoreComponents['engagement']] * weight,
+          0
+        ),
+        final: 0
+      }
+
+      // Calculate final weighted score; recently viewed photos, and everyday photos at home when asked, are resurfaced less
+      const weights = { ...profile.weights, ...options.weights }
+      const weighted = Object.entries(weights).reduce((total, [key, weight]) => total + scores[key as keyof typeof scores] * weight, 0)
+      scores.final = weighted * (1 - components.viewRecencyPenalty) * components.homeWeight
+      const place = places.getPlaceName(photo.id)
+      return { photo: { ...photo, scores, ...(place && { place }) }, components }
+    })
   }
 
   private calculateLabelUniqueness(labels: Label[]): number {
@@ -453,18 +1162,6 @@ export class GoogleVisionHighlightSelector {
     return similarityScore * 0.7 + partialMatchScore * 0.3
   }
 
-  private calculateCompositionUniqueness(photo: EnhancedPhoto): number {
-    const { imageProperties, faces, landmarks } = photo.analysis
-
-    // Calculate color uniqueness
-    const colorUniqueness = this.calculateColorUniqueness(imageProperties)
-
-    // Calculate layout uniqueness
-    const layoutUniqueness = this.calculateLayoutUniqueness(faces, landmarks)
-
-    return colorUniqueness * 0.5 + layoutUniqueness * 0.5
-  }
-
   private calculateColorUniqueness(properties: ImageProperties): number {
     const colors = properties.dominantColors
     if (colors.length === 0) return 0
@@ -501,10 +1198,7 @@ export class GoogleVisionHighlightSelector {
     if (elements.length === 0) return 0.5
 
     // Create a simple layout fingerprint
-    const layoutFingerprint = elements
-      .map(box => `${Math.round(box.left)},${Math.round(box.top)},${Math.round(box.width)},${Math.round(box.height)}`)
-      .sort()
-      .join('|')
+    const layoutFingerprint = createLayoutFingerprint(elements)
 
     // Compare with other photos
     let similarLayoutCount = 0
@@ -514,10 +1208,7 @@ export class GoogleVisionHighlightSelector {
         ...otherPhoto.analysis.landmarks.map(landmark => landmark.boundingBox)
       ]
 
-      const otherFingerprint = otherElements
-        .map(box => `${Math.round(box.left)},${Math.round(box.top)},${Math.round(box.width)},${Math.round(box.height)}`)
-        .sort()
-        .join('|')
+      const otherFingerprint = createLayoutFingerprint(otherElements)
 
       if (calculateLayoutSimilarity(layoutFingerprint, otherFingerprint) > 0.8) {
         similarLayoutCount++
@@ -529,22 +1220,13 @@ export class GoogleVisionHighlightSelector {
 
   private assignPhotoClusters(photo: Photo): PhotoAnalysis['clustering'] {
     const hour = photo.dateTime.getHours()
-    let locationGroup = 'unknown'
     let timeGroup = 'night'
     if (hour >= 5 && hour < 12) timeGroup = 'morning'
     if (hour >= 12 && hour < 17) timeGroup = 'afternoon'
     if (hour >= 17 && hour < 21) timeGroup = 'evening'
 
-    if (photo.metadata.location) {
-      // Simple location grouping by grid
-      const latGroup = Math.floor(photo.metadata.location?.latitude)
-      const lngGroup = Math.floor(photo.metadata.location?.longitude)
-      locationGroup = `${latGroup},${lngGroup}`
-    }
-
     return {
-      timeGroup,
-      locationGroup
+      timeGroup
     }
   }
 
@@ -552,9 +1234,10 @@ export class GoogleVisionHighlightSelector {
    * Groups similar photos together based on temporal proximity and visual similarity.
    * Used to avoid selecting multiple similar photos as highlights.
    * @param photos - Array of photos to group
+   * @param profile - Similarity thresholds
    * @returns Map of group IDs to arrays of similar photos
    */
-  private groupSimilarPhotos(photos: EnhancedPhoto[]): Map<string, EnhancedPhoto[]> {
+  private groupSimilarPhotos(photos: EnhancedPhoto[], profile: ScoringProfile): Map<string, EnhancedPhoto[]> {
     const groups = new Map<string, EnhancedPhoto[]>()
     const processedIds = new Set<string>()
 
@@ -568,7 +1251,7 @@ export class GoogleVisionHighlightSelector {
       photos.forEach(otherPhoto => {
         if (photo.id === otherPhoto.id || processedIds.has(otherPhoto.id)) return
 
-        const isSimilar = this.checkPhotoSimilarity(photo, otherPhoto)
+        const isSimilar = this.checkPhotoSimilarity(photo, otherPhoto, profile)
         if (isSimilar) {
           similarPhotos.push(otherPhoto)
           processedIds.add(otherPhoto.id)
@@ -584,23 +1267,39 @@ export class GoogleVisionHighlightSelector {
   /**
    * Checks if two photos are similar based on multiple criteria including
    * time taken, location, and visual content.
+   * Identical content or near-identical perceptual hashes mark photos as duplicates regardless of when they were taken.
    * @param photo1 - First photo to compare
    * @param photo2 - Second photo to compare
+   * @param profile - Similarity thresholds
    * @returns Boolean indicating if photos are similar
    */
-  private checkPhotoSimilarity(photo1: EnhancedPhoto, photo2: EnhancedPhoto): boolean {
+  private checkPhotoSimilarity(photo1: EnhancedPhoto, photo2: EnhancedPhoto, profile: ScoringProfile): boolean {
+    const thresholds = profile.similarity
+    const hashes1 = photo1.analysis.hashes
+    const hashes2 = photo2.analysis.hashes
+    if (hashes1.content === hashes2.content) return true
+
+    // Both hashes have to agree, which keeps unrelated photos with a similar overall structure apart
+    const perceptualDistance =
+      hashes1.pHash && hashes2.pHash && hashes1.dHash && hashes2.dHash
+        ? Math.max(hammingDistance(hashes1.pHash, hashes2.pHash), hammingDistance(hashes1.dHash, hashes2.dHash))
+        : undefined
+    if (perceptualDistance !== undefined && perceptualDistance <= thresholds.duplicateHashDistance) return true
+
     // Time proximity check
-    const timeThreshold = 5 * 60 * 1000 // 5 minutes
+    const timeThreshold = thresholds.timeWindowMinutes * 60 * 1000
     const timeDiff = Math.abs(photo1.dateTime.getTime() - photo2.dateTime.getTime())
     if (timeDiff > timeThreshold) return false
 
     // Location proximity check if available
     if (photo1.metadata.location && photo2.metadata.location) {
-      const distanceThreshold = 100 // 100 meters
       const distance = calculateDistance(photo1.metadata.location, photo2.metadata.location)
-      if (distance > distanceThreshold) return false
+      if (distance > thresholds.maxDistanceMeters) return false
     }
 
+    // Taken at the same time and place and visually close: the same shot with minor changes
+    if (perceptualDistance !== undefined && perceptualDistance <= thresholds.nearDuplicateHashDistance) return true
+
     /**
      * Calculates similarity between two photos based on their detected labels.
      * Uses Jaccard similarity coefficient (intersection over union).
@@ -628,35 +1327,68 @@ export class GoogleVisionHighlightSelector {
     }
 
     // Weighted combination of similarity scores
-    const totalSimilarity = similarityScores.labels * 0.4 + similarityScores.webEntities * 0.3 + similarityScores.visualFeatures * 0.3
+    const totalSimilarity =
+      similarityScores.labels * thresholds.weights.labels +
+      similarityScores.webEntities * thresholds.weights.webEntities +
+      similarityScores.visualFeatures * thresholds.weights.visualFeatures
 
-    return totalSimilarity > 0.8
+    return totalSimilarity > thresholds.threshold
   }
 
   /**
-   * Selects diverse highlights from grouped photos ensuring temporal distribution
-   * and avoiding similar photos.
+   * Selects diverse highlights from grouped photos, spread across the events of the time range and avoiding similar photos.
+   * Events get slots in proportion to their number of photos times the average of their best scores.
    * @param groups - Map of photo groups
    * @param options - Selection options including limits and preferences
+   * @param trace - Collects why photos lost
+   * @param eventLog - Collects the events and their slots
    * @returns Array of selected highlight photos
    */
-  private selectDiverseHighlights(groups: Map<string, EnhancedPhoto[]>, options: HighlightOptions): EnhancedPhoto[] {
-    // Create time buckets covering the specified range
-    const timeBuckets = this.createTimeBuckets(options.timeRange)
-    const photosPerBucket = Math.ceil(options.limit / timeBuckets.length)
+  private selectDiverseHighlights(
+    groups: Map<string, EnhancedPhoto[]>,
+    options: HighlightOptions,
+    trace?: SelectionTrace,
+    eventLog?: SelectionExplanation['events']
+  ): EnhancedPhoto[] {
+    // Split the photos in the time range into events
+    const profile = this.getProfile(options)
+    const inRange = Array.from(groups.values())
+      .flat()
+      .filter(photo => photo.dateTime >= options.timeRange.start && photo.dateTime <= options.timeRange.end)
+    const events = segmentEvents(inRange, profile.events)
+
+    // Events get slots by how many photos they have and how good their best photos are
+    const eligibleGroups = events.map(event => this.getEligibleGroupsForEvent(groups, event, new Set(), options.minQuality))
+    const slots = allocateEventSlots(
+      events.map((event, index) => {
+        const bestScores = Array.from(eligibleGroups[index].values())
+          .flat()
+          .map(photo => photo.scores?.final || 0)
+          .sort((a, b) => b - a)
+          .slice(0, EVENT_BEST_SCORE_COUNT)
+        const averageBestScore = bestScores.reduce((sum, score) => sum + score, 0) / (bestScores.length || 1)
+        return event.photoIds.length * averageBestScore
+      }),
+      eligibleGroups.map(eligible => eligible.size),
+      options.limit
+    )
+    eventLog?.push(...events.map((event, index) => ({ ...event, slots: slots[index] })))
 
     const selectedPhotos: EnhancedPhoto[] = []
     const usedGroups = new Set<string>()
+    // The photo selected from a group isn't necessarily the one it's keyed by
+    const groupIds = new Map(Array.from(groups.entries()).flatMap(([groupId, photos]) => photos.map(photo => [photo.id, groupId])))
 
-    // Select photos for each time bucket
-    timeBuckets.forEach(bucket => {
-      const eligibleGroups = this.getEligibleGroupsForBucket(groups, bucket, usedGroups, options.minQuality)
+    // Select photos for each event
+    events.forEach((event, index) => {
+      if (slots[index] === 0) return
 
-      const bucketSelections = this.selectBestGroupsFromBucket(eligibleGroups, photosPerBucket, selectedPhotos)
+      const eligible = this.getEligibleGroupsForEvent(groups, event, usedGroups, options.minQuality)
+      const eventSelections = this.selectBestGroupsFromEvent(eligible, slots[index], selectedPhotos, profile, trace)
 
-      bucketSelections.forEach(photo => {
+      eventSelections.forEach(photo => {
         selectedPhotos.push(photo)
-        usedGroups.add(photo.id)
+        usedGroups.add(groupIds.get(photo.id) || photo.id)
       })
     })
 
@@ -665,8 +1397,10 @@ export class GoogleVisionHighlightSelector {
       const remainingSelections = this.selectRemainingBestPhotos(
         groups,
         usedGroups,
+        selectedPhotos,
         options.limit - selectedPhotos.length,
-        options.minQuality
+        options.minQuality,
+        trace
       )
 
       selectedPhotos.push(...remainingSelections)
@@ -677,62 +1411,42 @@ export class GoogleVisionHighlightSelector {
   }
 
   /**
-   * Creates time buckets for temporal diversity in highlight selection.
-   * Divides the time range into equal intervals.
-   * @param timeRange - Start and end time for selection
-   * @returns Array of time bucket objects with start and end times
-   */
-  private createTimeBuckets(timeRange: HighlightOptions['timeRange']): Array<{ start: Date; end: Date }> {
-    const buckets: Array<{ start: Date; end: Date }> = []
-    const totalDuration = timeRange.end.getTime() - timeRange.start.getTime()
-    const bucketDuration = totalDuration / 10 // Create 10 buckets
-
-    for (let time = timeRange.start.getTime(); time < timeRange.end.getTime(); time += bucketDuration) {
-      buckets.push({
-        start: new Date(time),
-        end: new Date(Math.min(time + bucketDuration, timeRange.end.getTime()))
-      })
-    }
-
-    return buckets
-  }
-
-  /**
-   * Filters photo groups that are eligible for selection within a time bucket.
+   * Filters photo groups that are eligible for selection within an event.
    * Considers quality threshold and previously used groups.
    * @param groups - All photo groups
-   * @param bucket - Time bucket to filter for
+   * @param event - Event to filter for
    * @param usedGroups - Set of already used group IDs
    * @param minQuality - Minimum quality threshold
-   * @returns Map of eligible groups for the bucket
+   * @returns Map of eligible groups for the event
    */
-  private getEligibleGroupsForBucket(
+  private getEligibleGroupsForEvent(
     groups: Map<string, EnhancedPhoto[]>,
-    bucket: { start: Date; end: Date },
+    event: PhotoEvent,
     usedGroups: Set<string>,
     minQuality: number
   ): Map<string, EnhancedPhoto[]> {
     const eligible = new Map<string, EnhancedPhoto[]>()
+    const eventPhotoIds = new Set(event.photoIds)
 
     groups.forEach((photos, groupId) => {
       if (usedGroups.has(groupId)) return
 
-      const bucketPhotos = photos.filter(
-        photo => photo.dateTime >= bucket.start && photo.dateTime <= bucket.end && (photo.scores?.quality || 0) >= minQuality
-      )
+      const eventPhotos = photos.filter(photo => eventPhotoIds.has(photo.id) && (photo.scores?.quality || 0) >= minQuality)
 
-      if (bucketPhotos.length > 0) {
-        eligible.set(groupId, bucketPhotos)
+      if (eventPhotos.length > 0) {
+        eligible.set(groupId, eventPhotos)
       }
     })
 
     return eligible
   }
 
-  private selectBestGroupsFromBucket(
+  private selectBestGroupsFromEvent(
     eligibleGroups: Map<string, EnhancedPhoto[]>,
     count: number,
-    alreadySelected: EnhancedPhoto[]
+    alreadySelected: EnhancedPhoto[],
+    profile: ScoringProfile,
+    trace?: SelectionTrace
   ): EnhancedPhoto[] {
     const selections: EnhancedPhoto[] = []
 
@@ -740,18 +1454,32 @@ export class GoogleVisionHighlightSelector {
     const sortedGroups = Array.from(eligibleGroups.values())
       .map(photos => ({
         photos,
-        bestScore: Math.max(...photos.map(p => p.scores?.final || 0))
+        bestScore: photos.reduce((best, p) => Math.max(best, p.scores?.final || 0), 0)
       }))
       .sort((a, b) => b.bestScore - a.bestScore)
 
     for (const group of sortedGroups) {
-      if (selections.length >= count) break
+      // Without a trace, nothing is left to do once the event is full
+      if (selections.length >= count && !trace) break
 
       const bestPhoto = group.photos.reduce((best, current) =>
         (current.scores?.final || 0) > (best.scores?.final || 0) ? current : best
       )
+      group.photos.forEach(photo => {
+        if (photo.id !== bestPhoto.id) recordOutcome(trace, photo.id, 'similar_photo', bestPhoto.id)
+      })
+
+      if (selections.length >= count) {
+        recordOutcome(trace, bestPhoto.id, 'event_full', selections[selections.length - 1].id)
+        continue
+      }
 
-      if (this.isPhotoDiverse(bestPhoto, [...alreadySelected, ...selections])) {
+      const similarPhoto = [...alreadySelected, ...selections].find(selected =>
+        this.checkPhotoSimilarity(bestPhoto, selected, profile)
+      )
+      if (similarPhoto) {
+        recordOutcome(trace, bestPhoto.id, 'not_diverse', similarPhoto.id)
+      } else {
         selections.push(bestPhoto)
       }
     }
@@ -762,22 +1490,30 @@ export class GoogleVisionHighlightSelector {
   private selectRemainingBestPhotos(
     groups: Map<string, EnhancedPhoto[]>,
     usedGroups: Set<string>,
+    selectedPhotos: EnhancedPhoto[],
     count: number,
-    minQuality: number
+    minQuality: number,
+    trace?: SelectionTrace
   ): EnhancedPhoto[] {
     const candidates: EnhancedPhoto[] = []
+    const selectedIds = new Set(selectedPhotos.map(photo => photo.id))
 
     groups.forEach((photos, groupId) => {
       if (!usedGroups.has(groupId)) {
         candidates.push(...photos.filter(photo => (photo.scores?.quality || 0) >= minQuality))
+      } else {
+        const selected = photos.find(photo => selectedIds.has(photo.id))?.id || groupId
+        photos.forEach(photo => {
+          if (photo.id !== selected) recordOutcome(trace, photo.id, 'similar_photo', selected)
+        })
       }
     })
 
     return candidates.sort((a, b) => (b.scores?.final || 0) - (a.scores?.final || 0)).slice(0, count)
   }
 
-  private isPhotoDiverse(photo: EnhancedPhoto, selectedPhotos: EnhancedPhoto[]): boolean {
-    return selectedPhotos.every(selected => !this.checkPhotoSimilarity(photo, selected))
+  private isPhotoDiverse(photo: EnhancedPhoto, selectedPhotos: EnhancedPhoto[], profile: ScoringProfile): boolean {
+    return selectedPhotos.every(selected => !this.checkPhotoSimilarity(photo, selected, profile))
   }
 
   /**
@@ -785,11 +1521,11 @@ export class GoogleVisionHighlightSelector {
    * Used for calculating uniqueness scores of photos.
    * @param labels - Array of labels to update frequencies for
    */
-  private updateLabelFrequencies(labels: Label[]): void {
+  private updateLabelFrequencies(labels: Label[], delta = 1): void {
     // Update individual label frequencies
     labels.forEach(label => {
       const count = this.labelFrequencies.individual.get(label.description) || 0
-      this.labelFrequencies.individual.set(label.description, count + 1)
+      this.labelFrequencies.individual.set(label.description, count + delta)
     })
 
     // Update label combination frequencies
@@ -797,7 +1533,7 @@ export class GoogleVisionHighlightSelector {
       for (let j = i + 1; j < labels.length; j++) {
         const combo = [labels[i].description, labels[j].description].sort().join('|')
         const count = this.labelFrequencies.combinations.get(combo) || 0
-        this.labelFrequencies.combinations.set(combo, count + 1)
+        this.labelFrequencies.combinations.set(combo, count + delta)
       }
     }
   }
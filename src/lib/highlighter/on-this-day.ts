@@ -0,0 +1,61 @@
+import type { OnThisDayYear } from '@/lib/types'
+
+export const DEFAULT_WINDOW_DAYS = 3
+
+const MAX_WINDOW_DAYS = 60
+
+/**
+ * Formats a date as a local calendar date, e.g. "2024-07-14".
+ */
+export const formatLocalDate = (date: Date): string =>
+  [date.getFullYear(), String(date.getMonth() + 1).padStart(2, '0'), String(date.getDate()).padStart(2, '0')].join('-')
+
+/**
+ * Finds the calendar day an instant falls on in a time zone, e.g. the next day in Tokyo for late evening in London.
+ * @param date - Instant
+ * @param timeZone - IANA time zone; the process' local time zone when unset
+ * @returns Start of that calendar day in local time
+ * @throws RangeError when the time zone is unknown
+ */
+export const getCalendarDay = (date: Date, timeZone?: string): Date => {
+  if (!timeZone) return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: 'numeric', day: 'numeric' }).formatToParts(date)
+  const getPart = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value)
+  return new Date(getPart('year'), getPart('month') - 1, getPart('day'))
+}
+
+/**
+ * Computes the window around a calendar day in each earlier year, in local time.
+ * February 29 falls back to February 28 in years without one.
+ * @param date - Day to remember
+ * @param windowDays - Days before and after the day that are included
+ * @param earliestYear - First year to include, usually the year of the oldest photo
+ * @returns Windows from the earliest year up to last year, each from the start of its first day to the end of its last
+ */
+export const getOnThisDayWindows = (
+  date: Date,
+  windowDays: number,
+  earliestYear: number
+): Array<Pick<OnThisDayYear, 'year' | 'start' | 'end'>> => {
+  if (!Number.isInteger(windowDays) || windowDays < 0 || windowDays > MAX_WINDOW_DAYS) {
+    throw new Error(`windowDays must be an integer between 0 and ${MAX_WINDOW_DAYS}, got ${windowDays}`)
+  }
+
+  const month = date.getMonth()
+  const windows: Array<Pick<OnThisDayYear, 'year' | 'start' | 'end'>> = []
+
+  for (let year = earliestYear; year < date.getFullYear(); year++) {
+    const daysInMonth = new Date(year, month + 1, 0).getDate()
+    const day = Math.min(date.getDate(), daysInMonth)
+
+    windows.push({
+      year,
+      start: new Date(year, month, day - windowDays),
+      // One millisecond before midnight after the last day
+      end: new Date(new Date(year, month, day + windowDays + 1).getTime() - 1)
+    })
+  }
+
+  return windows
+}
@@ -41,13 +41,6 @@ export const calculateVisualFeatureSimilarity = (photo1: EnhancedPhoto, photo2:
     photo2.analysis.imageProperties.dominantColors
   )
 
-  const createLayoutFingerprint = (elements: BoundingBox[]): string => {
-    return elements
-      .map(box => `${Math.round(box.left)},${Math.round(box.top)},${Math.round(box.width)},${Math.round(box.height)}`)
-      .sort()
-      .join('|')
-  }
-
   // Convert BoundingBox arrays to layout fingerprints before comparison
   const layout1 = createLayoutFingerprint(getVisualElements(photo1))
   const layout2 = createLayoutFingerprint(getVisualElements(photo2))
@@ -56,6 +49,21 @@ export const calculateVisualFeatureSimilarity = (photo1: EnhancedPhoto, photo2:
   return colorSimilarity * 0.6 + layoutSimilarity * 0.4
 }
 
+/**
+ * Creates a fingerprint of where elements sit in the frame.
+ * Normalized box coordinates are quantized to tenths of the image so small shifts still match.
+ * @param elements - Bounding boxes of faces, landmarks and other subjects
+ * @returns Sorted, pipe-separated list of quantized boxes
+ */
+export const createLayoutFingerprint = (elements: BoundingBox[]): string => {
+  const quantize = (value: number) => Math.round(value * 10)
+
+  return elements
+    .map(box => `${quantize(box.left)},${quantize(box.top)},${quantize(box.width)},${quantize(box.height)}`)
+    .sort()
+    .join('|')
+}
+
 export const calculateColorSimilarity = (colors1: Color[], colors2: Color[]): number => {
   const calculateColorDistance = (color1: Color, color2: Color): number => {
     return Math.sqrt(
@@ -0,0 +1,81 @@
+import {
+  evaluateQuality,
+  measurePixelQuality,
+  scorePixelBlur,
+  scorePixelExposure,
+  scorePixelNoise
+} from '@/lib/highlighter/photo-quality'
+import { type LuminanceImage, decodeImage, toLuminance } from '@/lib/image/decode'
+import { createPngImage } from '@/test/fixtures'
+
+const SIZE = 64
+
+const luminanceOf = (paint: (x: number, y: number) => number): LuminanceImage => {
+  const decoded = decodeImage(
+    createPngImage(SIZE, SIZE, (x, y) => {
+      const value = paint(x, y)
+      return [value, value, value]
+    })
+  )
+  if (!decoded) throw new Error('Test image failed to decode')
+  return toLuminance(decoded)
+}
+
+// Deterministic pseudo-random noise, so tests don't depend on Math.random
+const noise = (x: number, y: number) => ((x * 7919 + y * 104_729) % 61) - 30
+
+const measure = (paint: (x: number, y: number) => number) => {
+  const metrics = measurePixelQuality(luminanceOf(paint))
+  if (!metrics) throw new Error('Test image too small to measure')
+  return metrics
+}
+
+describe('pixel quality', () => {
+  it('scores sharp edges above a smooth gradient', () => {
+    const sharp = measure((x, y) => ((Math.floor(x / 4) + Math.floor(y / 4)) % 2 === 0 ? 30 : 220))
+    const smooth = measure(x => 60 + x * 2)
+
+    expect(scorePixelBlur(sharp)).toBeGreaterThan(0.9)
+    expect(scorePixelBlur(smooth)).toBeLessThan(0.1)
+  })
+
+  it('scores a dark image as underexposed', () => {
+    const dark = measure((x, y) => 5 + ((x + y) % 10))
+    const balanced = measure((x, y) => 40 + ((x * 3 + y * 5) % 180))
+
+    expect(scorePixelExposure(dark)).toBeLessThan(scorePixelExposure(balanced))
+    expect(scorePixelExposure(balanced)).toBeGreaterThan(0.5)
+  })
+
+  it('scores grain as noise', () => {
+    const clean = measure(x => 60 + x * 2)
+    const grainy = measure((x, y) => 60 + x * 2 + noise(x, y))
+
+    expect(scorePixelNoise(grainy)).toBeLessThan(scorePixelNoise(clean))
+  })
+
+  it('does not measure images too small to judge', () => {
+    expect(measurePixelQuality({ width: 8, height: 8, data: new Float32Array(64) })).toBeNull()
+  })
+})
+
+describe('evaluateQuality', () => {
+  it('falls back to Vision heuristics when the image could not be decoded', () => {
+    const quality = evaluateQuality({}, null, 'pixel', { width: SIZE, height: SIZE })
+
+    expect(quality.source).toBe('vision')
+    expect(quality.pixel).toBeUndefined()
+  })
+
+  it('measures decoded images with the pixel engine', () => {
+    const quality = evaluateQuality(
+      {},
+      luminanceOf(x => x * 4),
+      'pixel',
+      { width: SIZE, height: SIZE }
+    )
+
+    expect(quality.source).toBe('pixel')
+    expect(quality.pixel).toBeDefined()
+  })
+})
@@ -1,8 +1,219 @@
 import { convertBoundingPoly, convertLikelihood } from '@/lib/highlighter/vision-api'
-import type { BoundingBox } from '@/lib/types'
-import type { protos } from '@google-cloud/vision'
-import { google } from '@google-cloud/vision/build/protos/protos'
-import AnnotateImageResponse = google.cloud.vision.v1.AnnotateImageResponse
+import type { LuminanceImage } from '@/lib/image/decode'
+import type {
+  BoundingBox,
+  GoogleAnnotateImageResponse,
+  ImageDimensions,
+  PixelQualityMetrics,
+  QualityEngine,
+  QualityMetrics
+} from '@/lib/types'
+
+/**
+ * Calculates quality metrics for a photo.
+ * The pixel engine decodes the image and measures blur, exposure and noise directly; the Vision engine estimates
+ * them from dominant colors. The Vision heuristics are used as a fallback when the image can't be decoded.
+ * Composition always comes from Vision subject positions.
+ * @param result - Annotation response from Google Vision API
+ * @param image - Decoded luminance of the image, or null if it couldn't be decoded
+ * @param engine - Preferred quality engine
+ * @param dimensions - Displayed dimensions of the image
+ * @returns Quality metrics with scores between 0 and 1
+ */
+export const evaluateQuality = (
+  result: GoogleAnnotateImageResponse,
+  image: LuminanceImage | null,
+  engine: QualityEngine,
+  dimensions: ImageDimensions
+): QualityMetrics => {
+  const compositionScore = evaluateComposition(result, dimensions)
+  const pixel = engine === 'pixel' && image ? measurePixelQuality(image) : null
+
+  if (!pixel) {
+    return {
+      blurScore: evaluateBlur(result),
+      exposureScore: evaluateExposure(result),
+      noiseScore: evaluateNoise(result),
+      compositionScore,
+      source: 'vision'
+    }
+  }
+
+  // Faces are what viewers look at first, so Vision's per-face blur still counts when faces are present
+  const faces = result.faceAnnotations || []
+  const pixelBlurScore = scorePixelBlur(pixel)
+  const blurScore =
+    faces.length > 0
+      ? pixelBlurScore * 0.5 +
+        (faces.reduce((sum, face) => sum + (1 - convertLikelihood(face.blurredLikelihood)), 0) / faces.length) * 0.5
+      : pixelBlurScore
+
+  return {
+    blurScore,
+    exposureScore: scorePixelExposure(pixel),
+    noiseScore: scorePixelNoise(pixel),
+    compositionScore,
+    source: 'pixel',
+    pixel
+  }
+}
+
+/**
+ * Measures blur, exposure and noise from the decoded image.
+ * @param image - Luminance of the decoded image
+ * @returns Raw pixel measurements, or null if the image is too small to measure
+ */
+export const measurePixelQuality = (image: LuminanceImage): PixelQualityMetrics | null => {
+  if (image.width < 16 || image.height < 16) return null
+
+  return {
+    ...measureLaplacian(image),
+    ...measureLuminanceHistogram(image),
+    noiseSigma: measureNoise(image)
+  }
+}
+
+/**
+ * Converts Laplacian variance into a sharpness score.
+ * A variance around 100 is the usual blurry/sharp boundary for 8-bit images, so it maps to 0.5.
+ * @param metrics - Raw pixel measurements
+ * @returns Blur score between 0 and 1 (1 = sharp, 0 = blurry)
+ */
+export const scorePixelBlur = (metrics: PixelQualityMetrics): number => {
+  const toScore = (variance: number) => variance / (variance + 100)
+  return toScore(metrics.focusVariance) * 0.7 + toScore(metrics.laplacianVariance) * 0.3
+}
+
+/**
+ * Scores exposure from mean luminance and clipping.
+ * Means within 0.1 of middle gray score fully; clipped highlights are penalized more than crushed shadows.
+ * @param metrics - Raw pixel measurements
+ * @returns Exposure score between 0 and 1
+ */
+export const scorePixelExposure = (metrics: PixelQualityMetrics): number => {
+  const meanScore = 1 - Math.min(Math.max(Math.abs(metrics.meanLuminance - 0.5) - 0.1, 0) / 0.4, 1)
+  const clippingPenalty = metrics.clippedHighlights * 3 + metrics.clippedShadows * 2
+
+  return Math.max(0, Math.min(1, meanScore - clippingPenalty))
+}
+
+/**
+ * Scores noise from the estimated noise level. A sigma of 12 or more is treated as fully noisy.
+ * @param metrics - Raw pixel measurements
+ * @returns Noise score between 0 and 1 (1 = clean, 0 = noisy)
+ */
+export const scorePixelNoise = (metrics: PixelQualityMetrics): number => {
+  return 1 - Math.min(metrics.noiseSigma / 12, 1)
+}
+
+/**
+ * Computes the variance of the 4-neighbour Laplacian globally and in the sharpest quarter of an 8x8 tile grid.
+ */
+const measureLaplacian = (image: LuminanceImage): Pick<PixelQualityMetrics, 'laplacianVariance' | 'focusVariance'> => {
+  const { width, height, data } = image
+  const grid = 8
+  const tiles = Array.from({ length: grid * grid }, () => ({ sum: 0, sumSquares: 0, count: 0 }))
+  let sum = 0
+  let sumSquares = 0
+  let count = 0
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const index = y * width + x
+      const laplacian = data[index - width] + data[index + width] + data[index - 1] + data[index + 1] - 4 * data[index]
+
+      const tile = tiles[Math.floor((y * grid) / height) * grid + Math.floor((x * grid) / width)]
+      tile.sum += laplacian
+      tile.sumSquares += laplacian * laplacian
+      tile.count++
+
+      sum += laplacian
+      sumSquares += laplacian * laplacian
+      count++
+    }
+  }
+
+  const variance = (total: number, totalSquares: number, n: number) => (n > 0 ? totalSquares / n - (total / n) ** 2 : 0)
+  const tileVariances = tiles
+    .filter(tile => tile.count > 0)
+    .map(tile => variance(tile.sum, tile.sumSquares, tile.count))
+    .sort((a, b) => b - a)
+  const sharpest = tileVariances.slice(0, Math.max(1, Math.floor(tileVariances.length / 4)))
+
+  return {
+    laplacianVariance: variance(sum, sumSquares, count),
+    focusVariance: sharpest.reduce((total, value) => total + value, 0) / sharpest.length
+  }
+}
+
+/**
+ * Builds a luminance histogram and derives mean luminance and clipped highlight/shadow fractions.
+ */
+const measureLuminanceHistogram = (
+  image: LuminanceImage
+): Pick<PixelQualityMetrics, 'meanLuminance' | 'clippedHighlights' | 'clippedShadows'> => {
+  const histogram = new Array<number>(256).fill(0)
+  image.data.forEach(value => {
+    histogram[Math.min(255, Math.max(0, Math.round(value)))]++
+  })
+
+  const total = image.data.length
+  const mean = histogram.reduce((sum, frequency, level) => sum + frequency * level, 0) / total
+  const clippedHighlights = histogram.slice(250).reduce((sum, frequency) => sum + frequency, 0) / total
+  const clippedShadows = histogram.slice(0, 6).reduce((sum, frequency) => sum + frequency, 0) / total
+
+  return { meanLuminance: mean / 255, clippedHighlights, clippedShadows }
+}
+
+/**
+ * Estimates noise sigma using Immerkaer's method restricted to flat regions.
+ * The image is split into 16x16 blocks; the fifth of blocks with the weakest gradients is treated as flat,
+ * so texture and edges are not mistaken for noise.
+ */
+const measureNoise = (image: LuminanceImage): number => {
+  const { width, height, data } = image
+  const blockSize = 16
+  const blocks: Array<{ gradient: number; response: number; count: number }> = []
+
+  for (let blockY = 1; blockY + blockSize < height; blockY += blockSize) {
+    for (let blockX = 1; blockX + blockSize < width; blockX += blockSize) {
+      let gradient = 0
+      let response = 0
+
+      for (let y = blockY; y < blockY + blockSize; y++) {
+        for (let x = blockX; x < blockX + blockSize; x++) {
+          const i = y * width + x
+          const [tl, t, tr, l, c, r, bl, b, br] = [
+            data[i - width - 1],
+            data[i - width],
+            data[i - width + 1],
+            data[i - 1],
+            data[i],
+            data[i + 1],
+            data[i + width - 1],
+            data[i + width],
+            data[i + width + 1]
+          ]
+
+          const gx = tr + 2 * r + br - tl - 2 * l - bl
+          const gy = bl + 2 * b + br - tl - 2 * t - tr
+          gradient += Math.abs(gx) + Math.abs(gy)
+          response += Math.abs(tl - 2 * t + tr - 2 * l + 4 * c - 2 * r + bl - 2 * b + br)
+        }
+      }
+
+      blocks.push({ gradient, response, count: blockSize * blockSize })
+    }
+  }
+
+  if (blocks.length === 0) return 0
+
+  const flatBlocks = blocks.sort((a, b) => a.gradient - b.gradient).slice(0, Math.max(1, Math.floor(blocks.length / 5)))
+  const totalResponse = flatBlocks.reduce((sum, block) => sum + block.response, 0)
+  const totalCount = flatBlocks.reduce((sum, block) => sum + block.count, 0)
+
+  return (Math.sqrt(Math.PI / 2) * totalResponse) / (6 * totalCount)
+}
 
 /**
  * Evaluates image blur using face detection and edge analysis.
@@ -10,7 +221,7 @@ import AnnotateImageResponse = google.cloud.vision.v1.AnnotateImageResponse
  * @param result - Annotation response from Google Vision API
  * @returns Blur score between 0 and 1 (1 = sharp, 0 = blurry)
  */
-export const evaluateBlur = (result: protos.google.cloud.vision.v1.IAnnotateImageResponse): number => {
+export const evaluateBlur = (result: GoogleAnnotateImageResponse): number => {
   const blurScores: number[] = []
 
   // Check face blur if faces are present
@@ -61,7 +272,7 @@ export const evaluateBlur = (result: protos.google.cloud.vision.v1.IAnnotateImag
  * @param result - Annotation response from Google Vision API
  * @returns Exposure score between 0 and 1
  */
-export const evaluateExposure = (result: protos.google.cloud.vision.v1.IAnnotateImageResponse): number => {
+export const evaluateExposure = (result: GoogleAnnotateImageResponse): number => {
   if (!result.imagePropertiesAnnotation?.dominantColors?.colors) return 0.5
 
   const { colors } = result.imagePropertiesAnnotation.dominantColors
@@ -88,7 +299,7 @@ export const evaluateExposure = (result: protos.google.cloud.vision.v1.IAnnotate
  * @param result - Annotation response from Google Vision API
  * @returns Noise score between 0 and 1 (1 = clean, 0 = noisy)
  */
-export const evaluateNoise = (result: protos.google.cloud.vision.v1.IAnnotateImageResponse): number => {
+export const evaluateNoise = (result: GoogleAnnotateImageResponse): number => {
   if (!result.imagePropertiesAnnotation?.dominantColors?.colors) return 0.5
 
   const { colors } = result.imagePropertiesAnnotation.dominantColors
@@ -122,19 +333,20 @@ export const evaluateNoise = (result: protos.google.cloud.vision.v1.IAnnotateIma
  * Evaluates composition using rule of thirds compliance, subject prominence,
  * and visual balance analysis.
  * @param result - Annotation response from Google Vision API
+ * @param dimensions - Displayed dimensions of the image, used to normalize subject positions
  * @returns Composition score between 0 and 1
  */
-export const evaluateComposition = (result: protos.google.cloud.vision.v1.IAnnotateImageResponse): number => {
+export const evaluateComposition = (result: GoogleAnnotateImageResponse, dimensions: ImageDimensions): number => {
   let compositionScore = 0
   let scoreComponents = 0
 
-  const thirdsScore = evaluateRuleOfThirds(result)
+  const thirdsScore = evaluateRuleOfThirds(result, dimensions)
   if (thirdsScore !== null) {
     compositionScore += thirdsScore * 0.4
     scoreComponents++
   }
 
-  const prominenceScore = evaluateSubjectProminence(result)
+  const prominenceScore = evaluateSubjectProminence(result, dimensions)
   if (prominenceScore !== null) {
     compositionScore += prominenceScore * 0.3
     scoreComponents++
@@ -153,13 +365,14 @@ export const evaluateComposition = (result: protos.google.cloud.vision.v1.IAnnot
  * Evaluates how well the image follows the rule of thirds.
  * Analyzes position of detected faces, landmarks, and objects.
  * @param result - Annotation response from Google Vision API
+ * @param dimensions - Displayed dimensions of the image
  * @returns Rule of thirds score between 0 and 1, or null if no subjects detected
  */
-const evaluateRuleOfThirds = (result: AnnotateImageResponse): number | null => {
+const evaluateRuleOfThirds = (result: GoogleAnnotateImageResponse, dimensions: ImageDimensions): number | null => {
   const subjects = [
-    ...(result.faceAnnotations || []).map(face => convertBoundingPoly(face.boundingPoly)),
-    ...(result.landmarkAnnotations || []).map(landmark => convertBoundingPoly(landmark.boundingPoly)),
-    ...(result.localizedObjectAnnotations || []).map(object => convertBoundingPoly(object.boundingPoly))
+    ...(result.faceAnnotations || []).map(face => convertBoundingPoly(face.boundingPoly, dimensions)),
+    ...(result.landmarkAnnotations || []).map(landmark => convertBoundingPoly(landmark.boundingPoly, dimensions)),
+    ...(result.localizedObjectAnnotations || []).map(object => convertBoundingPoly(object.boundingPoly, dimensions))
   ].filter((box): box is BoundingBox => box !== null)
 
   if (subjects.length === 0) return null
@@ -191,13 +404,14 @@ const evaluateRuleOfThirds = (result: AnnotateImageResponse): number | null => {
  * Evaluates how prominently subjects are positioned in the image.
  * Considers subject size and position relative to image center.
  * @param result - Annotation response from Google Vision API
+ * @param dimensions - Displayed dimensions of the image
  * @returns Prominence score between 0 and 1, or null if no subjects detected
  */
-const evaluateSubjectProminence = (result: AnnotateImageResponse): number | null => {
+const evaluateSubjectProminence = (result: GoogleAnnotateImageResponse, dimensions: ImageDimensions): number | null => {
   const subjects = [
-    ...(result.faceAnnotations || []).map(face => convertBoundingPoly(face.boundingPoly)),
-    ...(result.landmarkAnnotations || []).map(landmark => convertBoundingPoly(landmark.boundingPoly)),
-    ...(result.localizedObjectAnnotations || []).map(object => convertBoundingPoly(object.boundingPoly))
+    ...(result.faceAnnotations || []).map(face => convertBoundingPoly(face.boundingPoly, dimensions)),
+    ...(result.landmarkAnnotations || []).map(landmark => convertBoundingPoly(landmark.boundingPoly, dimensions)),
+    ...(result.localizedObjectAnnotations || []).map(object => convertBoundingPoly(object.boundingPoly, dimensions))
   ].filter((box): box is BoundingBox => box !== null)
 
   if (subjects.length === 0) return null
@@ -229,7 +443,7 @@ const evaluateSubjectProminence = (result: AnnotateImageResponse): number | null
  * @param result - Annotation response from Google Vision API
  * @returns Balance score between 0 and 1, or null if no color information
  */
-const evaluateVisualBalance = (result: AnnotateImageResponse): number | null => {
+const evaluateVisualBalance = (result: GoogleAnnotateImageResponse): number | null => {
   const dominantColors = result.imagePropertiesAnnotation?.dominantColors?.colors
   if (!dominantColors || dominantColors.length === 0) return null
 
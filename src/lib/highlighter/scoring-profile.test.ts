@@ -0,0 +1,85 @@
+import * as fs from 'node:fs/promises'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import {
+  DEFAULT_SCORING_PROFILE,
+  SCORING_PRESETS,
+  loadScoringProfile,
+  parseScoringProfile,
+  scoringProfileSchema
+} from '@/lib/highlighter/scoring-profile'
+
+describe('parseScoringProfile', () => {
+  it('ships valid presets', () => {
+    Object.values(SCORING_PRESETS).forEach(preset => expect(scoringProfileSchema.parse(preset)).toEqual(preset))
+    expect(SCORING_PRESETS.travel.similarity).toMatchObject({ timeWindowMinutes: 15, nearDuplicateHashDistance: 12 })
+  })
+
+  it('returns presets by name and rejects unknown names', () => {
+    expect(parseScoringProfile('family')).toBe(SCORING_PRESETS.family)
+    expect(parseScoringProfile({})).toEqual(DEFAULT_SCORING_PROFILE)
+    expect(() => parseScoringProfile('holiday')).toThrow(
+      'Unknown scoring profile "holiday"; presets are default, family, travel, events'
+    )
+    expect(() => parseScoringProfile({ extends: 'holiday' })).toThrow('Unknown scoring profile "holiday"')
+  })
+
+  it('completes a partial profile from the preset it extends', () => {
+    const profile = parseScoringProfile({ extends: 'travel', weights: { quality: 0.5 }, similarity: { weights: { labels: 0.6 } } })
+
+    expect(profile.name).toBe('travel (customized)')
+    expect(profile.weights).toEqual({ ...SCORING_PRESETS.travel.weights, quality: 0.5 })
+    expect(profile.similarity).toEqual({
+      ...SCORING_PRESETS.travel.similarity,
+      weights: { ...SCORING_PRESETS.travel.similarity.weights, labels: 0.6 }
+    })
+    expect(profile.interestingCategories).toBe(SCORING_PRESETS.travel.interestingCategories)
+  })
+
+  it('replaces interesting categories instead of merging them', () => {
+    const profile = parseScoringProfile({ name: 'birds', interestingCategories: { birds: ['bird', 'owl'] } })
+
+    expect(profile.name).toBe('birds')
+    expect(profile.interestingCategories).toEqual({ birds: ['bird', 'owl'] })
+  })
+
+  it('lists every invalid and unknown field', () => {
+    expect(() =>
+      parseScoringProfile({
+        weights: { quality: -1, beauty: 1 },
+        viewRecency: { maxPenalty: 2 },
+        similarity: { duplicateHashDistance: 3.5 }
+      })
+    ).toThrow(
+      /^Invalid scoring profile: weights\.quality: .+; weights: Unrecognized key\(s\) in object: 'beauty'; viewRecency\.maxPenalty: .+; similarity\.duplicateHashDistance: .+$/
+    )
+  })
+})
+
+describe('loadScoringProfile', () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'scoring-profile-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  it('reads a partial profile from a JSON file', async () => {
+    const filePath = path.join(directory, 'profile.json')
+    await fs.writeFile(filePath, JSON.stringify({ extends: 'events', events: { minGapMinutes: 10 } }))
+
+    const profile = await loadScoringProfile(filePath)
+
+    expect(profile.events).toEqual({ ...SCORING_PRESETS.events.events, minGapMinutes: 10 })
+  })
+
+  it('names the file when it is not JSON', async () => {
+    const filePath = path.join(directory, 'profile.json')
+    await fs.writeFile(filePath, '{ weights: ')
+
+    await expect(loadScoringProfile(filePath)).rejects.toThrow(`Invalid scoring profile ${filePath}:`)
+  })
+})
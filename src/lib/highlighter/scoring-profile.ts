@@ -0,0 +1,258 @@
+import * as fs from 'node:fs/promises'
+import type { ScoringProfile } from '@/lib/types'
+import { z } from 'zod'
+
+const weightSchema = z.number().min(0)
+const hashDistanceSchema = z.number().int().min(0).max(64)
+
+export const scoringProfileSchema = z
+  .object({
+    name: z.string().optional(),
+    weights: z
+      .object({
+        quality: weightSchema,
+        interest: weightSchema,
+        emotion: weightSchema,
+        uniqueness: weightSchema,
+        relevance: weightSchema,
+        temporal: weightSchema,
+        engagement: weightSchema
+      })
+      .strict(),
+    quality: z.object({ blur: weightSchema, exposure: weightSchema, noise: weightSchema, composition: weightSchema }).strict(),
+    interest: z.object({ faces: weightSchema, landmarks: weightSchema, labels: weightSchema, web: weightSchema }).strict(),
+    uniqueness: z.object({ labels: weightSchema, visual: weightSchema, composition: weightSchema }).strict(),
+    engagement: z.object({ views: weightSchema, shares: weightSchema, edited: weightSchema, favorite: weightSchema }).strict(),
+    viewRecency: z.object({ maxPenalty: z.number().min(0).max(1), halfLifeDays: z.number().positive() }).strict(),
+    interestingCategories: z.record(z.array(z.string().min(1)).min(1)),
+    similarity: z
+      .object({
+        timeWindowMinutes: z.number().positive(),
+        maxDistanceMeters: z.number().positive(),
+        duplicateHashDistance: hashDistanceSchema,
+        nearDuplicateHashDistance: hashDistanceSchema,
+        weights: z.object({ labels: weightSchema, webEntities: weightSchema, visualFeatures: weightSchema }).strict(),
+        threshold: z.number().min(0).max(1)
+      })
+      .strict(),
+    events: z
+      .object({
+        minGapMinutes: z.number().min(0),
+        maxGapHours: z.number().positive(),
+        gapFactor: z.number().min(1),
+        locationJumpKm: z.number().positive(),
+        labelShiftSimilarity: z.number().min(0).max(1)
+      })
+      .strict()
+  })
+  .strict()
+
+/**
+ * The tuning values the selector has always used.
+ */
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  name: 'default',
+  weights: {
+    quality: 0.25,
+    interest: 0.2,
+    emotion: 0.15,
+    uniqueness: 0.15,
+    relevance: 0.15,
+    temporal: 0.1,
+    engagement: 0.1
+  },
+  quality: {
+    blur: 0.35,
+    exposure: 0.25,
+    noise: 0.2,
+    composition: 0.2
+  },
+  interest: {
+    faces: 0.35,
+    landmarks: 0.25,
+    labels: 0.25,
+    web: 0.15
+  },
+  uniqueness: {
+    labels: 0.4,
+    visual: 0.4,
+    composition: 0.2
+  },
+  engagement: {
+    views: 0.15,
+    shares: 0.3,
+    edited: 0.2,
+    favorite: 0.35
+  },
+  viewRecency: {
+    maxPenalty: 0.3,
+    halfLifeDays: 30
+  },
+  interestingCategories: {
+    events: ['wedding', 'party', 'celebration', 'ceremony', 'festival'],
+    activities: ['sport', 'dance', 'performance', 'game', 'adventure'],
+    nature: ['sunset', 'beach', 'mountain', 'landscape', 'wildlife'],
+    emotions: ['smile', 'happy', 'joy', 'laugh', 'excited'],
+    landmarks: ['monument', 'building', 'architecture', 'statue', 'tower']
+  },
+  similarity: {
+    timeWindowMinutes: 5,
+    maxDistanceMeters: 100,
+    duplicateHashDistance: 6,
+    nearDuplicateHashDistance: 12,
+    weights: {
+      labels: 0.4,
+      webEntities: 0.3,
+      visualFeatures: 0.3
+    },
+    threshold: 0.8
+  },
+  events: {
+    minGapMinutes: 60,
+    maxGapHours: 24,
+    gapFactor: 8,
+    locationJumpKm: 50,
+    labelShiftSimilarity: 0.1
+  }
+}
+
+/**
+ * Any subset of a profile, e.g. from a JSON file. `extends` names the preset to start from (default "default").
+ */
+export type PartialScoringProfile = z.input<typeof partialScoringProfileSchema>
+
+const partialScoringProfileSchema = scoringProfileSchema
+  .extend({
+    weights: scoringProfileSchema.shape.weights.partial(),
+    quality: scoringProfileSchema.shape.quality.partial(),
+    interest: scoringProfileSchema.shape.interest.partial(),
+    uniqueness: scoringProfileSchema.shape.uniqueness.partial(),
+    engagement: scoringProfileSchema.shape.engagement.partial(),
+    viewRecency: scoringProfileSchema.shape.viewRecency.partial(),
+    events: scoringProfileSchema.shape.events.partial(),
+    similarity: scoringProfileSchema.shape.similarity
+      .extend({ weights: scoringProfileSchema.shape.similarity.shape.weights.partial() })
+      .partial()
+  })
+  .partial()
+  .extend({ extends: z.string().optional() })
+
+/**
+ * Applies a partial profile on top of a complete one. Nested groups are merged key by key, except
+ * `interestingCategories`, which replaces the base categories when given.
+ */
+export const mergeScoringProfiles = (base: ScoringProfile, override: Omit<PartialScoringProfile, 'extends'>): ScoringProfile => ({
+  ...base,
+  ...override,
+  weights: { ...base.weights, ...override.weights },
+  quality: { ...base.quality, ...override.quality },
+  interest: { ...base.interest, ...override.interest },
+  uniqueness: { ...base.uniqueness, ...override.uniqueness },
+  engagement: { ...base.engagement, ...override.engagement },
+  viewRecency: { ...base.viewRecency, ...override.viewRecency },
+  interestingCategories: override.interestingCategories || base.interestingCategories,
+  events: { ...base.events, ...override.events },
+  similarity: {
+    ...base.similarity,
+    ...override.similarity,
+    weights: { ...base.similarity.weights, ...override.similarity?.weights }
+  }
+})
+
+// Shipped presets, named by the situation they're tuned for
+export const SCORING_PRESETS: Record<string, ScoringProfile> = {
+  default: DEFAULT_SCORING_PROFILE,
+  // People first: faces and emotions outweigh scenery
+  family: mergeScoringProfiles(DEFAULT_SCORING_PROFILE, {
+    name: 'family',
+    weights: { quality: 0.2, interest: 0.2, emotion: 0.3, uniqueness: 0.1, relevance: 0.1, temporal: 0.1 },
+    interest: { faces: 0.6, landmarks: 0.1, labels: 0.2, web: 0.1 },
+    interestingCategories: {
+      occasions: ['birthday', 'wedding', 'party', 'celebration', 'holiday', 'christmas'],
+      people: ['smile', 'happy', 'joy', 'laugh', 'child', 'baby', 'family', 'hug'],
+      play: ['play', 'game', 'toy', 'fun', 'playground'],
+      pets: ['dog', 'cat', 'pet', 'puppy', 'kitten']
+    }
+  }),
+  // Places first: landmarks, scenery and variety across locations
+  travel: mergeScoringProfiles(DEFAULT_SCORING_PROFILE, {
+    name: 'travel',
+    weights: { quality: 0.3, interest: 0.25, emotion: 0.05, uniqueness: 0.2, relevance: 0.1, temporal: 0.1 },
+    interest: { faces: 0.15, landmarks: 0.45, labels: 0.3, web: 0.1 },
+    interestingCategories: {
+      nature: ['sunset', 'sunrise', 'beach', 'mountain', 'landscape', 'wildlife', 'forest', 'waterfall'],
+      water: ['sea', 'ocean', 'lake', 'river', 'coast', 'island'],
+      landmarks: ['monument', 'building', 'architecture', 'statue', 'tower', 'castle', 'temple', 'bridge'],
+      city: ['city', 'street', 'skyline', 'market', 'town'],
+      food: ['food', 'dish', 'cuisine', 'restaurant']
+    },
+    // Sights are photographed from many spots over a longer visit
+    similarity: { timeWindowMinutes: 15, maxDistanceMeters: 250 },
+    // Moving on to the next town is a new event
+    events: { locationJumpKm: 20 }
+  }),
+  // Moments first: expressions and activity at parties, weddings and concerts
+  events: mergeScoringProfiles(DEFAULT_SCORING_PROFILE, {
+    name: 'events',
+    weights: { quality: 0.2, interest: 0.25, emotion: 0.25, uniqueness: 0.15, relevance: 0.1, temporal: 0.05 },
+    interest: { faces: 0.45, landmarks: 0.05, labels: 0.35, web: 0.15 },
+    interestingCategories: {
+      events: ['wedding', 'party', 'celebration', 'ceremony', 'festival', 'concert', 'birthday', 'graduation'],
+      activities: ['dance', 'performance', 'stage', 'crowd', 'sport', 'music'],
+      emotions: ['smile', 'happy', 'joy', 'laugh', 'excited', 'fun']
+    },
+    // Events produce many photos in a short time; a tighter window keeps distinct moments apart
+    similarity: { timeWindowMinutes: 2 },
+    // Ceremony, dinner and dancing are separate moments, with shorter pauses in between
+    events: { minGapMinutes: 20, gapFactor: 5 }
+  })
+}
+
+/**
+ * Validates a profile, e.g. from a config file or request body, completing it from the preset it extends.
+ * @param input - Preset name, or any subset of a profile
+ * @param presets - Presets that can be named or extended
+ * @returns Complete, validated profile
+ * @throws Error listing every invalid field or naming the unknown preset
+ */
+export const parseScoringProfile = (input: unknown, presets: Record<string, ScoringProfile> = SCORING_PRESETS): ScoringProfile => {
+  const getPreset = (name: string) => {
+    const preset = Object.keys(presets).includes(name) ? presets[name] : undefined
+    if (!preset) throw new Error(`Unknown scoring profile "${name}"; presets are ${Object.keys(presets).join(', ')}`)
+    return preset
+  }
+
+  if (typeof input === 'string') return getPreset(input)
+
+  const result = partialScoringProfileSchema.safeParse(input)
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || 'profile'}: ${issue.message}`)
+    throw new Error(`Invalid scoring profile: ${issues.join('; ')}`)
+  }
+
+  const { extends: baseName = 'default', ...override } = result.data
+  const base = getPreset(baseName)
+  // A customized preset is no longer the preset itself
+  const name = override.name ?? (Object.keys(override).length > 0 ? `${base.name} (customized)` : base.name)
+  return mergeScoringProfiles(base, { ...override, name })
+}
+
+/**
+ * Reads a profile from a JSON file.
+ * @param filePath - Path of a JSON file holding any subset of a profile
+ * @param presets - Presets that can be extended
+ * @returns Complete, validated profile
+ */
+export const loadScoringProfile = async (
+  filePath: string,
+  presets: Record<string, ScoringProfile> = SCORING_PRESETS
+): Promise<ScoringProfile> => {
+  const contents = await fs.readFile(filePath, 'utf8')
+  let json: unknown
+  try {
+    json = JSON.parse(contents)
+  } catch (error) {
+    throw new Error(`Invalid scoring profile ${filePath}: ${error.message}`)
+  }
+  return parseScoringProfile(json, presets)
+}
@@ -0,0 +1,41 @@
+import { convertBoundingPoly } from '@/lib/highlighter/vision-api'
+
+const DIMENSIONS = { width: 400, height: 200 }
+
+describe('convertBoundingPoly', () => {
+  it('normalizes pixel vertices by the image dimensions', () => {
+    const box = convertBoundingPoly(
+      {
+        vertices: [
+          { x: 100, y: 50 },
+          { x: 300, y: 50 },
+          { x: 300, y: 150 },
+          { x: 100, y: 150 }
+        ]
+      },
+      DIMENSIONS
+    )
+
+    expect(box).toEqual({ left: 0.25, top: 0.25, width: 0.5, height: 0.5 })
+  })
+
+  it('prefers normalized vertices and clamps them to the image', () => {
+    const box = convertBoundingPoly(
+      {
+        normalizedVertices: [
+          { x: -0.1, y: 0.5 },
+          { x: 0.5, y: 0.5 },
+          { x: 0.5, y: 1.2 },
+          { x: -0.1, y: 1.2 }
+        ]
+      },
+      DIMENSIONS
+    )
+
+    expect(box).toEqual({ left: 0, top: 0.5, width: 0.5, height: 0.5 })
+  })
+
+  it('returns an empty box for incomplete polygons', () => {
+    expect(convertBoundingPoly({ vertices: [{ x: 1, y: 1 }] }, DIMENSIONS)).toEqual({ left: 0, top: 0, width: 0, height: 0 })
+  })
+})
@@ -1,21 +1,45 @@
-import type { BoundingBox } from '@/lib/types'
+import type { BoundingBox, GoogleAnnotateImageResponse, GoogleFeature, ImageDimensions } from '@/lib/types'
 import type { protos } from '@google-cloud/vision'
 
+type Likelihood = protos.google.cloud.vision.v1.Likelihood | keyof typeof protos.google.cloud.vision.v1.Likelihood
+
+/**
+ * Vision features requested for every analyzed photo.
+ */
+export const ANALYSIS_FEATURES: GoogleFeature[] = [
+  { type: 'FACE_DETECTION', maxResults: 50 },
+  { type: 'LABEL_DETECTION', maxResults: 50 },
+  { type: 'LANDMARK_DETECTION', maxResults: 20 },
+  { type: 'IMAGE_PROPERTIES' },
+  { type: 'WEB_DETECTION' },
+  { type: 'SAFE_SEARCH_DETECTION' }
+]
+
 /**
  * Converts Google Vision API bounding polygon to standardized bounding box format.
+ * Pixel vertices are normalized by the image dimensions; normalized vertices are used as-is.
  * @param poly - Bounding polygon from Google Vision API
- * @returns Standardized bounding box
+ * @param dimensions - Displayed dimensions of the image the polygon belongs to
+ * @returns Standardized bounding box with coordinates between 0 and 1
  */
-export const convertBoundingPoly = (poly: protos.google.cloud.vision.v1.IBoundingPoly | null | undefined): BoundingBox => {
-  if (!poly || !poly.vertices || poly.vertices.length < 4) {
+export const convertBoundingPoly = (
+  poly: protos.google.cloud.vision.v1.IBoundingPoly | null | undefined,
+  dimensions: ImageDimensions
+): BoundingBox => {
+  const normalized = poly?.normalizedVertices && poly.normalizedVertices.length >= 4
+  const vertices = normalized
+    ? poly.normalizedVertices!.map(v => ({ x: v.x || 0, y: v.y || 0 }))
+    : (poly?.vertices || []).map(v => ({ x: (v.x || 0) / dimensions.width, y: (v.y || 0) / dimensions.height }))
+
+  if (vertices.length < 4) {
     return { left: 0, top: 0, width: 0, height: 0 }
   }
 
-  const vertices = poly.vertices
-  const left = Math.min(...vertices.map(v => v.x || 0))
-  const top = Math.min(...vertices.map(v => v.y || 0))
-  const right = Math.max(...vertices.map(v => v.x || 0))
-  const bottom = Math.max(...vertices.map(v => v.y || 0))
+  const clamp = (value: number) => Math.max(0, Math.min(1, value))
+  const left = clamp(Math.min(...vertices.map(v => v.x)))
+  const top = clamp(Math.min(...vertices.map(v => v.y)))
+  const right = clamp(Math.max(...vertices.map(v => v.x)))
+  const bottom = clamp(Math.max(...vertices.map(v => v.y)))
 
   return {
     left,
@@ -25,13 +49,31 @@ export const convertBoundingPoly = (poly: protos.google.cloud.vision.v1.IBoundin
   }
 }
 
+/**
+ * Estimates image dimensions from the furthest pixel vertex in an annotation response.
+ * Only used when the image headers can't be read, so boxes still land roughly within 0-1.
+ * @param result - Annotation response from Google Vision API
+ * @returns Estimated dimensions, at least 1x1
+ */
+export const estimateDimensionsFromResponse = (result: GoogleAnnotateImageResponse): ImageDimensions => {
+  const vertices = [
+    ...(result.faceAnnotations || []).flatMap(face => face.boundingPoly?.vertices || []),
+    ...(result.landmarkAnnotations || []).flatMap(landmark => landmark.boundingPoly?.vertices || [])
+  ]
+
+  return {
+    width: Math.max(1, ...vertices.map(v => v.x || 0)),
+    height: Math.max(1, ...vertices.map(v => v.y || 0))
+  }
+}
+
 /**
  * Converts Google Vision API likelihood enum to numeric score.
  * @param likelihood - Likelihood enum from Google Vision API
  * @returns Numeric score between 0 and 1
  */
-export const convertLikelihood = (likelihood: protos.google.cloud.vision.v1.Likelihood | null | undefined): number => {
-  const likelihoodMap = {
+export const convertLikelihood = (likelihood: Likelihood | null | undefined): number => {
+  const likelihoodMap: Record<string, number> = {
     UNKNOWN: 0,
     VERY_UNLIKELY: 0,
     UNLIKELY: 0.25,
@@ -0,0 +1,141 @@
+import * as jpeg from 'jpeg-js'
+import { PNG } from 'pngjs'
+
+export interface DecodedImage {
+  width: number
+  height: number
+  // RGBA pixels, 4 bytes per pixel
+  data: Uint8Array
+}
+
+export interface LuminanceImage {
+  width: number
+  height: number
+  // Luminance per pixel on a 0-255 scale
+  data: Float32Array
+}
+
+const isJpeg = (buffer: Buffer): boolean => buffer.length > 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff
+
+const isPng = (buffer: Buffer): boolean =>
+  buffer.length > 8 && buffer.readUInt32BE(0) === 0x89504e47 && buffer.readUInt32BE(4) === 0x0d0a1a0a
+
+/**
+ * Decodes JPEG or PNG bytes into RGBA pixels.
+ * @param buffer - Encoded image bytes
+ * @returns Decoded image, or null when the format is unsupported or the data is corrupt
+ */
+export const decodeImage = (buffer: Buffer): DecodedImage | null => {
+  try {
+    if (isJpeg(buffer)) {
+      const image = jpeg.decode(buffer, { useTArray: true, formatAsRGBA: true, maxMemoryUsageInMB: 1024 })
+      return { width: image.width, height: image.height, data: image.data }
+    }
+
+    if (isPng(buffer)) {
+      const image = PNG.sync.read(buffer)
+      return { width: image.width, height: image.height, data: image.data }
+    }
+  } catch (error) {
+    console.warn('Failed to decode image:', error.message)
+  }
+
+  return null
+}
+
+/**
+ * Converts an RGBA image to luminance, downscaling by box averaging so the longest side is at most `maxDimension`.
+ * Downscaling keeps pixel metrics comparable across resolutions and bounds their cost.
+ * @param image - Decoded RGBA image
+ * @param maxDimension - Maximum width or height of the result
+ * @returns Luminance image using Rec. 601 weights
+ */
+export const toLuminance = (image: DecodedImage, maxDimension = 1024): LuminanceImage => {
+  const scale = Math.max(1, Math.ceil(Math.max(image.width, image.height) / maxDimension))
+  const width = Math.floor(image.width / scale)
+  const height = Math.floor(image.height / scale)
+  const data = new Float32Array(width * height)
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0
+      for (let dy = 0; dy < scale; dy++) {
+        for (let dx = 0; dx < scale; dx++) {
+          const offset = ((y * scale + dy) * image.width + (x * scale + dx)) * 4
+          sum += 0.299 * image.data[offset] + 0.587 * image.data[offset + 1] + 0.114 * image.data[offset + 2]
+        }
+      }
+      data[y * width + x] = sum / (scale * scale)
+    }
+  }
+
+  return { width, height, data }
+}
+
+/**
+ * Resizes a luminance image to an exact size by averaging the source pixels covered by each target pixel.
+ * @param image - Source luminance image
+ * @param width - Target width
+ * @param height - Target height
+ * @returns Resized luminance image
+ */
+export const resizeLuminance = (image: LuminanceImage, width: number, height: number): LuminanceImage => {
+  const data = new Float32Array(width * height)
+
+  for (let y = 0; y < height; y++) {
+    const top = Math.floor((y * image.height) / height)
+    const bottom = Math.max(top + 1, Math.floor(((y + 1) * image.height) / height))
+
+    for (let x = 0; x < width; x++) {
+      const left = Math.floor((x * image.width) / width)
+      const right = Math.max(left + 1, Math.floor(((x + 1) * image.width) / width))
+
+      let sum = 0
+      for (let sy = top; sy < bottom; sy++) {
+        for (let sx = left; sx < right; sx++) {
+          sum += image.data[sy * image.width + sx]
+        }
+      }
+      data[y * width + x] = sum / ((bottom - top) * (right - left))
+    }
+  }
+
+  return { width, height, data }
+}
+
+/**
+ * Turns a luminance image the way its EXIF orientation says it's displayed, so rotated and mirrored copies of a
+ * photo look the same to perceptual hashes.
+ * @param image - Luminance image as stored
+ * @param orientation - EXIF orientation (1-8); anything else leaves the image as it is
+ * @returns Luminance image as displayed
+ */
+export const orientLuminance = (image: LuminanceImage, orientation: number | undefined): LuminanceImage => {
+  if (!orientation || orientation <= 1 || orientation > 8) return image
+
+  const { width, height } = image
+  // Orientations 5-8 swap the axes
+  const transposed = orientation >= 5
+  const targetWidth = transposed ? height : width
+  const targetHeight = transposed ? width : height
+  // Position in the stored image of each displayed pixel
+  const source: Record<number, (x: number, y: number) => [number, number]> = {
+    2: (x, y) => [width - 1 - x, y],
+    3: (x, y) => [width - 1 - x, height - 1 - y],
+    4: (x, y) => [x, height - 1 - y],
+    5: (x, y) => [y, x],
+    6: (x, y) => [y, height - 1 - x],
+    7: (x, y) => [width - 1 - y, height - 1 - x],
+    8: (x, y) => [width - 1 - y, x]
+  }
+
+  const data = new Float32Array(targetWidth * targetHeight)
+  for (let y = 0; y < targetHeight; y++) {
+    for (let x = 0; x < targetWidth; x++) {
+      const [sourceX, sourceY] = source[orientation](x, y)
+      data[y * targetWidth + x] = image.data[sourceY * width + sourceX]
+    }
+  }
+
+  return { width: targetWidth, height: targetHeight, data }
+}
@@ -0,0 +1,29 @@
+import { readImageDimensions } from '@/lib/image/dimensions'
+import { createJpegImage, createPngImage } from '@/test/fixtures'
+
+describe('readImageDimensions', () => {
+  it('reads the size of a PNG', () => {
+    expect(readImageDimensions(createPngImage(12, 7))).toEqual({ width: 12, height: 7, orientation: 1 })
+  })
+
+  it('reads the size of a JPEG', () => {
+    expect(readImageDimensions(createJpegImage(24, 16))).toEqual({ width: 24, height: 16, orientation: 1 })
+  })
+
+  it('swaps width and height of JPEGs displayed rotated by 90 degrees', () => {
+    const image = createJpegImage(24, 16, undefined, { ifd0: { 274: 6 } })
+
+    expect(readImageDimensions(image)).toEqual({ width: 16, height: 24, orientation: 6 })
+  })
+
+  it('keeps width and height of JPEGs displayed upside down', () => {
+    const image = createJpegImage(24, 16, undefined, { ifd0: { 274: 3 } })
+
+    expect(readImageDimensions(image)).toEqual({ width: 24, height: 16, orientation: 3 })
+  })
+
+  it('rejects unsupported and truncated images', () => {
+    expect(readImageDimensions(Buffer.from('GIF89a'))).toBeNull()
+    expect(readImageDimensions(createJpegImage(24, 16).subarray(0, 20))).toBeNull()
+  })
+})
@@ -0,0 +1,55 @@
+import { readExifOrientation } from '@/lib/image/exif'
+import type { ImageDimensions } from '@/lib/types'
+
+/**
+ * Reads the stored pixel size from JPEG SOF or PNG IHDR headers without decoding the image.
+ */
+const readStoredSize = (buffer: Buffer): { width: number; height: number } | null => {
+  if (buffer.length > 24 && buffer.readUInt32BE(0) === 0x89504e47 && buffer.toString('latin1', 12, 16) === 'IHDR') {
+    return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) }
+  }
+
+  if (buffer.length > 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    let offset = 2
+    while (offset + 9 <= buffer.length) {
+      if (buffer[offset] !== 0xff) return null
+
+      const marker = buffer[offset + 1]
+      // Fill bytes may precede a marker
+      if (marker === 0xff) {
+        offset++
+        continue
+      }
+
+      // SOF0-SOF15 hold the frame size; C4 (DHT), C8 (JPG) and CC (DAC) share the range but aren't frames
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { height: buffer.readUInt16BE(offset + 5), width: buffer.readUInt16BE(offset + 7) }
+      }
+
+      if (marker === 0xda || marker === 0xd9) return null
+      offset += 2 + buffer.readUInt16BE(offset + 2)
+    }
+  }
+
+  return null
+}
+
+/**
+ * Reads image dimensions from JPEG or PNG headers, honoring EXIF orientation.
+ * Orientations 5-8 rotate the image by 90 degrees, so width and height are swapped to match how it's displayed.
+ * @param buffer - Encoded image bytes
+ * @returns Displayed dimensions, or null for unsupported or truncated images
+ */
+export const readImageDimensions = (buffer: Buffer): ImageDimensions | null => {
+  const size = readStoredSize(buffer)
+  if (!size || size.width === 0 || size.height === 0) return null
+
+  const orientation = readExifOrientation(buffer) || 1
+  const rotated = orientation >= 5
+
+  return {
+    width: rotated ? size.height : size.width,
+    height: rotated ? size.width : size.height,
+    orientation
+  }
+}
@@ -0,0 +1,109 @@
+import { EXIF_TAGS, GPS_TAGS, readExif, readExifOrientation } from '@/lib/image/exif'
+import { applyExifMetadata } from '@/lib/image/photo-metadata'
+import { createJpegImage, createPhoto } from '@/test/fixtures'
+
+const withExif = (exif: Parameters<typeof createJpegImage>[3]) => createJpegImage(8, 8, undefined, exif)
+
+describe('readExif', () => {
+  it('returns null for images without EXIF', () => {
+    expect(readExif(createJpegImage(8, 8))).toBeNull()
+  })
+
+  it('reads the capture time with its UTC offset', () => {
+    const exif = readExif(
+      withExif({
+        exif: {
+          [EXIF_TAGS.dateTimeOriginal]: '2024:07:14 18:30:05',
+          [EXIF_TAGS.subSecTimeOriginal]: '25',
+          [EXIF_TAGS.offsetTimeOriginal]: '+02:00'
+        }
+      })
+    )
+
+    expect(exif?.dateTimeOriginal?.toISOString()).toBe('2024-07-14T16:30:05.250Z')
+    expect(exif?.hasTimeZone).toBe(true)
+  })
+
+  it('anchors capture times without an offset to the GPS timestamp', () => {
+    const exif = readExif(
+      withExif({
+        exif: { [EXIF_TAGS.dateTimeOriginal]: '2024:07:14 18:30:05' },
+        gps: { [GPS_TAGS.dateStamp]: '2024:07:14', [GPS_TAGS.timeStamp]: [16, 30, 5] }
+      })
+    )
+
+    expect(exif?.dateTimeOriginal?.toISOString()).toBe('2024-07-14T16:30:05.000Z')
+    expect(exif?.hasTimeZone).toBe(true)
+  })
+
+  it('reads capture times without any time zone as local time', () => {
+    const exif = readExif(withExif({ exif: { [EXIF_TAGS.dateTimeOriginal]: '2024:07:14 18:30:05' } }))
+
+    expect(exif?.dateTimeOriginal).toEqual(new Date(2024, 6, 14, 18, 30, 5))
+    expect(exif?.hasTimeZone).toBe(false)
+  })
+
+  it('reads GPS positions south and west of the origin as negative', () => {
+    const exif = readExif(
+      withExif({
+        gps: {
+          [GPS_TAGS.latitudeRef]: 'S',
+          [GPS_TAGS.latitude]: [33, 51, 54],
+          [GPS_TAGS.longitudeRef]: 'W',
+          [GPS_TAGS.longitude]: [70, 40, 12],
+          [GPS_TAGS.altitude]: [520]
+        }
+      })
+    )
+
+    expect(exif?.location?.latitude).toBeCloseTo(-33.865, 3)
+    expect(exif?.location?.longitude).toBeCloseTo(-70.67, 3)
+    expect(exif?.location?.altitude).toBe(520)
+  })
+
+  it('ignores positions at 0,0 written by cameras without a fix', () => {
+    const exif = readExif(withExif({ gps: { [GPS_TAGS.latitude]: [0, 0, 0], [GPS_TAGS.longitude]: [0, 0, 0] } }))
+
+    expect(exif?.location).toBeUndefined()
+  })
+
+  it('reads the orientation and camera settings', () => {
+    const image = withExif({
+      ifd0: { [EXIF_TAGS.make]: 'Canon', [EXIF_TAGS.model]: 'EOS R6', [EXIF_TAGS.orientation]: 8 },
+      exif: { [EXIF_TAGS.iso]: 400, [EXIF_TAGS.focalLength]: [35], [EXIF_TAGS.exposureTime]: [0.004] }
+    })
+
+    expect(readExifOrientation(image)).toBe(8)
+    expect(readExif(image)).toMatchObject({
+      orientation: 8,
+      camera: { make: 'Canon', model: 'EOS R6', iso: 400, focalLength: 35, exposureTime: 0.004 }
+    })
+  })
+})
+
+describe('applyExifMetadata', () => {
+  it('prefers EXIF over the metadata of the source', () => {
+    const photo = createPhoto(
+      'exif',
+      withExif({
+        ifd0: { [EXIF_TAGS.model]: 'Pixel 8' },
+        exif: { [EXIF_TAGS.dateTimeOriginal]: '2024:07:14 18:30:05', [EXIF_TAGS.offsetTimeOriginal]: '+00:00' },
+        gps: { [GPS_TAGS.latitude]: [48, 51, 0], [GPS_TAGS.longitude]: [2, 21, 0] }
+      }),
+      { metadata: { title: 'Paris', location: { latitude: 1, longitude: 1 }, camera: { make: 'Google' } } }
+    )
+
+    const { dateTime, metadata } = applyExifMetadata(photo)
+
+    expect(dateTime.toISOString()).toBe('2024-07-14T18:30:05.000Z')
+    expect(metadata.title).toBe('Paris')
+    expect(metadata.location?.latitude).toBeCloseTo(48.85, 2)
+    expect(metadata.camera).toEqual({ make: 'Google', model: 'Pixel 8' })
+  })
+
+  it('keeps the source metadata of images without EXIF', () => {
+    const photo = createPhoto('plain', createJpegImage(8, 8), { metadata: { location: { latitude: 1, longitude: 2 } } })
+
+    expect(applyExifMetadata(photo)).toBe(photo)
+  })
+})
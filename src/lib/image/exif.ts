@@ -0,0 +1,371 @@
+/**
+ * Minimal EXIF reader working directly on JPEG and PNG bytes.
+ */
+
+import type { ExifData } from '@/lib/types'
+
+type IfdValue = number | number[] | string
+
+interface IfdEntry {
+  tag: number
+  type: number
+  count: number
+  // Offset of the value (or of the inline value) relative to the start of the TIFF header
+  valueOffset: number
+}
+
+interface TiffReader {
+  data: Buffer
+  littleEndian: boolean
+}
+
+// Byte sizes of the TIFF field types we understand
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, // BYTE
+  2: 1, // ASCII
+  3: 2, // SHORT
+  4: 4, // LONG
+  5: 8, // RATIONAL
+  7: 1, // UNDEFINED
+  9: 4, // SLONG
+  10: 8 // SRATIONAL
+}
+
+export const EXIF_TAGS = {
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  exifIfdPointer: 0x8769,
+  gpsIfdPointer: 0x8825,
+  exposureTime: 0x829a,
+  iso: 0x8827,
+  dateTimeOriginal: 0x9003,
+  offsetTimeOriginal: 0x9011,
+  focalLength: 0x920a,
+  makerNote: 0x927c,
+  subSecTimeOriginal: 0x9291
+} as const
+
+// Tag holding the burst identifier inside Apple's maker note
+const APPLE_BURST_UUID_TAG = 0x000b
+
+export const GPS_TAGS = {
+  latitudeRef: 0x0001,
+  latitude: 0x0002,
+  longitudeRef: 0x0003,
+  longitude: 0x0004,
+  altitudeRef: 0x0005,
+  altitude: 0x0006,
+  timeStamp: 0x0007,
+  dateStamp: 0x001d
+} as const
+
+/**
+ * Locates the TIFF-formatted EXIF block inside a JPEG (APP1 segment) or PNG (eXIf chunk).
+ * @param buffer - Encoded image bytes
+ * @returns Buffer starting at the TIFF header, or null when the image carries no EXIF
+ */
+export const findExifBlock = (buffer: Buffer): Buffer | null => {
+  if (buffer.length > 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    let offset = 2
+    while (offset + 4 <= buffer.length && buffer[offset] === 0xff) {
+      const marker = buffer[offset + 1]
+      // Start of scan: no more metadata segments follow
+      if (marker === 0xda || marker === 0xd9) break
+
+      const length = buffer.readUInt16BE(offset + 2)
+      if (marker === 0xe1 && buffer.toString('latin1', offset + 4, offset + 10) === 'Exif\0\0') {
+        return buffer.subarray(offset + 10, offset + 2 + length)
+      }
+      offset += 2 + length
+    }
+    return null
+  }
+
+  if (buffer.length > 8 && buffer.readUInt32BE(0) === 0x89504e47) {
+    let offset = 8
+    while (offset + 8 <= buffer.length) {
+      const length = buffer.readUInt32BE(offset)
+      const type = buffer.toString('latin1', offset + 4, offset + 8)
+      if (type === 'eXIf') return buffer.subarray(offset + 8, offset + 8 + length)
+      if (type === 'IDAT' || type === 'IEND') break
+      offset += 12 + length
+    }
+  }
+
+  return null
+}
+
+/**
+ * Creates a reader for a TIFF block, validating its byte-order header.
+ */
+export const createTiffReader = (data: Buffer): TiffReader | null => {
+  if (data.length < 8) return null
+
+  const byteOrder = data.toString('latin1', 0, 2)
+  if (byteOrder !== 'II' && byteOrder !== 'MM') return null
+
+  return { data, littleEndian: byteOrder === 'II' }
+}
+
+const readUInt16 = (reader: TiffReader, offset: number): number =>
+  reader.littleEndian ? reader.data.readUInt16LE(offset) : reader.data.readUInt16BE(offset)
+
+const readUInt32 = (reader: TiffReader, offset: number): number =>
+  reader.littleEndian ? reader.data.readUInt32LE(offset) : reader.data.readUInt32BE(offset)
+
+const readInt32 = (reader: TiffReader, offset: number): number =>
+  reader.littleEndian ? reader.data.readInt32LE(offset) : reader.data.readInt32BE(offset)
+
+/**
+ * Offset of the first IFD, read from the TIFF header.
+ */
+export const getFirstIfdOffset = (reader: TiffReader): number => readUInt32(reader, 4)
+
+/**
+ * Reads the entries of an image file directory.
+ * @param reader - TIFF reader
+ * @param offset - Offset of the IFD relative to the TIFF header
+ * @returns Entries keyed by tag, empty when the IFD lies outside the block
+ */
+export const readIfd = (reader: TiffReader, offset: number): Map<number, IfdEntry> => {
+  const entries = new Map<number, IfdEntry>()
+  if (offset <= 0 || offset + 2 > reader.data.length) return entries
+
+  const count = readUInt16(reader, offset)
+  for (let index = 0; index < count; index++) {
+    const entryOffset = offset + 2 + index * 12
+    if (entryOffset + 12 > reader.data.length) break
+
+    const tag = readUInt16(reader, entryOffset)
+    const type = readUInt16(reader, entryOffset + 2)
+    const valueCount = readUInt32(reader, entryOffset + 4)
+    const size = (TYPE_SIZES[type] || 0) * valueCount
+
+    entries.set(tag, {
+      tag,
+      type,
+      count: valueCount,
+      // Values of four bytes or fewer are stored inline in the entry
+      valueOffset: size <= 4 ? entryOffset + 8 : readUInt32(reader, entryOffset + 8)
+    })
+  }
+
+  return entries
+}
+
+/**
+ * Decodes the value of an IFD entry.
+ * Rationals are returned as decimals, ASCII as a trimmed string, and multi-valued entries as arrays.
+ * @param reader - TIFF reader
+ * @param entry - Entry to decode
+ * @returns Decoded value, or undefined if it's malformed or of an unsupported type
+ */
+export const readIfdValue = (reader: TiffReader, entry: IfdEntry | undefined): IfdValue | undefined => {
+  if (!entry) return undefined
+
+  const size = TYPE_SIZES[entry.type]
+  if (!size || entry.valueOffset + size * entry.count > reader.data.length) return undefined
+
+  if (entry.type === 2) {
+    return reader.data
+      .toString('latin1', entry.valueOffset, entry.valueOffset + entry.count)
+      .replace(/\0+$/, '')
+      .trim()
+  }
+
+  const values: number[] = []
+  for (let index = 0; index < entry.count; index++) {
+    const offset = entry.valueOffset + index * size
+    switch (entry.type) {
+      case 1:
+      case 7:
+        values.push(reader.data[offset])
+        break
+      case 3:
+        values.push(readUInt16(reader, offset))
+        break
+      case 4:
+        values.push(readUInt32(reader, offset))
+        break
+      case 9:
+        values.push(readInt32(reader, offset))
+        break
+      case 5:
+      case 10: {
+        const read = entry.type === 5 ? readUInt32 : readInt32
+        const denominator = read(reader, offset + 4)
+        values.push(denominator === 0 ? 0 : read(reader, offset) / denominator)
+        break
+      }
+    }
+  }
+
+  return values.length === 1 ? values[0] : values
+}
+
+/**
+ * Reads the EXIF orientation (1-8) of a JPEG or PNG image.
+ * @param buffer - Encoded image bytes
+ * @returns Orientation value, or undefined when the image has none
+ */
+export const readExifOrientation = (buffer: Buffer): number | undefined => {
+  const block = findExifBlock(buffer)
+  const reader = block && createTiffReader(block)
+  if (!reader) return undefined
+
+  const orientation = readIfdValue(reader, readIfd(reader, getFirstIfdOffset(reader)).get(EXIF_TAGS.orientation))
+  return typeof orientation === 'number' && orientation >= 1 && orientation <= 8 ? orientation : undefined
+}
+
+/**
+ * Converts a GPS coordinate stored as degrees, minutes and seconds into signed decimal degrees.
+ */
+const toDecimalDegrees = (value: IfdValue | undefined, ref: IfdValue | undefined, negativeRef: string): number | undefined => {
+  if (!Array.isArray(value) || value.length < 3) return undefined
+
+  const [degrees, minutes, seconds] = value
+  const decimal = degrees + minutes / 60 + seconds / 3600
+  return ref === negativeRef ? -decimal : decimal
+}
+
+/**
+ * Parses EXIF date components ("YYYY:MM:DD HH:MM:SS") with optional sub-seconds and UTC offset.
+ * Without an offset the GPS timestamp (always UTC) anchors the time when available; otherwise
+ * the wall-clock time is interpreted in the local time zone.
+ */
+const parseExifDate = (
+  dateTime: IfdValue | undefined,
+  subSeconds: IfdValue | undefined,
+  offset: IfdValue | undefined,
+  gpsUtc: Date | undefined
+): { date: Date; hasTimeZone: boolean } | undefined => {
+  if (typeof dateTime !== 'string') return undefined
+
+  const match = dateTime.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/)
+  if (!match) return undefined
+
+  const [, year, month, day, hour, minute, second] = match
+  const milliseconds = typeof subSeconds === 'string' && /^\d+$/.test(subSeconds) ? Math.round(Number(`0.${subSeconds}`) * 1000) : 0
+  const fraction = String(milliseconds).padStart(3, '0')
+
+  if (typeof offset === 'string' && /^[+-]\d{2}:\d{2}$/.test(offset)) {
+    const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}.${fraction}${offset}`)
+    return Number.isNaN(date.getTime()) ? undefined : { date, hasTimeZone: true }
+  }
+
+  if (gpsUtc) {
+    // Keep the camera's sub-second precision, which GPS timestamps usually lack
+    return { date: new Date(Math.floor(gpsUtc.getTime() / 1000) * 1000 + milliseconds), hasTimeZone: true }
+  }
+
+  const date = new Date(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second), milliseconds)
+  return Number.isNaN(date.getTime()) ? undefined : { date, hasTimeZone: false }
+}
+
+/**
+ * Combines the GPS date and time stamps into a UTC date.
+ */
+const parseGpsTimestamp = (dateStamp: IfdValue | undefined, timeStamp: IfdValue | undefined): Date | undefined => {
+  if (typeof dateStamp !== 'string' || !Array.isArray(timeStamp) || timeStamp.length < 3) return undefined
+
+  const match = dateStamp.match(/^(\d{4}):(\d{2}):(\d{2})$/)
+  if (!match) return undefined
+
+  const [, year, month, day] = match
+  const [hours, minutes, seconds] = timeStamp
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), hours, minutes, Math.floor(seconds)))
+  return Number.isNaN(date.getTime()) ? undefined : date
+}
+
+/**
+ * Reads the burst identifier Apple devices store in their maker note.
+ * The maker note starts with "Apple iOS\0", a version, its own byte order marker and an IFD at offset 14;
+ * offsets inside it are relative to the start of the maker note.
+ */
+const readAppleBurstId = (reader: TiffReader, entry: IfdEntry | undefined): string | undefined => {
+  if (!entry || entry.valueOffset + entry.count > reader.data.length) return undefined
+
+  const makerNote = reader.data.subarray(entry.valueOffset, entry.valueOffset + entry.count)
+  if (makerNote.length < 16 || makerNote.toString('latin1', 0, 10) !== 'Apple iOS\0') return undefined
+
+  const byteOrder = makerNote.toString('latin1', 12, 14)
+  if (byteOrder !== 'II' && byteOrder !== 'MM') return undefined
+
+  const makerReader = { data: makerNote, littleEndian: byteOrder === 'II' }
+  const burstId = readIfdValue(makerReader, readIfd(makerReader, 14).get(APPLE_BURST_UUID_TAG))
+  return typeof burstId === 'string' && burstId.length > 0 ? burstId : undefined
+}
+
+/**
+ * Reads capture time, GPS position, orientation and camera settings from a JPEG or PNG image.
+ * @param buffer - Encoded image bytes
+ * @returns EXIF data, or null when the image carries no readable EXIF block
+ */
+export const readExif = (buffer: Buffer): ExifData | null => {
+  const block = findExifBlock(buffer)
+  const reader = block && createTiffReader(block)
+  if (!reader) return null
+
+  const ifd0 = readIfd(reader, getFirstIfdOffset(reader))
+  const pointer = (entries: Map<number, IfdEntry>, tag: number) => {
+    const value = readIfdValue(reader, entries.get(tag))
+    return typeof value === 'number' ? value : 0
+  }
+  const exifIfd = readIfd(reader, pointer(ifd0, EXIF_TAGS.exifIfdPointer))
+  const gpsIfd = readIfd(reader, pointer(ifd0, EXIF_TAGS.gpsIfdPointer))
+
+  const text = (entries: Map<number, IfdEntry>, tag: number) => {
+    const value = readIfdValue(reader, entries.get(tag))
+    return typeof value === 'string' && value.length > 0 ? value : undefined
+  }
+  const number = (entries: Map<number, IfdEntry>, tag: number) => {
+    const value = readIfdValue(reader, entries.get(tag))
+    const first = Array.isArray(value) ? value[0] : value
+    return typeof first === 'number' && first > 0 ? first : undefined
+  }
+
+  const latitude = toDecimalDegrees(
+    readIfdValue(reader, gpsIfd.get(GPS_TAGS.latitude)),
+    readIfdValue(reader, gpsIfd.get(GPS_TAGS.latitudeRef)),
+    'S'
+  )
+  const longitude = toDecimalDegrees(
+    readIfdValue(reader, gpsIfd.get(GPS_TAGS.longitude)),
+    readIfdValue(reader, gpsIfd.get(GPS_TAGS.longitudeRef)),
+    'W'
+  )
+  const altitude = readIfdValue(reader, gpsIfd.get(GPS_TAGS.altitude))
+  const belowSeaLevel = readIfdValue(reader, gpsIfd.get(GPS_TAGS.altitudeRef)) === 1
+
+  const captured = parseExifDate(
+    readIfdValue(reader, exifIfd.get(EXIF_TAGS.dateTimeOriginal)),
+    readIfdValue(reader, exifIfd.get(EXIF_TAGS.subSecTimeOriginal)),
+    readIfdValue(reader, exifIfd.get(EXIF_TAGS.offsetTimeOriginal)),
+    parseGpsTimestamp(readIfdValue(reader, gpsIfd.get(GPS_TAGS.dateStamp)), readIfdValue(reader, gpsIfd.get(GPS_TAGS.timeStamp)))
+  )
+  const orientation = number(ifd0, EXIF_TAGS.orientation)
+
+  return {
+    dateTimeOriginal: captured?.date,
+    hasTimeZone: captured?.hasTimeZone,
+    // Cameras without a fix often write 0,0 rather than omitting the tags
+    location:
+      latitude !== undefined && longitude !== undefined && (latitude !== 0 || longitude !== 0)
+        ? {
+            latitude,
+            longitude,
+            altitude: typeof altitude === 'number' ? (belowSeaLevel ? -altitude : altitude) : undefined
+          }
+        : undefined,
+    orientation: orientation !== undefined && orientation <= 8 ? orientation : undefined,
+    burstId: readAppleBurstId(reader, exifIfd.get(EXIF_TAGS.makerNote)),
+    camera: {
+      make: text(ifd0, EXIF_TAGS.make),
+      model: text(ifd0, EXIF_TAGS.model),
+      focalLength: number(exifIfd, EXIF_TAGS.focalLength),
+      iso: number(exifIfd, EXIF_TAGS.iso),
+      exposureTime: number(exifIfd, EXIF_TAGS.exposureTime)
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { type LuminanceImage, orientLuminance } from '@/lib/image/decode'
+import { computeDHash, computePHash, hammingDistance } from '@/lib/image/perceptual-hash'
+
+const SIZE = 64
+
+const createImage = (width: number, height: number, paint: (x: number, y: number) => number): LuminanceImage => {
+  const data = new Float32Array(width * height)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data[y * width + x] = paint(x, y)
+  }
+  return { width, height, data }
+}
+
+// Asymmetric scene: a bright block in the top left and a diagonal gradient
+const scene = (x: number, y: number) => (x < 20 && y < 12 ? 240 : 40 + ((x * 2 + y) % 100))
+
+describe('computePHash', () => {
+  it('gives near-identical hashes to brightened copies', () => {
+    const original = createImage(SIZE, SIZE, scene)
+    const brighter = createImage(SIZE, SIZE, (x, y) => Math.min(255, scene(x, y) * 1.1 + 5))
+
+    expect(hammingDistance(computePHash(original), computePHash(brighter))).toBeLessThanOrEqual(2)
+  })
+
+  it('tells different scenes apart', () => {
+    const original = createImage(SIZE, SIZE, scene)
+    const other = createImage(SIZE, SIZE, (x, y) => (y > 40 ? 220 : 30 + ((x * 5) % 60)))
+
+    expect(hammingDistance(computePHash(original), computePHash(other))).toBeGreaterThan(10)
+  })
+
+  it('uses every bit rather than one stuck on the DC term', () => {
+    const hashes = [
+      createImage(SIZE, SIZE, scene),
+      createImage(SIZE, SIZE, (x, y) => (y > 40 ? 220 : 30 + ((x * 5) % 60))),
+      createImage(SIZE, SIZE, (x, y) => ((x + y) % 32 < 16 ? 200 : 50))
+    ].map(computePHash)
+
+    // Bit 0 is the most significant bit of the first hex digit
+    expect(new Set(hashes.map(hash => Number.parseInt(hash[0], 16) >= 8)).size).toBeGreaterThan(1)
+  })
+})
+
+describe('orientLuminance', () => {
+  it('rotates images stored sideways the way they are displayed', () => {
+    const upright = createImage(SIZE, 40, scene)
+    // Stored rotated 90 degrees counterclockwise, so orientation 6 turns it back clockwise
+    const stored = createImage(40, SIZE, (x, y) => scene(SIZE - 1 - y, x))
+
+    const displayed = orientLuminance(stored, 6)
+
+    expect(displayed.width).toBe(SIZE)
+    expect(displayed.height).toBe(40)
+    expect(computePHash(displayed)).toBe(computePHash(upright))
+    expect(computeDHash(displayed)).toBe(computeDHash(upright))
+  })
+
+  it('undoes every orientation of a stored image', () => {
+    const upright = createImage(SIZE, 40, scene)
+    // Stored image for each orientation: the displayed pixel (x, y) comes from the stored position given by EXIF
+    const storedFor: Record<number, LuminanceImage> = {
+      2: createImage(SIZE, 40, (x, y) => scene(SIZE - 1 - x, y)),
+      3: createImage(SIZE, 40, (x, y) => scene(SIZE - 1 - x, 39 - y)),
+      4: createImage(SIZE, 40, (x, y) => scene(x, 39 - y)),
+      5: createImage(40, SIZE, (x, y) => scene(y, x)),
+      7: createImage(40, SIZE, (x, y) => scene(SIZE - 1 - y, 39 - x)),
+      8: createImage(40, SIZE, (x, y) => scene(y, 39 - x))
+    }
+
+    Object.entries(storedFor).forEach(([orientation, stored]) => {
+      expect(orientLuminance(stored, Number(orientation)).data).toEqual(upright.data)
+    })
+  })
+
+  it('leaves images without an orientation alone', () => {
+    const image = createImage(4, 4, scene)
+
+    expect(orientLuminance(image, undefined)).toBe(image)
+    expect(orientLuminance(image, 1)).toBe(image)
+  })
+})
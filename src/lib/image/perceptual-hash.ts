@@ -0,0 +1,89 @@
+import { type LuminanceImage, resizeLuminance } from '@/lib/image/decode'
+
+/**
+ * Packs 64 bits into a 16 character hex string, most significant bit first.
+ */
+const toHex = (bits: boolean[]): string => {
+  let hex = ''
+  for (let index = 0; index < bits.length; index += 4) {
+    const nibble = (bits[index] ? 8 : 0) + (bits[index + 1] ? 4 : 0) + (bits[index + 2] ? 2 : 0) + (bits[index + 3] ? 1 : 0)
+    hex += nibble.toString(16)
+  }
+  return hex
+}
+
+/**
+ * Computes a 64-bit difference hash: each bit records whether a pixel is brighter than its right neighbour
+ * in a 9x8 thumbnail. Robust to scaling, compression and small exposure changes.
+ * @param image - Luminance image
+ * @returns Hash as 16 hex characters
+ */
+export const computeDHash = (image: LuminanceImage): string => {
+  const thumbnail = resizeLuminance(image, 9, 8)
+  const bits: boolean[] = []
+
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      bits.push(thumbnail.data[y * 9 + x] > thumbnail.data[y * 9 + x + 1])
+    }
+  }
+
+  return toHex(bits)
+}
+
+// Lowest frequencies, diagonal by diagonal from the DC term; the first 11 diagonals hold 66, enough for the DC term and 64 others
+const FREQUENCIES = Array.from({ length: 11 * 11 }, (_, index) => [index % 11, Math.floor(index / 11)])
+  .sort((a, b) => a[0] + a[1] - (b[0] + b[1]) || a[1] - b[1])
+  .slice(0, 65)
+
+/**
+ * Computes a 64-bit perceptual hash from the 64 lowest AC frequencies of a DCT over a 32x32 thumbnail.
+ * Each bit records whether a coefficient is above their median. The DC term, the average brightness, is left out
+ * as it says nothing about structure.
+ * @param image - Luminance image
+ * @returns Hash as 16 hex characters
+ */
+export const computePHash = (image: LuminanceImage): string => {
+  const size = 32
+  const thumbnail = resizeLuminance(image, size, size)
+
+  const cosines = Array.from({ length: 11 }, (_, u) =>
+    Array.from({ length: size }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * size)))
+  )
+
+  const coefficients = FREQUENCIES.slice(1).map(([u, v]) => {
+    let sum = 0
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        sum += thumbnail.data[y * size + x] * cosines[u][x] * cosines[v][y]
+      }
+    }
+    return sum
+  })
+
+  const sorted = [...coefficients].sort((a, b) => a - b)
+  const median = (sorted[31] + sorted[32]) / 2
+
+  return toHex(coefficients.map(coefficient => coefficient > median))
+}
+
+/**
+ * Counts the differing bits between two hex-encoded hashes of equal length.
+ * @param hash1 - First hash
+ * @param hash2 - Second hash
+ * @returns Hamming distance, or Infinity when the hashes can't be compared
+ */
+export const hammingDistance = (hash1: string, hash2: string): number => {
+  if (hash1.length !== hash2.length) return Number.POSITIVE_INFINITY
+
+  let distance = 0
+  for (let index = 0; index < hash1.length; index++) {
+    let difference = Number.parseInt(hash1[index], 16) ^ Number.parseInt(hash2[index], 16)
+    while (difference > 0) {
+      distance += difference & 1
+      difference >>= 1
+    }
+  }
+
+  return distance
+}
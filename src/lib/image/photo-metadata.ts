@@ -0,0 +1,30 @@
+import { readExif } from '@/lib/image/exif'
+import type { CameraInfo, Photo } from '@/lib/types'
+
+/**
+ * Fills a photo's capture time, location and camera details from its embedded EXIF data.
+ * EXIF is treated as the most reliable record of when and where a photo was taken; values supplied by
+ * the photo source are only kept where the EXIF block lacks them.
+ * @param photo - Photo as provided by its source
+ * @returns Photo with EXIF-derived metadata applied
+ */
+export const applyExifMetadata = (photo: Photo): Photo => {
+  const exif = readExif(photo.buffer)
+  if (!exif) return photo
+
+  const camera: CameraInfo = { ...photo.metadata.camera }
+  for (const [key, value] of Object.entries(exif.camera) as Array<[keyof CameraInfo, CameraInfo[keyof CameraInfo]]>) {
+    if (value !== undefined) Object.assign(camera, { [key]: value })
+  }
+
+  return {
+    ...photo,
+    dateTime: exif.dateTimeOriginal || photo.dateTime,
+    metadata: {
+      ...photo.metadata,
+      location: exif.location ? { latitude: exif.location.latitude, longitude: exif.location.longitude } : photo.metadata.location,
+      camera: Object.keys(camera).length > 0 ? camera : undefined,
+      burstId: exif.burstId || photo.metadata.burstId
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
+import { sha256 } from '@/lib/hash'
+import type { Photo, PhotoInteractions, PhotoRecord } from '@/lib/types'
+
+export interface LibraryPhoto extends PhotoRecord {
+  // Image file relative to the library directory
+  file: string
+  ingestedAt: Date
+}
+
+export type LibraryChange = 'added' | 'updated' | 'unchanged'
+
+/**
+ * Picks a file extension from the image's magic bytes, falling back to the original file name.
+ * Google Photos serves HEIC originals as JPEG renditions, so the name alone can be wrong.
+ */
+const getImageExtension = (photo: Photo): string => {
+  if (photo.buffer[0] === 0xff && photo.buffer[1] === 0xd8) return '.jpg'
+  if (photo.buffer.length > 4 && photo.buffer.readUInt32BE(0) === 0x89504e47) return '.png'
+
+  return path.extname(photo.metadata.title || '').toLowerCase()
+}
+
+const fileExists = async (filePath: string): Promise<boolean> => {
+  try {
+    await fs.access(filePath)
+    return true
+  } catch (error) {
+    if (error.code === 'ENOENT') return false
+    throw error
+  }
+}
+
+// A library photo as read back from photos.json, with its dates as strings
+type StoredLibraryPhoto = Omit<LibraryPhoto, 'dateTime' | 'ingestedAt' | 'interactions'> & {
+  dateTime: string
+  ingestedAt: string
+  interactions: Omit<PhotoInteractions, 'lastViewed'> & { lastViewed?: string }
+}
+
+/**
+ * Revives the dates JSON.stringify turned into strings.
+ */
+const reviveLibraryPhoto = (stored: StoredLibraryPhoto): LibraryPhoto => ({
+  ...stored,
+  dateTime: new Date(stored.dateTime),
+  ingestedAt: new Date(stored.ingestedAt),
+  interactions: {
+    ...stored.interactions,
+    lastViewed: stored.interactions.lastViewed ? new Date(stored.interactions.lastViewed) : undefined
+  }
+})
+
+/**
+ * Local copy of ingested photos, so they can be analyzed and selected from without going back to their source.
+ * Images are stored once per content hash under `<directory>/images`; photo records live in `<directory>/photos.json`.
+ * Call `load` before use and `save` after changes.
+ */
+export class PhotoLibrary {
+  private photos = new Map<string, LibraryPhoto>()
+
+  constructor(public readonly directory: string) {}
+
+  public async load(): Promise<void> {
+    try {
+      const stored: StoredLibraryPhoto[] = JSON.parse(await fs.readFile(this.getManifestPath(), 'utf8'))
+      this.photos = new Map(stored.map(reviveLibraryPhoto).map(photo => [photo.id, photo]))
+    } catch (error) {
+      if (error.code !== 'ENOENT') throw error
+      this.photos = new Map()
+    }
+  }
+
+  public async save(): Promise<void> {
+    const manifestPath = this.getManifestPath()
+    await fs.mkdir(this.directory, { recursive: true })
+
+    // Write to a temporary file first so an interrupted run never leaves a truncated manifest behind
+    const temporaryPath = `${manifestPath}.${process.pid}.tmp`
+    await fs.writeFile(temporaryPath, JSON.stringify(this.list(), null, 2))
+    await fs.rename(temporaryPath, manifestPath)
+  }
+
+  /**
+   * Lists the photos in the library, oldest first.
+   */
+  public list(): LibraryPhoto[] {
+    return [...this.photos.values()].sort((a, b) => a.dateTime.getTime() - b.dateTime.getTime())
+  }
+
+  public get(id: string): LibraryPhoto | undefined {
+    return this.photos.get(id)
+  }
+
+  /**
+   * Stores a photo and its image, replacing an earlier version with the same ID.
+   * @param photo - Photo with its bytes loaded
+   * @returns Whether the photo is new, changed or identical to the stored version
+   */
+  public async add(photo: Photo): Promise<LibraryChange> {
+    const { buffer, ...fields } = photo
+    const contentHash = sha256(buffer)
+    const existing = this.photos.get(photo.id)
+
+    const file = path.posix.join('images', `${contentHash}${getImageExtension(photo)}`)
+    const imagePath = path.join(this.directory, file)
+    // Identical images share one file, so an existing file already holds these bytes
+    if (!(await fileExists(imagePath))) {
+      await fs.mkdir(path.dirname(imagePath), { recursive: true })
+      const temporaryPath = `${imagePath}.${process.pid}.tmp`
+      await fs.writeFile(temporaryPath, buffer)
+      await fs.rename(temporaryPath, imagePath)
+    }
+
+    const record: LibraryPhoto = { ...fields, contentHash, file, ingestedAt: existing?.ingestedAt || new Date() }
+    this.photos.set(photo.id, record)
+
+    if (!existing) return 'added'
+    return JSON.stringify({ ...existing, ingestedAt: undefined }) === JSON.stringify({ ...record, ingestedAt: undefined })
+      ? 'unchanged'
+      : 'updated'
+  }
+
+  /**
+   * Reads a stored photo's image, turning it back into a regular photo.
+   */
+  public async loadPhoto(record: LibraryPhoto): Promise<Photo> {
+    const { contentHash, file, ingestedAt, ...photo } = record
+    return { ...photo, buffer: await fs.readFile(this.getImagePath(record)) }
+  }
+
+  public getImagePath(record: LibraryPhoto): string {
+    return path.join(this.directory, record.file)
+  }
+
+  private getManifestPath(): string {
+    return path.join(this.directory, 'photos.json')
+  }
+}
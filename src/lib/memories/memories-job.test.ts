@@ -0,0 +1,110 @@
+import { GoogleVisionHighlightSelector } from '@/lib/highlighter/highlighter'
+import { MemoriesJob } from '@/lib/memories/memories-job'
+import type { MemoryStore, StoredMemories } from '@/lib/types'
+import { createAnalyzedPhoto, createStubVisionProvider } from '@/test/fixtures'
+
+const createMemoryStore = (): MemoryStore & { saved: StoredMemories[] } => {
+  const saved: StoredMemories[] = []
+  return {
+    saved,
+    save: async memories => {
+      saved.push(memories)
+    },
+    get: async date => saved.find(memories => memories.date === date),
+    listDates: async () => saved.map(memories => memories.date).reverse()
+  }
+}
+
+const PHOTOS = [
+  createAnalyzedPhoto('2022-beach', { dateTime: new Date(2022, 6, 14, 10) }),
+  createAnalyzedPhoto('2023-hike', { dateTime: new Date(2023, 6, 13, 9) }),
+  createAnalyzedPhoto('2023-picnic', { dateTime: new Date(2023, 6, 15, 13) }),
+  createAnalyzedPhoto('2023-autumn', { dateTime: new Date(2023, 9, 1, 12) })
+]
+
+describe('MemoriesJob', () => {
+  const loadSelector = vi.fn(async () => {
+    const selector = new GoogleVisionHighlightSelector(createStubVisionProvider())
+    await selector.rehydrate({ saveAnalyzedPhotos: async () => undefined, listAnalyzedPhotos: async () => PHOTOS })
+    return selector
+  })
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    loadSelector.mockClear()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it("stores memories for the clock's day from every earlier year", async () => {
+    const now = new Date(2024, 6, 14, 6)
+    const store = createMemoryStore()
+
+    const memories = await new MemoriesJob(loadSelector, store, {
+      clock: () => now,
+      selection: { windowDays: 1, minQuality: 0 }
+    }).run()
+
+    expect(store.saved).toEqual([memories])
+    expect(memories).toMatchObject({ date: '2024-07-14', generatedAt: now, windowDays: 1 })
+    expect(memories.years.map(year => [year.year, year.candidates])).toEqual([
+      [2022, 1],
+      [2023, 2]
+    ])
+    expect(memories.highlights.map(highlight => highlight.photoId).sort()).toEqual(['2022-beach', '2023-hike', '2023-picnic'])
+  })
+
+  it('remembers the day it is in the time zone of the job', async () => {
+    // Late on July 14 in UTC, which is already July 15 in Kiribati and still July 14 in American Samoa
+    const now = new Date(Date.UTC(2024, 6, 14, 22))
+    const run = (timezone: string) =>
+      new MemoriesJob(loadSelector, createMemoryStore(), {
+        clock: () => now,
+        timezone,
+        selection: { windowDays: 0, minQuality: 0 }
+      }).run()
+
+    const ahead = await run('Pacific/Kiritimati')
+    const behind = await run('Pacific/Pago_Pago')
+
+    expect(ahead.date).toBe('2024-07-15')
+    expect(ahead.highlights.map(highlight => highlight.photoId)).toEqual(['2023-picnic'])
+    expect(behind.date).toBe('2024-07-14')
+    expect(behind.highlights.map(highlight => highlight.photoId)).toEqual(['2022-beach'])
+  })
+
+  it('remembers a given day as is, whatever the time zone of the job', async () => {
+    // What `memories --date 2024-07-14 --timezone ...` runs: the flag is parsed to local midnight
+    const day = new Date(2024, 6, 14)
+    const run = (timezone: string) =>
+      new MemoriesJob(loadSelector, createMemoryStore(), {
+        clock: () => new Date(Date.UTC(2024, 6, 20, 12)),
+        timezone,
+        selection: { windowDays: 0, minQuality: 0 }
+      }).run(day)
+
+    for (const timezone of ['Pacific/Kiritimati', 'Pacific/Pago_Pago']) {
+      const memories = await run(timezone)
+      expect(memories.date).toBe('2024-07-14')
+      expect(memories.highlights.map(highlight => highlight.photoId)).toEqual(['2022-beach'])
+    }
+  })
+
+  it('shares a run in progress instead of starting another', async () => {
+    const job = new MemoriesJob(loadSelector, createMemoryStore(), { clock: () => new Date(2024, 6, 14) })
+
+    const [first, second] = await Promise.all([job.run(), job.run()])
+
+    expect(second).toBe(first)
+    expect(loadSelector).toHaveBeenCalledTimes(1)
+  })
+
+  it('rejects invalid schedules and unknown time zones', () => {
+    const store = createMemoryStore()
+
+    expect(() => new MemoriesJob(loadSelector, store, { schedule: 'every day' })).toThrow('Invalid cron expression: every day')
+    expect(() => new MemoriesJob(loadSelector, store, { timezone: 'Mars/Olympus_Mons' })).toThrow(RangeError)
+  })
+})
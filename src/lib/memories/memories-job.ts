@@ -0,0 +1,107 @@
+import { DEFAULT_HIGHLIGHT_OPTIONS } from '@/lib/highlighter/highlight-options'
+import type { GoogleVisionHighlightSelector } from '@/lib/highlighter/highlighter'
+import { DEFAULT_WINDOW_DAYS, formatLocalDate, getCalendarDay } from '@/lib/highlighter/on-this-day'
+import type { Clock, MemoryStore, OnThisDayOptions, StoredMemories } from '@/lib/types'
+import cron, { type ScheduledTask } from 'node-cron'
+
+export interface MemoriesJobOptions {
+  // Cron expression of when to generate memories; every day at 06:00 by default
+  schedule: string
+  // IANA time zone the schedule and the day to remember are interpreted in; the process' local time zone by default
+  timezone?: string
+  clock: Clock
+  selection: Omit<OnThisDayOptions, 'date'>
+}
+
+export const DEFAULT_MEMORIES_SCHEDULE = '0 6 * * *'
+
+/**
+ * Generates "on this day" memories on a schedule and writes each day's set to a store.
+ * The selector is loaded fresh for every run, so photos added in the meantime are included.
+ */
+export class MemoriesJob {
+  private readonly options: MemoriesJobOptions
+  private task?: ScheduledTask
+  private running?: Promise<StoredMemories>
+
+  constructor(
+    private readonly loadSelector: () => Promise<GoogleVisionHighlightSelector>,
+    private readonly store: MemoryStore,
+    options: Partial<Omit<MemoriesJobOptions, 'selection'>> & { selection?: Partial<OnThisDayOptions> } = {}
+  ) {
+    this.options = {
+      schedule: options.schedule || DEFAULT_MEMORIES_SCHEDULE,
+      timezone: options.timezone,
+      clock: options.clock || (() => new Date()),
+      selection: { ...DEFAULT_HIGHLIGHT_OPTIONS, windowDays: DEFAULT_WINDOW_DAYS, ...options.selection }
+    }
+
+    if (!cron.validate(this.options.schedule)) {
+      throw new Error(`Invalid cron expression: ${this.options.schedule}`)
+    }
+    // Throws a RangeError for unknown time zones
+    getCalendarDay(new Date(), this.options.timezone)
+  }
+
+  /**
+   * Generates and stores the memories for a day, by default the clock's current day in the job's time zone.
+   * A run for the current day that starts while another is in progress waits for it and returns its result.
+   * @param day - Calendar day to remember, as local midnight; used as is, without converting it to the job's time zone
+   * @returns The stored memories
+   */
+  public async run(day?: Date): Promise<StoredMemories> {
+    if (day) return this.generate(day)
+    if (!this.running) {
+      this.running = this.generate().finally(() => {
+        this.running = undefined
+      })
+    }
+    return this.running
+  }
+
+  /**
+   * Starts running on the schedule. Failed runs are logged and retried at the next scheduled time.
+   */
+  public start(): void {
+    if (this.task) return
+
+    this.task = cron.schedule(
+      this.options.schedule,
+      () => {
+        this.run().catch(error => console.error('Failed to generate memories:', error))
+      },
+      { timezone: this.options.timezone }
+    )
+  }
+
+  public stop(): void {
+    this.task?.stop()
+    this.task = undefined
+  }
+
+  private async generate(day?: Date): Promise<StoredMemories> {
+    const now = this.options.clock()
+    const date = day || getCalendarDay(now, this.options.timezone)
+    const selector = await this.loadSelector()
+    const memories = await selector.selectOnThisDay({ ...this.options.selection, date })
+
+    const yearOf = new Map(memories.years.flatMap(year => year.highlightIds.map(id => [id, year.year] as const)))
+    const stored: StoredMemories = {
+      date: formatLocalDate(date),
+      generatedAt: now,
+      windowDays: memories.windowDays,
+      years: memories.years,
+      highlights: memories.highlights.map(photo => ({
+        photoId: photo.id,
+        year: yearOf.get(photo.id) ?? photo.dateTime.getFullYear(),
+        dateTime: photo.dateTime,
+        title: photo.metadata.title,
+        scores: photo.scores
+      }))
+    }
+
+    await this.store.save(stored)
+    console.log(`Saved ${stored.highlights.length} memories for ${stored.date} from ${stored.years.length} year(s)`)
+    return stored
+  }
+}
@@ -0,0 +1,79 @@
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
+import type { MemoryStore, StoredMemories } from '@/lib/types'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Restores the dates of memories read from JSON.
+ */
+const reviveMemories = (memories: StoredMemories): StoredMemories => ({
+  ...memories,
+  generatedAt: new Date(memories.generatedAt),
+  years: memories.years.map(year => ({ ...year, start: new Date(year.start), end: new Date(year.end) })),
+  highlights: memories.highlights.map(highlight => ({ ...highlight, dateTime: new Date(highlight.dateTime) }))
+})
+
+/**
+ * Memories stored on the local filesystem, one `<directory>/<YYYY-MM-DD>.json` file per day.
+ */
+export class FileSystemMemoryStore implements MemoryStore {
+  constructor(private readonly directory: string) {}
+
+  public async save(memories: StoredMemories): Promise<void> {
+    const filePath = this.getFilePath(memories.date)
+    await fs.mkdir(this.directory, { recursive: true })
+
+    // Write to a temporary file first so readers never see a partial file
+    const temporaryPath = `${filePath}.${process.pid}.tmp`
+    await fs.writeFile(temporaryPath, JSON.stringify(memories, null, 2))
+    await fs.rename(temporaryPath, filePath)
+  }
+
+  public async get(date: string): Promise<StoredMemories | undefined> {
+    try {
+      return reviveMemories(JSON.parse(await fs.readFile(this.getFilePath(date), 'utf8')))
+    } catch (error) {
+      if (error.code === 'ENOENT') return undefined
+      throw error
+    }
+  }
+
+  public async listDates(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.directory)
+      return files
+        .map(file => path.basename(file, '.json'))
+        .filter(name => DATE_PATTERN.test(name))
+        .sort()
+        .reverse()
+    } catch (error) {
+      if (error.code === 'ENOENT') return []
+      throw error
+    }
+  }
+
+  private getFilePath(date: string): string {
+    if (!DATE_PATTERN.test(date)) throw new Error(`Invalid memories date: ${date}`)
+    return path.join(this.directory, `${date}.json`)
+  }
+}
+
+/**
+ * Memories kept in memory, e.g. for tests or short-lived processes.
+ */
+export class InMemoryMemoryStore implements MemoryStore {
+  private readonly memories = new Map<string, StoredMemories>()
+
+  public async save(memories: StoredMemories): Promise<void> {
+    this.memories.set(memories.date, memories)
+  }
+
+  public async get(date: string): Promise<StoredMemories | undefined> {
+    return this.memories.get(date)
+  }
+
+  public async listDates(): Promise<string[]> {
+    return [...this.memories.keys()].sort().reverse()
+  }
+}
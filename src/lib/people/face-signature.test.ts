@@ -0,0 +1,44 @@
+import { computeFaceSignature, getSignatureDistance } from '@/lib/people/face-signature'
+import type { FaceAnalysis } from '@/lib/types'
+import { createPersonFace } from '@/test/fixtures'
+
+/**
+ * Moves a face within the photo: rotates it in the image plane, scales it and shifts it.
+ */
+const transformFace = (face: FaceAnalysis, angle: number, factor: number, shift: number): FaceAnalysis => ({
+  ...face,
+  landmarks: face.landmarks.map(({ type, position: { x, y, z } }) => ({
+    type,
+    position: {
+      x: (x * Math.cos(angle) - y * Math.sin(angle)) * factor + shift,
+      y: (x * Math.sin(angle) + y * Math.cos(angle)) * factor + shift,
+      z: z * factor
+    }
+  }))
+})
+
+describe('computeFaceSignature', () => {
+  it("doesn't change with the face's size, position or head roll", () => {
+    const face = createPersonFace(1)
+    const signature = computeFaceSignature(face) as number[]
+
+    expect(computeFaceSignature(transformFace(face, Math.PI / 6, 2.5, 300))).toEqual(signature.map(value => expect.closeTo(value, 10)))
+  })
+
+  it('tells different people apart', () => {
+    const signature = computeFaceSignature(createPersonFace(0)) as number[]
+
+    expect(getSignatureDistance(signature, computeFaceSignature(createPersonFace(0)) as number[])).toBe(0)
+    expect(getSignatureDistance(signature, computeFaceSignature(createPersonFace(1)) as number[])).toBeGreaterThan(0.12)
+  })
+
+  it('needs every landmark of the signature', () => {
+    const face = createPersonFace(0)
+
+    expect(
+      computeFaceSignature({ ...face, landmarks: face.landmarks.filter(landmark => landmark.type !== 'CHIN_GNATHION') })
+    ).toBeUndefined()
+    expect(computeFaceSignature({ ...face, landmarks: [] })).toBeUndefined()
+    expect(getSignatureDistance([], [])).toBe(Number.POSITIVE_INFINITY)
+  })
+})
@@ -0,0 +1,81 @@
+import type { FaceAnalysis } from '@/lib/types'
+
+type Vector = [number, number, number]
+
+// Landmarks on rigid parts of the face, which move little with expressions; the mouth, lips and eyebrows are left out
+const SIGNATURE_LANDMARKS = [
+  'LEFT_EYE_LEFT_CORNER',
+  'LEFT_EYE_RIGHT_CORNER',
+  'RIGHT_EYE_LEFT_CORNER',
+  'RIGHT_EYE_RIGHT_CORNER',
+  'MIDPOINT_BETWEEN_EYES',
+  'FOREHEAD_GLABELLA',
+  'NOSE_TIP',
+  'NOSE_BOTTOM_LEFT',
+  'NOSE_BOTTOM_RIGHT',
+  'NOSE_BOTTOM_CENTER',
+  'LEFT_CHEEK_CENTER',
+  'RIGHT_CHEEK_CENTER',
+  'CHIN_GNATHION',
+  'CHIN_LEFT_GONION',
+  'CHIN_RIGHT_GONION'
+] as const
+
+const subtract = (a: Vector, b: Vector): Vector => [a[0] - b[0], a[1] - b[1], a[2] - b[2]]
+const dot = (a: Vector, b: Vector): number => a[0] * b[0] + a[1] * b[1] + a[2] * b[2]
+const scale = (a: Vector, factor: number): Vector => [a[0] * factor, a[1] * factor, a[2] * factor]
+const cross = (a: Vector, b: Vector): Vector => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]]
+const length = (a: Vector): number => Math.sqrt(dot(a, a))
+
+/**
+ * Computes a pose-normalized geometric signature of a face from its Vision landmarks.
+ * Landmarks are expressed in a frame attached to the face: the origin between the eyes, the x axis from the left to the
+ * right eye, the y axis down towards the bottom of the nose, and lengths in units of the distance between the eyes.
+ * Vision reports landmarks in 3D, so this undoes head roll, yaw and pitch as well as the face's size and position.
+ * @param face - Analyzed face
+ * @returns Coordinates of the signature landmarks, or undefined when any landmark is missing
+ */
+export const computeFaceSignature = (face: FaceAnalysis): number[] | undefined => {
+  const positions = new Map<string, Vector>(
+    face.landmarks.map(landmark => [landmark.type, [landmark.position.x, landmark.position.y, landmark.position.z]])
+  )
+  const leftEye = positions.get('LEFT_EYE')
+  const rightEye = positions.get('RIGHT_EYE')
+  const noseBottom = positions.get('NOSE_BOTTOM_CENTER')
+  if (!leftEye || !rightEye || !noseBottom) return undefined
+
+  const eyeDistance = length(subtract(rightEye, leftEye))
+  if (eyeDistance === 0) return undefined
+
+  const origin = scale([leftEye[0] + rightEye[0], leftEye[1] + rightEye[1], leftEye[2] + rightEye[2]], 0.5)
+  const xAxis = scale(subtract(rightEye, leftEye), 1 / eyeDistance)
+  // Only the part of the nose direction perpendicular to the eyes, so the axes are orthogonal
+  const down = subtract(noseBottom, origin)
+  const perpendicular = subtract(down, scale(xAxis, dot(down, xAxis)))
+  const perpendicularLength = length(perpendicular)
+  if (perpendicularLength === 0) return undefined
+
+  const yAxis = scale(perpendicular, 1 / perpendicularLength)
+  const zAxis = cross(xAxis, yAxis)
+
+  const signature: number[] = []
+  for (const type of SIGNATURE_LANDMARKS) {
+    const position = positions.get(type)
+    if (!position) return undefined
+
+    const offset = subtract(position, origin)
+    signature.push(dot(offset, xAxis) / eyeDistance, dot(offset, yAxis) / eyeDistance, dot(offset, zAxis) / eyeDistance)
+  }
+  return signature
+}
+
+/**
+ * Measures how different two face signatures are.
+ * @returns Root-mean-square difference of the coordinates, in units of the distance between the eyes
+ */
+export const getSignatureDistance = (a: number[], b: number[]): number => {
+  if (a.length !== b.length || a.length === 0) return Number.POSITIVE_INFINITY
+
+  const sumOfSquares = a.reduce((sum, value, index) => sum + (value - b[index]) ** 2, 0)
+  return Math.sqrt(sumOfSquares / a.length)
+}
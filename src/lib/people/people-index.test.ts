@@ -0,0 +1,90 @@
+import { PeopleIndex } from '@/lib/people/people-index'
+import { createAnalyzedPhoto, createPersonFace } from '@/test/fixtures'
+
+const createPhotoOf = (id: string, ...people: number[]) =>
+  createAnalyzedPhoto(id, { analysis: { faces: people.map(person => createPersonFace(person)) } })
+
+describe('PeopleIndex', () => {
+  it('clusters the faces of each person across photos', () => {
+    const index = new PeopleIndex()
+    ;[createPhotoOf('ada-1', 0), createPhotoOf('both', 0, 1), createPhotoOf('grace-1', 1), createPhotoOf('ada-2', 0)].forEach(photo =>
+      index.addPhoto(photo)
+    )
+
+    const [ada, grace] = index.list()
+
+    expect(ada.faces.map(face => face.photoId)).toEqual(['ada-1', 'both', 'ada-2'])
+    expect(grace.faces).toEqual([
+      { photoId: 'both', faceIndex: 1 },
+      { photoId: 'grace-1', faceIndex: 0 }
+    ])
+    expect(index.getPeopleInPhoto('both')).toEqual([ada.id, grace.id])
+    expect(index.getPersonOfFace('grace-1', 0)).toBe(grace.id)
+  })
+
+  it('never puts two faces of one photo in the same person', () => {
+    const index = new PeopleIndex()
+    index.addPhoto(createPhotoOf('twins', 0, 0))
+
+    expect(index.getPeopleInPhoto('twins')).toHaveLength(2)
+  })
+
+  it('leaves out blurred and uncertain faces', () => {
+    const index = new PeopleIndex()
+    index.addPhoto(
+      createAnalyzedPhoto('crowd', {
+        analysis: { faces: [createPersonFace(0, { blurred: true }), createPersonFace(1, { confidence: 0.3 }), createPersonFace(2)] }
+      })
+    )
+
+    expect(index.list().map(person => person.faces)).toEqual([[{ photoId: 'crowd', faceIndex: 2 }]])
+  })
+
+  it('gives the same IDs on every run and keeps restored people', () => {
+    const photos = [createPhotoOf('ada-1', 0), createPhotoOf('grace-1', 1)]
+    const first = new PeopleIndex()
+    photos.forEach(photo => first.addPhoto(photo))
+    const second = new PeopleIndex()
+    photos.forEach(photo => second.addPhoto(photo))
+
+    expect(second.list().map(person => person.id)).toEqual(first.list().map(person => person.id))
+
+    const [ada] = first.list()
+    first.name(ada.id, 'Ada')
+    const restored = new PeopleIndex(JSON.parse(JSON.stringify(first.toJSON())))
+    restored.addPhoto(createPhotoOf('ada-2', 0))
+
+    expect(restored.get(ada.id)).toMatchObject({ name: 'Ada', faces: [...ada.faces, { photoId: 'ada-2', faceIndex: 0 }] })
+  })
+
+  it('names people and finds them by name in any case', () => {
+    const index = new PeopleIndex()
+    index.addPhoto(createPhotoOf('family', 0, 1))
+    const [ada, grace] = index.getPeopleInPhoto('family')
+
+    index.name(ada, ' Ada ')
+    index.name(grace, 'ada')
+
+    expect(index.resolve('ADA').sort()).toEqual([ada, grace].sort())
+    expect(index.resolve(grace)).toEqual([grace])
+    expect(index.name(grace, '').name).toBeUndefined()
+    expect(index.resolve('nobody')).toEqual([])
+    expect(() => index.name('person-missing', 'Bob')).toThrow('Person person-missing not found')
+  })
+
+  it('merges people split up by the clustering', () => {
+    const index = new PeopleIndex()
+    ;[createPhotoOf('smiling', 0), createPhotoOf('profile', 3)].forEach(photo => index.addPhoto(photo))
+    const [smiling] = index.getPeopleInPhoto('smiling')
+    const [profile] = index.getPeopleInPhoto('profile')
+    index.name(profile, 'Ada')
+
+    const merged = index.merge(smiling, [profile])
+
+    expect(merged).toMatchObject({ id: smiling, name: 'Ada' })
+    expect(merged.faces).toHaveLength(2)
+    expect(index.list()).toEqual([merged])
+    expect(index.getPeopleInPhoto('profile')).toEqual([smiling])
+    expect(() => index.merge(smiling, ['person-missing'])).toThrow('Person person-missing not found')
+  })
+})
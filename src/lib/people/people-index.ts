@@ -0,0 +1,168 @@
+import { sha256 } from '@/lib/hash'
+import { computeFaceSignature, getSignatureDistance } from '@/lib/people/face-signature'
+import type { EnhancedPhoto, FaceClusteringOptions, Person } from '@/lib/types'
+
+export const DEFAULT_FACE_CLUSTERING_OPTIONS: FaceClusteringOptions = {
+  maxDistance: 0.12,
+  minConfidence: 0.6
+}
+
+/**
+ * Clusters faces across a collection into people.
+ * Faces are assigned as photos are added: to the person with the closest mean signature within `maxDistance`, or to a
+ * new person. A person appears at most once per photo, so two faces in one photo are never the same person. Names and
+ * merges are kept, and people restored from a store keep their IDs, so adding photos later doesn't reshuffle them.
+ */
+export class PeopleIndex {
+  private readonly options: FaceClusteringOptions
+  private readonly people = new Map<string, Person>()
+  // Person of each clustered face, by photo ID and face index
+  private readonly facePeople = new Map<string, Map<number, string>>()
+
+  constructor(people: Person[] = [], options: Partial<FaceClusteringOptions> = {}) {
+    this.options = { ...DEFAULT_FACE_CLUSTERING_OPTIONS, ...options }
+    people.forEach(person => {
+      const copy = { ...person, signature: [...person.signature], faces: [...person.faces] }
+      this.people.set(copy.id, copy)
+      copy.faces.forEach(face => this.setFacePerson(face.photoId, face.faceIndex, copy.id))
+    })
+  }
+
+  /**
+   * Assigns the faces of a photo to people. Faces assigned before, e.g. restored from a store, are left alone.
+   * @param photo - Analyzed photo
+   */
+  public addPhoto(photo: EnhancedPhoto): void {
+    const assigned = this.facePeople.get(photo.id)
+    // People already in the photo can't match another of its faces
+    const taken = new Set(assigned?.values())
+
+    // Clearer faces first, so they claim the best matches
+    const faces = photo.analysis.faces
+      .map((face, faceIndex) => ({ face, faceIndex }))
+      .filter(({ face, faceIndex }) => !assigned?.has(faceIndex) && !face.blurred && face.confidence >= this.options.minConfidence)
+      .sort((a, b) => b.face.confidence - a.face.confidence)
+
+    for (const { face, faceIndex } of faces) {
+      const signature = computeFaceSignature(face)
+      if (!signature) continue
+
+      let match: { person: Person; distance: number } | undefined
+      this.people.forEach(person => {
+        if (taken.has(person.id)) return
+        const distance = getSignatureDistance(signature, person.signature)
+        if (distance <= this.options.maxDistance && (!match || distance < match.distance)) match = { person, distance }
+      })
+
+      const person = match?.person || this.createPerson(photo.id, faceIndex, signature)
+      if (match) {
+        // Running mean of the person's signatures
+        const count = person.faces.length
+        person.signature = person.signature.map((value, index) => (value * count + signature[index]) / (count + 1))
+      }
+      person.faces.push({ photoId: photo.id, faceIndex })
+      this.setFacePerson(photo.id, faceIndex, person.id)
+      taken.add(person.id)
+    }
+  }
+
+  /**
+   * Lists people, those with the most faces first.
+   */
+  public list(): Person[] {
+    return [...this.people.values()].sort((a, b) => b.faces.length - a.faces.length || a.id.localeCompare(b.id))
+  }
+
+  public get(personId: string): Person | undefined {
+    return this.people.get(personId)
+  }
+
+  /**
+   * Finds people by ID, or by name ignoring case.
+   * @param reference - Person ID or name
+   * @returns IDs of the person with that ID, or of everyone with that name; empty when nobody matches
+   */
+  public resolve(reference: string): string[] {
+    if (this.people.has(reference)) return [reference]
+
+    const name = reference.trim().toLowerCase()
+    return this.list()
+      .filter(person => person.name?.toLowerCase() === name)
+      .map(person => person.id)
+  }
+
+  /**
+   * Looks up the person a face was assigned to.
+   */
+  public getPersonOfFace(photoId: string, faceIndex: number): string | undefined {
+    return this.facePeople.get(photoId)?.get(faceIndex)
+  }
+
+  /**
+   * Lists the IDs of the people in a photo.
+   */
+  public getPeopleInPhoto(photoId: string): string[] {
+    return [...new Set(this.facePeople.get(photoId)?.values())]
+  }
+
+  /**
+   * Names a person, or removes the name with an empty one.
+   * @throws Error when the person doesn't exist
+   */
+  public name(personId: string, name: string): Person {
+    const person = this.getExisting(personId)
+    person.name = name.trim() || undefined
+    return person
+  }
+
+  /**
+   * Merges people the clustering split up into one. The target keeps its ID and gains the others' faces; it keeps its
+   * name, or takes the first of the others' names when it has none.
+   * @param targetId - Person to merge into
+   * @param otherIds - People to merge
+   * @returns The merged person
+   * @throws Error when any of the people doesn't exist
+   */
+  public merge(targetId: string, otherIds: string[]): Person {
+    const target = this.getExisting(targetId)
+    const others = [...new Set(otherIds)].filter(id => id !== targetId).map(id => this.getExisting(id))
+
+    for (const other of others) {
+      const total = target.faces.length + other.faces.length
+      target.signature = target.signature.map(
+        (value, index) => (value * target.faces.length + (other.signature[index] ?? value) * other.faces.length) / (total || 1)
+      )
+      target.faces.push(...other.faces)
+      target.name = target.name || other.name
+      other.faces.forEach(face => this.setFacePerson(face.photoId, face.faceIndex, target.id))
+      this.people.delete(other.id)
+    }
+    return target
+  }
+
+  /**
+   * Returns the people for storing, e.g. with a `PeopleStore`.
+   */
+  public toJSON(): Person[] {
+    return this.list()
+  }
+
+  private createPerson(photoId: string, faceIndex: number, signature: number[]): Person {
+    // Derived from the first face, so the same library clusters into the same IDs on every run
+    const person: Person = { id: `person-${sha256(`${photoId}#${faceIndex}`).slice(0, 12)}`, signature, faces: [] }
+    this.people.set(person.id, person)
+    return person
+  }
+
+  private getExisting(personId: string): Person {
+    const person = this.people.get(personId)
+    if (!person) throw new Error(`Person ${personId} not found`)
+    return person
+  }
+
+  private setFacePerson(photoId: string, faceIndex: number, personId: string): void {
+    const faces = this.facePeople.get(photoId) || new Map<number, string>()
+    faces.set(faceIndex, personId)
+    this.facePeople.set(photoId, faces)
+  }
+}
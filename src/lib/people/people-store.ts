@@ -0,0 +1,43 @@
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
+import type { PeopleStore, Person } from '@/lib/types'
+
+/**
+ * People stored in one JSON file, e.g. `<library>/people.json`.
+ */
+export class FileSystemPeopleStore implements PeopleStore {
+  constructor(private readonly filePath: string) {}
+
+  public async load(): Promise<Person[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'))
+    } catch (error) {
+      if (error.code === 'ENOENT') return []
+      throw error
+    }
+  }
+
+  public async save(people: Person[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+
+    // Write to a temporary file first so readers never see a partial file
+    const temporaryPath = `${this.filePath}.${process.pid}.tmp`
+    await fs.writeFile(temporaryPath, JSON.stringify(people, null, 2))
+    await fs.rename(temporaryPath, this.filePath)
+  }
+}
+
+/**
+ * People kept in memory, e.g. for tests or short-lived processes.
+ */
+export class InMemoryPeopleStore implements PeopleStore {
+  private people: Person[] = []
+
+  public async load(): Promise<Person[]> {
+    return this.people
+  }
+
+  public async save(people: Person[]): Promise<void> {
+    this.people = people
+  }
+}
@@ -0,0 +1,47 @@
+import { PeopleIndex } from '@/lib/people/people-index'
+import { listUnknownPeople, matchesPersonConstraints, resolvePersonConstraints, scoreFocusFace } from '@/lib/people/person-constraints'
+import { createAnalyzedPhoto, createFace, createPersonFace } from '@/test/fixtures'
+
+describe('person constraints', () => {
+  const people = new PeopleIndex()
+  people.addPhoto(createAnalyzedPhoto('family', { analysis: { faces: [0, 1, 2].map(person => createPersonFace(person)) } }))
+  const [ada, grace, alan] = people.getPeopleInPhoto('family')
+  people.name(ada, 'Ada')
+  people.name(grace, 'Grace')
+  people.name(alan, 'Ada')
+
+  it('resolves names to everyone with that name and IDs to one person', () => {
+    const constraints = resolvePersonConstraints(people, { anyOf: ['ada'], allOf: [grace, 'ADA'], exclude: [alan] })
+
+    expect(constraints).toEqual({
+      anyOf: new Set([ada, alan]),
+      allOf: [new Set([grace]), new Set([ada, alan])],
+      exclude: new Set([alan]),
+      focus: new Set([ada, alan, grace])
+    })
+  })
+
+  it('names every reference that matches nobody', () => {
+    expect(listUnknownPeople(people, { anyOf: ['Bob', 'Ada'], exclude: ['Bob', 'Carol'] })).toEqual(['Bob', 'Carol'])
+    expect(() => resolvePersonConstraints(people, { allOf: ['Bob'] })).toThrow('People not found: Bob')
+  })
+
+  it('matches photos showing one of anyOf, all of allOf and nobody excluded', () => {
+    const constraints = resolvePersonConstraints(people, { anyOf: [ada, grace], allOf: [alan], exclude: ['Grace'] })
+
+    expect(matchesPersonConstraints([ada, alan], constraints)).toBe(true)
+    expect(matchesPersonConstraints([alan], constraints)).toBe(false)
+    expect(matchesPersonConstraints([ada], constraints)).toBe(false)
+    expect(matchesPersonConstraints([ada, grace, alan], constraints)).toBe(false)
+    expect(matchesPersonConstraints([], resolvePersonConstraints(people, {}))).toBe(true)
+  })
+
+  it('scores happy, large and sharp faces of a person higher', () => {
+    const clear = scoreFocusFace(createFace({ boundingBox: { left: 0.2, top: 0.2, width: 0.4, height: 0.4 } }))
+
+    expect(clear).toBeCloseTo(0.35 + 0.25 + 0.9 * 0.2 + 0.2)
+    expect(scoreFocusFace(createFace({ blurred: true }))).toBeLessThan(clear)
+    expect(scoreFocusFace(createFace({ emotions: { joy: 0, sorrow: 0, anger: 0, surprise: 0 } }))).toBeLessThan(clear)
+    expect(scoreFocusFace(createFace({ boundingBox: { left: 0.5, top: 0.5, width: 0.05, height: 0.05 } }))).toBeLessThan(clear)
+  })
+})
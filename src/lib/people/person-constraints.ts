@@ -0,0 +1,80 @@
+import type { PeopleIndex } from '@/lib/people/people-index'
+import type { FaceAnalysis, PersonConstraints } from '@/lib/types'
+
+/**
+ * Person constraints with every reference resolved to the IDs of the people it matches.
+ */
+export interface ResolvedPersonConstraints {
+  anyOf: Set<string>
+  // One set per required person, as a name can match several people
+  allOf: Array<Set<string>>
+  exclude: Set<string>
+  // People the photos are about, whose faces weigh more in the face interest score
+  focus: Set<string>
+}
+
+// Share of the face interest score that comes from the faces of the people asked for, the rest from all faces
+export const FOCUS_FACE_WEIGHT = 0.7
+
+// Faces at least this large, as the square root of the share of the image they cover, count as fully visible
+const FULL_FACE_SIZE = 0.4
+
+const listReferences = (constraints: PersonConstraints): string[] => [
+  ...(constraints.anyOf || []),
+  ...(constraints.allOf || []),
+  ...(constraints.exclude || [])
+]
+
+/**
+ * Lists the references in person constraints that match nobody.
+ * @param people - People of the collection
+ * @param constraints - Constraints naming people by ID or name
+ * @returns Unknown references, without duplicates
+ */
+export const listUnknownPeople = (people: PeopleIndex, constraints: PersonConstraints): string[] => [
+  ...new Set(listReferences(constraints).filter(reference => people.resolve(reference).length === 0))
+]
+
+/**
+ * Resolves the people named in constraints.
+ * @param people - People of the collection
+ * @param constraints - Constraints naming people by ID or name
+ * @returns Constraints on person IDs
+ * @throws Error when a reference matches nobody
+ */
+export const resolvePersonConstraints = (people: PeopleIndex, constraints: PersonConstraints): ResolvedPersonConstraints => {
+  const unknown = listUnknownPeople(people, constraints)
+  if (unknown.length > 0) throw new Error(`People not found: ${unknown.join(', ')}`)
+
+  const resolveAll = (references: string[] = []) => new Set(references.flatMap(reference => people.resolve(reference)))
+  const anyOf = resolveAll(constraints.anyOf)
+  const allOf = (constraints.allOf || []).map(reference => new Set(people.resolve(reference)))
+
+  return {
+    anyOf,
+    allOf,
+    exclude: resolveAll(constraints.exclude),
+    focus: new Set([...anyOf, ...allOf.flatMap(ids => [...ids])])
+  }
+}
+
+/**
+ * Checks whether the people in a photo satisfy constraints.
+ * @param peopleInPhoto - IDs of the people in the photo
+ * @param constraints - Resolved constraints
+ * @returns Whether the photo shows one of `anyOf` (if any), every person of `allOf` and nobody of `exclude`
+ */
+export const matchesPersonConstraints = (peopleInPhoto: string[], constraints: ResolvedPersonConstraints): boolean =>
+  (constraints.anyOf.size === 0 || peopleInPhoto.some(id => constraints.anyOf.has(id))) &&
+  constraints.allOf.every(ids => peopleInPhoto.some(id => ids.has(id))) &&
+  !peopleInPhoto.some(id => constraints.exclude.has(id))
+
+/**
+ * Scores how well a face shows the person it belongs to: how happy, large, sharp and confidently detected it is.
+ * @param face - Face of a person asked for
+ * @returns Score between 0 and 1
+ */
+export const scoreFocusFace = (face: FaceAnalysis): number => {
+  const size = Math.min(Math.sqrt(face.boundingBox.width * face.boundingBox.height) / FULL_FACE_SIZE, 1)
+  return face.emotions.joy * 0.35 + size * 0.25 + face.confidence * 0.2 + (face.blurred ? 0 : 0.2)
+}
@@ -0,0 +1,318 @@
+/**
+ * Cities for offline reverse geocoding, in the shape of GeoNames' cities files: name, ISO 3166-1 country code,
+ * latitude, longitude and population. Covers capitals and large or much-visited cities; extend it rather than calling
+ * an online geocoder, so place names work without network access.
+ */
+export type CityRecord = readonly [name: string, countryCode: string, latitude: number, longitude: number, population: number]
+
+export const COUNTRY_NAMES: Record<string, string> = {
+  AE: 'United Arab Emirates',
+  AR: 'Argentina',
+  AT: 'Austria',
+  AU: 'Australia',
+  BE: 'Belgium',
+  BG: 'Bulgaria',
+  BR: 'Brazil',
+  CA: 'Canada',
+  CH: 'Switzerland',
+  CL: 'Chile',
+  CN: 'China',
+  CO: 'Colombia',
+  CR: 'Costa Rica',
+  CU: 'Cuba',
+  CZ: 'Czechia',
+  DE: 'Germany',
+  DK: 'Denmark',
+  EE: 'Estonia',
+  EG: 'Egypt',
+  ES: 'Spain',
+  FI: 'Finland',
+  FR: 'France',
+  GB: 'United Kingdom',
+  GR: 'Greece',
+  HK: 'Hong Kong',
+  HR: 'Croatia',
+  HU: 'Hungary',
+  ID: 'Indonesia',
+  IE: 'Ireland',
+  IL: 'Israel',
+  IN: 'India',
+  IS: 'Iceland',
+  IT: 'Italy',
+  JO: 'Jordan',
+  JP: 'Japan',
+  KE: 'Kenya',
+  KR: 'South Korea',
+  LT: 'Lithuania',
+  LV: 'Latvia',
+  MA: 'Morocco',
+  MT: 'Malta',
+  MX: 'Mexico',
+  MY: 'Malaysia',
+  NG: 'Nigeria',
+  NL: 'Netherlands',
+  NO: 'Norway',
+  NP: 'Nepal',
+  NZ: 'New Zealand',
+  PE: 'Peru',
+  PH: 'Philippines',
+  PL: 'Poland',
+  PT: 'Portugal',
+  QA: 'Qatar',
+  RO: 'Romania',
+  RS: 'Serbia',
+  RU: 'Russia',
+  SA: 'Saudi Arabia',
+  SE: 'Sweden',
+  SG: 'Singapore',
+  SI: 'Slovenia',
+  SK: 'Slovakia',
+  TH: 'Thailand',
+  TR: 'Türkiye',
+  TW: 'Taiwan',
+  TZ: 'Tanzania',
+  UA: 'Ukraine',
+  US: 'United States',
+  UY: 'Uruguay',
+  VN: 'Vietnam',
+  ZA: 'South Africa'
+}
+
+export const CITIES: readonly CityRecord[] = [
+  // Europe
+  ['Lisbon', 'PT', 38.72, -9.14, 517802],
+  ['Porto', 'PT', 41.15, -8.61, 249633],
+  ['Faro', 'PT', 37.02, -7.93, 41355],
+  ['Funchal', 'PT', 32.67, -16.92, 111892],
+  ['Madrid', 'ES', 40.42, -3.7, 3255944],
+  ['Barcelona', 'ES', 41.39, 2.16, 1620343],
+  ['Valencia', 'ES', 39.47, -0.38, 814208],
+  ['Seville', 'ES', 37.38, -5.97, 703206],
+  ['Málaga', 'ES', 36.72, -4.42, 568305],
+  ['Granada', 'ES', 37.18, -3.6, 234758],
+  ['Bilbao', 'ES', 43.26, -2.93, 354860],
+  ['Palma', 'ES', 39.57, 2.65, 409661],
+  ['Las Palmas de Gran Canaria', 'ES', 28.1, -15.41, 378517],
+  ['Santa Cruz de Tenerife', 'ES', 28.47, -16.25, 206593],
+  ['Paris', 'FR', 48.85, 2.35, 2138551],
+  ['Marseille', 'FR', 43.3, 5.37, 870731],
+  ['Lyon', 'FR', 45.76, 4.84, 522969],
+  ['Nice', 'FR', 43.7, 7.27, 342669],
+  ['Bordeaux', 'FR', 44.84, -0.58, 260958],
+  ['Toulouse', 'FR', 43.6, 1.44, 493465],
+  ['Strasbourg', 'FR', 48.58, 7.75, 290576],
+  ['Nantes', 'FR', 47.22, -1.55, 320732],
+  ['London', 'GB', 51.51, -0.13, 8961989],
+  ['Edinburgh', 'GB', 55.95, -3.19, 488050],
+  ['Glasgow', 'GB', 55.86, -4.25, 635640],
+  ['Manchester', 'GB', 53.48, -2.24, 552858],
+  ['Liverpool', 'GB', 53.41, -2.98, 496784],
+  ['Birmingham', 'GB', 52.48, -1.9, 1144919],
+  ['Bristol', 'GB', 51.45, -2.59, 463400],
+  ['Oxford', 'GB', 51.75, -1.26, 152450],
+  ['Cambridge', 'GB', 52.2, 0.12, 145700],
+  ['Belfast', 'GB', 54.6, -5.93, 345418],
+  ['Dublin', 'IE', 53.35, -6.26, 1024027],
+  ['Cork', 'IE', 51.9, -8.47, 210000],
+  ['Amsterdam', 'NL', 52.37, 4.89, 872680],
+  ['Rotterdam', 'NL', 51.92, 4.48, 651446],
+  ['The Hague', 'NL', 52.08, 4.3, 548320],
+  ['Utrecht', 'NL', 52.09, 5.12, 361924],
+  ['Brussels', 'BE', 50.85, 4.35, 1218255],
+  ['Antwerp', 'BE', 51.22, 4.4, 529247],
+  ['Bruges', 'BE', 51.21, 3.22, 118284],
+  ['Berlin', 'DE', 52.52, 13.4, 3644826],
+  ['Hamburg', 'DE', 53.55, 9.99, 1841179],
+  ['Munich', 'DE', 48.14, 11.58, 1471508],
+  ['Cologne', 'DE', 50.94, 6.96, 1085664],
+  ['Frankfurt', 'DE', 50.11, 8.68, 753056],
+  ['Stuttgart', 'DE', 48.78, 9.18, 634830],
+  ['Düsseldorf', 'DE', 51.23, 6.78, 619294],
+  ['Leipzig', 'DE', 51.34, 12.37, 587857],
+  ['Dresden', 'DE', 51.05, 13.74, 556780],
+  ['Nuremberg', 'DE', 49.45, 11.08, 518365],
+  ['Vienna', 'AT', 48.21, 16.37, 1897491],
+  ['Salzburg', 'AT', 47.8, 13.04, 155021],
+  ['Innsbruck', 'AT', 47.26, 11.39, 132493],
+  ['Zurich', 'CH', 47.37, 8.54, 421878],
+  ['Geneva', 'CH', 46.2, 6.14, 203856],
+  ['Bern', 'CH', 46.95, 7.45, 133883],
+  ['Lucerne', 'CH', 47.05, 8.31, 82620],
+  ['Interlaken', 'CH', 46.69, 7.86, 5592],
+  ['Rome', 'IT', 41.9, 12.5, 2318895],
+  ['Milan', 'IT', 45.46, 9.19, 1371498],
+  ['Naples', 'IT', 40.85, 14.27, 959470],
+  ['Turin', 'IT', 45.07, 7.69, 870952],
+  ['Florence', 'IT', 43.77, 11.25, 382258],
+  ['Venice', 'IT', 45.44, 12.33, 258685],
+  ['Bologna', 'IT', 44.49, 11.34, 392203],
+  ['Palermo', 'IT', 38.12, 13.36, 668405],
+  ['Pisa', 'IT', 43.72, 10.4, 90118],
+  ['Verona', 'IT', 45.44, 10.99, 257353],
+  ['Amalfi', 'IT', 40.63, 14.6, 5163],
+  ['Valletta', 'MT', 35.9, 14.51, 6444],
+  ['Copenhagen', 'DK', 55.68, 12.57, 1153615],
+  ['Stockholm', 'SE', 59.33, 18.07, 975551],
+  ['Gothenburg', 'SE', 57.71, 11.97, 583056],
+  ['Oslo', 'NO', 59.91, 10.75, 697010],
+  ['Bergen', 'NO', 60.39, 5.32, 285911],
+  ['Tromsø', 'NO', 69.65, 18.96, 77544],
+  ['Helsinki', 'FI', 60.17, 24.94, 658864],
+  ['Reykjavík', 'IS', 64.15, -21.94, 135688],
+  ['Tallinn', 'EE', 59.44, 24.75, 437619],
+  ['Riga', 'LV', 56.95, 24.11, 614618],
+  ['Vilnius', 'LT', 54.69, 25.28, 580020],
+  ['Warsaw', 'PL', 52.23, 21.01, 1790658],
+  ['Kraków', 'PL', 50.06, 19.94, 780981],
+  ['Gdańsk', 'PL', 54.35, 18.65, 470907],
+  ['Wrocław', 'PL', 51.11, 17.03, 641928],
+  ['Prague', 'CZ', 50.09, 14.42, 1324277],
+  ['Brno', 'CZ', 49.2, 16.61, 381346],
+  ['Bratislava', 'SK', 48.15, 17.11, 475503],
+  ['Budapest', 'HU', 47.5, 19.04, 1752286],
+  ['Ljubljana', 'SI', 46.05, 14.51, 295504],
+  ['Zagreb', 'HR', 45.81, 15.98, 790017],
+  ['Split', 'HR', 43.51, 16.44, 178102],
+  ['Dubrovnik', 'HR', 42.65, 18.09, 42615],
+  ['Belgrade', 'RS', 44.8, 20.47, 1166763],
+  ['Bucharest', 'RO', 44.43, 26.1, 1877155],
+  ['Sofia', 'BG', 42.7, 23.32, 1236047],
+  ['Athens', 'GR', 37.98, 23.73, 664046],
+  ['Thessaloniki', 'GR', 40.64, 22.94, 325182],
+  ['Santorini', 'GR', 36.42, 25.43, 15550],
+  ['Heraklion', 'GR', 35.34, 25.13, 140730],
+  ['Istanbul', 'TR', 41.01, 28.98, 15462452],
+  ['Ankara', 'TR', 39.93, 32.86, 5503985],
+  ['Antalya', 'TR', 36.9, 30.7, 1344000],
+  ['Izmir', 'TR', 38.42, 27.14, 2847691],
+  ['Kyiv', 'UA', 50.45, 30.52, 2952301],
+  ['Lviv', 'UA', 49.84, 24.03, 717803],
+  ['Moscow', 'RU', 55.76, 37.62, 12506468],
+  ['Saint Petersburg', 'RU', 59.94, 30.31, 5351935],
+  // Middle East and Africa
+  ['Tel Aviv', 'IL', 32.09, 34.78, 460613],
+  ['Jerusalem', 'IL', 31.77, 35.21, 936425],
+  ['Amman', 'JO', 31.95, 35.93, 4007526],
+  ['Petra', 'JO', 30.33, 35.44, 1500],
+  ['Dubai', 'AE', 25.2, 55.27, 3331420],
+  ['Abu Dhabi', 'AE', 24.45, 54.38, 1483000],
+  ['Doha', 'QA', 25.29, 51.53, 956460],
+  ['Riyadh', 'SA', 24.71, 46.68, 7676654],
+  ['Cairo', 'EG', 30.04, 31.24, 9606916],
+  ['Luxor', 'EG', 25.69, 32.64, 506588],
+  ['Marrakesh', 'MA', 31.63, -7.99, 928850],
+  ['Casablanca', 'MA', 33.57, -7.59, 3144909],
+  ['Fes', 'MA', 34.03, -5, 1112072],
+  ['Cape Town', 'ZA', -33.92, 18.42, 4710000],
+  ['Johannesburg', 'ZA', -26.2, 28.05, 5635127],
+  ['Durban', 'ZA', -29.86, 31.02, 3442361],
+  ['Nairobi', 'KE', -1.29, 36.82, 4397073],
+  ['Zanzibar', 'TZ', -6.17, 39.2, 403658],
+  ['Dar es Salaam', 'TZ', -6.79, 39.21, 4364541],
+  ['Lagos', 'NG', 6.52, 3.38, 15388000],
+  // Asia and Oceania
+  ['Tokyo', 'JP', 35.69, 139.69, 13960000],
+  ['Osaka', 'JP', 34.69, 135.5, 2753862],
+  ['Kyoto', 'JP', 35.01, 135.77, 1463723],
+  ['Sapporo', 'JP', 43.06, 141.35, 1973395],
+  ['Hiroshima', 'JP', 34.39, 132.46, 1199391],
+  ['Fukuoka', 'JP', 33.59, 130.4, 1612392],
+  ['Nara', 'JP', 34.69, 135.8, 354630],
+  ['Seoul', 'KR', 37.57, 126.98, 9776000],
+  ['Busan', 'KR', 35.18, 129.08, 3429000],
+  ['Beijing', 'CN', 39.9, 116.4, 21540000],
+  ['Shanghai', 'CN', 31.23, 121.47, 24870895],
+  ['Guangzhou', 'CN', 23.13, 113.26, 18676605],
+  ['Shenzhen', 'CN', 22.54, 114.06, 17494398],
+  ['Chengdu', 'CN', 30.66, 104.07, 16330000],
+  ["Xi'an", 'CN', 34.26, 108.94, 12952907],
+  ['Hong Kong', 'HK', 22.32, 114.17, 7482500],
+  ['Taipei', 'TW', 25.03, 121.57, 2646204],
+  ['Bangkok', 'TH', 13.75, 100.5, 10539000],
+  ['Chiang Mai', 'TH', 18.79, 98.98, 127240],
+  ['Phuket', 'TH', 7.89, 98.4, 79308],
+  ['Hanoi', 'VN', 21.03, 105.85, 8053663],
+  ['Ho Chi Minh City', 'VN', 10.82, 106.63, 8993082],
+  ['Da Nang', 'VN', 16.05, 108.2, 1134310],
+  ['Kuala Lumpur', 'MY', 3.14, 101.69, 1808000],
+  ['Singapore', 'SG', 1.29, 103.85, 5685807],
+  ['Jakarta', 'ID', -6.21, 106.85, 10562088],
+  ['Denpasar', 'ID', -8.65, 115.22, 725314],
+  ['Ubud', 'ID', -8.51, 115.26, 74800],
+  ['Manila', 'PH', 14.6, 120.98, 1846513],
+  ['Mumbai', 'IN', 19.08, 72.88, 12442373],
+  ['Delhi', 'IN', 28.65, 77.23, 16787941],
+  ['Bengaluru', 'IN', 12.97, 77.59, 8443675],
+  ['Jaipur', 'IN', 26.91, 75.79, 3046163],
+  ['Agra', 'IN', 27.18, 78.01, 1585704],
+  ['Goa', 'IN', 15.5, 73.83, 114405],
+  ['Kathmandu', 'NP', 27.72, 85.32, 1442271],
+  ['Sydney', 'AU', -33.87, 151.21, 5312163],
+  ['Melbourne', 'AU', -37.81, 144.96, 5078193],
+  ['Brisbane', 'AU', -27.47, 153.03, 2560720],
+  ['Perth', 'AU', -31.95, 115.86, 2085973],
+  ['Adelaide', 'AU', -34.93, 138.6, 1359760],
+  ['Cairns', 'AU', -16.92, 145.77, 153952],
+  ['Hobart', 'AU', -42.88, 147.33, 240342],
+  ['Auckland', 'NZ', -36.85, 174.76, 1695200],
+  ['Wellington', 'NZ', -41.29, 174.78, 215400],
+  ['Queenstown', 'NZ', -45.03, 168.66, 29000],
+  ['Christchurch', 'NZ', -43.53, 172.64, 389300],
+  // Americas
+  ['New York', 'US', 40.71, -74.01, 8804190],
+  ['Los Angeles', 'US', 34.05, -118.24, 3898747],
+  ['Chicago', 'US', 41.88, -87.63, 2746388],
+  ['Houston', 'US', 29.76, -95.37, 2304580],
+  ['Phoenix', 'US', 33.45, -112.07, 1608139],
+  ['Philadelphia', 'US', 39.95, -75.17, 1603797],
+  ['San Antonio', 'US', 29.42, -98.49, 1434625],
+  ['San Diego', 'US', 32.72, -117.16, 1386932],
+  ['Dallas', 'US', 32.78, -96.8, 1304379],
+  ['Austin', 'US', 30.27, -97.74, 961855],
+  ['San Francisco', 'US', 37.77, -122.42, 873965],
+  ['San Jose', 'US', 37.34, -121.89, 1013240],
+  ['Seattle', 'US', 47.61, -122.33, 737015],
+  ['Portland', 'US', 45.52, -122.68, 652503],
+  ['Denver', 'US', 39.74, -104.99, 715522],
+  ['Las Vegas', 'US', 36.17, -115.14, 641903],
+  ['Salt Lake City', 'US', 40.76, -111.89, 199723],
+  ['Boston', 'US', 42.36, -71.06, 675647],
+  ['Washington', 'US', 38.9, -77.04, 689545],
+  ['Miami', 'US', 25.77, -80.19, 442241],
+  ['Orlando', 'US', 28.54, -81.38, 307573],
+  ['Atlanta', 'US', 33.75, -84.39, 498715],
+  ['Nashville', 'US', 36.16, -86.78, 689447],
+  ['New Orleans', 'US', 29.95, -90.07, 383997],
+  ['Minneapolis', 'US', 44.98, -93.27, 429954],
+  ['Detroit', 'US', 42.33, -83.05, 639111],
+  ['Honolulu', 'US', 21.31, -157.86, 350964],
+  ['Anchorage', 'US', 61.22, -149.9, 291247],
+  ['Toronto', 'CA', 43.65, -79.38, 2794356],
+  ['Montreal', 'CA', 45.5, -73.57, 1762949],
+  ['Vancouver', 'CA', 49.28, -123.12, 662248],
+  ['Calgary', 'CA', 51.05, -114.07, 1306784],
+  ['Ottawa', 'CA', 45.42, -75.7, 1017449],
+  ['Quebec City', 'CA', 46.81, -71.21, 549459],
+  ['Banff', 'CA', 51.18, -115.57, 8305],
+  ['Mexico City', 'MX', 19.43, -99.13, 9209944],
+  ['Guadalajara', 'MX', 20.67, -103.35, 1385629],
+  ['Cancún', 'MX', 21.16, -86.85, 888797],
+  ['Oaxaca', 'MX', 17.06, -96.73, 270955],
+  ['Havana', 'CU', 23.13, -82.38, 2130081],
+  ['San José', 'CR', 9.93, -84.08, 342188],
+  ['Bogotá', 'CO', 4.71, -74.07, 7743955],
+  ['Medellín', 'CO', 6.25, -75.56, 2533424],
+  ['Cartagena', 'CO', 10.39, -75.51, 1028736],
+  ['Lima', 'PE', -12.05, -77.04, 9751717],
+  ['Cusco', 'PE', -13.53, -71.97, 428450],
+  ['Santiago', 'CL', -33.45, -70.67, 6269384],
+  ['Buenos Aires', 'AR', -34.6, -58.38, 3075646],
+  ['Mendoza', 'AR', -32.89, -68.83, 1115041],
+  ['Ushuaia', 'AR', -54.8, -68.3, 82615],
+  ['Montevideo', 'UY', -34.9, -56.19, 1319108],
+  ['Rio de Janeiro', 'BR', -22.91, -43.17, 6747815],
+  ['São Paulo', 'BR', -23.55, -46.63, 12325232],
+  ['Salvador', 'BR', -12.97, -38.5, 2886698],
+  ['Brasília', 'BR', -15.79, -47.88, 3055149],
+  ['Florianópolis', 'BR', -27.6, -48.55, 508826]
+]
@@ -0,0 +1,88 @@
+import { PlaceIndex, dbscan } from '@/lib/places/place-index'
+import { createAnalyzedPhoto } from '@/test/fixtures'
+
+const LISBON = { latitude: 38.7223, longitude: -9.1393 }
+
+/**
+ * Moves a location by a number of meters north and east.
+ */
+const offset = (location: { latitude: number; longitude: number }, north: number, east = 0) => ({
+  latitude: location.latitude + north / 111_320,
+  longitude: location.longitude + east / (111_320 * Math.cos((location.latitude * Math.PI) / 180))
+})
+
+const SPOT = { radiusMeters: 100, minPhotos: 3 }
+
+describe('dbscan', () => {
+  it('finds dense groups and leaves outliers out', () => {
+    const locations = [
+      ...[0, 10, 20].map(meters => offset(LISBON, meters)),
+      ...[0, 10, 20].map(meters => offset(LISBON, 5000 + meters)),
+      offset(LISBON, 2500)
+    ]
+
+    expect(dbscan(locations, SPOT)).toEqual([0, 0, 0, 1, 1, 1, -1])
+  })
+
+  it('chains core locations together, and adds locations near the edge without growing from them', () => {
+    // The core at 0-15 m reaches 112 m, which has too few neighbors to be a core itself, so 200 m isn't reached
+    const locations = [0, 5, 10, 15, 112, 200].map(meters => offset(LISBON, meters))
+    const chain = [0, 80, 160, 240, 320, 400].map(meters => offset(LISBON, 0, meters))
+
+    expect(dbscan(locations, { radiusMeters: 100, minPhotos: 4 })).toEqual([0, 0, 0, 0, 0, -1])
+    expect(dbscan(chain, SPOT)).toEqual([0, 0, 0, 0, 0, 0])
+  })
+
+  it('finds neighbors across grid cells far from the equator', () => {
+    const svalbard = { latitude: 78.22, longitude: 15.65 }
+    const locations = [0, 60, 120].map(meters => offset(svalbard, 0, meters))
+
+    expect(dbscan([...locations, { latitude: -33.87, longitude: 151.21 }], SPOT)).toEqual([0, 0, 0, -1])
+  })
+
+  it('handles no locations', () => {
+    expect(dbscan([], SPOT)).toEqual([])
+  })
+})
+
+describe('PlaceIndex', () => {
+  const photos = [
+    ...[0, 20, 40].map(meters => createAnalyzedPhoto(`castle-${meters}`, { metadata: { location: offset(LISBON, meters) } })),
+    ...[0, 20, 40].map(meters => createAnalyzedPhoto(`tram-${meters}`, { metadata: { location: offset(LISBON, 600 + meters) } })),
+    createAnalyzedPhoto('porto', { metadata: { location: { latitude: 41.1579, longitude: -8.6291 } } }),
+    createAnalyzedPhoto('atlantic', { metadata: { location: { latitude: 38, longitude: -30 } } }),
+    createAnalyzedPhoto('unknown')
+  ]
+  const places = new PlaceIndex(photos)
+
+  it('clusters photos at every scale and names clusters after the nearest city', () => {
+    expect(places.list('spot').map(cluster => cluster.photoIds)).toEqual([
+      ['castle-0', 'castle-20', 'castle-40'],
+      ['tram-0', 'tram-20', 'tram-40']
+    ])
+    const [neighborhood] = places.list('neighborhood')
+    expect(neighborhood).toMatchObject({ id: 'neighborhood:castle-0', scale: 'neighborhood', name: 'Lisbon, Portugal' })
+    expect(neighborhood.photoIds).toHaveLength(6)
+    expect(neighborhood.radiusMeters).toBeGreaterThan(300)
+    expect(places.list()).toHaveLength(4)
+  })
+
+  it('looks up the clusters of a photo', () => {
+    expect(Object.keys(places.getPlacesOfPhoto('tram-20'))).toEqual(['spot', 'neighborhood', 'city'])
+    expect(places.getPlacesOfPhoto('porto')).toEqual({})
+  })
+
+  it('names outliers after the city nearest to them, if any', () => {
+    expect(places.getPlaceName('castle-0')).toBe('Lisbon, Portugal')
+    expect(places.getPlaceName('porto')).toBe('Porto, Portugal')
+    expect(places.getPlaceName('atlantic')).toBeUndefined()
+    expect(places.getPlaceName('unknown')).toBeUndefined()
+  })
+
+  it('takes other thresholds per scale', () => {
+    const strict = new PlaceIndex(photos, { spot: { radiusMeters: 100, minPhotos: 4 } })
+
+    expect(strict.list('spot')).toEqual([])
+    expect(strict.list('city')).toHaveLength(1)
+  })
+})
@@ -0,0 +1,193 @@
+import { calculateDistance } from '@/lib/distance'
+import { formatPlaceName, reverseGeocode } from '@/lib/places/reverse-geocoder'
+import type { EnhancedPhoto, PlaceCluster, PlaceClusteringOptions, PlaceScale } from '@/lib/types'
+
+interface Location {
+  latitude: number
+  longitude: number
+}
+
+export const PLACE_SCALES: readonly PlaceScale[] = ['spot', 'neighborhood', 'city']
+
+export const DEFAULT_PLACE_CLUSTERING_OPTIONS: PlaceClusteringOptions = {
+  spot: { radiusMeters: 100, minPhotos: 3 },
+  neighborhood: { radiusMeters: 1000, minPhotos: 3 },
+  city: { radiusMeters: 10_000, minPhotos: 3 }
+}
+
+const NOISE = -1
+const METERS_PER_DEGREE_LATITUDE = 111_320
+
+/**
+ * Clusters locations with DBSCAN over haversine distance. Neighbors are looked up in a grid of cells at least
+ * `radiusMeters` wide, so only nearby locations are compared. Longitudes aren't wrapped at the antimeridian.
+ * @param locations - Locations to cluster
+ * @param options - Neighborhood radius and the neighbors a location needs to be a cluster's core
+ * @returns Cluster index of each location, or -1 for outliers
+ */
+export const dbscan = (locations: Location[], options: PlaceClusteringOptions[PlaceScale]): number[] => {
+  const cellLatitude = options.radiusMeters / METERS_PER_DEGREE_LATITUDE
+  // Degrees of longitude shrink towards the poles, so cells are sized for the location closest to a pole
+  const maxLatitude = locations.reduce((max, location) => Math.max(max, Math.abs(location.latitude)), 0)
+  const cellLongitude = cellLatitude / Math.max(Math.cos((maxLatitude * Math.PI) / 180), 0.01)
+
+  const cellOf = (location: Location) => [Math.floor(location.latitude / cellLatitude), Math.floor(location.longitude / cellLongitude)]
+  const grid = new Map<string, number[]>()
+  // Locations not in a cluster yet, per cell, so expanding a dense cluster doesn't compare its members over and over
+  const unclustered = new Map<string, Set<number>>()
+  locations.forEach((location, index) => {
+    const key = cellOf(location).join(',')
+    const cell = grid.get(key)
+    if (cell) cell.push(index)
+    else grid.set(key, [index])
+    unclustered.set(key, (unclustered.get(key) || new Set()).add(index))
+  })
+
+  const forEachNearbyCell = <T>(index: number, cells: Map<string, T>, callback: (cell: T) => boolean | undefined) => {
+    const [row, column] = cellOf(locations[index])
+    for (let rowOffset = -1; rowOffset <= 1; rowOffset++) {
+      for (let columnOffset = -1; columnOffset <= 1; columnOffset++) {
+        const cell = cells.get(`${row + rowOffset},${column + columnOffset}`)
+        if (cell && callback(cell) === false) return
+      }
+    }
+  }
+  const isNeighbor = (index: number, candidate: number) =>
+    calculateDistance(locations[index], locations[candidate]) <= options.radiusMeters
+
+  // Stops counting as soon as there are enough neighbors
+  const isCore = (index: number): boolean => {
+    let count = 0
+    forEachNearbyCell(index, grid, cell => {
+      for (const candidate of cell) {
+        if (isNeighbor(index, candidate) && ++count >= options.minPhotos) return false
+      }
+      return true
+    })
+    return count >= options.minPhotos
+  }
+
+  const labels: Array<number | undefined> = new Array(locations.length).fill(undefined)
+  let cluster = 0
+  locations.forEach((_location, index) => {
+    if (labels[index] !== undefined) return
+    if (!isCore(index)) {
+      labels[index] = NOISE
+      return
+    }
+
+    // Each location is queued once, when it joins the cluster; outliers within reach of a core location join as its
+    // border, but aren't expanded since they were found not to be core locations
+    const queue: number[] = [index]
+    labels[index] = cluster
+    unclustered.get(cellOf(locations[index]).join(','))?.delete(index)
+    while (queue.length > 0) {
+      const current = queue.pop() as number
+      if (current !== index && !isCore(current)) continue
+
+      forEachNearbyCell(current, unclustered, cell => {
+        cell.forEach(candidate => {
+          if (!isNeighbor(current, candidate)) return
+          if (labels[candidate] === undefined) queue.push(candidate)
+          labels[candidate] = cluster
+          cell.delete(candidate)
+        })
+        return true
+      })
+    }
+    cluster++
+  })
+
+  return labels as number[]
+}
+
+/**
+ * Place clusters of a collection at every scale, named after the nearest city.
+ * Built from all photos at once, since density-based clusters depend on every location.
+ */
+export class PlaceIndex {
+  private readonly clusters: PlaceCluster[] = []
+  private readonly photoClusters = new Map<string, Partial<Record<PlaceScale, PlaceCluster>>>()
+  private readonly photoLocations = new Map<string, Location>()
+  private readonly photoNames = new Map<string, string | undefined>()
+
+  constructor(photos: Array<Pick<EnhancedPhoto, 'id' | 'metadata'>>, options: Partial<PlaceClusteringOptions> = {}) {
+    const settings = { ...DEFAULT_PLACE_CLUSTERING_OPTIONS, ...options }
+    const located = photos.flatMap(photo => (photo.metadata.location ? [{ id: photo.id, location: photo.metadata.location }] : []))
+    located.forEach(({ id, location }) => this.photoLocations.set(id, location))
+
+    for (const scale of PLACE_SCALES) {
+      const labels = dbscan(
+        located.map(({ location }) => location),
+        settings[scale]
+      )
+      const members = new Map<number, typeof located>()
+      labels.forEach((label, index) => {
+        if (label === NOISE) return
+        const cluster = members.get(label)
+        if (cluster) cluster.push(located[index])
+        else members.set(label, [located[index]])
+      })
+
+      members.forEach(photosOfCluster => {
+        const cluster = this.describeCluster(scale, photosOfCluster)
+        this.clusters.push(cluster)
+        cluster.photoIds.forEach(photoId => this.photoClusters.set(photoId, { ...this.photoClusters.get(photoId), [scale]: cluster }))
+      })
+    }
+  }
+
+  /**
+   * Lists clusters, those with the most photos first.
+   * @param scale - Only clusters of this scale
+   */
+  public list(scale?: PlaceScale): PlaceCluster[] {
+    return this.clusters
+      .filter(cluster => !scale || cluster.scale === scale)
+      .sort((a, b) => b.photoIds.length - a.photoIds.length || a.id.localeCompare(b.id))
+  }
+
+  /**
+   * Looks up the clusters a photo belongs to; scales at which the photo is an outlier are missing.
+   */
+  public getPlacesOfPhoto(photoId: string): Partial<Record<PlaceScale, PlaceCluster>> {
+    return this.photoClusters.get(photoId) || {}
+  }
+
+  /**
+   * Names the city a photo was taken in: its city cluster's name, or the city nearest to the photo itself when it's
+   * an outlier, so a single photo far from the others is still named.
+   * @returns Name like "Lisbon, Portugal", or undefined without a location or a city nearby
+   */
+  public getPlaceName(photoId: string): string | undefined {
+    const clusterName = this.photoClusters.get(photoId)?.city?.name
+    if (clusterName) return clusterName
+
+    const location = this.photoLocations.get(photoId)
+    if (!location) return undefined
+
+    if (!this.photoNames.has(photoId)) {
+      const place = reverseGeocode(location)
+      this.photoNames.set(photoId, place && formatPlaceName(place))
+    }
+    return this.photoNames.get(photoId)
+  }
+
+  private describeCluster(scale: PlaceScale, photos: Array<{ id: string; location: Location }>): PlaceCluster {
+    // Clusters are compact, so averaging coordinates is accurate enough away from the antimeridian
+    const center = {
+      latitude: photos.reduce((sum, photo) => sum + photo.location.latitude, 0) / photos.length,
+      longitude: photos.reduce((sum, photo) => sum + photo.location.longitude, 0) / photos.length
+    }
+    const place = reverseGeocode(center)
+
+    return {
+      id: `${scale}:${photos[0].id}`,
+      scale,
+      center,
+      radiusMeters: photos.reduce((max, photo) => Math.max(max, calculateDistance(center, photo.location)), 0),
+      photoIds: photos.map(photo => photo.id),
+      ...(place && { place, name: formatPlaceName(place) })
+    }
+  }
+}
@@ -0,0 +1,34 @@
+import type { CityRecord } from '@/lib/places/cities'
+import { formatPlaceName, reverseGeocode } from '@/lib/places/reverse-geocoder'
+
+describe('reverseGeocode', () => {
+  it('finds the nearest bundled city', () => {
+    const place = reverseGeocode({ latitude: 35.0, longitude: 135.75 })
+
+    expect(place).toMatchObject({ name: 'Kyoto', countryCode: 'JP', country: 'Japan' })
+    expect(place && formatPlaceName(place)).toBe('Kyoto, Japan')
+  })
+
+  it('finds nothing further than the distance limit', () => {
+    const nearParis = { latitude: 48.85, longitude: 2.9 }
+
+    expect(reverseGeocode(nearParis)?.name).toBe('Paris')
+    expect(reverseGeocode(nearParis, 30)).toBeUndefined()
+  })
+
+  it('searches other cities, naming countries it has no name for by code', () => {
+    const cities: CityRecord[] = [
+      ['Longyearbyen', 'SJ', 78.22, 15.65, 2368],
+      ['Barentsburg', 'SJ', 78.06, 14.23, 470]
+    ]
+
+    expect(reverseGeocode({ latitude: 78.2, longitude: 15.5 }, 50, cities)).toEqual({
+      name: 'Longyearbyen',
+      countryCode: 'SJ',
+      country: 'SJ',
+      latitude: 78.22,
+      longitude: 15.65,
+      population: 2368
+    })
+  })
+})
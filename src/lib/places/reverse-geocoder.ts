@@ -0,0 +1,34 @@
+import { calculateDistance } from '@/lib/distance'
+import { CITIES, COUNTRY_NAMES, type CityRecord } from '@/lib/places/cities'
+import type { GeoPlace } from '@/lib/types'
+
+// Photos further than this from every known city get no place name
+export const DEFAULT_MAX_PLACE_DISTANCE_KM = 50
+
+/**
+ * Finds the nearest city to a location, offline, from the bundled cities dataset.
+ * @param location - Where a photo or cluster is
+ * @param maxDistanceKm - Largest distance at which a city still names the location
+ * @param cities - Cities to search, e.g. a larger GeoNames extract
+ * @returns Nearest city, or undefined when none is close enough
+ */
+export const reverseGeocode = (
+  location: { latitude: number; longitude: number },
+  maxDistanceKm = DEFAULT_MAX_PLACE_DISTANCE_KM,
+  cities: readonly CityRecord[] = CITIES
+): GeoPlace | undefined => {
+  let nearest: { city: CityRecord; distance: number } | undefined
+  for (const city of cities) {
+    const distance = calculateDistance(location, { latitude: city[2], longitude: city[3] })
+    if (distance <= maxDistanceKm * 1000 && (!nearest || distance < nearest.distance)) nearest = { city, distance }
+  }
+  if (!nearest) return undefined
+
+  const [name, countryCode, latitude, longitude, population] = nearest.city
+  return { name, countryCode, country: COUNTRY_NAMES[countryCode] || countryCode, latitude, longitude, population }
+}
+
+/**
+ * Formats a place for captions, e.g. "Lisbon, Portugal".
+ */
+export const formatPlaceName = (place: GeoPlace): string => `${place.name}, ${place.country}`
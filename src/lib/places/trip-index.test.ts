@@ -0,0 +1,140 @@
+import { PlaceIndex } from '@/lib/places/place-index'
+import { DEFAULT_TRIP_DETECTION_OPTIONS, TripIndex, detectTrips, inferHomes, isAwayFromHome } from '@/lib/places/trip-index'
+import { createAnalyzedPhoto } from '@/test/fixtures'
+
+const LISBON = { latitude: 38.7223, longitude: -9.1393 }
+const PORTO = { latitude: 41.1579, longitude: -8.6291 }
+const FARO = { latitude: 37.0194, longitude: -7.9322 }
+
+const photoAt = (id: string, dateTime: Date, location?: { latitude: number; longitude: number }) =>
+  createAnalyzedPhoto(id, { dateTime, metadata: { ...(location && { location }) } })
+
+// Everyday photos around Lisbon on 12 days from January to March 2024
+const HOME_PHOTOS = Array.from({ length: 12 }, (_, index) =>
+  photoAt(`home-${index}`, new Date(2024, 0, 1 + index * 8, 18), {
+    latitude: LISBON.latitude + (index % 3) * 0.002,
+    longitude: LISBON.longitude + (index % 4) * 0.002
+  })
+)
+
+// Three days in Porto, with a photo without a location in between, then back home
+const PORTO_TRIP = [
+  photoAt('porto-bridge', new Date(2024, 4, 10, 11), PORTO),
+  photoAt('porto-river', new Date(2024, 4, 10, 16), { latitude: PORTO.latitude + 0.003, longitude: PORTO.longitude }),
+  photoAt('porto-dinner', new Date(2024, 4, 11, 20)),
+  photoAt('porto-tiles', new Date(2024, 4, 12, 10), { latitude: PORTO.latitude, longitude: PORTO.longitude + 0.003 }),
+  photoAt('back-home', new Date(2024, 4, 13, 9), LISBON)
+]
+
+const createTrips = (photos = [...HOME_PHOTOS, ...PORTO_TRIP]) => {
+  const places = new PlaceIndex(photos)
+  const homes = inferHomes(photos, places.list('city'), DEFAULT_TRIP_DETECTION_OPTIONS)
+  return { places, homes, trips: detectTrips(photos, homes, places, DEFAULT_TRIP_DETECTION_OPTIONS) }
+}
+
+describe('inferHomes', () => {
+  it('finds places photographed on many days over a long period', () => {
+    const { homes } = createTrips()
+
+    expect(homes).toEqual([
+      expect.objectContaining({
+        id: 'city:home-0',
+        name: 'Lisbon, Portugal',
+        activeDays: 13,
+        firstSeen: new Date(2024, 0, 1, 18),
+        lastSeen: new Date(2024, 4, 13, 9)
+      })
+    ])
+  })
+
+  it("doesn't take a busy trip for a home", () => {
+    const busyTrip = Array.from({ length: 30 }, (_, index) =>
+      photoAt(`porto-${index}`, new Date(2024, 4, 10 + (index % 5), 10 + index), PORTO)
+    )
+    const places = new PlaceIndex(busyTrip)
+
+    expect(inferHomes(busyTrip, places.list('city'), DEFAULT_TRIP_DETECTION_OPTIONS)).toEqual([])
+  })
+
+  it('keeps further homes used often enough compared to the main one', () => {
+    const holidayHome = Array.from({ length: 10 }, (_, index) => photoAt(`faro-${index}`, new Date(2024, 5, 1 + index * 7, 12), FARO))
+    const photos = [...HOME_PHOTOS, ...holidayHome]
+    const clusters = new PlaceIndex(photos).list('city')
+
+    expect(inferHomes(photos, clusters, DEFAULT_TRIP_DETECTION_OPTIONS).map(home => home.name)).toEqual([
+      'Lisbon, Portugal',
+      'Faro, Portugal'
+    ])
+    expect(
+      inferHomes(photos, clusters, { ...DEFAULT_TRIP_DETECTION_OPTIONS, secondaryHomeShare: 0.9 }).map(home => home.name)
+    ).toEqual(['Lisbon, Portugal'])
+  })
+})
+
+describe('isAwayFromHome', () => {
+  it('measures from the edge of every home', () => {
+    const { homes } = createTrips()
+
+    expect(isAwayFromHome(PORTO, homes, DEFAULT_TRIP_DETECTION_OPTIONS)).toBe(true)
+    expect(
+      isAwayFromHome({ latitude: LISBON.latitude + 0.1, longitude: LISBON.longitude }, homes, DEFAULT_TRIP_DETECTION_OPTIONS)
+    ).toBe(false)
+    expect(isAwayFromHome(PORTO, [], DEFAULT_TRIP_DETECTION_OPTIONS)).toBe(false)
+  })
+})
+
+describe('detectTrips', () => {
+  it('groups photos taken away until the return home', () => {
+    const { trips } = createTrips()
+
+    expect(trips).toEqual([
+      {
+        id: 'trip:porto-bridge',
+        start: new Date(2024, 4, 10, 11),
+        end: new Date(2024, 4, 12, 10),
+        destinations: ['Porto, Portugal'],
+        maxDistanceKm: expect.closeTo(275, -1),
+        photoIds: ['porto-bridge', 'porto-river', 'porto-dinner', 'porto-tiles']
+      }
+    ])
+  })
+
+  it('ends trips after a long gap and leaves out outings with few photos', () => {
+    const later = [4, 5, 6].map(day => photoAt(`porto-june-${day}`, new Date(2024, 5, day, 12), PORTO))
+    const outing = [photoAt('faro-beach', new Date(2024, 6, 1, 12), FARO), photoAt('faro-sunset', new Date(2024, 6, 1, 20), FARO)]
+    const { trips } = createTrips([...HOME_PHOTOS, ...PORTO_TRIP.slice(0, 4), ...later, ...outing])
+
+    expect(trips.map(trip => trip.id)).toEqual(['trip:porto-bridge', 'trip:porto-june-4'])
+    expect(trips[0].photoIds).not.toContain('porto-june-4')
+  })
+
+  it('finds no trips without a home', () => {
+    const photos = PORTO_TRIP.slice(0, 4)
+
+    expect(detectTrips(photos, [], new PlaceIndex(photos), DEFAULT_TRIP_DETECTION_OPTIONS)).toEqual([])
+  })
+})
+
+describe('TripIndex', () => {
+  const photos = [...HOME_PHOTOS, ...PORTO_TRIP]
+  const index = new TripIndex(photos, new PlaceIndex(photos))
+
+  it('lists homes and the trips overlapping a time range', () => {
+    expect(index.listHomes().map(home => home.name)).toEqual(['Lisbon, Portugal'])
+    expect(index.listTrips()).toHaveLength(1)
+    expect(index.listTrips({ start: new Date(2024, 4, 12), end: new Date(2024, 4, 31) })).toHaveLength(1)
+    expect(index.listTrips({ start: new Date(2024, 4, 13), end: new Date(2024, 4, 31) })).toEqual([])
+  })
+
+  it('tells which photos were taken at home', () => {
+    expect(index.isAtHome('home-3')).toBe(true)
+    expect(index.isAtHome('back-home')).toBe(true)
+    expect(index.isAtHome('porto-bridge')).toBe(false)
+    // Without a location, a photo isn't known to be at home
+    expect(index.isAtHome('porto-dinner')).toBe(false)
+  })
+
+  it('takes other thresholds', () => {
+    expect(new TripIndex(photos, new PlaceIndex(photos), { minActiveDays: 20 }).listHomes()).toEqual([])
+  })
+})
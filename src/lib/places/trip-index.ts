@@ -0,0 +1,190 @@
+import { calculateDistance } from '@/lib/distance'
+import type { PlaceIndex } from '@/lib/places/place-index'
+import type { EnhancedPhoto, HomeBase, PlaceCluster, Trip, TripDetectionOptions } from '@/lib/types'
+
+interface Location {
+  latitude: number
+  longitude: number
+}
+
+export const DEFAULT_TRIP_DETECTION_OPTIONS: TripDetectionOptions = {
+  minActiveDays: 10,
+  minSpanDays: 60,
+  secondaryHomeShare: 0.25,
+  awayDistanceKm: 25,
+  maxGapDays: 3,
+  minPhotos: 3
+}
+
+const DAY_MS = 86_400_000
+
+// Calendar day in local time, so photos taken late in the evening count for the day they were taken
+const getDayKey = (date: Date): string => `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`
+
+/**
+ * Infers homes from city clusters: places photographed on many different days over a long period, rather than in one
+ * burst of photos like a trip.
+ * @param photos - Photos of the collection
+ * @param clusters - City clusters of the collection
+ * @param options - Thresholds for homes
+ * @returns Homes, the one with the most days with photos first
+ */
+export const inferHomes = (
+  photos: Array<Pick<EnhancedPhoto, 'id' | 'dateTime'>>,
+  clusters: PlaceCluster[],
+  options: TripDetectionOptions
+): HomeBase[] => {
+  const photosById = new Map(photos.map(photo => [photo.id, photo]))
+
+  const candidates = clusters
+    .map(cluster => {
+      const dates = cluster.photoIds.flatMap(id => photosById.get(id)?.dateTime || []).sort((a, b) => a.getTime() - b.getTime())
+      return { cluster, dates, activeDays: new Set(dates.map(getDayKey)).size }
+    })
+    .filter(
+      ({ dates, activeDays }) =>
+        dates.length > 0 &&
+        activeDays >= options.minActiveDays &&
+        dates[dates.length - 1].getTime() - dates[0].getTime() >= options.minSpanDays * DAY_MS
+    )
+    .sort((a, b) => b.activeDays - a.activeDays || a.cluster.id.localeCompare(b.cluster.id))
+  if (candidates.length === 0) return []
+
+  const minActiveDays = candidates[0].activeDays * options.secondaryHomeShare
+  return candidates
+    .filter(({ activeDays }) => activeDays >= minActiveDays)
+    .map(({ cluster, dates, activeDays }) => ({
+      id: cluster.id,
+      center: cluster.center,
+      radiusMeters: cluster.radiusMeters,
+      ...(cluster.name && { name: cluster.name }),
+      activeDays,
+      firstSeen: dates[0],
+      lastSeen: dates[dates.length - 1]
+    }))
+}
+
+/**
+ * Measures how far a location is from the nearest home's center.
+ * @returns Distance in kilometers, or undefined without homes
+ */
+const getDistanceFromHome = (location: Location, homes: HomeBase[]): number | undefined =>
+  homes.reduce<number | undefined>((nearest, home) => {
+    const distance = calculateDistance(location, home.center) / 1000
+    return nearest === undefined || distance < nearest ? distance : nearest
+  }, undefined)
+
+/**
+ * Checks whether a location is away from home: further than `awayDistanceKm` from the edge of every home.
+ */
+export const isAwayFromHome = (location: Location, homes: HomeBase[], options: TripDetectionOptions): boolean =>
+  homes.length > 0 &&
+  homes.every(home => calculateDistance(location, home.center) / 1000 - home.radiusMeters / 1000 > options.awayDistanceKm)
+
+/**
+ * Detects trips: runs of photos taken away from home, until a photo is taken at home or nothing is taken away for more
+ * than `maxGapDays`. Photos without a location taken between photos of a trip belong to the trip.
+ * @param photos - Photos of the collection, in any order
+ * @param homes - Homes of the collection; without any, nothing counts as away
+ * @param places - Place clusters, to name destinations
+ * @param options - Thresholds for trips
+ * @returns Trips in chronological order
+ */
+export const detectTrips = (photos: EnhancedPhoto[], homes: HomeBase[], places: PlaceIndex, options: TripDetectionOptions): Trip[] => {
+  if (homes.length === 0) return []
+
+  const sorted = [...photos].sort((a, b) => a.dateTime.getTime() - b.dateTime.getTime())
+  const runs: EnhancedPhoto[][] = []
+  let current: EnhancedPhoto[] | undefined
+  // Photos without a location since the last photo taken away; they join the trip only if it goes on
+  let pending: EnhancedPhoto[] = []
+
+  for (const photo of sorted) {
+    const { location } = photo.metadata
+    if (!location) {
+      if (current) pending.push(photo)
+      continue
+    }
+
+    if (!isAwayFromHome(location, homes, options)) {
+      current = undefined
+    } else if (current && photo.dateTime.getTime() - current[current.length - 1].dateTime.getTime() <= options.maxGapDays * DAY_MS) {
+      current.push(...pending, photo)
+    } else {
+      current = [photo]
+      runs.push(current)
+    }
+    pending = []
+  }
+
+  return runs
+    .filter(run => run.filter(photo => photo.metadata.location).length >= options.minPhotos)
+    .map(run => describeTrip(run, homes, places))
+}
+
+/**
+ * Describes the photos of one trip.
+ * @param photos - Photos of the trip, sorted by time
+ */
+const describeTrip = (photos: EnhancedPhoto[], homes: HomeBase[], places: PlaceIndex): Trip => {
+  const destinationCounts = new Map<string, number>()
+  photos.forEach(photo => {
+    const name = places.getPlaceName(photo.id)
+    if (name) destinationCounts.set(name, (destinationCounts.get(name) || 0) + 1)
+  })
+
+  return {
+    id: `trip:${photos[0].id}`,
+    start: photos[0].dateTime,
+    end: photos[photos.length - 1].dateTime,
+    destinations: [...destinationCounts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([name]) => name),
+    maxDistanceKm: photos.reduce(
+      (max, photo) => (photo.metadata.location ? Math.max(max, getDistanceFromHome(photo.metadata.location, homes) || 0) : max),
+      0
+    ),
+    photoIds: photos.map(photo => photo.id)
+  }
+}
+
+/**
+ * Homes and trips of a collection. Built from all photos at once, since homes depend on every location.
+ */
+export class TripIndex {
+  private readonly homes: HomeBase[]
+  private readonly trips: Trip[]
+  private readonly photosAtHome = new Set<string>()
+
+  constructor(photos: EnhancedPhoto[], places: PlaceIndex, options: Partial<TripDetectionOptions> = {}) {
+    const settings = { ...DEFAULT_TRIP_DETECTION_OPTIONS, ...options }
+    this.homes = inferHomes(photos, places.list('city'), settings)
+    this.trips = detectTrips(photos, this.homes, places, settings)
+
+    if (this.homes.length === 0) return
+    photos.forEach(photo => {
+      const { location } = photo.metadata
+      if (location && !isAwayFromHome(location, this.homes, settings)) this.photosAtHome.add(photo.id)
+    })
+  }
+
+  /**
+   * Lists homes, the one with the most days with photos first.
+   */
+  public listHomes(): HomeBase[] {
+    return this.homes
+  }
+
+  /**
+   * Lists trips in chronological order.
+   * @param timeRange - Only trips overlapping this range
+   */
+  public listTrips(timeRange?: { start: Date; end: Date }): Trip[] {
+    return this.trips.filter(trip => !timeRange || (trip.end >= timeRange.start && trip.start <= timeRange.end))
+  }
+
+  /**
+   * Checks whether a photo was taken at home, i.e. within `awayDistanceKm` of one; photos without a location aren't.
+   */
+  public isAtHome(photoId: string): boolean {
+    return this.photosAtHome.has(photoId)
+  }
+}
@@ -9,6 +9,8 @@ export type GoogleImageProperties = protos.google.cloud.vision.v1.IImageProperti
 export type GoogleWebDetection = protos.google.cloud.vision.v1.IWebDetection
 export type GoogleSafeSearchAnnotation = protos.google.cloud.vision.v1.ISafeSearchAnnotation
 export type AnnotateImageResponse = google.cloud.vision.v1.AnnotateImageResponse
+export type GoogleAnnotateImageResponse = protos.google.cloud.vision.v1.IAnnotateImageResponse
+export type GoogleFeature = protos.google.cloud.vision.v1.IFeature
 
 export interface Photo {
   id: string
@@ -17,6 +19,56 @@ export interface Photo {
   dateTime: Date
   metadata: PhotoMetadata
   interactions: PhotoInteractions
+  // Displayed size of the image; read from the image headers when not provided
+  dimensions?: ImageDimensions
+  source?: PhotoSourceInfo
+}
+
+/**
+ * Where a photo came from.
+ */
+export interface PhotoSourceInfo {
+  // Name of the source, also used as the prefix of photo IDs, e.g. "google" or "dropbox"
+  name: string
+  // The source's own identifier for the photo, e.g. a media item ID or file path
+  ref: string
+  // Source-specific details that don't map onto PhotoMetadata
+  metadata?: Record<string, unknown>
+}
+
+/**
+ * A photo listed by a source whose bytes haven't been downloaded yet.
+ * Its `id` is source-qualified ("<source>:<ref>") and stable across runs.
+ */
+export interface SourcePhoto extends Omit<Photo, 'buffer' | 'source'> {
+  source: PhotoSourceInfo
+  loadBuffer(): Promise<Buffer>
+}
+
+/**
+ * A photo stored without its bytes, identified by the SHA-256 of its content.
+ */
+export interface PhotoRecord extends Omit<Photo, 'buffer'> {
+  contentHash: string
+}
+
+/**
+ * A collection of photos that can be listed and loaded lazily.
+ */
+export interface PhotoSource {
+  readonly name: string
+  photos(): AsyncIterable<SourcePhoto>
+  // Saves sync progress after the listed photos were ingested, so incremental sources only list later changes next time
+  commit?(): Promise<void>
+  // Releases files or connections held open so listed photos can be loaded
+  close?(): void
+}
+
+export interface ImageDimensions {
+  // Width and height as displayed, i.e. after applying EXIF orientation
+  width: number
+  height: number
+  orientation?: number
 }
 
 export interface PhotoMetadata {
@@ -27,12 +79,44 @@ export interface PhotoMetadata {
     longitude: number
   }
   tags?: string[]
+  camera?: CameraInfo
+  burstId?: string
+}
+
+export interface CameraInfo {
+  make?: string
+  model?: string
+  // Focal length in millimeters
+  focalLength?: number
+  iso?: number
+  // Exposure time in seconds
+  exposureTime?: number
+}
+
+/**
+ * Metadata read from a photo's embedded EXIF block.
+ */
+export interface ExifData {
+  dateTimeOriginal?: Date
+  // Whether dateTimeOriginal was anchored to a UTC offset rather than interpreted as local time
+  hasTimeZone?: boolean
+  location?: {
+    latitude: number
+    longitude: number
+    altitude?: number
+  }
+  orientation?: number
+  // Identifier shared by all frames of a burst, when the camera records one
+  burstId?: string
+  camera: CameraInfo
 }
 
 export interface PhotoInteractions {
   viewCount: number
   shareCount: number
   isEdited: boolean
+  // Marked as a favorite in the source, e.g. starred in Google Photos
+  isFavorite?: boolean
   lastViewed?: Date
 }
 
@@ -45,6 +129,7 @@ export interface FaceAnalysis {
   headwear: boolean
 }
 
+// Coordinates are normalized to 0-1 relative to the displayed image
 export interface BoundingBox {
   left: number
   top: number
@@ -106,9 +191,47 @@ export interface QualityMetrics {
   exposureScore: number
   noiseScore: number
   compositionScore: number
+  // Engine that produced blur, exposure and noise scores; older analyses without it used Vision heuristics
+  source?: QualityEngine
+  pixel?: PixelQualityMetrics
+}
+
+export type QualityEngine = 'pixel' | 'vision'
+
+/**
+ * Returns the current time; injected so tests can simulate any date.
+ */
+export type Clock = () => Date
+
+/**
+ * Raw measurements taken from the decoded image by the pixel quality engine.
+ */
+export interface PixelQualityMetrics {
+  // Variance of the Laplacian over the whole image
+  laplacianVariance: number
+  // Variance of the Laplacian in the sharpest regions, robust to intentionally blurred backgrounds
+  focusVariance: number
+  // Mean luminance between 0 and 1
+  meanLuminance: number
+  // Fraction of pixels at or near pure white
+  clippedHighlights: number
+  // Fraction of pixels at or near pure black
+  clippedShadows: number
+  // Estimated standard deviation of noise in flat regions, on a 0-255 scale
+  noiseSigma: number
+}
+
+export interface ImageHashes {
+  // SHA-256 of the image bytes, identifying exact copies
+  content: string
+  // 64-bit difference and DCT perceptual hashes as hex; missing when the image couldn't be decoded
+  dHash?: string
+  pHash?: string
 }
 
 export interface PhotoAnalysis {
+  dimensions: ImageDimensions
+  hashes: ImageHashes
   faces: FaceAnalysis[]
   labels: Label[]
   landmarks: Landmark[]
@@ -116,15 +239,30 @@ export interface PhotoAnalysis {
   webDetection: GoogleWebDetection
   safeSearch: GoogleSafeSearchAnnotation
   quality: QualityMetrics
+  // Place clusters need every photo's location and are kept by the selector, see `getPlaces`
   clustering: {
     timeGroup: string
-    locationGroup: string
   }
 }
 
 export interface EnhancedPhoto extends Photo {
   analysis: PhotoAnalysis
   scores?: PhotoScores
+  // Set on the frame chosen to represent a burst
+  burst?: BurstInfo
+  // Set when scoring: the city the photo was taken in, e.g. "Lisbon, Portugal"
+  place?: string
+}
+
+/**
+ * A run of near-identical frames of the same moment.
+ */
+export interface BurstInfo {
+  id: string
+  // All frames of the burst ranked best first, so a UI can offer the runners-up as swaps
+  memberIds: string[]
+  start: Date
+  end: Date
 }
 
 export interface PhotoScores {
@@ -134,9 +272,110 @@ export interface PhotoScores {
   uniqueness: number
   relevance: number
   temporal: number
+  // How much the user engaged with the photo compared to the rest of the collection
+  engagement: number
   final: number
 }
 
+/**
+ * Sub-scores behind the composite scores, each between 0 and 1.
+ */
+export interface ScoreComponents {
+  // Quality metrics behind the quality score
+  quality: {
+    blur: number
+    exposure: number
+    noise: number
+    composition: number
+  }
+  interest: {
+    faces: number
+    landmarks: number
+    labels: number
+    web: number
+  }
+  uniqueness: {
+    labels: number
+    visual: number
+    // Average of color and layout uniqueness
+    composition: number
+    color: number
+    layout: number
+  }
+  engagement: {
+    // View and share counts relative to the most viewed and shared photos in the collection
+    views: number
+    shares: number
+    edited: number
+    favorite: number
+  }
+  // Fraction taken off the final score because the photo was viewed recently
+  viewRecencyPenalty: number
+  // Factor the final score was multiplied by because the photo was taken at home, 1 for other photos
+  homeWeight: number
+}
+
+/**
+ * Why a photo was or wasn't selected as a highlight, in the order the selection checks them.
+ * - below_min_quality: its quality score is below `minQuality`
+ * - person_constraint: the people in it don't match the `people` constraints
+ * - burst_member: a better frame of the same burst represents it
+ * - similar_photo: a better-scoring photo of its group of similar photos was preferred
+ * - not_diverse: it's too similar to a photo selected before it
+ * - event_full: its event already had its share of better photos
+ * - limit_reached: every slot was taken before its turn, by better photos or by photos of other events
+ * - people_coverage: it gave up its slot so a frequently photographed person appears in the highlights
+ */
+export type SelectionReason =
+  | 'selected'
+  | 'below_min_quality'
+  | 'person_constraint'
+  | 'burst_member'
+  | 'similar_photo'
+  | 'not_diverse'
+  | 'event_full'
+  | 'limit_reached'
+  | 'people_coverage'
+
+export interface PhotoExplanation {
+  id: string
+  dateTime: Date
+  scores: PhotoScores
+  components: ScoreComponents
+  selected: boolean
+  // 1-based rank among the highlights
+  rank?: number
+  reason: SelectionReason
+  // Photo that took its place; missing for selected photos and those below the quality threshold
+  beatenBy?: string
+}
+
+export interface SelectionExplanation {
+  highlights: EnhancedPhoto[]
+  // Every photo in the pool, best final score first
+  photos: PhotoExplanation[]
+  // Events the time range was split into, in chronological order, with the highlight slots each was given
+  events: Array<PhotoEvent & { slots: number }>
+}
+
+/**
+ * A stretch of the timeline photographed as one occasion, e.g. an outing, a party or one day of a trip.
+ */
+export interface PhotoEvent {
+  // ID of the event's first photo, prefixed with "event:"
+  id: string
+  start: Date
+  end: Date
+  // Mean position of the photos with a location; missing when none has one
+  centroid?: {
+    latitude: number
+    longitude: number
+  }
+  // Labels on the most photos of the event, most common first
+  dominantLabels: string[]
+  photoIds: string[]
+}
+
 export interface HighlightOptions {
   limit: number
   timeRange: {
@@ -145,6 +384,7 @@ export interface HighlightOptions {
   }
   minQuality: number
   preferredTypes: string[]
+  // Overrides the profile's score weights
   weights?: {
     quality?: number
     interest?: number
@@ -152,6 +392,87 @@ export interface HighlightOptions {
     uniqueness?: number
     relevance?: number
     temporal?: number
+    engagement?: number
+  }
+  // Tuning values for scoring and selection; the selector's profile is used when missing
+  profile?: ScoringProfile
+  // Weights learned from a user's feedback, blended into the profile's weights by how much feedback they're based on
+  learnedWeights?: LearnedWeights
+  // Every person appearing in at least `minPhotos` candidate photos gets at least one highlight, as far as the limit allows
+  peopleCoverage?: {
+    minPhotos: number
+  }
+  // Only photos of these people, whose faces then count more towards the face interest score
+  people?: PersonConstraints
+  // Final scores of photos taken at home are multiplied by this, e.g. 0.7, so trips and outings stand out in a year's highlights
+  homePhotoWeight?: number
+}
+
+/**
+ * People a photo must or mustn't show. People are referred to by ID or by name, ignoring case.
+ */
+export interface PersonConstraints {
+  // At least one of these people
+  anyOf?: string[]
+  // Every one of these people
+  allOf?: string[]
+  // None of these people
+  exclude?: string[]
+}
+
+/**
+ * Tuning values for scoring and selecting highlights. Weights within a group don't need to sum to 1.
+ * Analysis-time measurements (e.g. pixel blur and exposure scoring) are part of the cached analysis and not covered.
+ */
+export interface ScoringProfile {
+  name?: string
+  // Weights of the composite scores in the final score
+  weights: Required<NonNullable<HighlightOptions['weights']>>
+  // Weights of the quality metrics in the quality score
+  quality: ScoreComponents['quality']
+  // Weights of the interest sub-scores in the interest score
+  interest: ScoreComponents['interest']
+  // Weights of the uniqueness sub-scores in the uniqueness score
+  uniqueness: Omit<ScoreComponents['uniqueness'], 'color' | 'layout'>
+  // Weights of the engagement signals in the engagement score
+  engagement: ScoreComponents['engagement']
+  // Photos viewed recently are resurfaced less: the final score is reduced by up to `maxPenalty`,
+  // halving every `halfLifeDays` since the last view
+  viewRecency: {
+    maxPenalty: number
+    halfLifeDays: number
+  }
+  // Label keywords by category; labels containing a keyword raise the label interest score
+  interestingCategories: Record<string, string[]>
+  similarity: {
+    // Photos taken further apart in time or space are never grouped, unless their hashes match
+    timeWindowMinutes: number
+    maxDistanceMeters: number
+    // Perceptual hash distance (in bits) at or below which photos are duplicates regardless of time
+    duplicateHashDistance: number
+    // Perceptual hash distance at or below which photos taken close together are the same shot
+    nearDuplicateHashDistance: number
+    // Weights of label, web entity and visual feature similarity
+    weights: {
+      labels: number
+      webEntities: number
+      visualFeatures: number
+    }
+    // Combined similarity above which photos are grouped
+    threshold: number
+  }
+  // How the time range is split into events, which share the highlights between them
+  events: {
+    // Gaps between photos shorter than this never split an event
+    minGapMinutes: number
+    // Gaps longer than this always do
+    maxGapHours: number
+    // In between, a gap splits when it's this many times the median of the gaps around it
+    gapFactor: number
+    // Consecutive photos taken further apart than this belong to different events, however close in time
+    locationJumpKm: number
+    // Gaps of at least `minGapMinutes` also split when the labels before and after overlap less than this (0-1)
+    labelShiftSimilarity: number
   }
 }
 
@@ -160,11 +481,317 @@ export interface LabelFrequencies {
   combinations: Map<string, number>
 }
 
+/**
+ * Backend capable of annotating images with Vision features.
+ * Responses use the Google `AnnotateImageResponse` shape so scoring is independent of the backend.
+ */
+export interface VisionProvider {
+  readonly name: string
+  annotateImage(image: Buffer, features: GoogleFeature[]): Promise<GoogleAnnotateImageResponse>
+  /**
+   * Annotates several images in one request.
+   * Returns one response per image in input order; per-image failures are reported through `response.error`.
+   */
+  batchAnnotateImages(images: Buffer[], features: GoogleFeature[]): Promise<GoogleAnnotateImageResponse[]>
+}
+
+export interface AnnotationPipelineOptions {
+  // Number of images sent per batchAnnotateImages request
+  batchSize: number
+  // Number of batch requests in flight at once
+  concurrency: number
+  // Maximum images annotated per minute, matching how Vision counts quota
+  requestsPerMinute: number
+  // Attempts per image before giving up on retryable errors
+  maxAttempts: number
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+/**
+ * Cached Vision analysis for one image, keyed by image content and requested feature set.
+ */
+export interface AnalysisCacheEntry {
+  contentHash: string
+  featureFingerprint: string
+  response: GoogleAnnotateImageResponse
+  analysis: PhotoAnalysis
+  createdAt: Date
+}
+
+/**
+ * Persistent store of Vision analysis results.
+ */
+export interface AnalysisCache {
+  get(contentHash: string, featureFingerprint: string): Promise<AnalysisCacheEntry | undefined>
+  set(entry: AnalysisCacheEntry): Promise<void>
+  /**
+   * Removes entries computed with a different feature fingerprint than the current one.
+   * @returns Number of removed entries
+   */
+  prune(currentFingerprint: string): Promise<number>
+  clear(): Promise<void>
+}
+
 // Helper export typefor batch processing results
 export interface BatchProcessingResult {
   success: EnhancedPhoto[]
   failed: Array<{
     photo: Photo
     error: Error
+    // Number of annotation attempts made before giving up
+    attempts: number
+    // gRPC status name of the last error, e.g. RESOURCE_EXHAUSTED or INVALID_ARGUMENT
+    code?: string
+    // Whether the last error was transient, i.e. retries were exhausted rather than the image being rejected
+    retryable: boolean
+  }>
+  // Photos skipped because a byte-identical copy is already in the pool
+  duplicates: Array<{
+    photo: Photo
+    duplicateOf: string
+  }>
+}
+
+export interface RestoreResult {
+  restored: EnhancedPhoto[]
+  // Photos without a cached analysis for the current feature set, which need to be analyzed first
+  missing: PhotoRecord[]
+  duplicates: Array<{
+    photo: Omit<Photo, 'buffer'>
+    duplicateOf: string
   }>
 }
+
+/**
+ * Persistent store of analyzed photos, so a selection pool can be rebuilt without analyzing its photos again.
+ */
+export interface AnalyzedPhotoStore {
+  saveAnalyzedPhotos(photos: EnhancedPhoto[], featureFingerprint: string): Promise<void>
+  // Returns photos analyzed with the given feature fingerprint, carrying an empty buffer
+  listAnalyzedPhotos(featureFingerprint: string): Promise<EnhancedPhoto[]>
+}
+
+/**
+ * Options for "on this day" memories: photos taken around the same calendar day in earlier years.
+ */
+export interface OnThisDayOptions extends Omit<HighlightOptions, 'timeRange'> {
+  // Day to remember, in local time
+  date: Date
+  // Photos taken up to this many days before or after the day qualify
+  windowDays: number
+}
+
+export interface OnThisDayYear {
+  year: number
+  // Window around the day in this year
+  start: Date
+  end: Date
+  // Photos in the window that meet the quality threshold
+  candidates: number
+  // Highlights taken from this year, best first
+  highlightIds: string[]
+}
+
+export interface OnThisDayMemories {
+  date: Date
+  windowDays: number
+  // Earlier years with photos in their window, oldest first
+  years: OnThisDayYear[]
+  // Highlights balanced across years, in rank order
+  highlights: EnhancedPhoto[]
+}
+
+/**
+ * Memories of one day as written to a `MemoryStore`.
+ */
+export interface StoredMemories {
+  // Local calendar date the memories are for, as YYYY-MM-DD
+  date: string
+  generatedAt: Date
+  windowDays: number
+  years: OnThisDayYear[]
+  highlights: Array<{
+    photoId: string
+    year: number
+    dateTime: Date
+    title?: string
+    scores?: PhotoScores
+  }>
+}
+
+/**
+ * Persistent store of generated memories, one set per day.
+ */
+export interface MemoryStore {
+  save(memories: StoredMemories): Promise<void>
+  get(date: string): Promise<StoredMemories | undefined>
+  // Dates with stored memories, newest first
+  listDates(): Promise<string[]>
+}
+
+/**
+ * A face in the pool, identified by its photo and its index in the photo's `analysis.faces`.
+ */
+export interface FaceRef {
+  photoId: string
+  faceIndex: number
+}
+
+/**
+ * A recurring person: faces across photos whose landmark signatures match, possibly named or merged by the user.
+ */
+export interface Person {
+  id: string
+  name?: string
+  // Mean signature of the person's faces, which new faces are compared to
+  signature: number[]
+  faces: FaceRef[]
+}
+
+export type PlaceScale = 'spot' | 'neighborhood' | 'city'
+
+// DBSCAN parameters per scale: photos within `radiusMeters` of each other are neighbors, and a photo with at least
+// `minPhotos` neighbors (itself included) is the core of a cluster
+export type PlaceClusteringOptions = Record<PlaceScale, { radiusMeters: number; minPhotos: number }>
+
+/**
+ * A populated place from the bundled cities dataset.
+ */
+export interface GeoPlace {
+  name: string
+  // ISO 3166-1 alpha-2 code
+  countryCode: string
+  country: string
+  latitude: number
+  longitude: number
+  population: number
+}
+
+/**
+ * Photos taken close together at one scale, e.g. the same viewpoint, neighborhood or city.
+ */
+export interface PlaceCluster {
+  // Scale and ID of the cluster's first photo, e.g. "city:local:IMG_0042.jpg"
+  id: string
+  scale: PlaceScale
+  // Mean position of the cluster's photos
+  center: {
+    latitude: number
+    longitude: number
+  }
+  // Distance from the center to the furthest photo
+  radiusMeters: number
+  photoIds: string[]
+  // Nearest city to the center, when one is close enough
+  place?: GeoPlace
+  // Human-readable name of the place, e.g. "Lisbon, Portugal"
+  name?: string
+}
+
+export interface TripDetectionOptions {
+  // A city cluster is a home when photos were taken there on at least this many days, spread over at least this many
+  minActiveDays: number
+  minSpanDays: number
+  // Further homes, e.g. a holiday home, need at least this share of the main home's days with photos
+  secondaryHomeShare: number
+  // Photos further than this from the edge of every home are taken away from home
+  awayDistanceKm: number
+  // A trip ends at a photo taken at home, or when no photo was taken away for longer than this
+  maxGapDays: number
+  // Fewer photos taken away make an outing rather than a trip
+  minPhotos: number
+}
+
+/**
+ * A place the user lives, inferred from where photos were taken on many days over a long period.
+ */
+export interface HomeBase {
+  // ID of the city cluster the home was inferred from, e.g. "city:local:IMG_0042.jpg"
+  id: string
+  center: {
+    latitude: number
+    longitude: number
+  }
+  radiusMeters: number
+  name?: string
+  // Days with photos taken at home, and the first and last of them
+  activeDays: number
+  firstSeen: Date
+  lastSeen: Date
+}
+
+/**
+ * A stretch of photos taken away from home.
+ */
+export interface Trip {
+  // ID of the trip's first photo, e.g. "trip:local:IMG_0042.jpg"
+  id: string
+  start: Date
+  end: Date
+  // Places visited, most photographed first, e.g. ["Lisbon, Portugal", "Porto, Portugal"]
+  destinations: string[]
+  // Furthest a photo of the trip was taken from the nearest home
+  maxDistanceKm: number
+  // Photos taken away, plus photos without a location taken between them
+  photoIds: string[]
+}
+
+export interface TripHighlights {
+  trip: Trip
+  highlights: EnhancedPhoto[]
+}
+
+export interface FaceClusteringOptions {
+  // Largest root-mean-square distance between pose-normalized signatures of the same person
+  maxDistance: number
+  // Faces detected with less confidence, or blurred, are too unreliable to cluster
+  minConfidence: number
+}
+
+/**
+ * Persistent store of the people found in a collection, including names and merges made by the user.
+ */
+export interface PeopleStore {
+  load(): Promise<Person[]>
+  save(people: Person[]): Promise<void>
+}
+
+export type FeedbackAction = 'keep' | 'hide'
+
+/**
+ * A user keeping or hiding a highlight they were shown, with the scores the photo had in that run.
+ */
+export interface FeedbackEvent {
+  userId: string
+  runId: string
+  photoId: string
+  action: FeedbackAction
+  scores: PhotoScores
+  interest: ScoreComponents['interest']
+  createdAt: Date
+}
+
+/**
+ * Score weights fitted to one user's feedback.
+ */
+export interface LearnedWeights {
+  userId: string
+  weights: ScoringProfile['weights']
+  interest: ScoringProfile['interest']
+  // Feedback events the weights were trained on
+  sampleCount: number
+  trainedAt: Date
+}
+
+/**
+ * Persistent store of feedback events and the weights trained from them.
+ */
+export interface FeedbackStore {
+  // Records events; a later event for the same user, run and photo replaces the earlier one
+  record(events: FeedbackEvent[]): Promise<void>
+  list(userId: string): Promise<FeedbackEvent[]>
+  listUserIds(): Promise<string[]>
+  saveWeights(weights: LearnedWeights): Promise<void>
+  getWeights(userId: string): Promise<LearnedWeights | undefined>
+}
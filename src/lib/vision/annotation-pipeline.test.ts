@@ -0,0 +1,126 @@
+import type { GoogleAnnotateImageResponse, VisionProvider } from '@/lib/types'
+import { annotateImages, createRateLimiter, getBackoffDelay } from '@/lib/vision/annotation-pipeline'
+
+const FEATURES = [{ type: 'LABEL_DETECTION' as const }]
+const FAST_RETRIES = { baseDelayMs: 1, maxDelayMs: 1 }
+
+/**
+ * Provider answering each batch with the next scripted result, or echoing the images' contents as labels after that.
+ */
+const createScriptedProvider = (
+  script: Array<Error | ((images: Buffer[]) => GoogleAnnotateImageResponse[])>
+): VisionProvider & { batches: string[][] } => {
+  const provider = {
+    name: 'scripted',
+    batches: [] as string[][],
+    annotateImage: async () => ({}),
+    batchAnnotateImages: async (images: Buffer[]) => {
+      provider.batches.push(images.map(image => image.toString()))
+      const step = script.shift()
+      if (step instanceof Error) throw step
+      return step ? step(images) : images.map(image => ({ labelAnnotations: [{ description: image.toString() }] }))
+    }
+  }
+  return provider
+}
+
+const images = (...names: string[]) => names.map(name => Buffer.from(name))
+
+describe('getBackoffDelay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('doubles the ceiling per attempt up to the maximum', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.999999)
+    const options = { baseDelayMs: 100, maxDelayMs: 1000 }
+
+    expect(getBackoffDelay(1, options)).toBeCloseTo(100)
+    expect(getBackoffDelay(3, options)).toBeCloseTo(400)
+    expect(getBackoffDelay(10, options)).toBeCloseTo(1000)
+  })
+})
+
+describe('createRateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('waits until the window has room for the requested units', async () => {
+    const acquire = createRateLimiter(10)
+    await acquire(6)
+
+    let acquired = false
+    const pending = acquire(6).then(() => {
+      acquired = true
+    })
+
+    await vi.advanceTimersByTimeAsync(59_000)
+    expect(acquired).toBe(false)
+    await vi.advanceTimersByTimeAsync(1_000)
+    await pending
+    expect(acquired).toBe(true)
+  })
+
+  it('lets requests within the limit through right away', async () => {
+    const acquire = createRateLimiter(10)
+
+    await acquire(4)
+    await acquire(6)
+  })
+})
+
+describe('annotateImages', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('annotates images in batches and keeps the input order', async () => {
+    const provider = createScriptedProvider([])
+
+    const outcomes = await annotateImages(images('a', 'b', 'c'), provider, FEATURES, { batchSize: 2, concurrency: 2 })
+
+    expect(provider.batches).toEqual([['a', 'b'], ['c']])
+    expect(outcomes.map(outcome => outcome.response?.labelAnnotations?.[0].description)).toEqual(['a', 'b', 'c'])
+    expect(outcomes.every(outcome => outcome.attempts === 1)).toBe(true)
+  })
+
+  it('retries only the images that failed with a transient error', async () => {
+    const provider = createScriptedProvider([
+      batch => batch.map(image => (image.toString() === 'b' ? { error: { code: 14, message: 'unavailable' } } : {}))
+    ])
+
+    const outcomes = await annotateImages(images('a', 'b'), provider, FEATURES, FAST_RETRIES)
+
+    expect(provider.batches).toEqual([['a', 'b'], ['b']])
+    expect(outcomes.map(outcome => outcome.attempts)).toEqual([1, 2])
+    expect(outcomes[1].response).toBeDefined()
+  })
+
+  it('does not retry permanent per-image errors', async () => {
+    const provider = createScriptedProvider([batch => batch.map(() => ({ error: { code: 3, message: 'bad image' } }))])
+
+    const [outcome] = await annotateImages(images('a'), provider, FEATURES, FAST_RETRIES)
+
+    expect(provider.batches).toHaveLength(1)
+    expect(outcome).toMatchObject({ attempts: 1, code: 'INVALID_ARGUMENT', retryable: false })
+  })
+
+  it('gives up on failed requests after the maximum attempts', async () => {
+    const unavailable = Object.assign(new Error('unavailable'), { code: 14 })
+    const provider = createScriptedProvider([unavailable, unavailable, unavailable])
+
+    const [outcome] = await annotateImages(images('a'), provider, FEATURES, { ...FAST_RETRIES, maxAttempts: 3 })
+
+    expect(provider.batches).toHaveLength(3)
+    expect(outcome).toMatchObject({ attempts: 3, code: 'UNAVAILABLE', retryable: true, error: unavailable })
+  })
+})
@@ -0,0 +1,200 @@
+import type { AnnotationPipelineOptions, GoogleAnnotateImageResponse, GoogleFeature, VisionProvider } from '@/lib/types'
+import { GRPC_STATUS_NAMES, getStatusCode, isRetryableError } from '@/lib/vision/grpc-status'
+
+export const DEFAULT_PIPELINE_OPTIONS: AnnotationPipelineOptions = {
+  batchSize: 8,
+  concurrency: 2,
+  requestsPerMinute: 600,
+  maxAttempts: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000
+}
+
+export interface AnnotationOutcome {
+  response?: GoogleAnnotateImageResponse
+  error?: Error
+  attempts: number
+  code?: string
+  retryable: boolean
+}
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * Computes an exponential backoff delay with full jitter.
+ * @param attempt - Attempt that just failed, starting at 1
+ * @param options - Pipeline options holding the base and maximum delay
+ * @returns Delay in milliseconds
+ */
+export const getBackoffDelay = (attempt: number, options: Pick<AnnotationPipelineOptions, 'baseDelayMs' | 'maxDelayMs'>): number => {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1))
+  return Math.random() * ceiling
+}
+
+/**
+ * Creates a sliding-window rate limiter allowing a number of units per minute.
+ * @param unitsPerMinute - Units allowed within any 60 second window
+ * @returns Function resolving once the requested units may be spent
+ */
+export const createRateLimiter = (unitsPerMinute: number): ((units: number) => Promise<void>) => {
+  const windowMs = 60_000
+  const spent: Array<{ time: number; units: number }> = []
+  let queue = Promise.resolve()
+
+  const acquire = async (units: number): Promise<void> => {
+    const requested = Math.min(units, unitsPerMinute)
+
+    for (;;) {
+      const now = Date.now()
+      while (spent.length > 0 && now - spent[0].time >= windowMs) spent.shift()
+
+      const used = spent.reduce((sum, entry) => sum + entry.units, 0)
+      if (used + requested <= unitsPerMinute) {
+        spent.push({ time: now, units: requested })
+        return
+      }
+
+      // Wait until enough of the window has expired to fit the request
+      let freed = 0
+      let waitUntil = now
+      for (const entry of spent) {
+        freed += entry.units
+        waitUntil = entry.time + windowMs
+        if (used - freed + requested <= unitsPerMinute) break
+      }
+      await sleep(Math.max(waitUntil - now, 1))
+    }
+  }
+
+  // Serialize acquisitions so callers are served in order
+  return units => {
+    const next = queue.then(() => acquire(units))
+    queue = next.catch(() => undefined)
+    return next
+  }
+}
+
+/**
+ * Converts a thrown error or per-image status into an outcome describing the failure.
+ */
+const toFailure = (error: unknown, attempts: number): AnnotationOutcome => {
+  const code = getStatusCode(error)
+  const message = (error as { message?: string } | null | undefined)?.message || String(error)
+
+  return {
+    error: error instanceof Error ? error : new Error(`Failed to analyze photo: ${message}`),
+    attempts,
+    code: code !== undefined ? GRPC_STATUS_NAMES[code] : undefined,
+    retryable: isRetryableError(error)
+  }
+}
+
+/**
+ * Annotates one batch of images, retrying transient failures with exponential backoff.
+ * Whole-request failures retry every pending image; per-image failures retry only the affected images.
+ */
+const annotateBatch = async (
+  images: Buffer[],
+  provider: VisionProvider,
+  features: GoogleFeature[],
+  options: AnnotationPipelineOptions,
+  acquire: (units: number) => Promise<void>
+): Promise<AnnotationOutcome[]> => {
+  const outcomes: AnnotationOutcome[] = new Array(images.length)
+  let pending = images.map((_, index) => index)
+
+  for (let attempt = 1; pending.length > 0; attempt++) {
+    await acquire(pending.length)
+
+    const retry: number[] = []
+    const lastErrors = new Map<number, unknown>()
+
+    try {
+      const responses = await provider.batchAnnotateImages(
+        pending.map(index => images[index]),
+        features
+      )
+
+      pending.forEach((index, position) => {
+        const response = responses[position]
+
+        if (!response) {
+          outcomes[index] = toFailure(new Error('Failed to analyze photo: No result returned'), attempt)
+        } else if (response.error?.code) {
+          if (isRetryableError(response.error) && attempt < options.maxAttempts) {
+            retry.push(index)
+          }
+          lastErrors.set(index, response.error)
+        } else {
+          outcomes[index] = { response, attempts: attempt, retryable: false }
+        }
+      })
+    } catch (error) {
+      pending.forEach(index => {
+        if (isRetryableError(error) && attempt < options.maxAttempts) {
+          retry.push(index)
+        }
+        lastErrors.set(index, error)
+      })
+    }
+
+    lastErrors.forEach((error, index) => {
+      if (!retry.includes(index)) outcomes[index] = toFailure(error, attempt)
+    })
+
+    if (retry.length > 0) {
+      const delay = getBackoffDelay(attempt, options)
+      console.warn(`Retrying ${retry.length} image(s) in ${Math.round(delay)}ms (attempt ${attempt} failed)`)
+      await sleep(delay)
+    }
+
+    pending = retry
+  }
+
+  return outcomes
+}
+
+/**
+ * Annotates images through a Vision provider in concurrent batches with rate limiting and retries.
+ * @param images - Raw image bytes to annotate
+ * @param provider - Vision provider to use
+ * @param features - Vision features to request
+ * @param options - Batching, concurrency, rate limit and retry settings
+ * @returns One outcome per image, in input order
+ */
+export const annotateImages = async (
+  images: Buffer[],
+  provider: VisionProvider,
+  features: GoogleFeature[],
+  options: Partial<AnnotationPipelineOptions> = {}
+): Promise<AnnotationOutcome[]> => {
+  const settings = { ...DEFAULT_PIPELINE_OPTIONS, ...options }
+  const acquire = createRateLimiter(settings.requestsPerMinute)
+  const outcomes: AnnotationOutcome[] = new Array(images.length)
+
+  const batches: number[][] = []
+  for (let start = 0; start < images.length; start += settings.batchSize) {
+    batches.push(images.slice(start, start + settings.batchSize).map((_, offset) => start + offset))
+  }
+
+  let nextBatch = 0
+  const worker = async (): Promise<void> => {
+    while (nextBatch < batches.length) {
+      const batch = batches[nextBatch++]
+      const batchOutcomes = await annotateBatch(
+        batch.map(index => images[index]),
+        provider,
+        features,
+        settings,
+        acquire
+      )
+      batch.forEach((index, position) => {
+        outcomes[index] = batchOutcomes[position]
+      })
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(settings.concurrency, batches.length) }, worker))
+
+  return outcomes
+}
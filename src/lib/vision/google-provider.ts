@@ -0,0 +1,48 @@
+import type { GoogleAnnotateImageResponse, GoogleFeature, VisionProvider } from '@/lib/types'
+import { ImageAnnotatorClient } from '@google-cloud/vision'
+import type { JWTInput } from 'google-auth-library/build/src/auth/credentials'
+
+/**
+ * Vision provider backed by the Google Cloud Vision API.
+ */
+export class GoogleVisionProvider implements VisionProvider {
+  public readonly name = 'google'
+  private readonly client: ImageAnnotatorClient
+
+  constructor(credentials: JWTInput) {
+    this.client = new ImageAnnotatorClient({ credentials })
+  }
+
+  /**
+   * Annotates a single image using the Vision API.
+   * @param image - Raw image bytes
+   * @param features - Vision features to request
+   * @returns Annotation response for the image
+   */
+  public async annotateImage(image: Buffer, features: GoogleFeature[]): Promise<GoogleAnnotateImageResponse> {
+    const [result] = await this.client.annotateImage({
+      image: { content: image },
+      features
+    })
+
+    if (!result) {
+      throw new Error('Failed to analyze photo: No result returned')
+    }
+
+    return result
+  }
+
+  /**
+   * Annotates several images in a single batchAnnotateImages request.
+   * @param images - Raw image bytes
+   * @param features - Vision features to request for every image
+   * @returns One response per image, in input order
+   */
+  public async batchAnnotateImages(images: Buffer[], features: GoogleFeature[]): Promise<GoogleAnnotateImageResponse[]> {
+    const [result] = await this.client.batchAnnotateImages({
+      requests: images.map(image => ({ image: { content: image }, features }))
+    })
+
+    return result.responses || []
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Names of gRPC status codes as returned by the Vision API.
+ */
+export const GRPC_STATUS_NAMES: Record<number, string> = {
+  0: 'OK',
+  1: 'CANCELLED',
+  2: 'UNKNOWN',
+  3: 'INVALID_ARGUMENT',
+  4: 'DEADLINE_EXCEEDED',
+  5: 'NOT_FOUND',
+  6: 'ALREADY_EXISTS',
+  7: 'PERMISSION_DENIED',
+  8: 'RESOURCE_EXHAUSTED',
+  9: 'FAILED_PRECONDITION',
+  10: 'ABORTED',
+  11: 'OUT_OF_RANGE',
+  12: 'UNIMPLEMENTED',
+  13: 'INTERNAL',
+  14: 'UNAVAILABLE',
+  15: 'DATA_LOSS',
+  16: 'UNAUTHENTICATED'
+}
+
+/**
+ * Status codes worth retrying: quota exhaustion, transient unavailability and timeouts.
+ */
+export const RETRYABLE_STATUS_CODES = new Set([8, 14, 4])
+
+/**
+ * Extracts a numeric gRPC status code from an error or status object.
+ * @param error - Error thrown by the Vision client or a per-image status
+ * @returns Status code, or undefined when the error carries none
+ */
+export const getStatusCode = (error: unknown): number | undefined => {
+  const code = (error as { code?: unknown } | null | undefined)?.code
+  return typeof code === 'number' ? code : undefined
+}
+
+/**
+ * Checks whether an error is transient and the request can be retried.
+ * @param error - Error thrown by the Vision client or a per-image status
+ * @returns True for retryable gRPC codes
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  const code = getStatusCode(error)
+  return code !== undefined && RETRYABLE_STATUS_CODES.has(code)
+}
@@ -0,0 +1,61 @@
+import * as fs from 'node:fs/promises'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import type { GoogleAnnotateImageResponse, VisionProvider } from '@/lib/types'
+import { RecordingVisionProvider, ReplayVisionProvider, getRecordingPath } from '@/lib/vision/replay-provider'
+
+const FEATURES = [{ type: 'LABEL_DETECTION' as const }]
+
+const createStubProvider = (responses: Map<string, GoogleAnnotateImageResponse>): VisionProvider => ({
+  name: 'stub',
+  annotateImage: async image => responses.get(image.toString()) as GoogleAnnotateImageResponse,
+  batchAnnotateImages: async images =>
+    images.map(image => responses.get(image.toString()) || { error: { code: 3, message: 'bad image' } })
+})
+
+describe('ReplayVisionProvider', () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'replay-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  it('replays what the recording provider captured', async () => {
+    const response = { labelAnnotations: [{ description: 'Beach', score: 0.9 }] }
+    const recorder = new RecordingVisionProvider(createStubProvider(new Map([['beach', response]])), directory)
+
+    expect(recorder.name).toBe('recording:stub')
+    await recorder.annotateImage(Buffer.from('beach'), FEATURES)
+
+    const replay = new ReplayVisionProvider(directory)
+    expect(await replay.annotateImage(Buffer.from('beach'), FEATURES)).toEqual(response)
+  })
+
+  it('rejects images without a recording', async () => {
+    const replay = new ReplayVisionProvider(directory)
+
+    await expect(replay.annotateImage(Buffer.from('unknown'), FEATURES)).rejects.toThrow('No recorded Vision response')
+  })
+
+  it('reports missing recordings in a batch as per-image errors', async () => {
+    await fs.writeFile(getRecordingPath(directory, Buffer.from('known')), JSON.stringify({ labelAnnotations: [] }))
+    const replay = new ReplayVisionProvider(directory)
+
+    const [known, unknown] = await replay.batchAnnotateImages([Buffer.from('known'), Buffer.from('unknown')], FEATURES)
+
+    expect(known).toEqual({ labelAnnotations: [] })
+    expect(unknown.error?.code).toBe(5)
+  })
+
+  it('does not record failed images of a batch', async () => {
+    const recorder = new RecordingVisionProvider(createStubProvider(new Map([['good', { labelAnnotations: [] }]])), directory)
+
+    await recorder.batchAnnotateImages([Buffer.from('good'), Buffer.from('bad')], FEATURES)
+
+    expect(await fs.readdir(directory)).toEqual([path.basename(getRecordingPath(directory, Buffer.from('good')))])
+  })
+})
@@ -0,0 +1,98 @@
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
+import { sha256 } from '@/lib/hash'
+import type { GoogleAnnotateImageResponse, GoogleFeature, VisionProvider } from '@/lib/types'
+
+/**
+ * Resolves the recording file for an image. Recordings are keyed by the SHA-256 of the image bytes.
+ * @param directory - Directory holding the recordings
+ * @param image - Raw image bytes
+ * @returns Path of the recording file
+ */
+export const getRecordingPath = (directory: string, image: Buffer): string => {
+  return path.join(directory, `${sha256(image)}.json`)
+}
+
+/**
+ * Vision provider that serves previously recorded `AnnotateImageResponse` JSON from disk.
+ * Lets the highlighter run offline and in CI without calling the Vision API.
+ */
+export class ReplayVisionProvider implements VisionProvider {
+  public readonly name = 'replay'
+
+  constructor(private readonly directory: string) {}
+
+  /**
+   * Looks up the recorded response for an image.
+   * The requested features are ignored; the recording is returned as captured.
+   * @param image - Raw image bytes
+   * @returns Recorded annotation response
+   */
+  public async annotateImage(image: Buffer, _features: GoogleFeature[]): Promise<GoogleAnnotateImageResponse> {
+    const recordingPath = getRecordingPath(this.directory, image)
+
+    try {
+      const contents = await fs.readFile(recordingPath, 'utf8')
+      return JSON.parse(contents) as GoogleAnnotateImageResponse
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        throw new Error(`No recorded Vision response for image: ${recordingPath}`)
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Looks up recorded responses for several images.
+   * Missing recordings are reported as per-image NOT_FOUND errors, like the Vision API does for bad images.
+   * @param images - Raw image bytes
+   * @param features - Ignored; recordings are returned as captured
+   * @returns One response per image, in input order
+   */
+  public async batchAnnotateImages(images: Buffer[], features: GoogleFeature[]): Promise<GoogleAnnotateImageResponse[]> {
+    return Promise.all(
+      images.map(image =>
+        this.annotateImage(image, features).catch(error => ({
+          error: { code: 5, message: error.message }
+        }))
+      )
+    )
+  }
+}
+
+/**
+ * Vision provider that forwards requests to another provider and records each response to disk,
+ * producing recordings that `ReplayVisionProvider` can serve later.
+ */
+export class RecordingVisionProvider implements VisionProvider {
+  public readonly name: string
+
+  constructor(
+    private readonly provider: VisionProvider,
+    private readonly directory: string
+  ) {
+    this.name = `recording:${provider.name}`
+  }
+
+  public async annotateImage(image: Buffer, features: GoogleFeature[]): Promise<GoogleAnnotateImageResponse> {
+    const result = await this.provider.annotateImage(image, features)
+
+    await this.record(image, result)
+
+    return result
+  }
+
+  public async batchAnnotateImages(images: Buffer[], features: GoogleFeature[]): Promise<GoogleAnnotateImageResponse[]> {
+    const results = await this.provider.batchAnnotateImages(images, features)
+
+    // Failed images are not recorded so they are retried against the real provider next time
+    await Promise.all(results.map((result, index) => (result.error?.code ? undefined : this.record(images[index], result))))
+
+    return results
+  }
+
+  private async record(image: Buffer, result: GoogleAnnotateImageResponse): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true })
+    await fs.writeFile(getRecordingPath(this.directory, image), JSON.stringify(result, null, 2))
+  }
+}
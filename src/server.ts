@@ -0,0 +1,17 @@
+import { createAnalysisCache, createFeedbackStore, createHighlightPersistence, createVisionProvider } from '@/environment'
+import { createApp } from '@/server/app'
+
+const port = Number(process.env.PORT) || 3000
+
+const app = createApp({
+  visionProvider: createVisionProvider(),
+  analysisCache: createAnalysisCache(),
+  feedbackStore: createFeedbackStore(),
+  persistence: createHighlightPersistence(),
+  // Comma-separated hosts photos may be registered by URL from; any public host when unset
+  download: { allowedHosts: process.env.DOWNLOAD_ALLOWED_HOSTS?.split(',').map(host => host.trim()) }
+})
+
+app.listen(port, () => {
+  console.log(`Nostalgia API listening on port ${port}`)
+})
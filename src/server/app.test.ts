@@ -0,0 +1,151 @@
+import * as http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { HighlightRunRepository } from '@/db/highlight-run-repository'
+import { PhotoRepository } from '@/db/photo-repository'
+import { InMemoryFeedbackStore } from '@/lib/feedback/feedback-store'
+import { type AppOptions, createApp } from '@/server/app'
+import { createTestDatabase } from '@/test/database'
+import { createPngImage, createStubVisionProvider } from '@/test/fixtures'
+import request from 'supertest'
+
+const PHOTO = createPngImage(16, 16, (x, y) => [x * 16, y * 16, 128])
+
+describe('createApp', () => {
+  let baseUrl: string
+  // Serves a photo and an oversized file, standing in for the hosts clients register photos from
+  const imageHost = http.createServer((req, res) => {
+    if (req.url === '/photo.png') {
+      res.setHeader('Content-Type', 'image/png')
+      return res.end(PHOTO)
+    }
+    if (req.url === '/huge.png') return res.end(Buffer.alloc(64 * 1024))
+    res.statusCode = 404
+    res.end()
+  })
+
+  beforeAll(
+    () =>
+      new Promise<void>(resolve =>
+        imageHost.listen(0, '127.0.0.1', () => {
+          baseUrl = `http://127.0.0.1:${(imageHost.address() as AddressInfo).port}`
+          resolve()
+        })
+      )
+  )
+  afterAll(() => new Promise(resolve => imageHost.close(resolve)))
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined)
+  })
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  /**
+   * Creates a collection, registers photos and waits until they're all processed.
+   * @returns The app, the collection ID and each photo's status
+   */
+  const addPhotos = async (photos: unknown[], options: Partial<AppOptions> = {}) => {
+    const app = createApp({ visionProvider: createStubVisionProvider(), ...options })
+    const { body: collection } = await request(app).post('/collections').send({ name: 'Summer' }).expect(201)
+    await request(app).post(`/collections/${collection.id}/photos`).send({ photos }).expect(202)
+
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const { body: progress } = await request(app).get(`/collections/${collection.id}/progress`)
+      if (progress.done) break
+      await new Promise(resolve => setTimeout(resolve, 20))
+    }
+    const { body } = await request(app).get(`/collections/${collection.id}/photos`).expect(200)
+    return { app, collectionId: collection.id as string, statuses: body.photos }
+  }
+
+  it('analyzes uploaded photos and selects highlights among them', async () => {
+    const { app, collectionId, statuses } = await addPhotos([{ id: 'beach', data: PHOTO.toString('base64'), title: 'Beach' }])
+
+    expect(statuses).toEqual([{ id: 'beach', status: 'analyzed' }])
+    const { body } = await request(app).post(`/collections/${collectionId}/highlights`).send({ minQuality: 0 }).expect(200)
+    expect(body.highlights.map((highlight: { id: string }) => highlight.id)).toEqual(['beach'])
+  })
+
+  it('rejects highlight requests naming people that were not found', async () => {
+    const { app, collectionId } = await addPhotos([{ id: 'beach', data: PHOTO.toString('base64') }])
+
+    const { body } = await request(app)
+      .post(`/collections/${collectionId}/highlights`)
+      .send({ people: { anyOf: ['Bob'] } })
+      .expect(400)
+    expect(body.error).toBe('People not found: Bob')
+  })
+
+  it('rejects photos without exactly one of url or data', async () => {
+    const app = createApp({ visionProvider: createStubVisionProvider() })
+    const { body: collection } = await request(app).post('/collections').send({}).expect(201)
+
+    await request(app)
+      .post(`/collections/${collection.id}/photos`)
+      .send({ photos: [{ url: `${baseUrl}/photo.png`, data: PHOTO.toString('base64') }] })
+      .expect(400)
+  })
+
+  it('refuses to download photos from private addresses', async () => {
+    const { statuses } = await addPhotos([{ id: 'internal', url: `${baseUrl}/photo.png` }])
+
+    expect(statuses).toEqual([{ id: 'internal', status: 'failed', error: expect.stringContaining('private address') }])
+  })
+
+  it('downloads photos from allowed hosts within the size limit', async () => {
+    const { statuses } = await addPhotos(
+      [
+        { id: 'photo', url: `${baseUrl}/photo.png` },
+        { id: 'huge', url: `${baseUrl}/huge.png` }
+      ],
+      { download: { allowPrivateNetworks: true, allowedHosts: ['127.0.0.1'], maxBytes: 16 * 1024 } }
+    )
+
+    expect(statuses).toEqual([
+      { id: 'photo', status: 'analyzed' },
+      { id: 'huge', status: 'failed', error: 'Photo is larger than the limit of 16384 bytes' }
+    ])
+  })
+
+  it('records feedback on the highlights of a run', async () => {
+    const feedbackStore = new InMemoryFeedbackStore()
+    const { app, collectionId } = await addPhotos([{ id: 'beach', data: PHOTO.toString('base64') }], { feedbackStore })
+    const { body: run } = await request(app).post(`/collections/${collectionId}/highlights`).send({ minQuality: 0 }).expect(200)
+    const feedbackUrl = `/collections/${collectionId}/highlights/${run.runId}/feedback`
+
+    await request(app)
+      .post(feedbackUrl)
+      .send({ userId: 'ada', events: [{ photoId: 'beach', action: 'keep' }] })
+      .expect(201, { recorded: 1 })
+    await request(app)
+      .post(feedbackUrl)
+      .send({ userId: 'ada', events: [{ photoId: 'city', action: 'hide' }] })
+      .expect(400)
+
+    const [event] = await feedbackStore.list('ada')
+    expect(event).toMatchObject({ runId: run.runId, photoId: 'beach', action: 'keep', scores: run.highlights[0].scores })
+    await request(app).get('/users/ada/weights').expect(404)
+  })
+
+  describe('with a database', () => {
+    let database: Awaited<ReturnType<typeof createTestDatabase>>
+
+    // Starting Postgres in WebAssembly and migrating takes a few seconds
+    beforeAll(async () => {
+      database = await createTestDatabase()
+    }, 30_000)
+    afterAll(() => database.close())
+
+    it('saves analyzed photos and highlight runs', async () => {
+      const persistence = { photos: new PhotoRepository(database.db), runs: new HighlightRunRepository(database.db) }
+      const { app, collectionId } = await addPhotos([{ id: 'beach', data: PHOTO.toString('base64') }], { persistence })
+
+      const { body } = await request(app).post(`/collections/${collectionId}/highlights`).send({ minQuality: 0 }).expect(200)
+
+      expect(await persistence.photos.getPhoto('beach')).toMatchObject({ id: 'beach' })
+      const run = await persistence.runs.getRun(body.runId)
+      expect(run?.highlights.map(highlight => highlight.photoId)).toEqual(['beach'])
+    })
+  })
+})
@@ -0,0 +1,499 @@
+import type { HighlightPersistence } from '@/environment'
+import { EMPTY_INTERACTIONS, createSourcePhotoId } from '@/images/source'
+import { InMemoryFeedbackStore } from '@/lib/feedback/feedback-store'
+import { DEFAULT_HIGHLIGHT_OPTIONS, getPhotoTimeRange, parseHighlightOptions } from '@/lib/highlighter/highlight-options'
+import { listUnknownPeople } from '@/lib/people/person-constraints'
+import type {
+  AnalysisCache,
+  AnnotationPipelineOptions,
+  EnhancedPhoto,
+  FeedbackEvent,
+  FeedbackStore,
+  HighlightOptions,
+  Person,
+  Photo,
+  VisionProvider
+} from '@/lib/types'
+import { type Collection, CollectionRegistry, type PendingPhoto, type RunHighlight } from '@/server/collections'
+import { DEFAULT_DOWNLOAD_OPTIONS, type DownloadOptions, downloadPhoto } from '@/server/download'
+import { HttpError } from '@/server/http-error'
+import cors from 'cors'
+import express, { type NextFunction, type Request, type Response } from 'express'
+import rateLimit from 'express-rate-limit'
+import helmet from 'helmet'
+import { nanoid } from 'nanoid'
+import { fetch } from 'undici'
+import { z } from 'zod'
+
+export interface AppOptions {
+  // Analysis backend; tests pass a stub or replay provider
+  visionProvider: VisionProvider
+  analysisCache?: AnalysisCache
+  annotation?: Partial<AnnotationPipelineOptions>
+  // Requests allowed per client and minute
+  rateLimitPerMinute?: number
+  // Used to download photos registered by URL
+  fetch?: typeof fetch
+  // Time, size and host limits for photos registered by URL
+  download?: Partial<DownloadOptions>
+  // Where keep and hide feedback is recorded and learned weights are read from; in memory by default
+  feedbackStore?: FeedbackStore
+  // Where analyzed photos and highlight runs are saved, e.g. Postgres; not saved by default
+  persistence?: HighlightPersistence
+}
+
+const createCollectionSchema = z
+  .object({
+    name: z.string().min(1).max(200).optional(),
+    qualityEngine: z.enum(['pixel', 'vision']).optional()
+  })
+  .strict()
+
+const photoFieldsSchema = z.object({
+  id: z.string().min(1).max(500).optional(),
+  dateTime: z.coerce.date().optional(),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  location: z.object({ latitude: z.number().min(-90).max(90), longitude: z.number().min(-180).max(180) }).optional(),
+  // Engagement tracked by the client's own photo library, used in scoring
+  interactions: z
+    .object({
+      viewCount: z.number().int().min(0).default(0),
+      shareCount: z.number().int().min(0).default(0),
+      isEdited: z.boolean().default(false),
+      isFavorite: z.boolean().optional(),
+      lastViewed: z.coerce.date().optional()
+    })
+    .strict()
+    .optional()
+})
+
+const photoInputSchema = photoFieldsSchema
+  .extend({
+    // Either a URL to download the photo from or its base64-encoded bytes
+    url: z
+      .string()
+      .url()
+      .refine(url => /^https?:\/\//i.test(url), 'Only http and https URLs are supported')
+      .optional(),
+    data: z.string().base64().optional()
+  })
+  .strict()
+  .refine(input => Boolean(input.url) !== Boolean(input.data), 'Provide exactly one of url or data')
+
+// Raw uploads pass the photo's fields as query parameters
+const uploadQuerySchema = photoFieldsSchema.omit({ location: true, interactions: true }).strict()
+
+const addPhotosSchema = z.object({ photos: z.array(photoInputSchema).min(1).max(500) }).strict()
+
+const userIdSchema = z.string().min(1).max(200)
+
+// Highlight requests may name the user to personalize for; the rest of the body are highlight options
+const selectionRequestSchema = z.object({ userId: userIdSchema.optional() }).passthrough()
+
+const feedbackSchema = z
+  .object({
+    userId: userIdSchema,
+    events: z
+      .array(z.object({ photoId: z.string().min(1), action: z.enum(['keep', 'hide']) }).strict())
+      .min(1)
+      .max(500)
+  })
+  .strict()
+
+const placesQuerySchema = z.object({ scale: z.enum(['spot', 'neighborhood', 'city']).optional() }).strict()
+
+const namePersonSchema = z.object({ name: z.string().max(200) }).strict()
+
+const mergePeopleSchema = z.object({ personIds: z.array(z.string().min(1)).min(1).max(100) }).strict()
+
+type PhotoInput = z.infer<typeof photoInputSchema>
+
+/**
+ * Validates a request body, answering 400 with the zod issues when it doesn't match.
+ */
+const parseBody = <T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, body: unknown): T => {
+  const result = schema.safeParse(body)
+  if (!result.success) {
+    throw new HttpError(400, 'Invalid request body', result.error.issues)
+  }
+  return result.data
+}
+
+/**
+ * Forwards rejected promises from async route handlers to the error handler.
+ */
+const asyncHandler = (handler: (req: Request, res: Response) => Promise<void>) => (req: Request, res: Response, next: NextFunction) =>
+  handler(req, res).catch(next)
+
+/**
+ * Builds a photo from API input once its bytes are available.
+ * Capture time, location and camera details from EXIF replace the given values during analysis.
+ */
+const createPhoto = (id: string, input: Omit<PhotoInput, 'data'>, buffer: Buffer): Photo => ({
+  id,
+  url: input.url || `upload://${id}`,
+  buffer,
+  dateTime: input.dateTime || new Date(),
+  metadata: {
+    title: input.title,
+    description: input.description,
+    location: input.location
+  },
+  interactions: input.interactions || { ...EMPTY_INTERACTIONS },
+  source: {
+    name: input.url ? 'url' : 'upload',
+    ref: input.url || id
+  }
+})
+
+const describeCollection = (collection: Collection) => ({
+  id: collection.id,
+  name: collection.name,
+  createdAt: collection.createdAt.toISOString(),
+  progress: collection.getProgress()
+})
+
+const describePerson = (person: Person) => ({
+  id: person.id,
+  name: person.name,
+  photoIds: [...new Set(person.faces.map(face => face.photoId))],
+  faces: person.faces
+})
+
+const describeHighlight = (photo: EnhancedPhoto) => ({
+  id: photo.id,
+  title: photo.metadata.title,
+  dateTime: photo.dateTime.toISOString(),
+  scores: photo.scores,
+  place: photo.place,
+  burstMemberIds: photo.burst?.memberIds
+})
+
+/**
+ * Completes highlight options with defaults; the time range defaults to the span of the analyzed photos.
+ */
+const resolveHighlightOptions = (input: unknown, photos: EnhancedPhoto[]): HighlightOptions => {
+  const body = (typeof input === 'object' && input !== null ? input : {}) as Record<string, unknown>
+
+  try {
+    return parseHighlightOptions({
+      ...DEFAULT_HIGHLIGHT_OPTIONS,
+      ...body,
+      timeRange: { ...getPhotoTimeRange(photos), ...(body.timeRange as object) }
+    })
+  } catch (error) {
+    throw new HttpError(400, error.message)
+  }
+}
+
+/**
+ * Creates the REST API around highlight selection. Collections are kept in memory.
+ * @param options - Analysis backend, cache and limits
+ * @returns Express application
+ */
+export const createApp = (options: AppOptions) => {
+  const registry = new CollectionRegistry({
+    visionProvider: options.visionProvider,
+    analysisCache: options.analysisCache,
+    annotation: options.annotation,
+    photoStore: options.persistence?.photos
+  })
+  const fetchImage = options.fetch || fetch
+  const downloadOptions = { ...DEFAULT_DOWNLOAD_OPTIONS, ...options.download }
+  const feedbackStore = options.feedbackStore || new InMemoryFeedbackStore()
+  // Options of the latest highlight request per collection, used to score single photos consistently
+  const lastHighlightOptions = new WeakMap<Collection, HighlightOptions>()
+
+  const getCollection = (req: Request): Collection => {
+    const collection = registry.get(req.params.collectionId)
+    if (!collection) throw new HttpError(404, `Collection ${req.params.collectionId} not found`)
+    return collection
+  }
+
+  /**
+   * Resolves highlight options from a request body, blending in the learned weights of the user it names.
+   * People in person constraints must exist in the collection.
+   */
+  const resolveSelectionOptions = async (input: unknown, collection: Collection): Promise<HighlightOptions> => {
+    const { userId, ...body } = parseBody(selectionRequestSchema, input || {})
+    const highlightOptions = resolveHighlightOptions(body, collection.selector.getPhotos())
+    const unknownPeople = highlightOptions.people ? listUnknownPeople(collection.selector.people, highlightOptions.people) : []
+    if (unknownPeople.length > 0) throw new HttpError(400, `People not found: ${unknownPeople.join(', ')}`)
+
+    const learnedWeights = userId && (await feedbackStore.getWeights(userId))
+
+    return learnedWeights ? { ...highlightOptions, learnedWeights } : highlightOptions
+  }
+
+  const app = express()
+  app.use(helmet())
+  app.use(cors())
+  app.use(
+    rateLimit({
+      windowMs: 60_000,
+      limit: options.rateLimitPerMinute || 300,
+      standardHeaders: 'draft-7',
+      legacyHeaders: false
+    })
+  )
+  // Base64 uploads are about a third larger than the images themselves
+  app.use(express.json({ limit: '50mb' }))
+
+  app.get('/health', (_req, res) => {
+    res.json({ status: 'ok' })
+  })
+
+  app.post('/collections', (req, res) => {
+    const body = parseBody(createCollectionSchema, req.body || {})
+    const collection = registry.create(body.name || 'Untitled collection', body.qualityEngine)
+    res.status(201).json(describeCollection(collection))
+  })
+
+  app.get('/collections/:collectionId', (req, res) => {
+    res.json(describeCollection(getCollection(req)))
+  })
+
+  app.get('/collections/:collectionId/progress', (req, res) => {
+    res.json(getCollection(req).getProgress())
+  })
+
+  // Registers photos by URL or base64 data; they're downloaded and analyzed in the background
+  app.post('/collections/:collectionId/photos', (req, res) => {
+    const collection = getCollection(req)
+    const { photos } = parseBody(addPhotosSchema, req.body)
+
+    const pending: PendingPhoto[] = photos.map(({ data, ...input }) => {
+      const id = input.id || createSourcePhotoId(input.url ? 'url' : 'upload', nanoid())
+      return {
+        id,
+        load: async () =>
+          createPhoto(
+            id,
+            input,
+            data ? Buffer.from(data, 'base64') : await downloadPhoto(input.url as string, fetchImage, downloadOptions)
+          )
+      }
+    })
+    collection.enqueue(pending)
+
+    res.status(202).json({ photoIds: pending.map(photo => photo.id), progress: collection.getProgress() })
+  })
+
+  // Uploads one photo as the raw request body, e.g. with Content-Type: image/jpeg
+  app.post('/collections/:collectionId/photos/upload', express.raw({ type: 'image/*', limit: '25mb' }), (req, res) => {
+    const collection = getCollection(req)
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      throw new HttpError(415, 'Send the image bytes with an image/* Content-Type')
+    }
+
+    const input = parseBody(uploadQuerySchema, req.query)
+    const id = input.id || createSourcePhotoId('upload', nanoid())
+    const buffer: Buffer = req.body
+    collection.enqueue([{ id, load: async () => createPhoto(id, input, buffer) }])
+
+    res.status(202).json({ photoIds: [id], progress: collection.getProgress() })
+  })
+
+  app.get('/collections/:collectionId/photos', (req, res) => {
+    res.json({ photos: getCollection(req).listStatuses() })
+  })
+
+  app.post(
+    '/collections/:collectionId/highlights',
+    asyncHandler(async (req, res) => {
+      const collection = getCollection(req)
+      const photos = collection.selector.getPhotos()
+      if (photos.length === 0) {
+        throw new HttpError(409, 'No analyzed photos in this collection yet')
+      }
+
+      const highlightOptions = await resolveSelectionOptions(req.body, collection)
+      lastHighlightOptions.set(collection, highlightOptions)
+      // Explaining runs the same selection and yields the sub-scores feedback is trained on
+      const explanation = await collection.selector.explainSelection(highlightOptions)
+
+      // Feedback on these highlights is posted to /highlights/:runId/feedback
+      const runId = collection.recordRun(explanation)
+      await options.persistence?.runs.saveRun({
+        id: runId,
+        featureFingerprint: collection.selector.featureFingerprint,
+        options: highlightOptions,
+        scoredPhotos: explanation.photos,
+        highlights: explanation.highlights
+      })
+
+      res.json({
+        runId,
+        options: highlightOptions,
+        highlights: explanation.highlights.map(describeHighlight),
+        // Selection only considers photos analyzed so far
+        progress: collection.getProgress()
+      })
+    })
+  )
+
+  // Same selection as /highlights, plus the scores, sub-scores and outcome of every analyzed photo
+  app.post(
+    '/collections/:collectionId/highlights/explain',
+    asyncHandler(async (req, res) => {
+      const collection = getCollection(req)
+      const photos = collection.selector.getPhotos()
+      if (photos.length === 0) {
+        throw new HttpError(409, 'No analyzed photos in this collection yet')
+      }
+
+      const highlightOptions = await resolveSelectionOptions(req.body, collection)
+      const explanation = await collection.selector.explainSelection(highlightOptions)
+
+      res.json({
+        options: highlightOptions,
+        highlights: explanation.highlights.map(describeHighlight),
+        photos: explanation.photos,
+        events: explanation.events,
+        progress: collection.getProgress()
+      })
+    })
+  )
+
+  // Records which highlights of a run the user kept or hid
+  app.post(
+    '/collections/:collectionId/highlights/:runId/feedback',
+    asyncHandler(async (req, res) => {
+      const collection = getCollection(req)
+      const run = collection.getRun(req.params.runId)
+      if (!run) throw new HttpError(404, `Highlight run ${req.params.runId} not found`)
+
+      const { userId, events } = parseBody(feedbackSchema, req.body)
+      const unknown = events.filter(event => !run.has(event.photoId)).map(event => event.photoId)
+      if (unknown.length > 0) {
+        throw new HttpError(400, `Photos weren't highlights of run ${req.params.runId}: ${unknown.join(', ')}`)
+      }
+
+      const createdAt = new Date()
+      const feedback: FeedbackEvent[] = events.map(event => ({
+        userId,
+        runId: req.params.runId,
+        photoId: event.photoId,
+        action: event.action,
+        ...(run.get(event.photoId) as RunHighlight),
+        createdAt
+      }))
+      await feedbackStore.record(feedback)
+
+      res.status(201).json({ recorded: feedback.length })
+    })
+  )
+
+  // Place clusters of the collection's photos, optionally of one scale
+  app.get('/collections/:collectionId/places', (req, res) => {
+    const { scale } = parseBody(placesQuerySchema, req.query)
+    res.json({ places: getCollection(req).selector.getPlaces().list(scale) })
+  })
+
+  // Homes inferred from the collection's photos, and trips away from them
+  app.get('/collections/:collectionId/trips', (req, res) => {
+    const trips = getCollection(req).selector.getTrips()
+    res.json({ homes: trips.listHomes(), trips: trips.listTrips() })
+  })
+
+  // Highlights of each trip overlapping the time range; the limit applies per trip
+  app.post(
+    '/collections/:collectionId/trips/highlights',
+    asyncHandler(async (req, res) => {
+      const collection = getCollection(req)
+      if (collection.selector.getPhotos().length === 0) {
+        throw new HttpError(409, 'No analyzed photos in this collection yet')
+      }
+
+      const highlightOptions = await resolveSelectionOptions(req.body, collection)
+      const trips = await collection.selector.selectTripHighlights(highlightOptions)
+
+      res.json({
+        options: highlightOptions,
+        trips: trips.map(({ trip, highlights }) => ({ ...trip, highlights: highlights.map(describeHighlight) })),
+        progress: collection.getProgress()
+      })
+    })
+  )
+
+  // People recognized across the collection's analyzed photos, most photographed first
+  app.get('/collections/:collectionId/people', (req, res) => {
+    res.json({ people: getCollection(req).selector.people.list().map(describePerson) })
+  })
+
+  app.patch('/collections/:collectionId/people/:personId', (req, res) => {
+    const { people } = getCollection(req).selector
+    if (!people.get(req.params.personId)) throw new HttpError(404, `Person ${req.params.personId} not found`)
+
+    const { name } = parseBody(namePersonSchema, req.body)
+    res.json(describePerson(people.name(req.params.personId, name)))
+  })
+
+  // Merges people the clustering split up into the person in the path
+  app.post('/collections/:collectionId/people/:personId/merge', (req, res) => {
+    const { people } = getCollection(req).selector
+    const { personIds } = parseBody(mergePeopleSchema, req.body)
+    const missing = [req.params.personId, ...personIds].filter(id => !people.get(id))
+    if (missing.length > 0) throw new HttpError(404, `People not found: ${missing.join(', ')}`)
+
+    res.json(describePerson(people.merge(req.params.personId, personIds)))
+  })
+
+  // Weights trained on the user's feedback, as blended into their selections
+  app.get(
+    '/users/:userId/weights',
+    asyncHandler(async (req, res) => {
+      const weights = await feedbackStore.getWeights(req.params.userId)
+      if (!weights) throw new HttpError(404, `No weights trained for user ${req.params.userId}`)
+      res.json(weights)
+    })
+  )
+
+  app.get('/collections/:collectionId/photos/:photoId', (req, res) => {
+    const collection = getCollection(req)
+    const status = collection.getStatus(req.params.photoId)
+    if (!status) throw new HttpError(404, `Photo ${req.params.photoId} not found`)
+
+    const photos = collection.selector.getPhotos()
+    const photo = photos.find(candidate => candidate.id === status.id)
+    if (!photo) {
+      res.json(status)
+      return
+    }
+
+    const highlightOptions = lastHighlightOptions.get(collection) || resolveHighlightOptions({}, photos)
+    const scored = collection.selector.scorePhotos(highlightOptions).find(candidate => candidate.id === photo.id)
+
+    res.json({
+      ...status,
+      dateTime: photo.dateTime.toISOString(),
+      metadata: photo.metadata,
+      dimensions: photo.dimensions,
+      analysis: photo.analysis,
+      scores: scored?.scores
+    })
+  })
+
+  app.use((_req, _res, next) => next(new HttpError(404, 'Not found')))
+
+  // Express recognizes error handlers by their four parameters
+  app.use((error: Error, _req: Request, res: Response, _next: NextFunction) => {
+    if (error instanceof HttpError) {
+      res.status(error.status).json({ error: error.message, details: error.details })
+      return
+    }
+
+    // Body parser errors carry their own status, e.g. 400 for malformed JSON or 413 for oversized bodies
+    const status = (error as { status?: number }).status
+    if (status && status >= 400 && status < 500) {
+      res.status(status).json({ error: error.message })
+      return
+    }
+
+    console.error('Unhandled error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  })
+
+  return app
+}
@@ -0,0 +1,211 @@
+import type { PhotoRepository } from '@/db/photo-repository'
+import { GoogleVisionHighlightSelector } from '@/lib/highlighter/highlighter'
+import type {
+  AnalysisCache,
+  AnnotationPipelineOptions,
+  BatchProcessingResult,
+  FeedbackEvent,
+  Photo,
+  QualityEngine,
+  SelectionExplanation,
+  VisionProvider
+} from '@/lib/types'
+import { nanoid } from 'nanoid'
+
+export type PhotoStatus = 'pending' | 'analyzed' | 'failed' | 'duplicate'
+
+export interface CollectionPhotoStatus {
+  id: string
+  status: PhotoStatus
+  error?: string
+  // gRPC status name for analysis failures
+  code?: string
+  duplicateOf?: string
+}
+
+/**
+ * A photo accepted by the API whose bytes may still have to be downloaded.
+ */
+export interface PendingPhoto {
+  id: string
+  load(): Promise<Photo>
+}
+
+export interface CollectionOptions {
+  visionProvider: VisionProvider
+  analysisCache?: AnalysisCache
+  annotation?: Partial<AnnotationPipelineOptions>
+  qualityEngine?: QualityEngine
+  // Saves photos once they're analyzed, so highlight runs referencing them can be saved too
+  photoStore?: PhotoRepository
+}
+
+// Photos are loaded and analyzed in chunks to bound memory use
+const CHUNK_SIZE = 25
+
+// Highlight runs kept per collection for feedback; older runs can't receive feedback anymore
+const MAX_RUNS = 100
+
+/**
+ * Scores of a highlight as shown in a run, which feedback on it is trained on.
+ */
+export type RunHighlight = Pick<FeedbackEvent, 'scores' | 'interest'>
+
+/**
+ * A set of photos analyzed together and selected from, with the analysis status of each photo.
+ * Photos are processed in the background in the order they were added.
+ */
+export class Collection {
+  public readonly id = nanoid()
+  public readonly createdAt = new Date()
+  public readonly selector: GoogleVisionHighlightSelector
+  private readonly statuses = new Map<string, CollectionPhotoStatus>()
+  private readonly runs = new Map<string, Map<string, RunHighlight>>()
+  private queue = Promise.resolve()
+  private readonly photoStore?: PhotoRepository
+
+  constructor(
+    public readonly name: string,
+    options: CollectionOptions
+  ) {
+    this.photoStore = options.photoStore
+    // Selection only needs the analyses, so image bytes aren't kept for the lifetime of the collection
+    this.selector = new GoogleVisionHighlightSelector(options.visionProvider, {
+      analysisCache: options.analysisCache,
+      annotation: options.annotation,
+      qualityEngine: options.qualityEngine,
+      retainImages: false
+    })
+  }
+
+  /**
+   * Queues photos for download and analysis. Their status is pending until processed.
+   * @param photos - Photos to add
+   */
+  public enqueue(photos: PendingPhoto[]): void {
+    photos.forEach(photo => this.statuses.set(photo.id, { id: photo.id, status: 'pending' }))
+
+    this.queue = this.queue.then(async () => {
+      for (let start = 0; start < photos.length; start += CHUNK_SIZE) {
+        await this.process(photos.slice(start, start + CHUNK_SIZE))
+      }
+    })
+  }
+
+  /**
+   * Resolves once every queued photo has been processed.
+   */
+  public async idle(): Promise<void> {
+    await this.queue
+  }
+
+  public getStatus(photoId: string): CollectionPhotoStatus | undefined {
+    return this.statuses.get(photoId)
+  }
+
+  public listStatuses(): CollectionPhotoStatus[] {
+    return [...this.statuses.values()]
+  }
+
+  /**
+   * Remembers the highlights of a selection so users can give feedback on them.
+   * @param explanation - Selection with the scores and sub-scores of every photo
+   * @returns ID of the run
+   */
+  public recordRun(explanation: SelectionExplanation): string {
+    const id = nanoid()
+    const highlights = new Map(
+      explanation.photos
+        .filter(photo => photo.selected)
+        .map(photo => [photo.id, { scores: photo.scores, interest: photo.components.interest }] as const)
+    )
+    this.runs.set(id, highlights)
+
+    // Maps iterate in insertion order, so the first key is the oldest run
+    if (this.runs.size > MAX_RUNS) {
+      this.runs.delete(this.runs.keys().next().value as string)
+    }
+    return id
+  }
+
+  /**
+   * Looks up the highlights of a recent run by photo ID.
+   */
+  public getRun(runId: string): Map<string, RunHighlight> | undefined {
+    return this.runs.get(runId)
+  }
+
+  /**
+   * Counts photos by status.
+   */
+  public getProgress() {
+    const counts: Record<PhotoStatus, number> = { pending: 0, analyzed: 0, failed: 0, duplicate: 0 }
+    this.statuses.forEach(status => counts[status.status]++)
+
+    return { total: this.statuses.size, ...counts, done: counts.pending === 0 }
+  }
+
+  private async process(pendingPhotos: PendingPhoto[]): Promise<void> {
+    const loaded = await Promise.all(
+      pendingPhotos.map(async pendingPhoto => {
+        try {
+          return await pendingPhoto.load()
+        } catch (error) {
+          this.statuses.set(pendingPhoto.id, { id: pendingPhoto.id, status: 'failed', error: error.message })
+          return undefined
+        }
+      })
+    )
+
+    let result: BatchProcessingResult
+    try {
+      result = await this.selector.addPhotos(loaded.filter((photo): photo is Photo => photo !== undefined))
+    } catch (error) {
+      // Keep the queue alive for later uploads even if a whole chunk fails unexpectedly
+      console.error(`Error analyzing photos in collection ${this.id}:`, error)
+      loaded.forEach(photo => {
+        if (photo) this.statuses.set(photo.id, { id: photo.id, status: 'failed', error: error.message })
+      })
+      return
+    }
+
+    // Saved before the photos are reported as analyzed, so runs selecting them can be saved right away. The photos stay
+    // in the collection if this fails; only runs selecting them can't be saved.
+    try {
+      await this.photoStore?.saveAnalyzedPhotos(result.success, this.selector.featureFingerprint)
+    } catch (error) {
+      console.error(`Error saving analyzed photos of collection ${this.id}:`, error)
+    }
+
+    result.success.forEach(photo => this.statuses.set(photo.id, { id: photo.id, status: 'analyzed' }))
+    result.failed.forEach(({ photo, error, code }) =>
+      this.statuses.set(photo.id, { id: photo.id, status: 'failed', error: error.message, code })
+    )
+    result.duplicates.forEach(({ photo, duplicateOf }) =>
+      this.statuses.set(photo.id, { id: photo.id, status: 'duplicate', duplicateOf })
+    )
+  }
+}
+
+/**
+ * In-memory registry of collections.
+ */
+export class CollectionRegistry {
+  private readonly collections = new Map<string, Collection>()
+
+  constructor(private readonly options: CollectionOptions) {}
+
+  public create(name: string, qualityEngine?: QualityEngine): Collection {
+    const collection = new Collection(name, { ...this.options, qualityEngine: qualityEngine || this.options.qualityEngine })
+    this.collections.set(collection.id, collection)
+    return collection
+  }
+
+  public get(id: string): Collection | undefined {
+    return this.collections.get(id)
+  }
+
+  public list(): Collection[] {
+    return [...this.collections.values()]
+  }
+}
@@ -0,0 +1,118 @@
+import * as dns from 'node:dns'
+import * as http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { DEFAULT_DOWNLOAD_OPTIONS, type DownloadOptions, downloadPhoto, isPrivateAddress } from '@/server/download'
+import { fetch } from 'undici'
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.20.0.1',
+    '192.168.1.10',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '::1',
+    'fe80::1',
+    'fd00::1',
+    '::ffff:127.0.0.1'
+  ])('rejects %s', address => {
+    expect(isPrivateAddress(address)).toBe(true)
+  })
+
+  it.each(['8.8.8.8', '172.32.0.1', '2001:4860:4860::8888'])('accepts %s', address => {
+    expect(isPrivateAddress(address)).toBe(false)
+  })
+})
+
+describe('downloadPhoto', () => {
+  let baseUrl: string
+  const server = http.createServer((request, response) => {
+    switch (request.url) {
+      case '/photo':
+        return response.end('photo bytes')
+      case '/large':
+        return response.end(Buffer.alloc(4096))
+      case '/large-chunked':
+        // Chunked responses carry no Content-Length, so only reading the body finds their size
+        response.write(Buffer.alloc(800))
+        response.write(Buffer.alloc(800))
+        return response.end()
+      case '/slow':
+        return undefined
+      case '/redirect':
+        response.writeHead(302, { Location: '/photo' })
+        return response.end()
+      case '/redirect-elsewhere':
+        response.writeHead(302, { Location: baseUrl.replace('127.0.0.1', 'localhost') })
+        return response.end()
+      default:
+        response.statusCode = 404
+        return response.end()
+    }
+  })
+
+  beforeAll(
+    () =>
+      new Promise<void>(resolve =>
+        server.listen(0, '127.0.0.1', () => {
+          baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+          resolve()
+        })
+      )
+  )
+  afterAll(() => {
+    server.closeAllConnections()
+    return new Promise(resolve => server.close(resolve))
+  })
+
+  const localOptions: DownloadOptions = { ...DEFAULT_DOWNLOAD_OPTIONS, allowPrivateNetworks: true }
+  const download = (path: string, options = localOptions) => downloadPhoto(`${baseUrl}${path}`, fetch, options)
+
+  it('refuses hosts resolving to private addresses', async () => {
+    await expect(download('/photo', DEFAULT_DOWNLOAD_OPTIONS)).rejects.toThrow('resolves to a private address')
+    await expect(downloadPhoto(baseUrl.replace('127.0.0.1', 'localhost'), fetch, DEFAULT_DOWNLOAD_OPTIONS)).rejects.toThrow(
+      'resolves to a private address'
+    )
+  })
+
+  it('connects to the address it checked instead of resolving the host again', async () => {
+    // The check sees a public address; resolving again would rebind localhost to the loopback server
+    const lookupAll = async (_hostname: string, _options: dns.LookupAllOptions) => [{ address: '192.0.2.1', family: 4 }]
+    const lookup = vi.spyOn(dns.promises, 'lookup').mockImplementation(lookupAll as typeof dns.promises.lookup)
+
+    try {
+      await expect(
+        downloadPhoto(`${baseUrl.replace('127.0.0.1', 'localhost')}/photo`, fetch, { ...DEFAULT_DOWNLOAD_OPTIONS, timeoutMs: 500 })
+      ).rejects.toThrow()
+      expect(lookup).toHaveBeenCalledWith('localhost', { all: true })
+    } finally {
+      lookup.mockRestore()
+    }
+  })
+
+  it('downloads from allowed addresses, following redirects', async () => {
+    expect((await download('/photo')).toString()).toBe('photo bytes')
+    expect((await download('/redirect')).toString()).toBe('photo bytes')
+  })
+
+  it('checks every redirect against the allowed hosts', async () => {
+    await expect(download('/redirect-elsewhere', { ...localOptions, allowedHosts: ['127.0.0.1'] })).rejects.toThrow(
+      'Downloads from localhost are not allowed'
+    )
+  })
+
+  it('stops at the size limit, with or without a Content-Length', async () => {
+    await expect(download('/large', { ...localOptions, maxBytes: 1024 })).rejects.toThrow('larger than the limit of 1024 bytes')
+    await expect(download('/large-chunked', { ...localOptions, maxBytes: 1024 })).rejects.toThrow('larger than the limit')
+  })
+
+  it('gives up on downloads that take too long', async () => {
+    await expect(download('/slow', { ...localOptions, timeoutMs: 100 })).rejects.toThrow('timed out after 100ms')
+  })
+
+  it('fails on error statuses', async () => {
+    await expect(download('/missing')).rejects.toThrow('status: 404')
+  })
+})
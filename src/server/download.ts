@@ -0,0 +1,175 @@
+import * as dns from 'node:dns'
+import { BlockList, type LookupFunction, isIP } from 'node:net'
+import { Agent, type Response, type fetch } from 'undici'
+
+export interface DownloadOptions {
+  // Aborts downloads, including redirects, that take longer than this
+  timeoutMs: number
+  // Largest photo accepted, checked against Content-Length and while reading the body
+  maxBytes: number
+  // Only these host names may be downloaded from; any public host when unset
+  allowedHosts?: string[]
+  // Allows loopback, private and link-local addresses, e.g. for photos served on the same network
+  allowPrivateNetworks?: boolean
+}
+
+export const DEFAULT_DOWNLOAD_OPTIONS: DownloadOptions = {
+  timeoutMs: 15_000,
+  maxBytes: 25 * 1024 * 1024
+}
+
+const MAX_REDIRECTS = 3
+
+// Addresses a server shouldn't be made to contact on behalf of clients: loopback, private, link-local (including cloud
+// metadata endpoints), carrier-grade NAT, multicast and reserved ranges. The block list also checks IPv4-mapped IPv6
+// addresses like ::ffff:127.0.0.1 against the IPv4 ranges.
+const PRIVATE_ADDRESSES = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6')
+}
+
+/**
+ * Checks whether an IP address is loopback, private, link-local or otherwise not publicly routable.
+ */
+export const isPrivateAddress = (address: string): boolean => {
+  const version = isIP(address)
+  return version === 0 || PRIVATE_ADDRESSES.check(address, version === 4 ? 'ipv4' : 'ipv6')
+}
+
+/**
+ * Host name of a URL as looked up, in lower case and without the brackets IPv6 literals keep in URLs.
+ */
+const getHostname = (url: URL): string => url.hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase()
+
+/**
+ * Rejects URLs the server must not download from: hosts outside the allowlist, and hosts resolving to private addresses.
+ * @returns The checked addresses of the host, or undefined when private networks are allowed and nothing was checked
+ */
+const assertAllowedUrl = async (url: URL, options: DownloadOptions): Promise<dns.LookupAddress[] | undefined> => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Only http and https URLs are supported, got ${url.protocol}`)
+  }
+
+  const hostname = getHostname(url)
+  if (options.allowedHosts && !options.allowedHosts.some(host => host.toLowerCase() === hostname)) {
+    throw new Error(`Downloads from ${hostname} are not allowed`)
+  }
+  if (options.allowPrivateNetworks) return undefined
+
+  const addresses = await dns.promises.lookup(hostname, { all: true })
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new Error(`Downloads from ${hostname} are not allowed: it resolves to a private address`)
+  }
+  return addresses
+}
+
+/**
+ * Creates a host lookup that answers with the addresses already checked for each host, so a DNS answer changing
+ * between the check and the connection can't point the download at another address. Unchecked hosts resolve as usual.
+ */
+const createPinnedLookup =
+  (checked: Map<string, dns.LookupAddress[]>): LookupFunction =>
+  (hostname, options, callback) => {
+    const addresses = checked.get(hostname.toLowerCase())
+    if (!addresses) return dns.lookup(hostname, options, callback)
+
+    const matching = addresses.filter(({ family }) => !options.family || family === options.family)
+    if (matching.length === 0) {
+      return callback(
+        Object.assign(new Error(`No checked address of ${hostname} for IPv${options.family}`), { code: 'ENOTFOUND' }),
+        ''
+      )
+    }
+    // The callback's types only cover single answers, though net asks for all of them when choosing a family
+    if (options.all) return (callback as unknown as (error: null, addresses: dns.LookupAddress[]) => void)(null, matching)
+    callback(null, matching[0].address, matching[0].family)
+  }
+
+/**
+ * Reads a response body, giving up as soon as it exceeds the size limit rather than buffering all of it.
+ */
+const readBody = async (response: Response, maxBytes: number): Promise<Buffer> => {
+  const tooLarge = () => new Error(`Photo is larger than the limit of ${maxBytes} bytes`)
+  if (Number(response.headers.get('content-length')) > maxBytes) throw tooLarge()
+  if (!response.body) return Buffer.alloc(0)
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) return Buffer.concat(chunks)
+
+    size += value.length
+    if (size > maxBytes) {
+      await reader.cancel()
+      throw tooLarge()
+    }
+    chunks.push(value)
+  }
+}
+
+/**
+ * Downloads a photo registered by URL. Redirects are followed by hand so every hop is checked like the original URL,
+ * and connections go to the addresses that were checked rather than resolving the host again.
+ * @param url - URL given by the client
+ * @param fetchImage - HTTP client, e.g. undici's fetch
+ * @param options - Time, size and host limits
+ * @returns Photo bytes
+ * @throws Error when the URL isn't allowed, the download fails, takes too long or is too large
+ */
+export const downloadPhoto = async (url: string, fetchImage: typeof fetch, options: DownloadOptions): Promise<Buffer> => {
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), options.timeoutMs)
+  const checked = new Map<string, dns.LookupAddress[]>()
+  const dispatcher = new Agent({ connect: { lookup: createPinnedLookup(checked) } })
+
+  try {
+    let target = new URL(url)
+    for (let redirects = 0; ; redirects++) {
+      const addresses = await assertAllowedUrl(target, options)
+      if (addresses) checked.set(getHostname(target), addresses)
+      const response = await fetchImage(target, { redirect: 'manual', signal: controller.signal, dispatcher })
+
+      const location = response.headers.get('location')
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel()
+        if (redirects >= MAX_REDIRECTS) throw new Error(`Too many redirects downloading ${url}`)
+        target = new URL(location, target)
+        continue
+      }
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`)
+      }
+      return await readBody(response, options.maxBytes)
+    }
+  } catch (error) {
+    if (controller.signal.aborted) throw new Error(`Download of ${url} timed out after ${options.timeoutMs}ms`)
+    throw error
+  } finally {
+    clearTimeout(timeout)
+    await dispatcher.destroy()
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Error carrying the HTTP status it should be answered with.
+ */
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly details?: unknown
+  ) {
+    super(message)
+    this.name = 'HttpError'
+  }
+}
@@ -0,0 +1,27 @@
+import * as path from 'node:path'
+import type { Database } from '@/db'
+import * as schema from '@/db/schema'
+import { PGlite } from '@electric-sql/pglite'
+import { getTableName, sql } from 'drizzle-orm'
+import { drizzle } from 'drizzle-orm/pglite'
+import { migrate } from 'drizzle-orm/pglite/migrator'
+
+/**
+ * Creates an in-process Postgres with the committed migrations applied.
+ * @returns The database, a function emptying every table between tests, and one shutting it down
+ */
+export const createTestDatabase = async () => {
+  const client = new PGlite()
+  const pglite = drizzle(client, { schema })
+  await migrate(pglite, { migrationsFolder: path.join(__dirname, '../../drizzle') })
+
+  // Repositories only use the query builder, which is the same for every Postgres driver
+  const db = pglite as unknown as Database
+  const tables = Object.values(schema).map(table => sql.identifier(getTableName(table)))
+
+  return {
+    db,
+    truncate: () => pglite.execute(sql`truncate ${sql.join(tables, sql`, `)} cascade`),
+    close: () => client.close()
+  }
+}
@@ -0,0 +1,59 @@
+import type { FeedbackAction, FeedbackEvent, FeedbackStore } from '@/lib/types'
+
+/**
+ * Builds a feedback event on a photo of run-1.
+ */
+export const createFeedbackEvent = (userId: string, photoId: string, action: FeedbackAction, createdAt: Date): FeedbackEvent => ({
+  userId,
+  runId: 'run-1',
+  photoId,
+  action,
+  scores: { quality: 0.8, interest: 0.5, emotion: 0.4, uniqueness: 0.6, relevance: 0.3, temporal: 0.9, engagement: 0.1, final: 0.6 },
+  interest: { faces: 0.7, landmarks: 0, labels: 0.5, web: 0.2 },
+  createdAt
+})
+
+/**
+ * Checks the behavior every feedback store shares.
+ */
+export const describeFeedbackStore = (createStore: () => Promise<FeedbackStore>) => {
+  let store: FeedbackStore
+
+  beforeEach(async () => {
+    store = await createStore()
+  })
+
+  it('keeps the latest action per user, run and photo', async () => {
+    await store.record([
+      createFeedbackEvent('ada', 'beach', 'keep', new Date(2024, 5, 1)),
+      createFeedbackEvent('ada', 'city', 'hide', new Date(2024, 5, 1))
+    ])
+    await store.record([
+      createFeedbackEvent('ada', 'beach', 'hide', new Date(2024, 5, 2)),
+      createFeedbackEvent('grace', 'beach', 'keep', new Date(2024, 5, 2))
+    ])
+
+    expect(await store.list('ada')).toEqual([
+      createFeedbackEvent('ada', 'city', 'hide', new Date(2024, 5, 1)),
+      createFeedbackEvent('ada', 'beach', 'hide', new Date(2024, 5, 2))
+    ])
+    expect(await store.listUserIds()).toEqual(['ada', 'grace'])
+    expect(await store.list('nobody')).toEqual([])
+  })
+
+  it('replaces the weights of a user', async () => {
+    const weights = {
+      userId: 'ada',
+      weights: { quality: 0.1, interest: 0.1, emotion: 0.5, uniqueness: 0.1, relevance: 0.1, temporal: 0.05, engagement: 0.05 },
+      interest: { faces: 0.7, landmarks: 0.1, labels: 0.1, web: 0.1 },
+      sampleCount: 12,
+      trainedAt: new Date(2024, 5, 3)
+    }
+
+    await store.saveWeights({ ...weights, sampleCount: 4 })
+    await store.saveWeights(weights)
+
+    expect(await store.getWeights('ada')).toEqual(weights)
+    expect(await store.getWeights('grace')).toBeUndefined()
+  })
+}
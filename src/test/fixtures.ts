@@ -0,0 +1,318 @@
+import * as zlib from 'node:zlib'
+import type { EnhancedPhoto, FaceAnalysis, GoogleAnnotateImageResponse, Photo, PhotoAnalysis, VisionProvider } from '@/lib/types'
+import * as jpeg from 'jpeg-js'
+import { PNG } from 'pngjs'
+
+/**
+ * Encodes a PNG whose pixels are painted by a function, e.g. to give test photos distinct content.
+ * @param width - Width in pixels
+ * @param height - Height in pixels
+ * @param paint - Color of a pixel as [red, green, blue]
+ */
+export const createPngImage = (
+  width: number,
+  height: number,
+  paint: (x: number, y: number) => [number, number, number] = () => [128, 128, 128]
+): Buffer => {
+  const png = new PNG({ width, height })
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4
+      const [red, green, blue] = paint(x, y)
+      png.data[offset] = red
+      png.data[offset + 1] = green
+      png.data[offset + 2] = blue
+      png.data[offset + 3] = 255
+    }
+  }
+  return PNG.sync.write(png)
+}
+
+// Strings are written as ASCII, numbers as SHORT and arrays as RATIONAL; `{ long }` writes a LONG, e.g. an IFD pointer
+export type ExifValue = string | number | number[] | { long: number }
+
+/**
+ * Tags of the IFDs an EXIF block may hold, keyed by tag number.
+ */
+export interface ExifFixture {
+  ifd0?: Record<number, ExifValue>
+  exif?: Record<number, ExifValue>
+  gps?: Record<number, ExifValue>
+}
+
+const RATIONAL_DENOMINATOR = 10_000
+
+/**
+ * Encodes one little-endian IFD at `start`, with values that don't fit in an entry stored right after it.
+ */
+const encodeIfd = (tags: Record<number, ExifValue>, start: number): Buffer => {
+  const entries = Object.entries(tags)
+    .map(([tag, value]) => [Number(tag), value] as const)
+    .sort((a, b) => a[0] - b[0])
+  const header = Buffer.alloc(2 + entries.length * 12 + 4)
+  const data: Buffer[] = []
+  let dataOffset = start + header.length
+
+  header.writeUInt16LE(entries.length, 0)
+  entries.forEach(([tag, value], index) => {
+    let type: number
+    let bytes: Buffer
+    if (typeof value === 'string') {
+      type = 2
+      bytes = Buffer.from(`${value}\0`, 'latin1')
+    } else if (typeof value === 'number') {
+      type = 3
+      bytes = Buffer.alloc(2)
+      bytes.writeUInt16LE(value)
+    } else if (Array.isArray(value)) {
+      type = 5
+      bytes = Buffer.alloc(value.length * 8)
+      value.forEach((number, position) => {
+        bytes.writeUInt32LE(Math.round(number * RATIONAL_DENOMINATOR), position * 8)
+        bytes.writeUInt32LE(RATIONAL_DENOMINATOR, position * 8 + 4)
+      })
+    } else {
+      type = 4
+      bytes = Buffer.alloc(4)
+      bytes.writeUInt32LE(value.long)
+    }
+
+    const entryOffset = 2 + index * 12
+    header.writeUInt16LE(tag, entryOffset)
+    header.writeUInt16LE(type, entryOffset + 2)
+    header.writeUInt32LE(type === 5 ? bytes.length / 8 : bytes.length / (type === 3 ? 2 : type === 4 ? 4 : 1), entryOffset + 4)
+    if (bytes.length <= 4) {
+      bytes.copy(header, entryOffset + 8)
+    } else {
+      header.writeUInt32LE(dataOffset, entryOffset + 8)
+      data.push(bytes)
+      dataOffset += bytes.length
+    }
+  })
+
+  return Buffer.concat([header, ...data])
+}
+
+/**
+ * Encodes a TIFF-formatted EXIF block, linking the EXIF and GPS IFDs from IFD0.
+ */
+export const createExifBlock = (fixture: ExifFixture): Buffer => {
+  const withPointers = (exifOffset: number, gpsOffset: number): Record<number, ExifValue> => {
+    const tags: Record<number, ExifValue> = { ...fixture.ifd0 }
+    if (fixture.exif) tags[0x8769] = { long: exifOffset }
+    if (fixture.gps) tags[0x8825] = { long: gpsOffset }
+    return tags
+  }
+  // IFD0's size doesn't depend on the pointer values, so it's measured first and encoded again once they're known
+  const ifd0Size = encodeIfd(withPointers(0, 0), 8).length
+  const exif = fixture.exif ? encodeIfd(fixture.exif, 8 + ifd0Size) : Buffer.alloc(0)
+  const gpsStart = 8 + ifd0Size + exif.length
+  const gps = fixture.gps ? encodeIfd(fixture.gps, gpsStart) : Buffer.alloc(0)
+  const ifd0 = encodeIfd(withPointers(8 + ifd0Size, gpsStart), 8)
+
+  const header = Buffer.from([0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00])
+  return Buffer.concat([header, ifd0, exif, gps])
+}
+
+/**
+ * Encodes a JPEG, optionally with an EXIF block in an APP1 segment right after the start of image.
+ */
+export const createJpegImage = (
+  width: number,
+  height: number,
+  paint: (x: number, y: number) => [number, number, number] = () => [128, 128, 128],
+  exif?: ExifFixture
+): Buffer => {
+  const data = Buffer.alloc(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4
+      const [red, green, blue] = paint(x, y)
+      data[offset] = red
+      data[offset + 1] = green
+      data[offset + 2] = blue
+      data[offset + 3] = 255
+    }
+  }
+  const encoded = jpeg.encode({ width, height, data }, 95).data
+  if (!exif) return encoded
+
+  const payload = Buffer.concat([Buffer.from('Exif\0\0', 'latin1'), createExifBlock(exif)])
+  const segment = Buffer.alloc(4)
+  segment.writeUInt16BE(0xffe1, 0)
+  segment.writeUInt16BE(payload.length + 2, 2)
+  return Buffer.concat([encoded.subarray(0, 2), segment, payload, encoded.subarray(2)])
+}
+
+/**
+ * Builds a photo around image bytes, taken at noon on 1 June 2024 unless overridden.
+ */
+export const createPhoto = (id: string, buffer: Buffer, overrides: Partial<Photo> = {}): Photo => ({
+  id,
+  url: `test://${id}`,
+  buffer,
+  dateTime: new Date(2024, 5, 1, 12),
+  metadata: {},
+  interactions: { viewCount: 0, shareCount: 0, isEdited: false, isFavorite: false },
+  ...overrides
+})
+
+/**
+ * Vision provider answering every image with the same labels, counting the images it was asked to annotate.
+ */
+export const createStubVisionProvider = (
+  response: GoogleAnnotateImageResponse = { labelAnnotations: [{ description: 'Beach', score: 0.9, topicality: 0.9 }] }
+): VisionProvider & { annotated: number } => {
+  const provider = {
+    name: 'stub',
+    annotated: 0,
+    annotateImage: async () => {
+      provider.annotated++
+      return response
+    },
+    batchAnnotateImages: async (images: Buffer[]) => {
+      provider.annotated += images.length
+      return images.map(() => response)
+    }
+  }
+  return provider
+}
+
+/**
+ * Builds a zip file storing the given files uncompressed, e.g. to stand in for a Takeout archive.
+ * @param files - File contents by path within the zip
+ */
+export const createZipArchive = (files: Record<string, Buffer | string>): Buffer => {
+  const localParts: Buffer[] = []
+  const centralParts: Buffer[] = []
+  let offset = 0
+
+  for (const [fileName, contents] of Object.entries(files)) {
+    const name = Buffer.from(fileName)
+    const data = Buffer.from(contents)
+    const crc = zlib.crc32(data)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(20, 4)
+    local.writeUInt32LE(crc, 14)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt32LE(data.length, 22)
+    local.writeUInt16LE(name.length, 26)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(20, 4)
+    central.writeUInt16LE(20, 6)
+    central.writeUInt32LE(crc, 16)
+    central.writeUInt32LE(data.length, 20)
+    central.writeUInt32LE(data.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42)
+
+    localParts.push(local, name, data)
+    centralParts.push(central, name)
+    offset += local.length + name.length + data.length
+  }
+
+  const centralDirectory = Buffer.concat(centralParts)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(Object.keys(files).length, 8)
+  end.writeUInt16LE(Object.keys(files).length, 10)
+  end.writeUInt32LE(centralDirectory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...localParts, centralDirectory, end])
+}
+
+/**
+ * Builds an analyzed photo without an image, for tests of scoring and grouping. Every photo gets a distinct content
+ * hash and dominant color, and no perceptual hashes, so photos are only alike when a test says so.
+ * @param id - Photo ID
+ * @param overrides - Photo fields, plus any analysis fields to replace
+ */
+export const createAnalyzedPhoto = (
+  id: string,
+  overrides: Partial<Omit<EnhancedPhoto, 'analysis'>> & { analysis?: Partial<PhotoAnalysis> } = {}
+): EnhancedPhoto => {
+  const { analysis, ...photo } = overrides
+  // Spread hues apart by ID so unrelated photos don't look alike
+  const hue = [...id].reduce((sum, character) => sum * 31 + character.charCodeAt(0), 7)
+
+  return {
+    ...createPhoto(id, Buffer.alloc(0)),
+    ...photo,
+    analysis: {
+      dimensions: { width: 400, height: 300 },
+      hashes: { content: `content-${id}` },
+      faces: [],
+      labels: [],
+      landmarks: [],
+      imageProperties: {
+        dominantColors: [{ color: { red: hue % 256, green: (hue >> 8) % 256, blue: (hue >> 16) % 256 }, score: 1, pixelFraction: 1 }],
+        brightness: 0.5,
+        contrast: 0.5,
+        sharpness: 0.8
+      },
+      webDetection: {},
+      safeSearch: {},
+      quality: { blurScore: 0.8, exposureScore: 0.8, noiseScore: 0.8, compositionScore: 0.8 },
+      clustering: { timeGroup: '' },
+      ...analysis
+    }
+  }
+}
+
+/**
+ * Builds a detected face, smiling and sharp unless overridden.
+ */
+export const createFace = (overrides: Partial<FaceAnalysis> = {}): FaceAnalysis => ({
+  boundingBox: { left: 0.4, top: 0.3, width: 0.2, height: 0.3 },
+  landmarks: [],
+  emotions: { joy: 1, sorrow: 0, anger: 0, surprise: 0 },
+  confidence: 0.9,
+  blurred: false,
+  headwear: false,
+  ...overrides
+})
+
+// Landmark positions of a face seen from the front, in units of the distance between the eyes
+const FACE_LANDMARKS: Record<string, [number, number]> = {
+  LEFT_EYE: [-0.5, 0],
+  RIGHT_EYE: [0.5, 0],
+  LEFT_EYE_LEFT_CORNER: [-0.7, 0],
+  LEFT_EYE_RIGHT_CORNER: [-0.3, 0],
+  RIGHT_EYE_LEFT_CORNER: [0.3, 0],
+  RIGHT_EYE_RIGHT_CORNER: [0.7, 0],
+  MIDPOINT_BETWEEN_EYES: [0, 0],
+  FOREHEAD_GLABELLA: [0, -0.3],
+  NOSE_TIP: [0, 0.7],
+  NOSE_BOTTOM_LEFT: [-0.2, 0.9],
+  NOSE_BOTTOM_RIGHT: [0.2, 0.9],
+  NOSE_BOTTOM_CENTER: [0, 1],
+  LEFT_CHEEK_CENTER: [-0.6, 0.8],
+  RIGHT_CHEEK_CENTER: [0.6, 0.8],
+  CHIN_GNATHION: [0, 1.8],
+  CHIN_LEFT_GONION: [-0.8, 1.4],
+  CHIN_RIGHT_GONION: [0.8, 1.4]
+}
+
+/**
+ * Builds a face with landmarks, so that faces of the same person cluster together and faces of different people don't.
+ * @param person - Number of the person; each number gives the face a differently shaped profile
+ * @param overrides - Face fields to replace
+ */
+export const createPersonFace = (person: number, overrides: Partial<FaceAnalysis> = {}): FaceAnalysis =>
+  createFace({
+    landmarks: Object.entries(FACE_LANDMARKS).map(([type, [x, y]]) => ({
+      type,
+      // Depth sets the people apart; the eyes and the bottom of the nose stay put since they define the face's frame
+      position: {
+        x: 200 + x * 40,
+        y: 150 + y * 40,
+        z: ['LEFT_EYE', 'RIGHT_EYE', 'NOSE_BOTTOM_CENTER'].includes(type) ? 0 : person * 20
+      }
+    })),
+    ...overrides
+  })
@@ -0,0 +1,11 @@
+import { defineConfig } from 'tsup'
+
+export default defineConfig({
+  entry: ['src/index.ts', 'src/server.ts'],
+  format: ['cjs'],
+  target: 'node20',
+  clean: true,
+  sourcemap: true,
+  // The CLI entry is run directly as the package's bin
+  banner: { js: '#!/usr/bin/env node' }
+})